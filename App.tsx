@@ -1,8 +1,14 @@
-import React, { useState, useCallback } from 'react';
-import { Filter, Music } from 'lucide-react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { Filter, Music, SlidersHorizontal, KanbanSquare, Bookmark, Radar, Building2 } from 'lucide-react';
 import SearchPanel from './components/SearchPanel';
 import ResultsView from './components/ResultsView';
 import MapVisualization from './components/MapVisualization';
+import { ScoringProfileManager } from './components/ScoringProfileManager';
+import { PipelineView } from './components/PipelineView';
+import { SavedSearchesPanel } from './components/SavedSearchesPanel';
+import { PatternPackManager } from './components/PatternPackManager';
+import { ChainListManager } from './components/ChainListManager';
+import { ResumeScanBanner } from './components/ResumeScanBanner';
 import { SamplesPage } from './pages/SamplesPage';
 import { 
   SearchArea, 
@@ -12,7 +18,22 @@ import {
   PriceLevel,
   OperationalStatus
 } from './types';
-import { searchPlacesAggregate } from './services/placesService';
+import { searchPlacesAggregate, applyScoringProfile, reclassifyChains, appendPlace } from './services/placesService';
+import { EnrichmentJob, EnrichmentProgress, isCancellation } from './services/enrichmentQueue';
+import {
+  ScanCheckpoint,
+  ActiveScanCheckpoint,
+  getInterruptedScan,
+  startScanCheckpoint,
+  resumeScanCheckpoint,
+  closeScanCheckpoint,
+  clearScanCheckpoint
+} from './services/scanCheckpoints';
+import { onActiveScoringProfileChange } from './services/scoringEngine';
+import { SavedSearch, SavedSearchRun, rerunSavedSearch, runDueSavedSearches } from './services/savedSearchStore';
+
+// How often to check for scheduled saved searches that are due
+const SAVED_SEARCH_CHECK_MS = 15 * 60 * 1000;
 
 const App: React.FC = () => {
   // State for search configuration
@@ -36,10 +57,53 @@ const App: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [results, setResults] = useState<AggregateResponse | null>(null);
   const [showFilters, setShowFilters] = useState(true);
-  const [currentView, setCurrentView] = useState<'dashboard' | 'samples'>('dashboard');
+  const [currentView, setCurrentView] = useState<'dashboard' | 'samples' | 'pipeline'>('dashboard');
+  const [showScoringProfiles, setShowScoringProfiles] = useState(false);
+  const [showSavedSearches, setShowSavedSearches] = useState(false);
+  const [showPatternPacks, setShowPatternPacks] = useState(false);
+  const [showChainLists, setShowChainLists] = useState(false);
+  const [scanProgress, setScanProgress] = useState<EnrichmentProgress | null>(null);
+  const [interruptedScan, setInterruptedScan] = useState<ScanCheckpoint | null>(null);
+  // The running search; starting another one cancels it so its results never land
+  const searchJob = useRef<EnrichmentJob | null>(null);
+
+  // Re-score the current lead list whenever the active scoring profile changes
+  useEffect(() => {
+    return onActiveScoringProfileChange(() => {
+      setResults(prev => prev ? applyScoringProfile(prev) : prev);
+    });
+  }, []);
+
+  // Offer to resume a lead list scan cut short by a reload
+  useEffect(() => {
+    getInterruptedScan()
+      .then(setInterruptedScan)
+      .catch(error => console.warn('Failed to load scan checkpoints:', error));
+  }, []);
+
+  // Re-run scheduled saved searches while the app is open
+  useEffect(() => {
+    const runDue = () => runDueSavedSearches()
+      .then(runs => runs.length && console.log(`🔁 Re-ran ${runs.length} scheduled saved searches`))
+      .catch(error => console.error('Scheduled saved searches failed', error));
+
+    runDue();
+    const interval = setInterval(runDue, SAVED_SEARCH_CHECK_MS);
+    return () => clearInterval(interval);
+  }, []);
 
   // Handlers
+  // Make `job` the running search, cancelling the previous one
+  const startSearchJob = (): EnrichmentJob => {
+    searchJob.current?.cancel();
+    const job = new EnrichmentJob();
+    searchJob.current = job;
+    return job;
+  };
+
   const handleInitialSearch = useCallback(async () => {
+    const job = startSearchJob();
+    setScanProgress(null);
     setIsLoading(true);
     setResults(null);
     // Auto-hide filters on mobile after search
@@ -48,28 +112,123 @@ const App: React.FC = () => {
     }
     try {
       // First call is typically just a COUNT to be cost-effective
-      const data = await searchPlacesAggregate(area, filters, InsightType.COUNT);
-      setResults(data);
+      const data = await searchPlacesAggregate(area, filters, InsightType.COUNT, job);
+      if (searchJob.current === job) setResults(data);
     } catch (error) {
-      console.error("Search failed", error);
+      if (!isCancellation(error)) console.error("Search failed", error);
     } finally {
-      setIsLoading(false);
+      if (searchJob.current === job) {
+        searchJob.current = null;
+        setIsLoading(false);
+      }
     }
   }, [area, filters]);
 
-  const handleFetchDetailedPlaces = useCallback(async () => {
+  const runPlacesScan = async (scanArea: SearchArea, scanFilters: SearchFilters, resume?: ScanCheckpoint) => {
+    const job = startSearchJob();
+    setScanProgress(job.getProgress());
     setIsLoading(true);
+    setInterruptedScan(null);
+
+    // Without IndexedDB the scan still runs, it just cannot be resumed
+    let checkpoint: ActiveScanCheckpoint | undefined;
+    try {
+      checkpoint = resume ? await resumeScanCheckpoint(resume) : await startScanCheckpoint(scanArea, scanFilters);
+    } catch (error) {
+      console.warn('Scan checkpoints unavailable:', error);
+    }
+    const closeCheckpoint = () => checkpoint && closeScanCheckpoint(checkpoint)
+      .catch(error => console.warn('Failed to clear scan checkpoint:', error));
+
+    // Show each lead as soon as its site scan finishes
+    const unsubscribe = job.on(event => {
+      if (event.type === 'progress') setScanProgress(event.progress);
+      if (event.type === 'place') setResults(prev => appendPlace(prev, event.place));
+    });
+
     try {
       // User explicitly requests the list (INSIGHT_PLACES)
       // This step also performs the "Tech Scan" enrichment in our mock service
-      const data = await searchPlacesAggregate(area, filters, InsightType.PLACES);
-      setResults(data);
+      const data = await searchPlacesAggregate(scanArea, scanFilters, InsightType.PLACES, job, checkpoint);
+      if (searchJob.current === job) setResults(data);
+      closeCheckpoint();
     } catch (error) {
-       console.error("Details fetch failed", error);
+      if (isCancellation(error)) {
+        console.log('🛑 Scan cancelled, keeping the leads found so far');
+        closeCheckpoint();
+      } else {
+        console.error("Details fetch failed", error);
+      }
     } finally {
-      setIsLoading(false);
+      unsubscribe();
+      if (searchJob.current === job) {
+        searchJob.current = null;
+        setScanProgress(null);
+        setIsLoading(false);
+      }
     }
-  }, [area, filters]);
+  };
+
+  const handleFetchDetailedPlaces = useCallback(() => runPlacesScan(area, filters), [area, filters]);
+
+  const handleCancelScan = () => searchJob.current?.cancel();
+
+  const handleResumeScan = (checkpoint: ScanCheckpoint) => {
+    setArea(checkpoint.area);
+    setFilters(checkpoint.filters);
+    setResults(null);
+    runPlacesScan(checkpoint.area, checkpoint.filters, checkpoint);
+  };
+
+  const handleDiscardScan = (checkpoint: ScanCheckpoint) => {
+    setInterruptedScan(null);
+    clearScanCheckpoint(checkpoint.id)
+      .catch(error => console.warn('Failed to clear scan checkpoint:', error));
+  };
+
+  const handleLoadSavedSearch = (search: SavedSearch) => {
+    setArea(search.area);
+    setFilters(search.filters);
+    setShowSavedSearches(false);
+  };
+
+  // Manual re-runs are the running search like any scan: they cancel it, and a later search cancels them
+  const handleSavedSearchRerun = async (id: string): Promise<SavedSearchRun | null> => {
+    const job = startSearchJob();
+    setScanProgress(job.getProgress());
+    setIsLoading(true);
+    const unsubscribe = job.on(event => {
+      if (event.type === 'progress') setScanProgress(event.progress);
+    });
+
+    try {
+      const run = await rerunSavedSearch(id, job);
+      if (searchJob.current === job) {
+        setArea(run.search.area);
+        setFilters(run.search.filters);
+        setResults(run.response);
+      }
+      return run;
+    } catch (error) {
+      if (isCancellation(error)) return null;
+      throw error;
+    } finally {
+      unsubscribe();
+      if (searchJob.current === job) {
+        searchJob.current = null;
+        setScanProgress(null);
+        setIsLoading(false);
+      }
+    }
+  };
+
+  // Re-classify the current lead list with the edited chain lists
+  const handleChainListsChange = () => {
+    if (!results) return;
+    reclassifyChains(results)
+      .then(setResults)
+      .catch(error => console.error('Chain re-classification failed', error));
+  };
 
   return (
     <div className="flex h-screen w-screen overflow-hidden bg-slate-100 font-sans text-slate-900">
@@ -87,10 +246,57 @@ const App: React.FC = () => {
           </div>
           <SamplesPage />
         </div>
+      ) : currentView === 'pipeline' ? (
+        <div className="w-full h-full flex flex-col">
+          <div className="px-8 pt-4">
+            <button
+              onClick={() => setCurrentView('dashboard')}
+              className="bg-indigo-600 text-white px-4 py-2 rounded-lg shadow-lg hover:bg-indigo-700 transition-all flex items-center gap-2 font-medium"
+            >
+              ← Back to Dashboard
+            </button>
+          </div>
+          <PipelineView />
+        </div>
       ) : (
         <>
           {/* Navigation Header */}
           <div className="fixed top-4 right-4 z-50 flex gap-2">
+            <button
+              onClick={() => setCurrentView('pipeline')}
+              className="bg-white/80 text-slate-700 px-4 py-2 rounded-lg shadow-lg hover:bg-white transition-all flex items-center gap-2 font-medium backdrop-blur-sm"
+            >
+              <KanbanSquare size={18} />
+              Pipeline
+            </button>
+            <button
+              onClick={() => setShowSavedSearches(true)}
+              className="bg-white/80 text-slate-700 px-4 py-2 rounded-lg shadow-lg hover:bg-white transition-all flex items-center gap-2 font-medium backdrop-blur-sm"
+            >
+              <Bookmark size={18} />
+              Saved
+            </button>
+            <button
+              onClick={() => setShowScoringProfiles(true)}
+              className="bg-white/80 text-slate-700 px-4 py-2 rounded-lg shadow-lg hover:bg-white transition-all flex items-center gap-2 font-medium backdrop-blur-sm"
+            >
+              <SlidersHorizontal size={18} />
+              Scoring
+            </button>
+            <button
+              onClick={() => setShowPatternPacks(true)}
+              className="bg-white/80 text-slate-700 px-4 py-2 rounded-lg shadow-lg hover:bg-white transition-all flex items-center gap-2 font-medium backdrop-blur-sm"
+            >
+              <Radar size={18} />
+              Patterns
+            </button>
+            <button
+              onClick={() => setShowChainLists(true)}
+              className="bg-white/80 text-slate-700 px-4 py-2 rounded-lg shadow-lg hover:bg-white transition-all flex items-center gap-2 font-medium backdrop-blur-sm"
+            >
+              <Building2 size={18} />
+              Chains
+            </button>
             <button
               onClick={() => setCurrentView('samples')}
               className="bg-gradient-to-r from-purple-600 to-blue-600 text-white px-4 py-2 rounded-lg shadow-lg hover:shadow-xl transition-all flex items-center gap-2 font-medium"
@@ -137,21 +343,57 @@ const App: React.FC = () => {
         <div className="flex-1 flex flex-col lg:flex-row h-full">
           
           {/* Center: Data/Results */}
-          <div className="flex-1 h-1/2 lg:h-full lg:w-3/5 border-r border-slate-200">
-            <ResultsView 
-              data={results}
-              onFetchPlaces={handleFetchDetailedPlaces}
-              isLoading={isLoading}
-            />
+          <div className="flex-1 h-1/2 lg:h-full lg:w-3/5 border-r border-slate-200 flex flex-col">
+            {interruptedScan && !isLoading && (
+              <ResumeScanBanner
+                checkpoint={interruptedScan}
+                onResume={handleResumeScan}
+                onDiscard={handleDiscardScan}
+              />
+            )}
+            <div className="flex-1 min-h-0 flex flex-col">
+              <ResultsView 
+                data={results}
+                onFetchPlaces={handleFetchDetailedPlaces}
+                isLoading={isLoading}
+                scanProgress={scanProgress}
+                onCancelScan={handleCancelScan}
+              />
+            </div>
           </div>
 
           {/* Right: Map */}
           <div className="h-1/2 lg:h-full lg:w-2/5 relative hidden md:block">
-            <MapVisualization data={results} />
+            <MapVisualization data={results} area={area} setArea={setArea} />
           </div>
 
         </div>
       </main>
+
+      <ScoringProfileManager
+        isOpen={showScoringProfiles}
+        onClose={() => setShowScoringProfiles(false)}
+      />
+
+      <PatternPackManager
+        isOpen={showPatternPacks}
+        onClose={() => setShowPatternPacks(false)}
+      />
+
+      <ChainListManager
+        isOpen={showChainLists}
+        onClose={() => setShowChainLists(false)}
+        onChange={handleChainListsChange}
+      />
+
+      <SavedSearchesPanel
+        isOpen={showSavedSearches}
+        onClose={() => setShowSavedSearches(false)}
+        area={area}
+        filters={filters}
+        onLoad={handleLoadSavedSearch}
+        onRerun={handleSavedSearchRerun}
+      />
       
         </>
       )}
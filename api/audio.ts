@@ -0,0 +1,273 @@
+// Vercel serverless function for audio generation (FAL AI music, ElevenLabs voiceover, FFmpeg mixing)
+// and the audio asset store. API keys stay on the server; generated audio is stored and returned as
+// asset IDs with signed links. Everything but streaming is only answered for the app's own pages (same
+// origin, or AUDIO_ALLOWED_ORIGINS) or for server-side callers with AUDIO_API_TOKEN as a bearer token:
+//   POST   { action: music | voiceover | mix | jingle | share, ... }
+//   GET    ?id=&expires=&signature=   stream an asset (supports Range requests; the signature is the only credential)
+//   GET    ?placeId=&kind=            list assets
+//   DELETE ?id=&placeId=              delete an asset (or one restaurant's reference to it)
+import { timingSafeEqual } from 'crypto';
+import { GeneratedTrack, getAudioProvider } from '../scripts/audioProviders.js';
+import { AudioAsset, AudioAssetKind, AudioAssetMetadata, getAudioAssetStore } from '../scripts/audioAssetStore.js';
+import { MUSIC_STYLE_PROMPTS, VOICE_OPTIONS } from '../scripts/generateAudio.js';
+
+const MAX_TEXT_LENGTH = 2000; // Characters of voiceover per request (ElevenLabs bills per character)
+const MAX_DURATION = 47; // Longest clip FAL Stable Audio generates, in seconds
+
+const APP_LINK_TTL = 24 * 60 * 60; // Links returned to the app
+const SHARE_LINK_TTL_DAYS = 30; // Default for preview links in outreach emails
+const MAX_SHARE_LINK_TTL_DAYS = 365;
+
+// Fail when the function loads, not on the first request, if the store is misconfigured
+getAudioAssetStore();
+
+const musicPrompt = (style: unknown, prompt: unknown): string =>
+    [MUSIC_STYLE_PROMPTS[style as string] || MUSIC_STYLE_PROMPTS.upbeat, typeof prompt === 'string' ? prompt : '']
+        .filter(Boolean)
+        .join(', ');
+
+const clampDuration = (duration: unknown): number =>
+    Math.min(MAX_DURATION, Math.max(1, Number(duration) || 15));
+
+// Origins allowed to call the route from a browser (comma-separated AUDIO_ALLOWED_ORIGINS; the Vite dev server by default)
+const allowedOrigins = (): string[] =>
+    (process.env.AUDIO_ALLOWED_ORIGINS || 'http://localhost:3000').split(',').map(origin => origin.trim()).filter(Boolean);
+
+// Browser requests from the app's pages: same-origin fetch metadata, or an Origin on the allowed list or this host
+function fromApp(req): boolean {
+    const headers = req.headers || {};
+    if (headers['sec-fetch-site'] === 'same-origin') return true;
+
+    const origin = headers.origin;
+    if (typeof origin !== 'string') return false;
+    if (allowedOrigins().includes(origin)) return true;
+    try {
+        return new URL(origin).host === headers.host;
+    } catch {
+        return false;
+    }
+}
+
+// Whether the request comes from the app, or carries AUDIO_API_TOKEN as "Authorization: Bearer <token>"
+// (server-side callers only: the token is never part of the browser bundle); answers 401/403 when not
+function authorize(req, res): boolean {
+    const header = req.headers?.authorization;
+    if (typeof header !== 'string' || !header) {
+        if (fromApp(req)) return true;
+        res.status(403).json({ error: 'Audio API requests must come from the app or carry AUDIO_API_TOKEN' });
+        return false;
+    }
+
+    const expected = Buffer.from(`Bearer ${process.env.AUDIO_API_TOKEN || ''}`);
+    const actual = Buffer.from(header);
+    if (!process.env.AUDIO_API_TOKEN || actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+        res.status(401).json({ error: 'Invalid audio API token' });
+        return false;
+    }
+    return true;
+}
+
+// Absolute base URL for links that leave the app (PUBLIC_BASE_URL, else the request's host)
+const baseUrl = (req): string => {
+    if (process.env.PUBLIC_BASE_URL) return process.env.PUBLIC_BASE_URL.replace(/\/$/, '');
+    const proto = req.headers?.['x-forwarded-proto'] || 'http';
+    return `${proto}://${req.headers?.host || 'localhost:3001'}`;
+};
+
+function signedUrl(req, id: string, ttlSeconds: number): { url: string; expiresAt: string } {
+    const { expires, signature } = getAudioAssetStore().sign(id, ttlSeconds);
+    return {
+        url: `${baseUrl(req)}/api/audio?id=${encodeURIComponent(id)}&expires=${expires}&signature=${signature}`,
+        expiresAt: new Date(expires * 1000).toISOString()
+    };
+}
+
+const withUrl = (req, asset: AudioAsset) => ({ ...asset, url: signedUrl(req, asset.id, APP_LINK_TTL).url });
+
+// Parse "bytes=start-end" against the asset size; null when unsatisfiable
+function parseRange(header: string, size: number): [number, number] | null {
+    const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+    if (!match || (!match[1] && !match[2])) return null;
+    const start = match[1] ? Number(match[1]) : Math.max(0, size - Number(match[2]));
+    const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+    return start <= end && start < size ? [start, end] : null;
+}
+
+async function streamAsset(req, res) {
+    const { id, expires, signature } = req.query;
+    const store = getAudioAssetStore();
+
+    if (typeof signature !== 'string' || !store.verify(id, Number(expires), signature)) {
+        return res.status(403).json({ error: 'Invalid or expired audio link' });
+    }
+
+    const asset = await store.get(id);
+    const data = asset ? await store.read(id) : null;
+    if (!asset || !data) {
+        return res.status(404).json({ error: 'Audio asset not found' });
+    }
+
+    res.setHeader('Content-Type', asset.contentType);
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('Cache-Control', 'private, max-age=86400');
+
+    const rangeHeader = req.headers?.range;
+    if (typeof rangeHeader === 'string') {
+        const range = parseRange(rangeHeader, data.length);
+        if (!range) {
+            res.setHeader('Content-Range', `bytes */${data.length}`);
+            return res.status(416).end();
+        }
+        res.setHeader('Content-Range', `bytes ${range[0]}-${range[1]}/${data.length}`);
+        return res.status(206).send(data.subarray(range[0], range[1] + 1));
+    }
+    return res.status(200).send(data);
+}
+
+export default async function handler(req, res) {
+    // CORS headers (same-origin requests from the deployed app need none)
+    const origin = req.headers?.origin;
+    if (typeof origin === 'string' && allowedOrigins().includes(origin)) {
+        res.setHeader('Access-Control-Allow-Origin', origin);
+        res.setHeader('Vary', 'Origin');
+    }
+    res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS,DELETE,POST');
+    res.setHeader(
+        'Access-Control-Allow-Headers',
+        'Authorization, X-Requested-With, Accept, Content-Length, Content-Type, Range'
+    );
+    res.setHeader('Access-Control-Expose-Headers', 'Content-Range, Accept-Ranges');
+
+    // Handle OPTIONS request
+    if (req.method === 'OPTIONS') {
+        res.status(200).end();
+        return;
+    }
+
+    const store = getAudioAssetStore();
+
+    if (req.method === 'GET' && req.query.id) {
+        return streamAsset(req, res);
+    }
+
+    if (!authorize(req, res)) return;
+
+    if (req.method === 'GET') {
+        const { placeId, kind } = req.query;
+        const assets = await store.list({
+            placeId: typeof placeId === 'string' ? placeId : undefined,
+            kind: typeof kind === 'string' ? kind as AudioAssetKind : undefined
+        });
+        return res.status(200).json({ assets: assets.map(asset => withUrl(req, asset)) });
+    }
+
+    if (req.method === 'DELETE') {
+        const { id, placeId } = req.query;
+        const deleted = await store.delete(id, typeof placeId === 'string' ? placeId : undefined);
+        return deleted ? res.status(200).json({ deleted: true }) : res.status(404).json({ error: 'Audio asset not found' });
+    }
+
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const body = req.body || {};
+    const text = typeof body.text === 'string' ? body.text.trim() : '';
+    const voiceId = typeof body.voiceId === 'string' && body.voiceId ? body.voiceId : VOICE_OPTIONS.rachel;
+
+    if ((body.action === 'voiceover' || body.action === 'jingle') && (!text || text.length > MAX_TEXT_LENGTH)) {
+        return res.status(400).json({ error: `text is required (at most ${MAX_TEXT_LENGTH} characters)` });
+    }
+
+    if (body.action === 'share') {
+        const asset = await store.get(body.assetId);
+        if (!asset) {
+            return res.status(404).json({ error: 'Audio asset not found' });
+        }
+        const days = Math.min(MAX_SHARE_LINK_TTL_DAYS, Math.max(1, Number(body.expiresInDays) || SHARE_LINK_TTL_DAYS));
+        return res.status(200).json(signedUrl(req, asset.id, days * 24 * 60 * 60));
+    }
+
+    const provider = getAudioProvider();
+    if (!provider) {
+        return res.status(503).json({
+            error: 'Audio generation not configured',
+            details: 'Set FAL_KEY and ELEVENLABS_API_KEY, or AUDIO_PROVIDER=stub for placeholder audio'
+        });
+    }
+    const duration = clampDuration(body.duration);
+    const style = typeof body.style === 'string' ? body.style : undefined;
+    const context: AudioAssetMetadata = {
+        placeIds: typeof body.placeId === 'string' && body.placeId ? [body.placeId] : [],
+        restaurantName: typeof body.restaurantName === 'string' ? body.restaurantName : undefined,
+        provider: provider.name
+    };
+
+    const save = (track: GeneratedTrack, kind: AudioAssetKind, metadata: Partial<AudioAssetMetadata> = {}) =>
+        store.save(track, kind, { ...context, ...metadata });
+    const saved = (asset: AudioAsset) => ({ assetId: asset.id, url: withUrl(req, asset).url, provider: provider.name });
+
+    try {
+        switch (body.action) {
+            case 'music': {
+                const track = await provider.generateMusic(musicPrompt(style, body.prompt), duration);
+                return res.status(200).json(saved(await save(track, 'music', { musicStyle: style, duration })));
+            }
+
+            case 'voiceover': {
+                const track = await provider.generateVoiceover(text, voiceId);
+                return res.status(200).json(saved(await save(track, 'voiceover', { script: text, voiceId })));
+            }
+
+            case 'mix': {
+                const [musicAsset, voiceoverAsset] = await Promise.all([store.get(body.musicAssetId), store.get(body.voiceoverAssetId)]);
+                const [music, voiceover] = await Promise.all([store.read(body.musicAssetId), store.read(body.voiceoverAssetId)]);
+                if (!musicAsset || !voiceoverAsset || !music || !voiceover) {
+                    return res.status(404).json({ error: 'Audio asset not found' });
+                }
+                const track = await provider.mix(music, voiceover);
+                const asset = await save(track, 'mix', {
+                    script: voiceoverAsset.script,
+                    voiceId: voiceoverAsset.voiceId,
+                    musicStyle: musicAsset.musicStyle,
+                    duration: musicAsset.duration
+                });
+                return res.status(200).json(saved(asset));
+            }
+
+            case 'jingle': {
+                console.log(`🎵 Generating jingle with the ${provider.name} audio provider...`);
+
+                const [music, voiceover] = await Promise.all([
+                    provider.generateMusic(musicPrompt(style, body.prompt), duration),
+                    provider.generateVoiceover(text, voiceId)
+                ]);
+                const mixed = await provider.mix(music.data, voiceover.data);
+
+                const musicAsset = await save(music, 'music', { musicStyle: style, duration });
+                const voiceoverAsset = await save(voiceover, 'voiceover', { script: text, voiceId });
+                const mixedAsset = await save(mixed, 'mix', { script: text, voiceId, musicStyle: style, duration });
+
+                return res.status(200).json({
+                    musicAssetId: musicAsset.id,
+                    voiceoverAssetId: voiceoverAsset.id,
+                    mixedAssetId: mixedAsset.id,
+                    urls: {
+                        music: withUrl(req, musicAsset).url,
+                        voiceover: withUrl(req, voiceoverAsset).url,
+                        mixed: withUrl(req, mixedAsset).url
+                    },
+                    previewUrl: signedUrl(req, mixedAsset.id, SHARE_LINK_TTL_DAYS * 24 * 60 * 60).url,
+                    duration,
+                    provider: provider.name
+                });
+            }
+
+            default:
+                return res.status(400).json({ error: 'action must be one of music, voiceover, mix, jingle or share' });
+        }
+    } catch (error) {
+        console.error('Audio generation error:', error.message);
+        return res.status(500).json({ error: 'Audio generation failed', details: error.message });
+    }
+}
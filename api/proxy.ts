@@ -1,4 +1,8 @@
 // Vercel serverless function for web crawling proxy
+
+// Upstream response headers passed back to the crawler (they identify hosting platforms and CDNs)
+const FORWARDED_HEADERS = ['server', 'x-powered-by', 'x-generator', 'content-type', 'last-modified', 'via', 'x-served-by'];
+
 export default async function handler(req, res) {
     // CORS headers
     res.setHeader('Access-Control-Allow-Credentials', true);
@@ -41,6 +45,15 @@ export default async function handler(req, res) {
             return res.status(response.status).send(`Failed to fetch: ${response.status}`);
         }
 
+        const upstreamHeaders: Record<string, string> = {};
+        for (const name of FORWARDED_HEADERS) {
+            const value = response.headers.get(name);
+            if (value) upstreamHeaders[name] = value;
+        }
+        res.setHeader('X-Upstream-Headers', JSON.stringify(upstreamHeaders));
+        res.setHeader('X-Final-Url', response.url);
+        res.setHeader('Access-Control-Expose-Headers', 'X-Upstream-Headers, X-Final-Url');
+
         const body = await response.text();
         return res.status(200).send(body);
     } catch (error) {
@@ -0,0 +1,277 @@
+/**
+ * Chain List Manager Component
+ *
+ * Edits the chain names chain detection matches against and the places that
+ * are never treated as chains; lists can be exported and imported as JSON.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Building2, Plus, Trash2, RotateCcw, Download, Upload, AlertCircle, ShieldCheck } from 'lucide-react';
+import {
+  ChainListEntry,
+  ChainLists,
+  ChainOverrideType,
+  getChainListEntries,
+  getChainLists,
+  addCustomChain,
+  removeChain,
+  addNeverChainOverride,
+  removeNeverChainOverride,
+  exportChainLists,
+  importChainLists
+} from '../services/chainDetector';
+
+interface ChainListManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChange: () => void; // Lists changed; re-classify the current results
+}
+
+export const ChainListManager: React.FC<ChainListManagerProps> = ({ isOpen, onClose, onChange }) => {
+  const [entries, setEntries] = useState<ChainListEntry[]>([]);
+  const [lists, setLists] = useState<ChainLists>(getChainLists());
+  const [filter, setFilter] = useState('');
+  const [newChain, setNewChain] = useState('');
+  const [overrideType, setOverrideType] = useState<ChainOverrideType>('domain');
+  const [overrideValue, setOverrideValue] = useState('');
+  const [overrideLabel, setOverrideLabel] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const refresh = () => {
+    setEntries(getChainListEntries());
+    setLists(getChainLists());
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      refresh();
+      setError(null);
+    }
+  }, [isOpen]);
+
+  // Apply a change to the stored lists, then refresh the view and the results
+  const update = (change: () => void) => {
+    try {
+      change();
+      setError(null);
+      refresh();
+      onChange();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const handleAddChain = () => update(() => {
+    addCustomChain(newChain);
+    setNewChain('');
+  });
+
+  const handleAddOverride = () => update(() => {
+    addNeverChainOverride(overrideType, overrideValue, overrideLabel.trim() || undefined);
+    setOverrideValue('');
+    setOverrideLabel('');
+  });
+
+  const handleExport = () => {
+    const blob = new Blob([exportChainLists()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `ownerscout-chain-lists-${new Date().toISOString().split('T')[0]}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    const json = await file.text();
+    update(() => importChainLists(json));
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  if (!isOpen) return null;
+
+  const query = filter.trim().toLowerCase();
+  const visibleEntries = query ? entries.filter(e => e.name.toLowerCase().includes(query)) : entries;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full p-6 space-y-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Building2 className="w-5 h-5 text-indigo-600" />
+            Chain Lists
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <p className="text-sm text-slate-600">
+          Restaurants whose name contains a listed chain are disqualified as chains. Remove wrong matches,
+          add local chains, or mark a place as never a chain by its Google place ID or website domain.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 flex-1 min-h-0">
+          <div className="flex flex-col gap-2 min-h-0">
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+              Chains ({entries.length})
+            </h3>
+            <div className="flex gap-2">
+              <input
+                value={newChain}
+                onChange={(e) => setNewChain(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddChain()}
+                placeholder="Add chain name"
+                className="flex-1 rounded-lg border border-slate-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button
+                onClick={handleAddChain}
+                className="px-3 py-1.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium flex items-center gap-1"
+              >
+                <Plus size={14} /> Add
+              </button>
+            </div>
+            <input
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter…"
+              className="rounded-lg border border-slate-200 px-3 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <div className="flex-1 overflow-y-auto border border-slate-200 rounded-lg divide-y divide-slate-100 min-h-[200px]">
+              {visibleEntries.map(entry => (
+                <div key={entry.name} className="flex items-center justify-between px-3 py-1.5 text-sm">
+                  <span className="text-slate-800">
+                    {entry.name}
+                    {!entry.builtIn && (
+                      <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] font-bold bg-indigo-100 text-indigo-700">CUSTOM</span>
+                    )}
+                  </span>
+                  <button
+                    onClick={() => update(() => removeChain(entry.name))}
+                    className="p-1 text-slate-400 hover:text-red-600"
+                    aria-label={`Remove ${entry.name}`}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            {lists.removedChains.length > 0 && (
+              <div className="text-xs text-slate-500 space-y-1">
+                <div className="font-semibold">Removed built-in chains</div>
+                <div className="flex flex-wrap gap-1">
+                  {lists.removedChains.map(name => (
+                    <button
+                      key={name}
+                      onClick={() => update(() => addCustomChain(name))}
+                      className="px-2 py-0.5 rounded-full border border-slate-200 hover:bg-slate-50 flex items-center gap-1"
+                      title="Restore"
+                    >
+                      <RotateCcw size={10} /> {name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col gap-2 min-h-0">
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+              Never a chain ({lists.neverChain.length})
+            </h3>
+            <div className="flex gap-2">
+              <select
+                value={overrideType}
+                onChange={(e) => setOverrideType(e.target.value as ChainOverrideType)}
+                className="rounded-lg border border-slate-300 px-2 py-1.5 text-sm"
+              >
+                <option value="domain">Domain</option>
+                <option value="placeId">Place ID</option>
+              </select>
+              <input
+                value={overrideValue}
+                onChange={(e) => setOverrideValue(e.target.value)}
+                placeholder={overrideType === 'domain' ? 'fiveguyspizzaco.com' : 'ChIJ…'}
+                className="flex-1 min-w-0 rounded-lg border border-slate-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+            <div className="flex gap-2">
+              <input
+                value={overrideLabel}
+                onChange={(e) => setOverrideLabel(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddOverride()}
+                placeholder="Restaurant name (optional)"
+                className="flex-1 rounded-lg border border-slate-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button
+                onClick={handleAddOverride}
+                className="px-3 py-1.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium flex items-center gap-1"
+              >
+                <ShieldCheck size={14} /> Add
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto border border-slate-200 rounded-lg divide-y divide-slate-100 min-h-[200px]">
+              {lists.neverChain.length === 0 && (
+                <div className="px-3 py-4 text-xs text-slate-400 text-center">No overrides yet</div>
+              )}
+              {lists.neverChain.map(override => (
+                <div key={`${override.type}|${override.value}`} className="flex items-center justify-between px-3 py-1.5 text-sm">
+                  <span className="min-w-0">
+                    <span className="block text-slate-800 truncate">{override.label || override.value}</span>
+                    <span className="block text-[10px] text-slate-400 truncate">
+                      {override.type === 'domain' ? 'Domain' : 'Place ID'}: {override.value}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => update(() => removeNeverChainOverride(override.type, override.value))}
+                    className="p-1 text-slate-400 hover:text-red-600"
+                    aria-label={`Remove override for ${override.label || override.value}`}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs text-red-700 whitespace-pre-wrap flex gap-2">
+            <AlertCircle size={14} className="shrink-0 mt-0.5" />
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => handleImport(e.target.files?.[0])}
+          />
+          <button
+            onClick={() => fileInput.current?.click()}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 flex items-center gap-2"
+          >
+            <Upload size={14} /> Import JSON
+          </button>
+          <button
+            onClick={handleExport}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium flex items-center gap-2"
+          >
+            <Download size={14} /> Export JSON
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChainListManager;
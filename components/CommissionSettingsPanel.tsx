@@ -0,0 +1,146 @@
+/**
+ * Commission Settings Panel Component
+ *
+ * Edits the marketplace commission rates and first-party assumptions used by
+ * the commission bleed estimate.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { DollarSign, Save, RotateCcw, AlertCircle } from 'lucide-react';
+import {
+  CommissionSettings,
+  getCommissionSettings,
+  saveCommissionSettings,
+  resetCommissionSettings
+} from '../services/commissionEstimator';
+
+interface CommissionSettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChange: (settings: CommissionSettings) => void;
+}
+
+const toPercent = (rate: number): string => String(Math.round(rate * 1000) / 10);
+const fromPercent = (value: string): number => parseFloat(value) / 100;
+
+export const CommissionSettingsPanel: React.FC<CommissionSettingsPanelProps> = ({ isOpen, onClose, onChange }) => {
+  const [draft, setDraft] = useState<CommissionSettings>(getCommissionSettings());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(getCommissionSettings());
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const handleSave = () => {
+    try {
+      saveCommissionSettings(draft);
+      onChange(draft);
+      onClose();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const handleReset = () => {
+    const defaults = resetCommissionSettings();
+    setDraft(defaults);
+    onChange(defaults);
+  };
+
+  if (!isOpen) return null;
+
+  const percentField = (label: string, value: number, update: (rate: number) => void, hint?: string) => (
+    <label key={label} className="flex items-center justify-between gap-4 text-sm">
+      <span className="text-slate-700">
+        {label}
+        {hint && <span className="block text-[10px] text-slate-400">{hint}</span>}
+      </span>
+      <span className="flex items-center gap-1">
+        <input
+          type="number"
+          min="0"
+          max="100"
+          step="0.5"
+          value={toPercent(value)}
+          onChange={(e) => update(fromPercent(e.target.value))}
+          className="w-20 rounded-lg border border-slate-300 px-2 py-1 text-right text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <span className="text-slate-400">%</span>
+      </span>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <DollarSign className="w-5 h-5 text-indigo-600" />
+            Commission Rates
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <p className="text-sm text-slate-600">
+          Used to estimate what each restaurant pays marketplaces per month and what it would save
+          with first-party ordering.
+        </p>
+
+        <div className="space-y-2">
+          <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Marketplace commission</h3>
+          {(Object.entries(draft.commissionRates) as Array<[string, number]>).map(([marketplace, rate]) =>
+            percentField(marketplace, rate, value =>
+              setDraft({ ...draft, commissionRates: { ...draft.commissionRates, [marketplace]: value } })
+            )
+          )}
+          {percentField('Other marketplaces', draft.defaultCommissionRate, value =>
+            setDraft({ ...draft, defaultCommissionRate: value })
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">First-party ordering</h3>
+          {percentField('Orders moved to first-party', draft.firstPartyShiftRate, value =>
+            setDraft({ ...draft, firstPartyShiftRate: value }), 'Share of marketplace orders that switch'
+          )}
+          {percentField('First-party fee', draft.firstPartyFeeRate, value =>
+            setDraft({ ...draft, firstPartyFeeRate: value }), 'Processing cost per order'
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs text-red-700 flex gap-2">
+            <AlertCircle size={14} className="shrink-0 mt-0.5" />
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={handleReset}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 flex items-center gap-2"
+          >
+            <RotateCcw size={14} /> Reset
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium flex items-center gap-2"
+          >
+            <Save size={14} /> Save Rates
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommissionSettingsPanel;
@@ -1,10 +1,20 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { AggregateResponse, InsightType, PlaceResult } from '../types';
+import { PenLine, Check, Trash2 } from 'lucide-react';
+import { AggregateResponse, InsightType, PlaceResult, SearchArea, GeoLocation } from '../types';
+import { getActiveScoringProfile } from '../services/scoringEngine';
 
 interface MapVisualizationProps {
   data: AggregateResponse | null;
+  area?: SearchArea;
+  setArea?: React.Dispatch<React.SetStateAction<SearchArea>>; // Enables drawing a polygon territory
 }
 
+const samePath = (a: GeoLocation[], b: GeoLocation[]) =>
+  a.length === b.length && a.every((p, i) => p.lat === b[i].lat && p.lng === b[i].lng);
+
+const toPath = (mvcArray: any): GeoLocation[] =>
+  mvcArray.getArray().map((latLng: any) => ({ lat: latLng.lat(), lng: latLng.lng() }));
+
 const GOOGLE_MAPS_API_KEY = import.meta.env.VITE_GOOGLE_MAPS_API_KEY;
 
 // Global callback for Google Maps API
@@ -15,11 +25,20 @@ declare global {
   }
 }
 
-const MapVisualization: React.FC<MapVisualizationProps> = ({ data }) => {
+const MapVisualization: React.FC<MapVisualizationProps> = ({ data, area, setArea }) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<any>(null);
   const markersRef = useRef<any[]>([]);
+  const tileOverlaysRef = useRef<any[]>([]);
+  const boundaryOverlaysRef = useRef<any[]>([]);
+  const territoryPolygonRef = useRef<any>(null);
+  const drawnPathRef = useRef<GeoLocation[]>([]); // Last path seen on the map, to skip echoes of our own edits
+  const isDrawingRef = useRef(false);
   const [isApiLoaded, setIsApiLoaded] = useState(false);
+  const [isDrawing, setIsDrawing] = useState(false);
+
+  const isPolygonTerritory = area?.territoryType === 'polygon';
+  const canDraw = isPolygonTerritory && !!setArea;
   const [selectedPlace, setSelectedPlace] = useState<PlaceResult | null>(null);
 
   // Load Google Maps Script
@@ -100,7 +119,7 @@ const MapVisualization: React.FC<MapVisualizationProps> = ({ data }) => {
       const position = { lat: place.location.lat, lng: place.location.lng };
       bounds.extend(position);
 
-      // Color coding
+      // Color coding (by the active scoring profile)
       let pinColor = '#94a3b8'; // gray-400
       if (place.fit.score >= 80) pinColor = '#10b981'; // emerald-500
       else if (place.fit.score >= 50) pinColor = '#fbbf24'; // amber-400
@@ -140,12 +159,106 @@ const MapVisualization: React.FC<MapVisualizationProps> = ({ data }) => {
       markersRef.current.push(marker);
     });
 
+    // Outline tiles a tiled search could not fully fetch
+    tileOverlaysRef.current.forEach(overlay => overlay.setMap(null));
+    tileOverlaysRef.current = (data.coverage?.tiles || [])
+      .filter(tile => tile.status !== 'complete')
+      .map(tile => new window.google.maps.Rectangle({
+        map,
+        bounds: tile.bounds,
+        strokeColor: '#f59e0b', // amber-500
+        strokeWeight: 1,
+        fillColor: '#f59e0b',
+        fillOpacity: 0.08,
+        clickable: false
+      }));
+
     if (data.places.length > 0) {
       map.fitBounds(bounds, 50); // 50px padding
     }
 
   }, [data, isApiLoaded]);
 
+  // Boundary of the searched territory (the drawn polygon is rendered separately while editable)
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+
+    boundaryOverlaysRef.current.forEach(overlay => overlay.setMap(null));
+    boundaryOverlaysRef.current = isPolygonTerritory ? [] : (data?.boundary || []).map(path =>
+      new window.google.maps.Polygon({
+        map,
+        paths: path,
+        strokeColor: '#6366f1', // indigo-500
+        strokeOpacity: 0.8,
+        strokeWeight: 2,
+        fillOpacity: 0,
+        clickable: false
+      })
+    );
+  }, [data, isApiLoaded, isPolygonTerritory]);
+
+  // Editable territory polygon
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !setArea) return;
+
+    const points = isPolygonTerritory ? area?.polygon || [] : [];
+    if (territoryPolygonRef.current && samePath(points, drawnPathRef.current)) return;
+
+    territoryPolygonRef.current?.setMap(null);
+    territoryPolygonRef.current = null;
+    drawnPathRef.current = points;
+    if (points.length === 0) return;
+
+    const polygon = new window.google.maps.Polygon({
+      map,
+      paths: points,
+      editable: true,
+      strokeColor: '#4f46e5', // indigo-600
+      strokeWeight: 2,
+      fillColor: '#6366f1',
+      fillOpacity: 0.1
+    });
+
+    const path = polygon.getPath();
+    const syncPath = () => {
+      const next = toPath(path);
+      drawnPathRef.current = next;
+      setArea(prev => ({ ...prev, polygon: next }));
+    };
+    ['set_at', 'insert_at', 'remove_at'].forEach(event => path.addListener(event, syncPath));
+
+    polygon.addListener('rightclick', (e: any) => {
+      // Right-click a vertex to remove it
+      if (e.vertex !== undefined && path.getLength() > 3) path.removeAt(e.vertex);
+    });
+    polygon.addListener('click', (e: any) => {
+      // Clicks inside the polygon don't reach the map, so keep adding points here while drawing
+      if (isDrawingRef.current) path.push(e.latLng);
+    });
+
+    territoryPolygonRef.current = polygon;
+  }, [area?.polygon, isPolygonTerritory, isApiLoaded]);
+
+  // Click-to-add vertices while drawing
+  useEffect(() => {
+    isDrawingRef.current = isDrawing && canDraw;
+    const map = mapInstanceRef.current;
+    if (!map || !isDrawingRef.current) return;
+
+    map.setOptions({ draggableCursor: 'crosshair' });
+    const listener = map.addListener('click', (e: any) => {
+      const point = { lat: e.latLng.lat(), lng: e.latLng.lng() };
+      setArea!(prev => ({ ...prev, polygon: [...(prev.polygon || []), point] }));
+    });
+
+    return () => {
+      listener.remove();
+      map.setOptions({ draggableCursor: null });
+    };
+  }, [isDrawing, canDraw, isApiLoaded]);
+
   if (!GOOGLE_MAPS_API_KEY) {
     return (
       <div className="flex items-center justify-center w-full h-full bg-slate-100 text-slate-500 text-sm p-4 text-center">
@@ -158,9 +271,33 @@ const MapVisualization: React.FC<MapVisualizationProps> = ({ data }) => {
     <div className="relative w-full h-full bg-slate-100 border-l border-slate-200">
       <div ref={mapRef} className="w-full h-full" />
 
+      {/* Territory Drawing Controls */}
+      {canDraw && (
+        <div className="absolute top-4 left-4 flex gap-2 z-10">
+          <button
+            onClick={() => setIsDrawing(!isDrawing)}
+            className={`flex items-center gap-1.5 px-3 py-2 rounded-lg shadow-md text-xs font-medium border transition-colors ${
+              isDrawing ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white/95 text-slate-700 border-slate-200 hover:bg-white'
+            }`}
+          >
+            {isDrawing ? <Check size={14} /> : <PenLine size={14} />}
+            {isDrawing ? 'Done Drawing' : 'Draw Territory'}
+          </button>
+          {(area?.polygon?.length ?? 0) > 0 && (
+            <button
+              onClick={() => setArea!(prev => ({ ...prev, polygon: [] }))}
+              className="flex items-center gap-1.5 px-3 py-2 rounded-lg shadow-md text-xs font-medium bg-white/95 text-red-600 border border-slate-200 hover:bg-white"
+            >
+              <Trash2 size={14} /> Clear
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Legend Overlay */}
       <div className="absolute bottom-4 left-4 bg-white/95 backdrop-blur-sm p-3 rounded-lg shadow-md border border-slate-200 text-xs z-10">
-        <h4 className="font-semibold mb-2 text-slate-700">Fit Score</h4>
+        <h4 className="font-semibold text-slate-700">Fit Score</h4>
+        <p className="text-[10px] text-slate-400 mb-2">{getActiveScoringProfile().name}</p>
         <div className="space-y-1.5">
           <div className="flex items-center gap-2">
             <span className="w-3 h-3 rounded-full bg-emerald-500 border border-white shadow-sm"></span>
@@ -174,6 +311,12 @@ const MapVisualization: React.FC<MapVisualizationProps> = ({ data }) => {
             <span className="w-3 h-3 rounded-full bg-slate-400 border border-white shadow-sm"></span>
             <span className="text-slate-600">Low Fit</span>
           </div>
+          {data?.coverage && data.coverage.truncatedTileIds.length > 0 && (
+            <div className="flex items-center gap-2">
+              <span className="w-3 h-3 rounded-sm bg-amber-500/20 border border-amber-500"></span>
+              <span className="text-slate-600">Incomplete tile</span>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -87,7 +87,7 @@ export const MassOutreachButton: React.FC<MassOutreachButtonProps> = ({ restaura
               {/* Summary Stats */}
               <div className="grid grid-cols-3 gap-4 mb-6">
                 <div className="bg-purple-50 p-4 rounded-lg border border-purple-200">
-                  <div className="text-3xl font-bold text-purple-600">{result.totalProcessed}</div>
+                  <div className="text-3xl font-bold text-purple-600">{result.successful}</div>
                   <div className="text-sm text-purple-700">Packages Generated</div>
                 </div>
                 <div className="bg-green-50 p-4 rounded-lg border border-green-200">
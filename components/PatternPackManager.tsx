@@ -0,0 +1,201 @@
+/**
+ * Pattern Pack Manager Component
+ *
+ * Lists tech detection pattern packs, toggles them on and off and edits packs as JSON.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Radar, Save, RotateCcw, Plus, AlertCircle, Trash2 } from 'lucide-react';
+import {
+  PatternPack,
+  getPatternPacks,
+  isPatternPackEnabled,
+  setPatternPackEnabled,
+  savePatternPack,
+  deletePatternPack,
+  isBuiltInPatternPack,
+  parsePatternPack
+} from '../services/patternPacks';
+
+interface PatternPackManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const toJson = (pack: PatternPack): string => {
+  const { builtIn, ...rest } = pack;
+  return JSON.stringify(rest, null, 2);
+};
+
+const NEW_PACK: PatternPack = {
+  id: 'custom-vendors',
+  name: 'Custom vendors',
+  version: 1,
+  description: '',
+  patterns: [
+    {
+      name: 'Example Ordering',
+      category: 'onlineOrdering',
+      match: { scriptSrc: ['order.example.com'], regex: ['example\\.com/[^"\']*order'] }
+    }
+  ]
+};
+
+export const PatternPackManager: React.FC<PatternPackManagerProps> = ({ isOpen, onClose }) => {
+  const [packs, setPacks] = useState<PatternPack[]>([]);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = (selectId?: string) => {
+    const all = getPatternPacks();
+    const selected = all.find(p => p.id === (selectId ?? selectedId)) || all[0];
+    setPacks(all);
+    setSelectedId(selected.id);
+    setDraft(toJson(selected));
+    setError(null);
+  };
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen]);
+
+  const handleSelect = (pack: PatternPack) => {
+    setSelectedId(pack.id);
+    setDraft(toJson(pack));
+    setError(null);
+  };
+
+  const handleToggle = (id: string, enabled: boolean) => {
+    setPatternPackEnabled(id, enabled);
+    refresh(selectedId);
+  };
+
+  const handleSave = () => {
+    try {
+      const pack = parsePatternPack(draft);
+      savePatternPack(pack);
+      refresh(pack.id);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const handleNew = () => {
+    setSelectedId('');
+    setDraft(toJson(NEW_PACK));
+    setError(null);
+  };
+
+  const handleDelete = () => {
+    deletePatternPack(selectedId);
+    refresh(isBuiltInPatternPack(selectedId) ? selectedId : '');
+  };
+
+  if (!isOpen) return null;
+
+  const selected = packs.find(p => p.id === selectedId);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full p-6 space-y-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Radar className="w-5 h-5 text-indigo-600" />
+            Detection Pattern Packs
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <p className="text-sm text-slate-600">
+          Tech detection matches vendor signatures from every enabled pack. Patterns match on domain,
+          scriptSrc, htmlContent, metaTags, linkTags or regex, and can imply or exclude other vendors
+          as <code className="text-xs">category:Vendor</code>. Cached detections are redone whenever an
+          enabled pack changes.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 flex-1 min-h-0">
+          <div className="space-y-2 overflow-y-auto">
+            {packs.map(pack => {
+              const enabled = isPatternPackEnabled(pack.id);
+              return (
+                <div
+                  key={pack.id}
+                  onClick={() => handleSelect(pack)}
+                  className={`p-3 rounded-lg border cursor-pointer transition-colors ${
+                    pack.id === selectedId ? 'border-indigo-300 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50'
+                  } ${enabled ? '' : 'opacity-60'}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-semibold text-slate-800">{pack.name}</span>
+                    <label
+                      onClick={(e) => e.stopPropagation()}
+                      className="text-[10px] font-medium text-slate-600 flex items-center gap-1"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={enabled}
+                        onChange={(e) => handleToggle(pack.id, e.target.checked)}
+                        className="accent-indigo-600"
+                      />
+                      {enabled ? 'ON' : 'OFF'}
+                    </label>
+                  </div>
+                  <div className="text-xs text-slate-500 mt-1">
+                    {pack.patterns.length} patterns • v{pack.version}{pack.builtIn ? ' • built-in' : ''}
+                  </div>
+                </div>
+              );
+            })}
+            <button
+              onClick={handleNew}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg border border-dashed border-slate-300 text-sm text-slate-600 hover:bg-slate-50"
+            >
+              <Plus size={14} /> New pack
+            </button>
+          </div>
+
+          <div className="md:col-span-2 flex flex-col gap-2 min-h-0">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              spellCheck={false}
+              className="flex-1 min-h-[320px] w-full font-mono text-xs rounded-lg border border-slate-300 p-3 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs text-red-700 whitespace-pre-wrap flex gap-2">
+                <AlertCircle size={14} className="shrink-0 mt-0.5" />
+                {error}
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              {selected && (
+                <button
+                  onClick={handleDelete}
+                  className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 flex items-center gap-2"
+                >
+                  {selected.builtIn ? <RotateCcw size={14} /> : <Trash2 size={14} />}
+                  {selected.builtIn ? 'Reset' : 'Delete'}
+                </button>
+              )}
+              <button
+                onClick={handleSave}
+                className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium flex items-center gap-2"
+              >
+                <Save size={14} /> Save Pack
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PatternPackManager;
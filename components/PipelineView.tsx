@@ -0,0 +1,264 @@
+import React, { useEffect, useState } from 'react';
+import { KanbanSquare, RefreshCw, Trash2, Calendar, Tag, ExternalLink, Loader2, Clock } from 'lucide-react';
+import { motion } from 'framer-motion';
+import {
+  Lead,
+  LeadStage,
+  LEAD_STAGES,
+  getLeads,
+  updateLead,
+  refreshLeadPlace,
+  deleteLead
+} from '../services/leadStore';
+import { reenrichPlace } from '../services/placesService';
+
+const STAGE_COLORS: Record<LeadStage, string> = {
+  new: 'border-slate-300 bg-slate-50',
+  contacted: 'border-blue-200 bg-blue-50',
+  replied: 'border-indigo-200 bg-indigo-50',
+  demo: 'border-purple-200 bg-purple-50',
+  won: 'border-emerald-200 bg-emerald-50',
+  lost: 'border-red-200 bg-red-50'
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const PipelineView: React.FC = () => {
+  const [leads, setLeads] = useState<Lead[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [enriching, setEnriching] = useState<Record<string, boolean>>({});
+  const [notesDraft, setNotesDraft] = useState('');
+  const [tagsDraft, setTagsDraft] = useState('');
+
+  const loadLeads = async () => {
+    try {
+      setLeads(await getLeads());
+    } catch (error) {
+      console.error('Failed to load leads:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadLeads();
+  }, []);
+
+  const selected = leads.find(l => l.placeId === selectedId) || null;
+
+  useEffect(() => {
+    setNotesDraft(selected?.notes ?? '');
+    setTagsDraft(selected?.tags.join(', ') ?? '');
+  }, [selectedId]);
+
+  const replaceLead = (lead: Lead) => {
+    setLeads(prev => prev.map(l => (l.placeId === lead.placeId ? lead : l)));
+  };
+
+  const handleUpdate = async (placeId: string, update: Parameters<typeof updateLead>[1]) => {
+    try {
+      replaceLead(await updateLead(placeId, update));
+    } catch (error) {
+      console.error('Failed to update lead:', error);
+    }
+  };
+
+  const handleReenrich = async (lead: Lead) => {
+    setEnriching(prev => ({ ...prev, [lead.placeId]: true }));
+    try {
+      const place = await reenrichPlace(lead.place);
+      replaceLead(await refreshLeadPlace(place));
+    } catch (error) {
+      console.error('Re-enrichment failed:', error);
+    } finally {
+      setEnriching(prev => ({ ...prev, [lead.placeId]: false }));
+    }
+  };
+
+  const handleDelete = async (placeId: string) => {
+    await deleteLead(placeId);
+    setLeads(prev => prev.filter(l => l.placeId !== placeId));
+    setSelectedId(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex-1 flex items-center justify-center text-slate-500">
+        <Loader2 className="animate-spin mr-2" size={18} /> Loading pipeline...
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 flex flex-col h-full overflow-hidden">
+      <div className="bg-white/40 border-b border-white/20 px-8 py-6 flex justify-between items-center shadow-sm backdrop-blur-md">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+            <KanbanSquare className="text-indigo-600" />
+            Lead Pipeline
+          </h2>
+          <p className="text-sm text-slate-500 mt-1">
+            {leads.length} saved leads • {leads.filter(l => l.nextActionDate && l.nextActionDate <= today()).length} actions due
+          </p>
+        </div>
+        <button
+          onClick={loadLeads}
+          className="flex items-center gap-2 px-4 py-2 bg-white/50 border border-white/40 text-slate-700 rounded-lg hover:bg-white/70 text-sm font-medium transition-colors"
+        >
+          <RefreshCw size={16} /> Refresh
+        </button>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        {/* Stage columns */}
+        <div className="flex-1 overflow-x-auto p-6">
+          <div className="flex gap-4 min-w-max h-full">
+            {LEAD_STAGES.map(stage => {
+              const stageLeads = leads.filter(l => l.stage === stage.id);
+              return (
+                <div key={stage.id} className="w-64 flex flex-col">
+                  <div className="flex items-center justify-between mb-2 px-1">
+                    <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">{stage.label}</h3>
+                    <span className="text-xs text-slate-400">{stageLeads.length}</span>
+                  </div>
+                  <div className="space-y-2 overflow-y-auto">
+                    {stageLeads.map(lead => (
+                      <motion.div
+                        key={lead.placeId}
+                        layout
+                        onClick={() => setSelectedId(lead.placeId)}
+                        className={`p-3 rounded-lg border cursor-pointer shadow-sm hover:shadow-md transition-shadow ${STAGE_COLORS[lead.stage]} ${
+                          lead.placeId === selectedId ? 'ring-2 ring-indigo-400' : ''
+                        }`}
+                      >
+                        <div className="flex justify-between gap-2">
+                          <span className="text-sm font-semibold text-slate-800 truncate">{lead.place.name}</span>
+                          <span className="text-sm font-bold text-indigo-600">{lead.place.fit.score}</span>
+                        </div>
+                        <div className="text-[10px] text-slate-500 truncate mt-0.5">{lead.place.address}</div>
+                        {lead.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {lead.tags.map(tag => (
+                              <span key={tag} className="px-1.5 py-0.5 bg-white/70 text-slate-600 text-[10px] rounded border border-slate-200">{tag}</span>
+                            ))}
+                          </div>
+                        )}
+                        {lead.nextActionDate && (
+                          <div className={`flex items-center gap-1 text-[10px] mt-2 ${lead.nextActionDate <= today() ? 'text-red-600 font-medium' : 'text-slate-500'}`}>
+                            <Calendar size={10} /> {lead.nextActionDate}
+                          </div>
+                        )}
+                      </motion.div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Lead detail */}
+        {selected && (
+          <div className="w-96 shrink-0 border-l border-white/20 bg-white/60 backdrop-blur-md overflow-y-auto p-6 space-y-5">
+            <div>
+              <div className="flex justify-between items-start gap-2">
+                <h3 className="text-lg font-bold text-slate-800">{selected.place.name}</h3>
+                <button onClick={() => setSelectedId(null)} className="text-slate-400 hover:text-slate-600" aria-label="Close">×</button>
+              </div>
+              <p className="text-xs text-slate-500">{selected.place.address}</p>
+              {selected.place.website && (
+                <a href={selected.place.website} target="_blank" rel="noreferrer" className="text-xs text-blue-600 hover:underline flex items-center gap-1 mt-1">
+                  <ExternalLink size={10} /> Website
+                </a>
+              )}
+              <div className="text-xs text-slate-600 mt-2">
+                Fit {selected.place.fit.score} • {selected.place.techStack.websitePlatform} •{' '}
+                {selected.place.techStack.hasFirstPartyOrdering ? '1P Ordering' : 'No 1P Ordering'}
+                {selected.place.techStack.delivery.length > 0 && ` • ${selected.place.techStack.delivery.join(', ')}`}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <label className="block text-xs font-medium text-slate-700">Stage</label>
+              <select
+                value={selected.stage}
+                onChange={(e) => handleUpdate(selected.placeId, { stage: e.target.value as LeadStage })}
+                className="w-full rounded-md border border-slate-300 px-2 py-1.5 text-sm"
+              >
+                {LEAD_STAGES.map(stage => (
+                  <option key={stage.id} value={stage.id}>{stage.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-1">
+              <label className="block text-xs font-medium text-slate-700 flex items-center gap-1"><Calendar size={12} /> Next action</label>
+              <input
+                type="date"
+                value={selected.nextActionDate ?? ''}
+                onChange={(e) => handleUpdate(selected.placeId, { nextActionDate: e.target.value || undefined })}
+                className="w-full rounded-md border border-slate-300 px-2 py-1.5 text-sm"
+              />
+            </div>
+
+            <div className="space-y-1">
+              <label className="block text-xs font-medium text-slate-700 flex items-center gap-1"><Tag size={12} /> Tags</label>
+              <input
+                type="text"
+                value={tagsDraft}
+                onChange={(e) => setTagsDraft(e.target.value)}
+                onBlur={() => handleUpdate(selected.placeId, { tags: tagsDraft.split(',') })}
+                placeholder="e.g. pizza, hot"
+                className="w-full rounded-md border border-slate-300 px-2 py-1.5 text-sm"
+              />
+            </div>
+
+            <div className="space-y-1">
+              <label className="block text-xs font-medium text-slate-700">Notes</label>
+              <textarea
+                value={notesDraft}
+                onChange={(e) => setNotesDraft(e.target.value)}
+                onBlur={() => handleUpdate(selected.placeId, { notes: notesDraft })}
+                rows={4}
+                className="w-full rounded-md border border-slate-300 px-2 py-1.5 text-sm"
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleReenrich(selected)}
+                disabled={enriching[selected.placeId]}
+                className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium disabled:opacity-50"
+              >
+                {enriching[selected.placeId] ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+                Re-enrich
+              </button>
+              <button
+                onClick={() => handleDelete(selected.placeId)}
+                className="px-3 py-2 text-red-600 hover:bg-red-50 rounded-lg text-sm font-medium flex items-center gap-1"
+              >
+                <Trash2 size={14} /> Remove
+              </button>
+            </div>
+            <p className="text-[10px] text-slate-400">Last enriched {new Date(selected.lastEnrichedAt).toLocaleString()}</p>
+
+            <div className="space-y-2">
+              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-1"><Clock size={12} /> Activity</h4>
+              <ul className="space-y-1.5">
+                {[...selected.activity].reverse().map((entry, idx) => (
+                  <li key={idx} className="text-xs text-slate-600 flex gap-2">
+                    <span className="text-slate-400 shrink-0">{new Date(entry.at).toLocaleDateString()}</span>
+                    <span>{entry.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PipelineView;
@@ -2,13 +2,21 @@ import React from 'react';
 import {
     BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell
 } from 'recharts';
-import { Download, Grid, Info, ChevronRight, ExternalLink, Smartphone, Globe, CreditCard } from 'lucide-react';
+import { Download, Grid, Info, ChevronRight, ExternalLink, Smartphone, Globe, CreditCard, Bookmark, BookmarkCheck, DollarSign, XCircle } from 'lucide-react';
 import { SonicBrandPipeline } from './SonicBrandPipeline';
 import { MassOutreachButton } from './MassOutreachButton';
-import { AggregateResponse, InsightType, PlaceResult } from '../types';
+import { TechHistoryTimeline } from './TechHistoryTimeline';
+import { TechEvidenceList } from './TechEvidenceList';
+import { CommissionSettingsPanel } from './CommissionSettingsPanel';
+import { AggregateResponse, ContactPoint, InsightType, PlaceResult, TechCategory } from '../types';
 import { PRICE_LEVEL_LABELS } from '../constants';
 import { exportToCSV } from '../services/placesService';
+import { getScoringProfiles, getActiveScoringProfile, setActiveScoringProfile } from '../services/scoringEngine';
+import { getLeads, saveLead } from '../services/leadStore';
+import { ORDERING_VERDICT_LABELS } from '../services/orderingClassifier';
+import { estimateCommissionBleed, getCommissionSettings, formatUsd, CommissionEstimate, CommissionSettings } from '../services/commissionEstimator';
 import { analyzeRestaurant, AIAnalysisResult } from '../services/aiService';
+import { EnrichmentJob, EnrichmentProgress, EnrichmentStage } from '../services/enrichmentQueue';
 import { motion, AnimatePresence } from 'framer-motion';
 import { SkeletonPanel } from './SkeletonLoader';
 import { Sparkles, Loader2, MessageSquare, Target, Zap } from 'lucide-react';
@@ -17,12 +25,156 @@ interface ResultsViewProps {
     data: AggregateResponse | null;
     onFetchPlaces: () => void;
     isLoading: boolean;
+    scanProgress?: EnrichmentProgress | null; // Set while a lead list is being scanned
+    onCancelScan?: () => void;
 }
 
-const ResultsView: React.FC<ResultsViewProps> = ({ data, onFetchPlaces, isLoading }) => {
+const pagePath = (url: string): string => {
+    try {
+        return new URL(url).pathname;
+    } catch {
+        return url;
+    }
+};
+
+// Tooltip with the vendor's confidence and the crawled pages it was detected on
+const evidenceTitle = (place: PlaceResult, category: TechCategory, vendor: string): string | undefined => {
+    const evidence = place.techStack.evidence?.find(e => e.category === category && e.vendor === vendor);
+    const listing = category === 'delivery' ? place.techStack.marketplaceListings?.find(l => l.marketplace === vendor) : undefined;
+    if (!evidence?.pages.length) {
+        return listing ? `Listed as "${listing.name}" (${listing.matchScore}% match) • ${listing.url}` : undefined;
+    }
+    const confidence = evidence.confidence !== undefined ? `${evidence.confidence}% • ` : '';
+    return `${confidence}Found on ${evidence.pages.map(pagePath).join(', ')}`;
+};
+
+// Tooltip listing where each "Order" link resolved to
+const orderingTitle = (place: PlaceResult): string | undefined => {
+    const links = place.techStack.ordering?.links;
+    if (!links?.length) return undefined;
+    return links.map(l => `${l.destination}${l.vendor ? ` (${l.vendor})` : ''}: ${l.url}${l.via ? ` via ${pagePath(l.via)}` : ''}${l.unverified ? ' (not crawled)' : ''}`).join('\n');
+};
+
+// Tooltip with the per-marketplace breakdown behind the estimate
+const commissionTitle = (estimate: CommissionEstimate): string =>
+    [
+        `~${estimate.monthlyDeliveryOrders} marketplace orders/mo at ${formatUsd(estimate.averageTicket)} avg ticket`,
+        ...estimate.byMarketplace.map(m => `${m.marketplace}: ~${m.monthlyOrders} orders × ${Math.round(m.commissionRate * 100)}% = ${formatUsd(m.monthlyFees)}/mo`),
+        `First-party savings: ${formatUsd(estimate.annualSavings)}/yr`
+    ].join('\n');
+
+// Estimated monthly marketplace commission and first-party savings
+const CommissionBleed: React.FC<{ place: PlaceResult; settings: CommissionSettings }> = ({ place, settings }) => {
+    const estimate = estimateCommissionBleed(place, settings);
+    if (!estimate || estimate.monthlyCommissionFees === 0) return null;
+    return (
+        <div className="mt-1 text-[10px] leading-tight text-red-600" title={commissionTitle(estimate)}>
+            <span className="font-bold">{formatUsd(estimate.monthlyCommissionFees)}/mo</span> in commissions
+            <span className="block text-emerald-600">Save ~{formatUsd(estimate.monthlySavings)}/mo with 1P</span>
+        </div>
+    );
+};
+
+// Tooltip with a contact's confidence and the page it was found on
+const contactTitle = (contact: ContactPoint): string =>
+    `${contact.confidence}% • Found on ${pagePath(contact.sourceUrl)}`;
+
+// Best email, social handles and owner/chef names found on the site
+const ContactSummary: React.FC<{ place: PlaceResult }> = ({ place }) => {
+    const contacts = place.contacts?.contacts || [];
+    const email = contacts.find(c => c.type === 'email' && c.value === place.contacts?.primaryEmail);
+    const socials = contacts.filter(c => c.type === 'instagram' || c.type === 'facebook' || c.type === 'tiktok');
+    const people = contacts.filter(c => c.type === 'person');
+    if (!email && !socials.length && !people.length) return null;
+    return (
+        <div className="mt-1 text-[10px] leading-tight text-slate-500 max-w-[180px]">
+            {email && (
+                <a href={`mailto:${email.value}`} className="block truncate text-blue-600 hover:underline" title={contactTitle(email)}>
+                    {email.value}
+                </a>
+            )}
+            {socials.length > 0 && (
+                <span className="block truncate">
+                    {socials.map(c => (
+                        <span key={`${c.type}-${c.value}`} className="mr-1.5" title={contactTitle(c)}>
+                            {c.type === 'facebook' ? c.value.replace(/^facebook\.com\//, 'fb/') : c.value}
+                        </span>
+                    ))}
+                </span>
+            )}
+            {people.map(c => (
+                <span key={c.value} className="block truncate" title={contactTitle(c)}>
+                    {c.value}{c.role ? ` · ${c.role}` : ''}
+                </span>
+            ))}
+        </div>
+    );
+};
+
+const SCAN_STAGE_LABELS: Array<[EnrichmentStage, string]> = [['details', 'Details'], ['crawl', 'Site scans']];
+
+// Per-stage progress of the running lead list scan
+const ScanProgressBar: React.FC<{ progress: EnrichmentProgress; onCancel?: () => void }> = ({ progress, onCancel }) => {
+    const stages = SCAN_STAGE_LABELS.filter(([stage]) => progress[stage].total > 0);
+    const total = stages.reduce((acc, [stage]) => acc + progress[stage].total, 0);
+    const done = stages.reduce((acc, [stage]) => acc + progress[stage].completed + progress[stage].failed, 0);
+    const percent = total > 0 ? Math.round((done / total) * 100) : 0;
+
+    return (
+        <div className="bg-indigo-50/70 border-b border-indigo-100 px-8 py-2 flex items-center gap-4 text-xs text-slate-600 backdrop-blur-sm">
+            <Loader2 size={14} className="animate-spin text-indigo-600 shrink-0" />
+            <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap gap-x-4">
+                    {stages.length === 0 && <span>Searching territory…</span>}
+                    {stages.map(([stage, label]) => (
+                        <span key={stage}>
+                            <span className="font-semibold text-slate-700">{label}</span>{' '}
+                            {progress[stage].completed}/{progress[stage].total}
+                            {progress[stage].failed > 0 && <span className="text-red-600"> • {progress[stage].failed} failed</span>}
+                        </span>
+                    ))}
+                </div>
+                <div className="mt-1 h-1 rounded-full bg-indigo-100 overflow-hidden">
+                    <div className="h-full bg-indigo-600 transition-all" style={{ width: `${percent}%` }} />
+                </div>
+            </div>
+            {onCancel && (
+                <button
+                    onClick={onCancel}
+                    className="flex items-center gap-1 font-medium text-slate-600 hover:text-red-600 shrink-0"
+                >
+                    <XCircle size={12} /> Cancel
+                </button>
+            )}
+        </div>
+    );
+};
+
+const ResultsView: React.FC<ResultsViewProps> = ({ data, onFetchPlaces, isLoading, scanProgress, onCancelScan }) => {
     const [expandedIds, setExpandedIds] = React.useState<string[]>([]);
     const [analyzing, setAnalyzing] = React.useState<Record<string, boolean>>({});
     const [analysisResults, setAnalysisResults] = React.useState<Record<string, AIAnalysisResult>>({});
+    const [minScore, setMinScore] = React.useState(0);
+    const [savedLeadIds, setSavedLeadIds] = React.useState<Set<string>>(new Set());
+    const [commissionSettings, setCommissionSettings] = React.useState(getCommissionSettings);
+    const [showCommissionSettings, setShowCommissionSettings] = React.useState(false);
+    // AI analyses share one queue so expanding many cards does not flood the API
+    const aiQueue = React.useMemo(() => new EnrichmentJob(), []);
+
+    React.useEffect(() => {
+        getLeads()
+            .then(leads => setSavedLeadIds(new Set(leads.map(l => l.placeId))))
+            .catch(error => console.warn('Failed to load saved leads:', error));
+    }, [data]);
+
+    const handleSaveLead = async (place: PlaceResult) => {
+        try {
+            await saveLead(place);
+            setSavedLeadIds(prev => new Set(prev).add(place.placeId));
+        } catch (error) {
+            console.error('Failed to save lead:', error);
+        }
+    };
 
     const handleAnalyze = async (place: PlaceResult) => {
         if (expandedIds.includes(place.placeId) && analysisResults[place.placeId]) {
@@ -36,7 +188,7 @@ const ResultsView: React.FC<ResultsViewProps> = ({ data, onFetchPlaces, isLoadin
 
         if (!analysisResults[place.placeId]) {
             setAnalyzing(prev => ({ ...prev, [place.placeId]: true }));
-            const result = await analyzeRestaurant(place.name, place.website || "", place.rating.toString());
+            const result = await aiQueue.run('ai', () => analyzeRestaurant(place.name, place.website || "", place.rating.toString()));
             setAnalysisResults(prev => ({ ...prev, [place.placeId]: result }));
             setAnalyzing(prev => ({ ...prev, [place.placeId]: false }));
         }
@@ -68,6 +220,11 @@ const ResultsView: React.FC<ResultsViewProps> = ({ data, onFetchPlaces, isLoadin
 
     const COLORS = ['#4f46e5', '#6366f1', '#818cf8', '#a5b4fc'];
 
+    // Places are already sorted by the active profile's score
+    const profiles = getScoringProfiles();
+    const activeProfile = getActiveScoringProfile();
+    const visiblePlaces = (data.places || []).filter(p => p.fit.score >= minScore);
+
     // Calculate some insights for the summary
     const fitPercentage = data.fitStats
         ? Math.round((data.fitStats.highFitCount / data.totalCount) * 100)
@@ -90,6 +247,19 @@ const ResultsView: React.FC<ResultsViewProps> = ({ data, onFetchPlaces, isLoadin
                             <span className="w-2 h-2 rounded-full bg-emerald-500"></span>
                             {data.fitStats?.highFitCount} High Fit Prospects
                         </span>
+                        {data.coverage && (
+                            <span
+                                className="flex items-center gap-1"
+                                title={data.coverage.truncatedTileIds.length > 0 ? `Truncated tiles: ${data.coverage.truncatedTileIds.join(', ')}` : undefined}
+                            >
+                                <span className={`w-2 h-2 rounded-full ${data.coverage.complete ? 'bg-slate-400' : 'bg-amber-500'}`}></span>
+                                {data.coverage.tiles.length} tiles
+                                {data.coverage.complete && ' • full coverage'}
+                                {data.coverage.truncatedTileIds.length > 0 && ` • ${data.coverage.truncatedTileIds.length} incomplete`}
+                                {data.coverage.enriched < data.coverage.fetched &&
+                                    ` • ${data.coverage.enriched} of ${data.coverage.fetched} places enriched`}
+                            </span>
+                        )}
                     </div>
                 </div>
 
@@ -119,6 +289,48 @@ const ResultsView: React.FC<ResultsViewProps> = ({ data, onFetchPlaces, isLoadin
                 </div>
             </div>
 
+            {scanProgress && <ScanProgressBar progress={scanProgress} onCancel={onCancelScan} />}
+
+            {/* Scoring profile controls */}
+            {data.insightType === InsightType.PLACES && data.places && (
+                <div className="bg-white/30 border-b border-white/20 px-8 py-3 flex flex-wrap items-center gap-4 text-xs text-slate-600 backdrop-blur-sm">
+                    <label className="flex items-center gap-2">
+                        <span className="font-semibold uppercase tracking-wide text-slate-500">Score by</span>
+                        <select
+                            value={activeProfile.id}
+                            onChange={(e) => setActiveScoringProfile(e.target.value)}
+                            className="rounded-md border border-white/40 bg-white/60 px-2 py-1 text-xs font-medium text-slate-700"
+                        >
+                            {profiles.map(profile => (
+                                <option key={profile.id} value={profile.id}>{profile.name}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <span className="font-semibold uppercase tracking-wide text-slate-500">Min score</span>
+                        <input
+                            type="range"
+                            min="0"
+                            max="100"
+                            step="5"
+                            value={minScore}
+                            onChange={(e) => setMinScore(parseInt(e.target.value))}
+                            className="w-32 accent-indigo-600"
+                        />
+                        <span className="w-6 text-slate-700 font-medium">{minScore}</span>
+                    </label>
+                    <button
+                        onClick={() => setShowCommissionSettings(true)}
+                        className="flex items-center gap-1 font-medium text-slate-600 hover:text-indigo-600"
+                    >
+                        <DollarSign size={12} /> Commission rates
+                    </button>
+                    <span className="text-slate-400">
+                        Showing {visiblePlaces.length} of {data.places.length}
+                    </span>
+                </div>
+            )}
+
             {/* Content */}
             <div className="flex-1 overflow-y-auto p-8">
                 {data.insightType === InsightType.COUNT && (
@@ -189,7 +401,7 @@ const ResultsView: React.FC<ResultsViewProps> = ({ data, onFetchPlaces, isLoadin
                                         </tr>
                                     </thead>
                                     <tbody className="divide-y divide-white/20">
-                                        {data.places.map((place, idx) => (
+                                        {visiblePlaces.map((place, idx) => (
                                             <React.Fragment key={place.placeId}>
                                                 <motion.tr
                                                     initial={{ opacity: 0, x: -10 }}
@@ -205,6 +417,14 @@ const ResultsView: React.FC<ResultsViewProps> = ({ data, onFetchPlaces, isLoadin
                                                                     {place.fit.isIndependent && (
                                                                         <span className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-indigo-100 text-indigo-700 border border-indigo-200">INDIE</span>
                                                                     )}
+                                                                    {place.chain?.classification === 'small-group' && (
+                                                                        <span
+                                                                            className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-amber-100 text-amber-700 border border-amber-200"
+                                                                            title={place.chain.reason}
+                                                                        >
+                                                                            GROUP · {place.chain.locationCount}
+                                                                        </span>
+                                                                    )}
                                                                 </div>
                                                                 <div className="text-xs text-slate-400 mt-0.5 truncate max-w-[180px]">{place.address}</div>
                                                                 <div className="flex gap-2 mt-2">
@@ -214,6 +434,7 @@ const ResultsView: React.FC<ResultsViewProps> = ({ data, onFetchPlaces, isLoadin
                                                                         </a>
                                                                     )}
                                                                 </div>
+                                                                <ContactSummary place={place} />
                                                             </div>
                                                         </div>
                                                     </td>
@@ -230,7 +451,35 @@ const ResultsView: React.FC<ResultsViewProps> = ({ data, onFetchPlaces, isLoadin
                                                                     ></div>
                                                                 </div>
                                                             </div>
-                                                            <span className="text-[10px] text-slate-500 font-medium">{place.fit.reason}</span>
+                                                            <div className="flex flex-wrap gap-1 max-w-[180px]">
+                                                                {place.fit.contributions.map(c => (
+                                                                    <span
+                                                                        key={c.ruleId}
+                                                                        className={`text-[9px] font-medium px-1 rounded ${c.disqualified || c.points < 0 ? 'bg-red-50 text-red-600' : 'bg-slate-100 text-slate-600'}`}
+                                                                    >
+                                                                        {c.label}{c.disqualified ? '' : ` ${c.points > 0 ? '+' : ''}${c.points}`}
+                                                                    </span>
+                                                                ))}
+                                                            </div>
+                                                            <CommissionBleed place={place} settings={commissionSettings} />
+                                                            {place.fitByProfile && profiles.length > 1 && (
+                                                                <div className="flex flex-col gap-0.5 mt-1 pt-1 border-t border-slate-100">
+                                                                    {profiles.filter(profile => profile.id !== activeProfile.id).map(profile => {
+                                                                        const score = place.fitByProfile?.[profile.id]?.score;
+                                                                        return (
+                                                                            <button
+                                                                                key={profile.id}
+                                                                                onClick={() => setActiveScoringProfile(profile.id)}
+                                                                                className="flex justify-between gap-2 text-[9px] text-slate-400 hover:text-indigo-600 text-left"
+                                                                                title={`Score by ${profile.name}`}
+                                                                            >
+                                                                                <span className="truncate">{profile.name}</span>
+                                                                                <span className="font-bold">{score ?? '-'}</span>
+                                                                            </button>
+                                                                        );
+                                                                    })}
+                                                                </div>
+                                                            )}
                                                         </div>
                                                     </td>
                                                     <td className="px-6 py-4">
@@ -243,7 +492,7 @@ const ResultsView: React.FC<ResultsViewProps> = ({ data, onFetchPlaces, isLoadin
                                                             <span className="text-[9px] text-slate-500 leading-tight">
                                                                 {place.sonicBrand?.opportunity ?? 'Analyze...'}
                                                             </span>
-                                                            <SonicBrandPipeline restaurant={place} />
+                                                            <SonicBrandPipeline restaurant={place} leads={visiblePlaces} analysisResults={analysisResults} />
                                                         </div>
                                                     </td>
                                                     <td className="px-6 py-4">
@@ -252,20 +501,24 @@ const ResultsView: React.FC<ResultsViewProps> = ({ data, onFetchPlaces, isLoadin
                                                             <div className="flex items-center gap-2 text-xs">
                                                                 <Globe size={12} className="text-slate-400" />
                                                                 <span className="text-slate-700">{place.techStack.websitePlatform || 'Unknown'}</span>
-                                                                <span className="text-[9px] text-slate-400">({place.techStack.confidence}% conf.)</span>
+                                                                <span className="text-[9px] text-slate-400">
+                                                                    ({place.techStack.confidence}% conf.{place.techStack.pagesCrawled && place.techStack.pagesCrawled.length > 1 ? `, ${place.techStack.pagesCrawled.length} pages` : ''})
+                                                                </span>
                                                             </div>
                                                             {/* Ordering */}
-                                                            <div className="flex items-center gap-2 text-xs">
+                                                            <div className="flex items-center gap-2 text-xs" title={orderingTitle(place)}>
                                                                 <Smartphone size={12} className={place.techStack.hasFirstPartyOrdering ? "text-green-500" : "text-red-400"} />
                                                                 <span className={place.techStack.hasFirstPartyOrdering ? "text-slate-700" : "text-red-600 font-medium"}>
-                                                                    {place.techStack.hasFirstPartyOrdering ? '1P Ordering' : 'No 1P Ordering'}
+                                                                    {place.techStack.ordering
+                                                                        ? ORDERING_VERDICT_LABELS[place.techStack.ordering.verdict]
+                                                                        : place.techStack.hasFirstPartyOrdering ? '1P Ordering' : 'No 1P Ordering'}
                                                                 </span>
                                                             </div>
                                                             {/* Ordering Systems */}
                                                             {place.techStack.onlineOrdering.length > 0 && (
                                                                 <div className="flex flex-wrap gap-1">
                                                                     {place.techStack.onlineOrdering.map(o => (
-                                                                        <span key={o} className="px-1.5 py-0.5 bg-blue-50 text-blue-600 text-[10px] rounded border border-blue-200">{o}</span>
+                                                                        <span key={o} title={evidenceTitle(place, 'onlineOrdering', o)} className="px-1.5 py-0.5 bg-blue-50 text-blue-600 text-[10px] rounded border border-blue-200">{o}</span>
                                                                     ))}
                                                                 </div>
                                                             )}
@@ -273,7 +526,7 @@ const ResultsView: React.FC<ResultsViewProps> = ({ data, onFetchPlaces, isLoadin
                                                             <div className="flex flex-wrap gap-1">
                                                                 {place.techStack.delivery.length > 0 ? (
                                                                     place.techStack.delivery.map(d => (
-                                                                        <span key={d} className="px-1.5 py-0.5 bg-slate-100 text-slate-500 text-[10px] rounded border border-slate-200">{d}</span>
+                                                                        <span key={d} title={evidenceTitle(place, 'delivery', d)} className="px-1.5 py-0.5 bg-slate-100 text-slate-500 text-[10px] rounded border border-slate-200">{d}</span>
                                                                     ))
                                                                 ) : (
                                                                     <span className="text-[10px] text-slate-400">No Delivery Apps</span>
@@ -283,7 +536,7 @@ const ResultsView: React.FC<ResultsViewProps> = ({ data, onFetchPlaces, isLoadin
                                                             {place.techStack.reservations.length > 0 && (
                                                                 <div className="flex flex-wrap gap-1">
                                                                     {place.techStack.reservations.map(r => (
-                                                                        <span key={r} className="px-1.5 py-0.5 bg-purple-50 text-purple-600 text-[10px] rounded border border-purple-200">{r}</span>
+                                                                        <span key={r} title={evidenceTitle(place, 'reservations', r)} className="px-1.5 py-0.5 bg-purple-50 text-purple-600 text-[10px] rounded border border-purple-200">{r}</span>
                                                                     ))}
                                                                 </div>
                                                             )}
@@ -297,22 +550,35 @@ const ResultsView: React.FC<ResultsViewProps> = ({ data, onFetchPlaces, isLoadin
                                                         </div>
                                                     </td>
                                                     <td className="px-6 py-4 text-right">
-                                                        <button
-                                                            onClick={() => handleAnalyze(place)}
-                                                            disabled={analyzing[place.placeId]}
-                                                            className={`text-xs font-medium border px-3 py-1.5 rounded-md transition-all flex items-center gap-1.5
-                                                            ${expandedIds.includes(place.placeId)
-                                                                    ? 'bg-indigo-600 text-white border-indigo-600 shadow-md'
-                                                                    : 'text-indigo-600 border-indigo-200 bg-indigo-50 hover:bg-indigo-100 hover:shadow-sm'
-                                                                }`}
-                                                        >
-                                                            {analyzing[place.placeId] ? (
-                                                                <Loader2 size={12} className="animate-spin" />
-                                                            ) : (
-                                                                <Sparkles size={12} />
-                                                            )}
-                                                            {expandedIds.includes(place.placeId) ? 'Vibe Check' : 'Analyze'}
-                                                        </button>
+                                                        <div className="flex flex-col items-end gap-2">
+                                                            <button
+                                                                onClick={() => handleSaveLead(place)}
+                                                                className={`text-xs font-medium px-3 py-1.5 rounded-md border flex items-center gap-1.5 transition-all ${savedLeadIds.has(place.placeId)
+                                                                    ? 'text-emerald-700 border-emerald-200 bg-emerald-50'
+                                                                    : 'text-slate-600 border-slate-200 bg-white/60 hover:bg-white'
+                                                                    }`}
+                                                                title={savedLeadIds.has(place.placeId) ? 'Saved to pipeline (click to refresh snapshot)' : 'Save to pipeline'}
+                                                            >
+                                                                {savedLeadIds.has(place.placeId) ? <BookmarkCheck size={12} /> : <Bookmark size={12} />}
+                                                                {savedLeadIds.has(place.placeId) ? 'Saved' : 'Save'}
+                                                            </button>
+                                                            <button
+                                                                onClick={() => handleAnalyze(place)}
+                                                                disabled={analyzing[place.placeId]}
+                                                                className={`text-xs font-medium border px-3 py-1.5 rounded-md transition-all flex items-center gap-1.5
+                                                                ${expandedIds.includes(place.placeId)
+                                                                        ? 'bg-indigo-600 text-white border-indigo-600 shadow-md'
+                                                                        : 'text-indigo-600 border-indigo-200 bg-indigo-50 hover:bg-indigo-100 hover:shadow-sm'
+                                                                    }`}
+                                                            >
+                                                                {analyzing[place.placeId] ? (
+                                                                    <Loader2 size={12} className="animate-spin" />
+                                                                ) : (
+                                                                    <Sparkles size={12} />
+                                                                )}
+                                                                {expandedIds.includes(place.placeId) ? 'Vibe Check' : 'Analyze'}
+                                                            </button>
+                                                        </div>
                                                     </td>
                                                 </motion.tr>
                                                 <AnimatePresence>
@@ -363,6 +629,12 @@ const ResultsView: React.FC<ResultsViewProps> = ({ data, onFetchPlaces, isLoadin
                                                                             </div>
                                                                         </div>
                                                                     )}
+                                                                    <div className={analyzing[place.placeId] || analysisResults[place.placeId] ? 'mt-4 pt-4 border-t border-indigo-100' : ''}>
+                                                                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                                                            <TechEvidenceList techStack={place.techStack} />
+                                                                            <TechHistoryTimeline website={place.website} />
+                                                                        </div>
+                                                                    </div>
                                                                 </div>
                                                             </td>
                                                         </motion.tr>
@@ -377,6 +649,12 @@ const ResultsView: React.FC<ResultsViewProps> = ({ data, onFetchPlaces, isLoadin
                     )
                 }
             </div>
+
+            <CommissionSettingsPanel
+                isOpen={showCommissionSettings}
+                onClose={() => setShowCommissionSettings(false)}
+                onChange={setCommissionSettings}
+            />
         </div>
     );
 };
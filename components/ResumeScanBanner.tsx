@@ -0,0 +1,47 @@
+/**
+ * Resume Scan Banner Component
+ *
+ * Offers to resume a lead list scan that was interrupted (e.g. by a reload),
+ * enriching only the places it had not finished.
+ */
+
+import React from 'react';
+import { RotateCcw, X } from 'lucide-react';
+import { SearchArea } from '../types';
+import { ScanCheckpoint } from '../services/scanCheckpoints';
+
+interface ResumeScanBannerProps {
+  checkpoint: ScanCheckpoint;
+  onResume: (checkpoint: ScanCheckpoint) => void;
+  onDiscard: (checkpoint: ScanCheckpoint) => void;
+}
+
+const describeTerritory = (area: SearchArea): string => {
+  if (area.territoryType === 'polygon') return 'drawn territory';
+  if (area.territoryType === 'zipList') return `ZIPs ${(area.zipCodes || []).join(', ')}`;
+  return `${area.radiusKm} km around ${area.zipCode}`;
+};
+
+export const ResumeScanBanner: React.FC<ResumeScanBannerProps> = ({ checkpoint, onResume, onDiscard }) => (
+  <div className="bg-amber-50 border-b border-amber-200 px-8 py-2 flex items-center gap-4 text-xs text-amber-800">
+    <span className="flex-1 min-w-0 truncate">
+      <span className="font-semibold">Unfinished scan</span> of {describeTerritory(checkpoint.area)} from{' '}
+      {new Date(checkpoint.startedAt).toLocaleString()} • {checkpoint.finishedCount} places done
+    </span>
+    <button
+      onClick={() => onResume(checkpoint)}
+      className="flex items-center gap-1 px-3 py-1 bg-amber-600 text-white rounded-md hover:bg-amber-700 font-medium shrink-0"
+    >
+      <RotateCcw size={12} /> Resume
+    </button>
+    <button
+      onClick={() => onDiscard(checkpoint)}
+      className="p-1 text-amber-700 hover:text-amber-900 shrink-0"
+      aria-label="Discard unfinished scan"
+    >
+      <X size={14} />
+    </button>
+  </div>
+);
+
+export default ResumeScanBanner;
@@ -0,0 +1,295 @@
+/**
+ * Saved Searches Panel Component
+ *
+ * Saves the current territory + filters under a name, schedules re-runs
+ * and shows what changed since the previous run.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Bookmark, Play, Trash2, Upload, Loader2, Save, TrendingUp, TrendingDown } from 'lucide-react';
+import { SearchArea, SearchFilters } from '../types';
+import {
+  SavedSearch,
+  SavedSearchRun,
+  SearchDiff,
+  SearchSchedule,
+  SEARCH_SCHEDULES,
+  getSavedSearches,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  countSearchChanges
+} from '../services/savedSearchStore';
+
+interface SavedSearchesPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  area: SearchArea;
+  filters: SearchFilters;
+  onLoad: (search: SavedSearch) => void;
+  onRerun: (id: string) => Promise<SavedSearchRun | null>; // Runs as the app's search; null when cancelled
+}
+
+const formatVendor = (vendor: string): string => vendor.split(':').slice(1).join(':');
+
+const DiffSection: React.FC<{ title: string; count: number; children: React.ReactNode }> = ({ title, count, children }) => (
+  <div>
+    <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">
+      {title} <span className="text-slate-400 font-normal">({count})</span>
+    </h4>
+    {count > 0 ? <ul className="space-y-1">{children}</ul> : <p className="text-xs text-slate-400">None</p>}
+  </div>
+);
+
+const SearchDiffView: React.FC<{ diff: SearchDiff }> = ({ diff }) => (
+  <div className="space-y-4">
+    <p className="text-xs text-slate-500">
+      {new Date(diff.fromRunAt).toLocaleString()} → {new Date(diff.toRunAt).toLocaleString()}
+    </p>
+
+    <DiffSection title="New places" count={diff.newPlaces.length}>
+      {diff.newPlaces.map(p => (
+        <li key={p.placeId} className="text-xs text-slate-700 flex justify-between">
+          <span>{p.name}</span>
+          <span className="font-semibold text-indigo-600">{p.fitScore}</span>
+        </li>
+      ))}
+    </DiffSection>
+
+    <DiffSection title="Closed" count={diff.closedPlaces.length}>
+      {diff.closedPlaces.map(p => (
+        <li key={p.placeId} className="text-xs text-slate-700 flex justify-between">
+          <span>{p.name}</span>
+          <span className="text-red-600">{p.operationalStatus.replace('_', ' ').toLowerCase()}</span>
+        </li>
+      ))}
+    </DiffSection>
+
+    <DiffSection title="Tech stack changes" count={diff.techChanges.length}>
+      {diff.techChanges.map(c => (
+        <li key={c.placeId} className="text-xs text-slate-700">
+          <span className="font-medium">{c.name}</span>
+          <span className="ml-2">
+            {c.removed.map(v => <span key={v} className="text-red-600 mr-2">−{formatVendor(v)}</span>)}
+            {c.added.map(v => <span key={v} className="text-emerald-600 mr-2">+{formatVendor(v)}</span>)}
+          </span>
+        </li>
+      ))}
+    </DiffSection>
+
+    <DiffSection title="Fit score movers" count={diff.fitMovers.length}>
+      {diff.fitMovers.map(m => (
+        <li key={m.placeId} className="text-xs text-slate-700 flex justify-between">
+          <span>{m.name}</span>
+          <span className={`flex items-center gap-1 ${m.to > m.from ? 'text-emerald-600' : 'text-red-600'}`}>
+            {m.to > m.from ? <TrendingUp size={12} /> : <TrendingDown size={12} />}
+            {m.from} → {m.to}
+          </span>
+        </li>
+      ))}
+    </DiffSection>
+
+    {diff.droppedPlaces.length > 0 && (
+      <p className="text-xs text-slate-400">
+        {diff.droppedPlaces.length} places no longer match the filters.
+      </p>
+    )}
+  </div>
+);
+
+export const SavedSearchesPanel: React.FC<SavedSearchesPanelProps> = ({
+  isOpen,
+  onClose,
+  area,
+  filters,
+  onLoad,
+  onRerun
+}) => {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newSchedule, setNewSchedule] = useState<SearchSchedule>('weekly');
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setSearches(await getSavedSearches());
+    } catch (e) {
+      console.error('Failed to load saved searches:', e);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen]);
+
+  const replaceSearch = (search: SavedSearch) => {
+    setSearches(prev => prev.map(s => (s.id === search.id ? search : s)));
+  };
+
+  const handleCreate = async () => {
+    try {
+      const search = await createSavedSearch(newName, area, filters, newSchedule);
+      setNewName('');
+      setError(null);
+      await refresh();
+      setSelectedId(search.id);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const handleRerun = async (search: SavedSearch) => {
+    setRunningId(search.id);
+    setError(null);
+    try {
+      const run = await onRerun(search.id);
+      if (run) {
+        replaceSearch(run.search);
+        setSelectedId(search.id);
+      }
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  const handleSchedule = async (search: SavedSearch, schedule: SearchSchedule) => {
+    replaceSearch(await updateSavedSearch(search.id, { schedule }));
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteSavedSearch(id);
+    setSearches(prev => prev.filter(s => s.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  if (!isOpen) return null;
+
+  const selected = searches.find(s => s.id === selectedId);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full p-6 space-y-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Bookmark className="w-5 h-5 text-indigo-600" />
+            Saved Searches
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Name the current search, e.g. Uptown pizza"
+            className="flex-1 rounded-md border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <select
+            value={newSchedule}
+            onChange={(e) => setNewSchedule(e.target.value as SearchSchedule)}
+            className="rounded-md border border-slate-300 px-2 py-2 text-sm"
+          >
+            {SEARCH_SCHEDULES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+          </select>
+          <button
+            onClick={handleCreate}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium flex items-center gap-2"
+          >
+            <Save size={14} /> Save
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs text-red-700">{error}</div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 flex-1 min-h-0">
+          <div className="space-y-2 overflow-y-auto">
+            {searches.length === 0 && (
+              <p className="text-sm text-slate-500">No saved searches yet.</p>
+            )}
+            {searches.map(search => (
+              <div
+                key={search.id}
+                onClick={() => setSelectedId(search.id)}
+                className={`p-3 rounded-lg border cursor-pointer transition-colors ${
+                  search.id === selectedId ? 'border-indigo-300 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-semibold text-slate-800">{search.name}</span>
+                  {search.lastDiff && countSearchChanges(search.lastDiff) > 0 && (
+                    <span className="text-[10px] font-bold text-amber-700 bg-amber-100 px-1.5 py-0.5 rounded">
+                      {countSearchChanges(search.lastDiff)} CHANGES
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-slate-500 mt-1">
+                  {search.lastRunAt ? `Last run ${new Date(search.lastRunAt).toLocaleString()}` : 'Never run'}
+                  {search.nextRunAt && ` • Next ${new Date(search.nextRunAt).toLocaleDateString()}`}
+                </div>
+                <div className="flex items-center gap-2 mt-2" onClick={(e) => e.stopPropagation()}>
+                  <select
+                    value={search.schedule}
+                    onChange={(e) => handleSchedule(search, e.target.value as SearchSchedule)}
+                    className="rounded border border-slate-200 px-1.5 py-1 text-xs"
+                  >
+                    {SEARCH_SCHEDULES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                  </select>
+                  <button
+                    onClick={() => handleRerun(search)}
+                    disabled={runningId !== null}
+                    className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-white bg-indigo-600 rounded hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    {runningId === search.id ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />}
+                    Re-run
+                  </button>
+                  <button
+                    onClick={() => onLoad(search)}
+                    className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-slate-600 hover:bg-slate-100 rounded"
+                  >
+                    <Upload size={12} /> Load
+                  </button>
+                  <button
+                    onClick={() => handleDelete(search.id)}
+                    className="ml-auto p-1 text-slate-400 hover:text-red-600"
+                    aria-label="Delete saved search"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="overflow-y-auto border-l border-slate-100 pl-4">
+            {selected?.lastDiff ? (
+              <SearchDiffView diff={selected.lastDiff} />
+            ) : (
+              <p className="text-sm text-slate-500">
+                {selected
+                  ? selected.lastSnapshot
+                    ? 'Re-run this search to compare against the last snapshot.'
+                    : 'Run this search once to take its first snapshot.'
+                  : 'Select a saved search to see what changed since its previous run.'}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SavedSearchesPanel;
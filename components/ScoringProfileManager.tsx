@@ -0,0 +1,186 @@
+/**
+ * Scoring Profile Manager Component
+ *
+ * Lists scoring profiles, switches the active one and edits profiles as JSON.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal, Check, Save, RotateCcw, Plus, AlertCircle } from 'lucide-react';
+import {
+  ScoringProfile,
+  getScoringProfiles,
+  getActiveScoringProfile,
+  setActiveScoringProfile,
+  saveScoringProfile,
+  deleteScoringProfile,
+  isBuiltInScoringProfile,
+  parseScoringProfile
+} from '../services/scoringEngine';
+
+interface ScoringProfileManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const toJson = (profile: ScoringProfile): string => {
+  const { builtIn, ...rest } = profile;
+  return JSON.stringify(rest, null, 2);
+};
+
+export const ScoringProfileManager: React.FC<ScoringProfileManagerProps> = ({ isOpen, onClose }) => {
+  const [profiles, setProfiles] = useState<ScoringProfile[]>([]);
+  const [activeId, setActiveId] = useState<string>('');
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = (selectId?: string) => {
+    const all = getScoringProfiles();
+    const active = getActiveScoringProfile();
+    const selected = all.find(p => p.id === (selectId ?? selectedId)) || active;
+    setProfiles(all);
+    setActiveId(active.id);
+    setSelectedId(selected.id);
+    setDraft(toJson(selected));
+    setError(null);
+  };
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen]);
+
+  const handleSelect = (profile: ScoringProfile) => {
+    setSelectedId(profile.id);
+    setDraft(toJson(profile));
+    setError(null);
+  };
+
+  const handleActivate = (id: string) => {
+    setActiveScoringProfile(id);
+    refresh(id);
+  };
+
+  const handleSave = () => {
+    try {
+      const profile = parseScoringProfile(draft);
+      saveScoringProfile(profile);
+      refresh(profile.id);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const handleNew = () => {
+    const template = getActiveScoringProfile();
+    setSelectedId('');
+    setDraft(toJson({ ...template, id: `${template.id}-copy`, name: `${template.name} (copy)`, version: 1 }));
+    setError(null);
+  };
+
+  const handleDelete = () => {
+    deleteScoringProfile(selectedId);
+    refresh(selectedId);
+  };
+
+  if (!isOpen) return null;
+
+  const selected = profiles.find(p => p.id === selectedId);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full p-6 space-y-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <SlidersHorizontal className="w-5 h-5 text-indigo-600" />
+            Scoring Profiles
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <p className="text-sm text-slate-600">
+          Fit scores are computed from the active profile. Each rule has a condition over place and
+          tech stack fields, a point weight, or disqualifies the lead outright.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 flex-1 min-h-0">
+          <div className="space-y-2 overflow-y-auto">
+            {profiles.map(profile => (
+              <div
+                key={profile.id}
+                onClick={() => handleSelect(profile)}
+                className={`p-3 rounded-lg border cursor-pointer transition-colors ${
+                  profile.id === selectedId ? 'border-indigo-300 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-semibold text-slate-800">{profile.name}</span>
+                  {profile.id === activeId ? (
+                    <span className="text-[10px] font-bold text-emerald-700 bg-emerald-100 px-1.5 py-0.5 rounded flex items-center gap-1">
+                      <Check size={10} /> ACTIVE
+                    </span>
+                  ) : (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleActivate(profile.id); }}
+                      className="text-[10px] font-medium text-indigo-600 hover:text-indigo-700"
+                    >
+                      Activate
+                    </button>
+                  )}
+                </div>
+                <div className="text-xs text-slate-500 mt-1">
+                  {profile.rules.length} rules • v{profile.version}{profile.builtIn ? ' • built-in' : ''}
+                </div>
+              </div>
+            ))}
+            <button
+              onClick={handleNew}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg border border-dashed border-slate-300 text-sm text-slate-600 hover:bg-slate-50"
+            >
+              <Plus size={14} /> New from active
+            </button>
+          </div>
+
+          <div className="md:col-span-2 flex flex-col gap-2 min-h-0">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              spellCheck={false}
+              className="flex-1 min-h-[320px] w-full font-mono text-xs rounded-lg border border-slate-300 p-3 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs text-red-700 whitespace-pre-wrap flex gap-2">
+                <AlertCircle size={14} className="shrink-0 mt-0.5" />
+                {error}
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              {selected && !selected.builtIn && (
+                <button
+                  onClick={handleDelete}
+                  className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 flex items-center gap-2"
+                >
+                  <RotateCcw size={14} />
+                  {isBuiltInScoringProfile(selectedId) ? 'Reset' : 'Delete'}
+                </button>
+              )}
+              <button
+                onClick={handleSave}
+                className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium flex items-center gap-2"
+              >
+                <Save size={14} /> Save Profile
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScoringProfileManager;
@@ -0,0 +1,276 @@
+/**
+ * Script Template Preview Component
+ *
+ * Renders a SonicBrand script template against any lead in the results, with
+ * the template source editable beside the output. Templates can be saved,
+ * duplicated, reset and chosen as the one the pipeline uses.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { FileText, Shuffle, Save, RotateCcw, Copy, Check, Wand2, AlertCircle } from 'lucide-react';
+import { PlaceResult } from '../types';
+import type { AIAnalysisResult } from '../services/aiService';
+import {
+  ScriptType,
+  ScriptTemplate,
+  SCRIPT_TYPES,
+  getScriptTemplates,
+  getActiveScriptTemplate,
+  setActiveScriptTemplate,
+  saveScriptTemplate,
+  deleteScriptTemplate,
+  isBuiltInScriptTemplate,
+  buildTemplateVariables,
+  renderScriptTemplate
+} from '../services/scriptTemplates';
+
+interface ScriptTemplatePreviewProps {
+  isOpen: boolean;
+  onClose: () => void;
+  leads: PlaceResult[];
+  initialLeadId?: string;
+  analysisResults?: Record<string, AIAnalysisResult>;
+  initialVariant?: number;
+  onGenerate?: () => void; // Offered as "Generate Full Package" for the initial lead
+}
+
+const VARIABLE_HINT = 'name, type, rating, reviews, price, address, website, phone, tagline, usp, ai.vibe, ai.targetAudience, ai.usp, ai.suggestedPitch, tech.websitePlatform, tech.onlineOrdering, tech.delivery, tech.reservations, tech.pos, tech.loyalty, tech.hasFirstPartyOrdering';
+
+export const ScriptTemplatePreview: React.FC<ScriptTemplatePreviewProps> = ({
+  isOpen,
+  onClose,
+  leads,
+  initialLeadId,
+  analysisResults = {},
+  initialVariant = 0,
+  onGenerate
+}) => {
+  const [scriptType, setScriptType] = useState<ScriptType>('jingle');
+  const [templates, setTemplates] = useState<ScriptTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [activeId, setActiveId] = useState('');
+  const [draft, setDraft] = useState('');
+  const [leadId, setLeadId] = useState(initialLeadId || leads[0]?.placeId || '');
+  const [variant, setVariant] = useState(initialVariant);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectTemplate = (template: ScriptTemplate | undefined) => {
+    setTemplateId(template?.id || '');
+    setDraft(template?.body || '');
+    setError(null);
+  };
+
+  const loadTemplates = (type: ScriptType, selectId?: string) => {
+    const list = getScriptTemplates(type);
+    const active = getActiveScriptTemplate(type);
+    setTemplates(list);
+    setActiveId(active?.id || '');
+    selectTemplate(list.find(t => t.id === selectId) || active);
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      loadTemplates(scriptType);
+      setLeadId(initialLeadId || leads[0]?.placeId || '');
+    }
+  }, [isOpen, scriptType]);
+
+  useEffect(() => {
+    if (isOpen) setVariant(initialVariant);
+  }, [isOpen]);
+
+  const template = templates.find(t => t.id === templateId);
+  const lead = leads.find(l => l.placeId === leadId);
+
+  // Scripts use the lead's tagline and USP, rendered from the active templates
+  const preview = useMemo((): { output?: string; error?: string } => {
+    if (!template || !lead) return {};
+    try {
+      const analysis = analysisResults[lead.placeId];
+      const base = buildTemplateVariables(lead, analysis);
+      const brand = scriptType === 'tagline' || scriptType === 'usp' ? {} : {
+        tagline: renderScriptTemplate(getActiveScriptTemplate('tagline'), base, variant),
+        usp: renderScriptTemplate(getActiveScriptTemplate('usp'), base, variant)
+      };
+      return { output: renderScriptTemplate({ ...template, body: draft }, buildTemplateVariables(lead, analysis, brand), variant) };
+    } catch (e) {
+      return { error: (e as Error).message };
+    }
+  }, [template, lead, draft, variant, scriptType, analysisResults]);
+
+  const handleSave = () => {
+    if (!template) return;
+    try {
+      saveScriptTemplate({ ...template, body: draft });
+      loadTemplates(scriptType, template.id);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const handleDuplicate = () => {
+    if (!template) return;
+    const ids = getScriptTemplates().map(t => t.id);
+    let id = `${template.id}-copy`;
+    for (let n = 2; ids.includes(id); n++) id = `${template.id}-copy-${n}`;
+    try {
+      saveScriptTemplate({ id, name: `${template.name} (copy)`, type: scriptType, description: template.description, body: draft });
+      loadTemplates(scriptType, id);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!template) return;
+    deleteScriptTemplate(template.id);
+    loadTemplates(scriptType, isBuiltInScriptTemplate(template.id) ? template.id : undefined);
+  };
+
+  const handleUse = () => {
+    if (!template) return;
+    setActiveScriptTemplate(scriptType, template.id);
+    setActiveId(template.id);
+  };
+
+  if (!isOpen) return null;
+
+  const isBuiltIn = template ? isBuiltInScriptTemplate(template.id) : false;
+  const selectClass = 'rounded-lg border border-slate-300 px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-6 border-b border-slate-200 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <FileText className="w-5 h-5 text-purple-600" />
+            Script Templates
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="text-xs font-bold text-slate-500 uppercase tracking-wider space-y-1">
+              <span className="block">Script</span>
+              <select value={scriptType} onChange={(e) => setScriptType(e.target.value as ScriptType)} className={selectClass}>
+                {SCRIPT_TYPES.map(type => <option key={type.id} value={type.id}>{type.label}</option>)}
+              </select>
+            </label>
+            <label className="text-xs font-bold text-slate-500 uppercase tracking-wider space-y-1">
+              <span className="block">Template</span>
+              <select value={templateId} onChange={(e) => selectTemplate(templates.find(t => t.id === e.target.value))} className={selectClass}>
+                {templates.map(t => (
+                  <option key={t.id} value={t.id}>{t.name}{t.id === activeId ? ' (in use)' : ''}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs font-bold text-slate-500 uppercase tracking-wider space-y-1 flex-1 min-w-[12rem]">
+              <span className="block">Lead</span>
+              <select value={leadId} onChange={(e) => setLeadId(e.target.value)} className={`${selectClass} w-full`}>
+                {leads.map(l => (
+                  <option key={l.placeId} value={l.placeId}>{l.name}{analysisResults[l.placeId] ? ' ✨' : ''}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={() => setVariant(variant + 1)}
+              className="px-3 py-1.5 text-sm font-medium text-purple-700 bg-purple-50 hover:bg-purple-100 rounded-lg flex items-center gap-2"
+              title="Render another seeded variant"
+            >
+              <Shuffle size={14} /> Variant {variant}
+            </button>
+          </div>
+
+          {template?.description && <p className="text-sm text-slate-600">{template.description}</p>}
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Template</h3>
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                spellCheck={false}
+                className="w-full h-72 rounded-lg border border-slate-300 p-3 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+              <p className="text-[10px] text-slate-400">Variables: {VARIABLE_HINT}</p>
+            </div>
+            <div className="space-y-1">
+              <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+                {lead ? `Rendered for ${lead.name}` : 'Rendered'}
+              </h3>
+              {preview.error ? (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs text-red-700 flex gap-2">
+                  <AlertCircle size={14} className="shrink-0 mt-0.5" />
+                  {preview.error}
+                </div>
+              ) : (
+                <pre className="h-72 overflow-y-auto text-sm text-slate-700 whitespace-pre-wrap bg-slate-50 p-3 rounded-lg border border-slate-200">
+                  {preview.output ?? 'Pick a template and a lead'}
+                </pre>
+              )}
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs text-red-700 flex gap-2">
+              <AlertCircle size={14} className="shrink-0 mt-0.5" />
+              {error}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-200 flex flex-wrap justify-end gap-2">
+          {template && (
+            <button
+              onClick={handleDelete}
+              className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 flex items-center gap-2"
+            >
+              <RotateCcw size={14} /> {isBuiltIn ? 'Reset' : 'Delete'}
+            </button>
+          )}
+          <button
+            onClick={handleDuplicate}
+            disabled={!template}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 flex items-center gap-2 disabled:opacity-50"
+          >
+            <Copy size={14} /> Duplicate
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!template || draft === template.body}
+            className="px-4 py-2 text-sm font-medium text-purple-700 hover:text-purple-800 flex items-center gap-2 disabled:opacity-50"
+          >
+            <Save size={14} /> Save
+          </button>
+          <button
+            onClick={handleUse}
+            disabled={!template || template.id === activeId}
+            className="px-4 py-2 text-sm font-medium text-purple-700 bg-purple-50 hover:bg-purple-100 rounded-lg flex items-center gap-2 disabled:opacity-50"
+          >
+            <Check size={14} /> {template && template.id === activeId ? 'In use' : 'Use in pipeline'}
+          </button>
+          {onGenerate && (
+            <button
+              onClick={() => {
+                onClose();
+                onGenerate();
+              }}
+              className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 text-sm font-medium flex items-center gap-2"
+            >
+              <Wand2 size={14} /> Generate Full Package
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScriptTemplatePreview;
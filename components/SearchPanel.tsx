@@ -1,8 +1,8 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Search, MapPin, Filter, AlertCircle, Zap, ShieldCheck, X, Crosshair } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { PLACE_CATEGORIES, PRICE_LEVEL_LABELS } from '../constants';
-import { PriceLevel, SearchArea, SearchFilters, OperationalStatus } from '../types';
+import { PriceLevel, SearchArea, SearchFilters, OperationalStatus, SplitStrategy, TerritoryType } from '../types';
 import { getZipFromCoordinates } from '../services/placesService';
 
 interface SearchPanelProps {
@@ -15,6 +15,15 @@ interface SearchPanelProps {
   onCloseMobile?: () => void;
 }
 
+const TERRITORY_TYPES: { id: TerritoryType; label: string }[] = [
+  { id: 'radius', label: 'Radius' },
+  { id: 'zipList', label: 'ZIP List' },
+  { id: 'polygon', label: 'Polygon' }
+];
+
+const parseZipList = (text: string): string[] =>
+  Array.from(new Set(text.split(/[\s,;]+/).map(z => z.trim()).filter(Boolean)));
+
 const SearchPanel: React.FC<SearchPanelProps> = ({
   area,
   setArea,
@@ -25,6 +34,16 @@ const SearchPanel: React.FC<SearchPanelProps> = ({
   onCloseMobile
 }) => {
   const [isLoadingLocation, setIsLoadingLocation] = useState(false);
+  const [zipListDraft, setZipListDraft] = useState((area.zipCodes || []).join(', '));
+  const territoryType = area.territoryType ?? 'radius';
+
+  // Pick up ZIP lists set from outside the panel (e.g. loading a saved search)
+  useEffect(() => {
+    const zipCodes = area.zipCodes || [];
+    if (parseZipList(zipListDraft).join(',') !== zipCodes.join(',')) {
+      setZipListDraft(zipCodes.join(', '));
+    }
+  }, [area.zipCodes]);
 
   const handleUseMyLocation = async () => {
     setIsLoadingLocation(true);
@@ -108,48 +127,120 @@ const SearchPanel: React.FC<SearchPanelProps> = ({
             <Search size={14} /> Territory
           </h2>
 
-          <div>
-            <label className="block text-xs font-medium text-slate-700 mb-1">ZIP Code / City</label>
-            <div className="flex gap-2">
-              <input
-                type="text"
-                value={area.zipCode}
-                onChange={(e) => setArea({ ...area, zipCode: e.target.value })}
-                placeholder="e.g. 28202"
-                className="flex-1 rounded-md border border-white/30 bg-white/50 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 placeholder-slate-500 backdrop-blur-sm transition-colors"
-              />
+          <div className="grid grid-cols-3 gap-1 bg-white/40 p-1 rounded-lg border border-white/30">
+            {TERRITORY_TYPES.map(t => (
               <button
-                onClick={handleUseMyLocation}
-                disabled={isLoadingLocation}
-                className="px-3 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md border border-indigo-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
-                title="Use my current location"
+                key={t.id}
+                onClick={() => setArea({ ...area, territoryType: t.id })}
+                className={`px-2 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                  territoryType === t.id ? 'bg-indigo-600 text-white shadow-sm' : 'text-slate-600 hover:bg-white/60'
+                }`}
               >
-                {isLoadingLocation ? (
-                  <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                ) : (
-                  <Crosshair size={18} />
-                )}
+                {t.label}
               </button>
-            </div>
-            <p className="text-[10px] text-slate-400 mt-1">📍 Click target icon to auto-detect your location</p>
+            ))}
           </div>
 
-          <div>
-            <div className="flex justify-between text-xs mb-1">
-              <label className="font-medium text-slate-700">Radius</label>
-              <span className="text-slate-500">{area.radiusKm} km</span>
+          {territoryType === 'radius' && (
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">ZIP Code / City</label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={area.zipCode}
+                  onChange={(e) => setArea({ ...area, zipCode: e.target.value })}
+                  placeholder="e.g. 28202"
+                  className="flex-1 rounded-md border border-white/30 bg-white/50 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 placeholder-slate-500 backdrop-blur-sm transition-colors"
+                />
+                <button
+                  onClick={handleUseMyLocation}
+                  disabled={isLoadingLocation}
+                  className="px-3 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md border border-indigo-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+                  title="Use my current location"
+                >
+                  {isLoadingLocation ? (
+                    <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                  ) : (
+                    <Crosshair size={18} />
+                  )}
+                </button>
+              </div>
+              <p className="text-[10px] text-slate-400 mt-1">📍 Click target icon to auto-detect your location</p>
             </div>
-            <input
-              type="range"
-              min="1"
-              max="50"
-              value={area.radiusKm}
-              onChange={(e) => setArea({ ...area, radiusKm: parseInt(e.target.value) })}
-              className="w-full h-2 bg-slate-200/50 rounded-lg appearance-none cursor-pointer accent-indigo-600 backdrop-blur-sm"
-            />
+          )}
+
+          {territoryType === 'zipList' && (
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">ZIP Codes</label>
+              <textarea
+                value={zipListDraft}
+                onChange={(e) => {
+                  setZipListDraft(e.target.value);
+                  setArea({ ...area, zipCodes: parseZipList(e.target.value) });
+                }}
+                rows={3}
+                placeholder="e.g. 28202, 28203, 28204"
+                className="w-full rounded-md border border-white/30 bg-white/50 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 placeholder-slate-500 backdrop-blur-sm transition-colors"
+              />
+              <p className="text-[10px] text-slate-400 mt-1">
+                {area.zipCodes?.length || 0} ZIPs • each searched with the radius below, duplicates merged
+              </p>
+            </div>
+          )}
+
+          {territoryType === 'polygon' && (
+            <div className="bg-white/40 p-3 rounded-lg border border-white/30 space-y-2 shadow-sm backdrop-blur-sm">
+              <div className="flex items-center justify-between text-xs">
+                <span className="font-medium text-slate-700">Drawn Territory</span>
+                <span className="text-slate-500">{area.polygon?.length || 0} points</span>
+              </div>
+              <p className="text-xs text-slate-500">
+                Use "Draw Territory" on the map and click to add points. Drag points to adjust.
+              </p>
+              {(area.polygon?.length ?? 0) > 0 && (
+                <button
+                  onClick={() => setArea({ ...area, polygon: [] })}
+                  className="text-xs font-medium text-red-600 hover:text-red-700"
+                >
+                  Clear polygon
+                </button>
+              )}
+            </div>
+          )}
+
+          {territoryType !== 'polygon' && (
+            <div>
+              <div className="flex justify-between text-xs mb-1">
+                <label className="font-medium text-slate-700">Radius</label>
+                <span className="text-slate-500">{area.radiusKm} km</span>
+              </div>
+              <input
+                type="range"
+                min="1"
+                max="50"
+                value={area.radiusKm}
+                onChange={(e) => setArea({ ...area, radiusKm: parseInt(e.target.value) })}
+                className="w-full h-2 bg-slate-200/50 rounded-lg appearance-none cursor-pointer accent-indigo-600 backdrop-blur-sm"
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-xs font-medium text-slate-700 mb-1">Dense Area Strategy</label>
+            <select
+              value={area.splitStrategy ?? 'rating'}
+              onChange={(e) => setArea({ ...area, splitStrategy: e.target.value as SplitStrategy })}
+              className="w-full rounded-md border border-white/30 bg-white/50 px-2 py-1.5 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="rating">Split by rating range</option>
+              <option value="tiles">Split into map tiles</option>
+            </select>
+            <p className="text-xs text-slate-500 mt-1">
+              Tiles recurse geographically past the 100-place limit and report any area left incomplete.
+            </p>
           </div>
         </section>
 
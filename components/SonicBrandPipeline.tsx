@@ -1,28 +1,36 @@
 import React, { useState } from 'react';
 import { Play, Wand2, Download, Mail, Sparkles, Loader2 } from 'lucide-react';
-import { motion } from 'framer-motion';
 import { PlaceResult } from '../types';
-import { generateSonicBrandPipeline, SonicBrandOutput, generatePreviewScript } from '../services/sonicBrandPipeline';
+import type { AIAnalysisResult } from '../services/aiService';
+import { generateSonicBrandPipeline, getDefaultConfig, SonicBrandOutput } from '../services/sonicBrandPipeline';
+import { ScriptTemplatePreview } from './ScriptTemplatePreview';
 
 interface SonicBrandPipelineProps {
   restaurant: PlaceResult;
+  leads?: PlaceResult[]; // Other leads the script preview can render against
+  analysisResults?: Record<string, AIAnalysisResult>;
   onComplete?: (output: SonicBrandOutput) => void;
 }
 
-export const SonicBrandPipeline: React.FC<SonicBrandPipelineProps> = ({ restaurant, onComplete }) => {
+export const SonicBrandPipeline: React.FC<SonicBrandPipelineProps> = ({ restaurant, leads, analysisResults, onComplete }) => {
   const [isGenerating, setIsGenerating] = useState(false);
   const [output, setOutput] = useState<SonicBrandOutput | null>(null);
-  const [previewScript, setPreviewScript] = useState<string | null>(null);
   const [showPreview, setShowPreview] = useState(false);
+  const [variant, setVariant] = useState(0); // Bumped by Refresh for a different take on the scripts
   const [pricing, setPricing] = useState<{ amount: number; label: string }>({
     amount: 27,
     label: 'Starter'
   });
 
-  const handleGenerate = async () => {
+  const handleGenerate = async (nextVariant: number = variant) => {
     setIsGenerating(true);
+    setVariant(nextVariant);
     try {
-      const result = await generateSonicBrandPipeline(restaurant);
+      const result = await generateSonicBrandPipeline(
+        restaurant,
+        { ...getDefaultConfig(), variant: nextVariant },
+        analysisResults?.[restaurant.placeId]
+      );
       setOutput(result);
 
       // Set pricing based on sonic brand score
@@ -43,16 +51,6 @@ export const SonicBrandPipeline: React.FC<SonicBrandPipelineProps> = ({ restaura
     }
   };
 
-  const handlePreview = async () => {
-    setShowPreview(true);
-    try {
-      const script = await generatePreviewScript(restaurant);
-      setPreviewScript(script);
-    } catch (error) {
-      console.error('Preview generation error:', error);
-    }
-  };
-
   const handleSendEmail = () => {
     if (!output) return;
 
@@ -74,7 +72,7 @@ Here's what you get:
 I'm building my portfolio with 100 Charlotte restaurants. You get a great deal, I get to show off my work.
 
 **Listen to your custom jingle:**
-${output.audio.jingleUrl}
+${output.outreach.audioPreviewUrl}
 
 Want it? Just reply "YES" and it's yours by tomorrow.
 
@@ -130,6 +128,7 @@ AUDIO FILES
 Jingle: ${output.audio.jingleUrl}
 Voiceover: ${output.audio.voiceoverUrl}
 Lead Magnet: ${output.audio.leadMagnetUrl}
+Shareable preview (30 days): ${output.outreach.audioPreviewUrl}
 
 Generated in ${output.metadata.productionTime} seconds
     `.trim();
@@ -149,7 +148,7 @@ Generated in ${output.metadata.productionTime} seconds
         <div className="flex gap-2">
           {/* Preview Script Button */}
           <button
-            onClick={handlePreview}
+            onClick={() => setShowPreview(true)}
             className="text-[9px] text-purple-600 hover:text-purple-700 font-medium flex items-center gap-1"
           >
             <Play size={10} /> Preview Script
@@ -157,7 +156,7 @@ Generated in ${output.metadata.productionTime} seconds
 
           {/* Generate Pipeline Button */}
           <button
-            onClick={handleGenerate}
+            onClick={() => handleGenerate()}
             disabled={isGenerating}
             className="text-[9px] bg-purple-100 hover:bg-purple-200 text-purple-700 px-2 py-1 rounded font-medium flex items-center gap-1 disabled:opacity-50"
           >
@@ -174,6 +173,17 @@ Generated in ${output.metadata.productionTime} seconds
         </div>
       ) : (
         <div className="flex gap-2">
+          {/* Listen to the generated jingle */}
+          <a
+            href={output.audio.jingleUrl}
+            target="_blank"
+            rel="noreferrer"
+            className="text-[9px] text-purple-600 hover:text-purple-700 font-medium flex items-center gap-1"
+            title={output.audio.provider === 'stub' ? 'Placeholder audio (the server runs with AUDIO_PROVIDER=stub)' : undefined}
+          >
+            <Play size={10} /> Listen
+          </a>
+
           {/* Download Scripts */}
           <button
             onClick={handleDownload}
@@ -194,7 +204,7 @@ Generated in ${output.metadata.productionTime} seconds
           <button
             onClick={() => {
               setOutput(null);
-              handleGenerate();
+              handleGenerate(variant + 1);
             }}
             className="text-[9px] text-purple-600 hover:text-purple-700 font-medium flex items-center gap-1"
           >
@@ -203,58 +213,16 @@ Generated in ${output.metadata.productionTime} seconds
         </div>
       )}
 
-      {/* Preview Modal */}
-      {showPreview && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <motion.div
-            initial={{ scale: 0.9, opacity: 0 }}
-            animate={{ scale: 1, opacity: 1 }}
-            className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[80vh] overflow-hidden"
-          >
-            <div className="p-6 border-b border-gray-200 flex justify-between items-center">
-              <h3 className="text-lg font-bold text-gray-800">
-                🎵 Sonic Brand Preview: {restaurant.name}
-              </h3>
-              <button
-                onClick={() => setShowPreview(false)}
-                className="text-gray-400 hover:text-gray-600"
-              >
-                ✕
-              </button>
-            </div>
-
-            <div className="p-6 overflow-y-auto max-h-[60vh]">
-              {previewScript ? (
-                <pre className="text-sm text-gray-700 whitespace-pre-wrap bg-gray-50 p-4 rounded-lg border border-gray-200">
-                  {previewScript}
-                </pre>
-              ) : (
-                <div className="flex items-center justify-center py-12">
-                  <Loader2 className="animate-spin text-purple-600" size={32} />
-                </div>
-              )}
-            </div>
-
-            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
-              <button
-                onClick={() => setShowPreview(false)}
-                className="px-4 py-2 text-gray-600 hover:text-gray-800 font-medium"
-              >
-                Close
-              </button>
-              <button
-                onClick={() => {
-                  setShowPreview(false);
-                  handleGenerate();
-                }}
-                className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 font-medium flex items-center gap-2"
-              >
-                <Wand2 size={16} /> Generate Full Package
-              </button>
-            </div>
-          </motion.div>
-        </div>
-      )}
+      {/* Script Template Preview */}
+      <ScriptTemplatePreview
+        isOpen={showPreview}
+        onClose={() => setShowPreview(false)}
+        leads={leads && leads.length > 0 ? leads : [restaurant]}
+        initialLeadId={restaurant.placeId}
+        analysisResults={analysisResults}
+        initialVariant={variant}
+        onGenerate={() => handleGenerate()}
+      />
     </div>
   );
 };
@@ -0,0 +1,63 @@
+import React from 'react';
+import { FileSearch } from 'lucide-react';
+import { TechStack } from '../types';
+import { TECH_CATEGORIES } from '../services/techHistory';
+
+interface TechEvidenceListProps {
+  techStack: TechStack;
+}
+
+const pagePath = (url: string): string => {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+};
+
+const confidenceColor = (confidence: number): string =>
+  confidence >= 80 ? 'text-emerald-600' : confidence >= 60 ? 'text-amber-600' : 'text-slate-500';
+
+export const TechEvidenceList: React.FC<TechEvidenceListProps> = ({ techStack }) => {
+  // Results cached before evidence was recorded have no matches
+  const evidence = (techStack.evidence || []).filter(e => e.category !== 'otherScripts' && e.matches?.length);
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-xs font-bold text-indigo-900 uppercase tracking-wider flex items-center gap-1.5">
+        <FileSearch size={12} /> Detection Evidence
+      </h4>
+
+      {evidence.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          {techStack.pagesCrawled?.length
+            ? `No vendors matched on ${techStack.pagesCrawled.length} crawled pages.`
+            : 'No evidence recorded. Re-enrich to crawl the site again.'}
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {evidence.map(e => (
+            <li key={`${e.category}:${e.vendor}`} className="text-xs">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold text-slate-800">{e.vendor}</span>
+                <span className="text-slate-400">{TECH_CATEGORIES.find(c => c.id === e.category)?.label}</span>
+                <span className={`ml-auto font-medium ${confidenceColor(e.confidence)}`}>{e.confidence}%</span>
+              </div>
+              <ul className="mt-1 space-y-0.5">
+                {e.matches.map((m, idx) => (
+                  <li key={idx} className="text-[10px] text-slate-500 flex gap-2">
+                    <span className="shrink-0 font-mono text-indigo-600">{m.patternType}</span>
+                    <span className="shrink-0 text-slate-400">{pagePath(m.page)}</span>
+                    <code className="truncate text-slate-600" title={m.snippet}>{m.snippet}</code>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TechEvidenceList;
@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { History, Loader2 } from 'lucide-react';
+import { extractDomain } from '../services/techDetector';
+import { TechHistoryEntry, TECH_CATEGORIES, getTechHistory } from '../services/techHistory';
+
+interface TechHistoryTimelineProps {
+  website?: string;
+}
+
+export const TechHistoryTimeline: React.FC<TechHistoryTimelineProps> = ({ website }) => {
+  const [entries, setEntries] = useState<TechHistoryEntry[] | null>(null);
+
+  useEffect(() => {
+    if (!website) return;
+    getTechHistory(extractDomain(website))
+      .then(setEntries)
+      .catch(error => {
+        console.warn('Failed to load tech history:', error);
+        setEntries([]);
+      });
+  }, [website]);
+
+  if (!website) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-xs font-bold text-indigo-900 uppercase tracking-wider flex items-center gap-1.5">
+        <History size={12} /> Tech Stack History
+      </h4>
+
+      {entries === null ? (
+        <div className="flex items-center gap-2 text-xs text-slate-500">
+          <Loader2 size={12} className="animate-spin" /> Loading scans...
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-xs text-slate-500">No scans recorded for this domain yet.</p>
+      ) : (
+        <ol className="space-y-1.5 border-l border-indigo-100 pl-3">
+          {entries.map(({ snapshot, diff }) => (
+            <li key={snapshot.id} className="text-xs">
+              <span className="text-slate-400 mr-2">{new Date(snapshot.scannedAt).toLocaleDateString()}</span>
+              {!diff ? (
+                <span className="text-slate-600">
+                  First scan: {[...snapshot.stack.onlineOrdering, ...snapshot.stack.delivery].join(', ') || 'no ordering or delivery vendors'}
+                </span>
+              ) : !diff.hasChanges ? (
+                <span className="text-slate-400">No changes</span>
+              ) : (
+                <span className="inline-flex flex-wrap gap-x-3 gap-y-0.5">
+                  {TECH_CATEGORIES.filter(c => diff.changes[c.id]).map(c => (
+                    <span key={c.id}>
+                      <span className="text-slate-500">{c.label}:</span>{' '}
+                      {diff.changes[c.id]!.removed.map(v => <span key={`-${v}`} className="text-red-600 mr-1">−{v}</span>)}
+                      {diff.changes[c.id]!.added.map(v => <span key={`+${v}`} className="text-emerald-600 mr-1">+{v}</span>)}
+                    </span>
+                  ))}
+                  {diff.firstPartyOrdering && (
+                    <span className={diff.firstPartyOrdering.to ? 'text-emerald-600' : 'text-red-600 font-medium'}>
+                      {diff.firstPartyOrdering.to ? 'Gained' : 'Lost'} 1P ordering
+                    </span>
+                  )}
+                </span>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default TechHistoryTimeline;
@@ -2,15 +2,20 @@ import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import fetch from 'node-fetch';
+import audioHandler from './api/audio.ts';
 
 const app = express();
 const PORT = 3001;
 
 // Enable CORS for local development
 app.use(cors({
-    origin: 'http://localhost:3000'
+    origin: 'http://localhost:3000',
+    exposedHeaders: ['X-Upstream-Headers', 'X-Final-Url']
 }));
 
+// Upstream response headers passed back to the crawler (they identify hosting platforms and CDNs)
+const FORWARDED_HEADERS = ['server', 'x-powered-by', 'x-generator', 'content-type', 'last-modified', 'via', 'x-served-by'];
+
 app.use(express.json());
 
 // Proxy endpoint for Places Aggregate API
@@ -189,6 +194,14 @@ app.get('/api/proxy', async (req, res) => {
             return res.status(response.status).send(`Failed to fetch: ${response.status}`);
         }
 
+        const upstreamHeaders = {};
+        for (const name of FORWARDED_HEADERS) {
+            const value = response.headers.get(name);
+            if (value) upstreamHeaders[name] = value;
+        }
+        res.setHeader('X-Upstream-Headers', JSON.stringify(upstreamHeaders));
+        res.setHeader('X-Final-Url', response.url);
+
         const body = await response.text();
         res.send(body);
     } catch (error) {
@@ -197,6 +210,9 @@ app.get('/api/proxy', async (req, res) => {
     }
 });
 
+// Audio generation and asset streaming (same handler as the Vercel function)
+app.all('/api/audio', audioHandler);
+
 app.listen(PORT, () => {
     console.log(`🔒 API Proxy server running on http://localhost:${PORT}`);
     console.log(`✅ CORS enabled for http://localhost:3000`);
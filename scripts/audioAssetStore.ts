@@ -0,0 +1,252 @@
+/**
+ * Audio Asset Store
+ * Content-addressed storage for generated audio: an asset's ID is the SHA-256
+ * of its bytes plus its format, so the same audio is stored once and shared by
+ * every restaurant it was generated for. Each asset has a metadata record
+ * (restaurants, script, voice, music style, duration, provider).
+ *
+ * Streaming an asset takes a signed link (ID + expiry + HMAC signature), so
+ * links can go into outreach emails without exposing the whole store.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import type { AudioFormat, GeneratedTrack } from './audioProviders.js';
+
+// ============ Types ============
+
+export type AudioAssetKind = 'music' | 'voiceover' | 'mix';
+
+export interface AudioAssetMetadata {
+  placeIds: string[]; // Restaurants this audio was generated for
+  restaurantName?: string;
+  script?: string; // Spoken text (voiceovers and mixes)
+  voiceId?: string;
+  musicStyle?: string;
+  duration?: number; // Requested length in seconds
+  provider: 'live' | 'stub';
+}
+
+export interface AudioAsset extends AudioAssetMetadata {
+  id: string; // <sha256>.<format>
+  kind: AudioAssetKind;
+  format: AudioFormat;
+  contentType: string;
+  size: number; // bytes
+  createdAt: string; // ISO timestamp of the first save
+  updatedAt: string;
+}
+
+export interface AudioAssetFilter {
+  placeId?: string;
+  kind?: AudioAssetKind;
+}
+
+export interface SignedAssetLink {
+  expires: number; // Unix seconds
+  signature: string;
+}
+
+/**
+ * Where assets and their metadata are kept
+ */
+export interface AudioAssetBackend {
+  readAsset(id: string): Promise<AudioAsset | null>;
+  readData(id: string): Promise<Buffer | null>;
+  writeAsset(asset: AudioAsset, data: Buffer | null): Promise<void>; // null keeps the stored bytes
+  listAssets(): Promise<AudioAsset[]>;
+  deleteAsset(id: string): Promise<void>;
+}
+
+// ============ Constants ============
+
+const ASSET_ID_PATTERN = /^[0-9a-f]{64}\.(mp3|wav)$/;
+
+const CONTENT_TYPES: Record<AudioFormat, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav'
+};
+
+const DEV_SIGNING_SECRET = 'ownerscout-dev-audio-secret';
+
+export const isAssetId = (id: unknown): id is string => typeof id === 'string' && ASSET_ID_PATTERN.test(id);
+
+// ============ Filesystem Backend ============
+
+/**
+ * Stores <id> (the audio) and <id>.json (its metadata) in one directory
+ */
+export class FileSystemAssetBackend implements AudioAssetBackend {
+  constructor(private readonly dir: string) {}
+
+  async readAsset(id: string): Promise<AudioAsset | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.metadataPath(id), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  async readData(id: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(path.join(this.dir, id));
+    } catch {
+      return null;
+    }
+  }
+
+  async writeAsset(asset: AudioAsset, data: Buffer | null): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    if (data) await fs.writeFile(path.join(this.dir, asset.id), data);
+    await fs.writeFile(this.metadataPath(asset.id), JSON.stringify(asset, null, 2));
+  }
+
+  async listAssets(): Promise<AudioAsset[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch {
+      return [];
+    }
+    const ids = files.filter(file => file.endsWith('.json')).map(file => file.slice(0, -'.json'.length)).filter(isAssetId);
+    const assets = await Promise.all(ids.map(id => this.readAsset(id)));
+    return assets.filter((asset): asset is AudioAsset => asset !== null);
+  }
+
+  async deleteAsset(id: string): Promise<void> {
+    await fs.rm(path.join(this.dir, id), { force: true });
+    await fs.rm(this.metadataPath(id), { force: true });
+  }
+
+  private metadataPath(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+}
+
+// ============ Store ============
+
+export class AudioAssetStore {
+  constructor(
+    private readonly backend: AudioAssetBackend,
+    private readonly signingSecret: string
+  ) {}
+
+  /**
+   * Store a track. Saving audio that is already stored adds the restaurant to
+   * the existing asset instead of writing the bytes again.
+   */
+  async save(track: GeneratedTrack, kind: AudioAssetKind, metadata: AudioAssetMetadata): Promise<AudioAsset> {
+    const id = `${createHash('sha256').update(track.data).digest('hex')}.${track.format}`;
+    const existing = await this.backend.readAsset(id);
+    const now = new Date().toISOString();
+
+    const asset: AudioAsset = {
+      ...existing,
+      ...metadata,
+      placeIds: [...new Set([...(existing?.placeIds || []), ...metadata.placeIds])],
+      id,
+      kind,
+      format: track.format,
+      contentType: CONTENT_TYPES[track.format],
+      size: track.data.length,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    };
+
+    await this.backend.writeAsset(asset, existing ? null : track.data);
+    return asset;
+  }
+
+  async get(id: string): Promise<AudioAsset | null> {
+    return isAssetId(id) ? this.backend.readAsset(id) : null;
+  }
+
+  async read(id: string): Promise<Buffer | null> {
+    return isAssetId(id) ? this.backend.readData(id) : null;
+  }
+
+  /**
+   * Assets matching the filter, newest first
+   */
+  async list(filter: AudioAssetFilter = {}): Promise<AudioAsset[]> {
+    const assets = await this.backend.listAssets();
+    return assets
+      .filter(asset => !filter.placeId || asset.placeIds.includes(filter.placeId))
+      .filter(asset => !filter.kind || asset.kind === filter.kind)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Delete an asset. With a placeId only that restaurant's reference is
+   * removed; the audio is deleted once no restaurant uses it.
+   */
+  async delete(id: string, placeId?: string): Promise<boolean> {
+    const asset = await this.get(id);
+    if (!asset) return false;
+
+    const placeIds = placeId ? asset.placeIds.filter(p => p !== placeId) : [];
+    if (placeIds.length > 0) {
+      await this.backend.writeAsset({ ...asset, placeIds, updatedAt: new Date().toISOString() }, null);
+    } else {
+      await this.backend.deleteAsset(id);
+    }
+    return true;
+  }
+
+  /**
+   * Sign a link to an asset that is valid for `ttlSeconds`
+   */
+  sign(id: string, ttlSeconds: number): SignedAssetLink {
+    const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+    return { expires, signature: this.signature(id, expires) };
+  }
+
+  /**
+   * Whether a link's signature matches and it has not expired
+   */
+  verify(id: string, expires: number, signature: string): boolean {
+    if (!isAssetId(id) || !Number.isFinite(expires) || expires < Date.now() / 1000) return false;
+    const expected = Buffer.from(this.signature(id, expires));
+    const actual = Buffer.from(signature);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  private signature(id: string, expires: number): string {
+    return createHmac('sha256', this.signingSecret).update(`${id}:${expires}`).digest('base64url');
+  }
+}
+
+// ============ Singleton ============
+
+let storeInstance: AudioAssetStore | null = null;
+
+// Neither a production build nor a Vercel deployment
+const isLocalDev = (): boolean => process.env.NODE_ENV !== 'production' && !process.env.VERCEL;
+
+/**
+ * AUDIO_SIGNING_SECRET; the development secret is only accepted in local
+ * development, where nobody else can reach the links
+ */
+function signingSecret(): string {
+  const secret = process.env.AUDIO_SIGNING_SECRET;
+  if (secret) return secret;
+  if (!isLocalDev()) {
+    throw new Error('AUDIO_SIGNING_SECRET is not set. Audio links cannot be signed outside local development without it.');
+  }
+  console.warn('⚠️ AUDIO_SIGNING_SECRET not set. Signing audio links with the development secret.');
+  return DEV_SIGNING_SECRET;
+}
+
+/**
+ * The store for this environment: a filesystem backend in AUDIO_ASSET_DIR
+ * (default: the system temp directory), links signed with AUDIO_SIGNING_SECRET
+ */
+export function getAudioAssetStore(): AudioAssetStore {
+  if (!storeInstance) {
+    const dir = process.env.AUDIO_ASSET_DIR || path.join(os.tmpdir(), 'ownerscout-audio');
+    storeInstance = new AudioAssetStore(new FileSystemAssetBackend(dir), signingSecret());
+  }
+  return storeInstance;
+}
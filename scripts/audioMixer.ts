@@ -0,0 +1,326 @@
+/**
+ * Audio Mixer
+ * Renders a mix spec with FFmpeg: music ducked under the voice (sidechain
+ * compression), fade-in/out, optional sonic-logo stingers before and after
+ * the program, two-pass EBU R128 loudness normalization to a target LUFS,
+ * and exports to MP3, WAV, OGG and a 6-second social cut.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { randomUUID } from 'crypto';
+import { promisify } from 'util';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+
+const execFileAsync = promisify(execFile);
+
+// ============ Types ============
+
+export type MixTrackRole = 'music' | 'voice' | 'stinger';
+
+export interface MixTrack {
+  role: MixTrackRole;
+  source: Buffer | string; // Audio bytes or a file path
+  start?: number; // Seconds into the program (music and voice)
+  gainDb?: number;
+  position?: 'start' | 'end'; // Stingers: played before or after the program
+}
+
+export interface DuckingSpec {
+  thresholdDb: number; // Voice level above which the music is ducked
+  ratio: number;
+  attackMs: number;
+  releaseMs: number;
+}
+
+export interface LoudnessSpec {
+  targetLufs: number; // Integrated loudness
+  truePeakDb: number;
+  loudnessRange: number; // LU
+}
+
+export type MixExportFormat = 'mp3' | 'wav' | 'ogg';
+
+export interface MixExport {
+  format: MixExportFormat;
+  cut?: 'full' | 'social'; // 'social' is the first 6 seconds with a short fade-out
+}
+
+export interface MixSpec {
+  tracks: MixTrack[];
+  duration?: number; // Program length in seconds, without stingers (default: until the voice ends, plus a tail)
+  fadeIn?: number; // Seconds
+  fadeOut?: number;
+  ducking?: Partial<DuckingSpec> | false;
+  loudness?: Partial<LoudnessSpec>;
+  exports?: MixExport[]; // Default: one full-length MP3
+}
+
+export interface LoudnessMeasurement {
+  integratedLufs: number; // -Infinity for a silent mix
+  truePeakDb: number;
+  loudnessRange: number;
+  threshold: number;
+  targetOffset: number;
+}
+
+export interface MixOutput {
+  format: MixExportFormat;
+  cut: 'full' | 'social';
+  data: Buffer;
+}
+
+export interface MixResult {
+  duration: number; // Program length in seconds, without stingers
+  loudness: LoudnessMeasurement; // Of the mix before normalization
+  outputs: MixOutput[];
+}
+
+// ============ Constants ============
+
+export const DEFAULT_DUCKING: DuckingSpec = {
+  thresholdDb: -30,
+  ratio: 8,
+  attackMs: 20,
+  releaseMs: 400
+};
+
+export const DEFAULT_LOUDNESS: LoudnessSpec = {
+  targetLufs: -16, // Common target for web and social audio
+  truePeakDb: -1.5,
+  loudnessRange: 11
+};
+
+const DEFAULT_FADE_IN = 0.5;
+const DEFAULT_FADE_OUT = 1.5;
+const VOICE_TAIL = 1; // Music after the last word when the duration is not given
+const SOCIAL_CUT_SECONDS = 6;
+const SOCIAL_FADE_OUT = 0.5;
+const SAMPLE_RATE = 44100;
+
+const ENCODERS: Record<MixExportFormat, string[]> = {
+  mp3: ['-c:a', 'libmp3lame', '-b:a', '192k'],
+  wav: ['-c:a', 'pcm_s16le'],
+  ogg: ['-c:a', 'libvorbis', '-q:a', '5']
+};
+
+const FFMPEG_PATH = ffmpegInstaller?.path || 'ffmpeg';
+
+// ============ Filter Graph ============
+
+const seconds = (value: number): string => value.toFixed(3);
+const dbToLinear = (db: number): number => Math.pow(10, db / 20);
+
+// Same sample rate and layout for every input, so they can be mixed and concatenated
+const normalizeInput = (index: number, gainDb: number = 0): string =>
+  `[${index}:a]aresample=${SAMPLE_RATE},aformat=sample_fmts=fltp:channel_layouts=stereo,volume=${gainDb}dB`;
+
+const delay = (start: number = 0): string => {
+  const ms = Math.round(start * 1000);
+  return ms > 0 ? `,adelay=${ms}|${ms}` : '';
+};
+
+/**
+ * Mix tracks of one role into a single stream of exactly `duration` seconds.
+ * amix divides by the number of inputs, so its output is scaled back up.
+ */
+function layer(label: string, inputs: Array<{ index: number; track: MixTrack }>, duration: number, filters: string[]): void {
+  inputs.forEach(({ index, track }, i) => {
+    filters.push(`${normalizeInput(index, track.gainDb)}${delay(track.start)}[${label}${i}]`);
+  });
+  const pad = `apad,atrim=end=${seconds(duration)}`;
+  if (inputs.length === 1) {
+    filters.push(`[${label}0]${pad}[${label}]`);
+  } else {
+    const streams = inputs.map((_, i) => `[${label}${i}]`).join('');
+    filters.push(`${streams}amix=inputs=${inputs.length}:duration=longest:dropout_transition=0,volume=${inputs.length},${pad}[${label}]`);
+  }
+}
+
+/**
+ * The FFmpeg filter graph for a spec, with input i being spec.tracks[i].
+ * Its output, [mix], is the program (with stingers) before loudness normalization.
+ */
+export function buildMixFilter(spec: MixSpec, duration: number): string {
+  const filters: string[] = [];
+  const indexed = spec.tracks.map((track, index) => ({ index, track }));
+  const music = indexed.filter(t => t.track.role === 'music');
+  const voice = indexed.filter(t => t.track.role === 'voice');
+  const stingers = indexed.filter(t => t.track.role === 'stinger');
+
+  if (music.length === 0 && voice.length === 0) {
+    throw new Error('Mix spec needs at least one music or voice track');
+  }
+
+  if (music.length > 0) layer('music', music, duration, filters);
+  if (voice.length > 0) layer('voice', voice, duration, filters);
+
+  let program: string;
+  if (music.length > 0 && voice.length > 0) {
+    if (spec.ducking === false) {
+      filters.push(`[music][voice]amix=inputs=2:duration=first:dropout_transition=0,volume=2[program]`);
+    } else {
+      const ducking = { ...DEFAULT_DUCKING, ...spec.ducking };
+      // Clamped to sidechaincompress's threshold range
+      const threshold = Math.min(1, Math.max(0.000976563, dbToLinear(ducking.thresholdDb)));
+      filters.push(
+        `[voice]asplit=2[voicemix][sidechain]`,
+        `[music][sidechain]sidechaincompress=threshold=${threshold.toFixed(6)}:ratio=${ducking.ratio}:attack=${ducking.attackMs}:release=${ducking.releaseMs}[ducked]`,
+        `[ducked][voicemix]amix=inputs=2:duration=first:dropout_transition=0,volume=2[program]`
+      );
+    }
+    program = 'program';
+  } else {
+    program = music.length > 0 ? 'music' : 'voice';
+  }
+
+  // Fades never overlap on short programs
+  const fadeIn = Math.min(spec.fadeIn ?? DEFAULT_FADE_IN, duration / 2);
+  const fadeOut = Math.min(spec.fadeOut ?? DEFAULT_FADE_OUT, duration / 2);
+  const fades = [
+    fadeIn > 0 ? `afade=t=in:st=0:d=${seconds(fadeIn)}` : '',
+    fadeOut > 0 ? `afade=t=out:st=${seconds(duration - fadeOut)}:d=${seconds(fadeOut)}` : ''
+  ].filter(Boolean);
+  filters.push(`[${program}]${fades.length ? fades.join(',') : 'anull'}[faded]`);
+
+  const before = stingers.filter(s => s.track.position !== 'end');
+  const after = stingers.filter(s => s.track.position === 'end');
+  stingers.forEach(({ index, track }) => filters.push(`${normalizeInput(index, track.gainDb)}[stinger${index}]`));
+
+  const sequence = [
+    ...before.map(s => `[stinger${s.index}]`),
+    '[faded]',
+    ...after.map(s => `[stinger${s.index}]`)
+  ];
+  filters.push(sequence.length > 1 ? `${sequence.join('')}concat=n=${sequence.length}:v=0:a=1[mix]` : `[faded]anull[mix]`);
+
+  return filters.join(';');
+}
+
+// ============ FFmpeg ============
+
+async function ffmpeg(args: string[]): Promise<string> {
+  try {
+    const { stderr } = await execFileAsync(FFMPEG_PATH, ['-hide_banner', '-nostdin', ...args], { maxBuffer: 16 * 1024 * 1024 });
+    return stderr;
+  } catch (error) {
+    const details = String(error.stderr || error.message).trim().split('\n').slice(-3).join(' ');
+    throw new Error(`FFmpeg failed: ${details}`);
+  }
+}
+
+/**
+ * Length of an audio file in seconds (from FFmpeg's input summary)
+ */
+export async function probeDuration(file: string): Promise<number> {
+  // With no output FFmpeg exits with an error after printing the input summary
+  const output = await execFileAsync(FFMPEG_PATH, ['-hide_banner', '-nostdin', '-i', file])
+    .then(({ stderr }) => stderr, error => String(error.stderr || ''));
+  const match = /Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/.exec(output);
+  if (!match) throw new Error(`Could not read the duration of ${path.basename(file)}`);
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+/**
+ * Program length when the spec does not give one: until the last music or
+ * voice track ends, with a tail after the voice
+ */
+async function programDuration(spec: MixSpec, files: string[]): Promise<number> {
+  const ends = await Promise.all(spec.tracks.map(async (track, i) => {
+    if (track.role === 'stinger') return 0;
+    const end = (track.start || 0) + await probeDuration(files[i]);
+    return track.role === 'voice' ? end + VOICE_TAIL : end;
+  }));
+  return Math.max(...ends);
+}
+
+async function measureLoudness(file: string, target: LoudnessSpec): Promise<LoudnessMeasurement> {
+  const stderr = await ffmpeg([
+    '-i', file,
+    '-af', `loudnorm=I=${target.targetLufs}:TP=${target.truePeakDb}:LRA=${target.loudnessRange}:print_format=json`,
+    '-f', 'null', '-'
+  ]);
+  const json = stderr.slice(stderr.lastIndexOf('{'), stderr.lastIndexOf('}') + 1);
+  const measured = JSON.parse(json);
+  // FFmpeg reports silence as "-inf"
+  const level = (value: string): number => (value.trim() === '-inf' ? -Infinity : Number(value));
+  return {
+    integratedLufs: level(measured.input_i),
+    truePeakDb: level(measured.input_tp),
+    loudnessRange: level(measured.input_lra),
+    threshold: level(measured.input_thresh),
+    targetOffset: level(measured.target_offset)
+  };
+}
+
+// A silent mix measures -inf, which the second pass rejects; there is nothing to normalize anyway
+const canNormalize = (measured: LoudnessMeasurement): boolean =>
+  Object.values(measured).every(Number.isFinite);
+
+// Second loudnorm pass: linear gain from the first pass's measurement
+const loudnormFilter = (target: LoudnessSpec, measured: LoudnessMeasurement): string =>
+  `loudnorm=I=${target.targetLufs}:TP=${target.truePeakDb}:LRA=${target.loudnessRange}` +
+  `:measured_I=${measured.integratedLufs}:measured_TP=${measured.truePeakDb}:measured_LRA=${measured.loudnessRange}` +
+  `:measured_thresh=${measured.threshold}:offset=${measured.targetOffset}:linear=true`;
+
+// ============ Mixing ============
+
+/**
+ * Render a mix spec to every requested export
+ */
+export async function renderMix(spec: MixSpec): Promise<MixResult> {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), `mix-${randomUUID().slice(0, 8)}-`));
+
+  try {
+    const files = await Promise.all(spec.tracks.map(async (track, i) => {
+      if (typeof track.source === 'string') return track.source;
+      const file = path.join(workDir, `track${i}`);
+      await fs.writeFile(file, track.source);
+      return file;
+    }));
+
+    const duration = spec.duration ?? await programDuration(spec, files);
+    const loudness = { ...DEFAULT_LOUDNESS, ...spec.loudness };
+
+    // Float master, so the unnormalized mix can't clip
+    const master = path.join(workDir, 'master.wav');
+    await ffmpeg([
+      '-y',
+      ...files.flatMap(file => ['-i', file]),
+      '-filter_complex', buildMixFilter(spec, duration),
+      '-map', '[mix]',
+      '-c:a', 'pcm_f32le',
+      master
+    ]);
+
+    const measured = await measureLoudness(master, loudness);
+    const normalize = canNormalize(measured) ? `${loudnormFilter(loudness, measured)},` : '';
+    const exports = spec.exports?.length ? spec.exports : [{ format: 'mp3' as const }];
+
+    const outputs: MixOutput[] = [];
+    for (const [i, { format, cut = 'full' }] of exports.entries()) {
+      const file = path.join(workDir, `output${i}.${format}`);
+      const social = cut === 'social'
+        ? `,atrim=end=${SOCIAL_CUT_SECONDS},afade=t=out:st=${SOCIAL_CUT_SECONDS - SOCIAL_FADE_OUT}:d=${SOCIAL_FADE_OUT}`
+        : '';
+      // loudnorm resamples to 192 kHz internally, so the output rate is set explicitly
+      await ffmpeg([
+        '-y', '-i', master,
+        '-af', `${normalize}aresample=${SAMPLE_RATE}${social}`,
+        '-ar', String(SAMPLE_RATE),
+        ...ENCODERS[format],
+        file
+      ]);
+      outputs.push({ format, cut, data: await fs.readFile(file) });
+    }
+
+    console.log(normalize
+      ? `🎚️ Mixed ${seconds(duration)}s program (${measured.integratedLufs} LUFS → ${loudness.targetLufs} LUFS)`
+      : `🎚️ Mixed ${seconds(duration)}s program (silent, not normalized)`);
+    return { duration, loudness: measured, outputs };
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
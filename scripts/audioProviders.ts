@@ -0,0 +1,170 @@
+/**
+ * Audio Providers
+ * Server-side backends for the /api/audio route: the live FAL AI + ElevenLabs
+ * + FFmpeg implementation from generateAudio.ts, and an offline stub that
+ * synthesizes tones and silence as WAV files (no API keys, no FFmpeg).
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import {
+  generateMusicWithFAL,
+  generateVoiceoverWithElevenLabs,
+  mixAudioWithFFmpeg
+} from './generateAudio.js';
+
+export type AudioFormat = 'mp3' | 'wav';
+
+export interface GeneratedTrack {
+  data: Buffer;
+  format: AudioFormat;
+}
+
+export interface AudioProvider {
+  name: 'live' | 'stub';
+  generateMusic(prompt: string, duration: number): Promise<GeneratedTrack>;
+  generateVoiceover(text: string, voiceId: string): Promise<GeneratedTrack>;
+  mix(music: Buffer, voiceover: Buffer): Promise<GeneratedTrack>;
+}
+
+// ============ Live Provider ============
+
+export const liveAudioProvider: AudioProvider = {
+  name: 'live',
+
+  async generateMusic(prompt, duration) {
+    return { data: await generateMusicWithFAL(prompt, duration), format: 'mp3' };
+  },
+
+  async generateVoiceover(text, voiceId) {
+    return { data: await generateVoiceoverWithElevenLabs(text, voiceId), format: 'mp3' };
+  },
+
+  async mix(music, voiceover) {
+    const outputPath = path.join(os.tmpdir(), `${randomUUID()}_mixed.mp3`);
+    try {
+      await mixAudioWithFFmpeg(music, voiceover, outputPath);
+      return { data: fs.readFileSync(outputPath), format: 'mp3' };
+    } finally {
+      if (fs.existsSync(outputPath)) fs.unlinkSync(outputPath);
+    }
+  }
+};
+
+// ============ Stub Provider ============
+
+const SAMPLE_RATE = 22050;
+const WORDS_PER_SECOND = 2.5; // Typical voiceover pace
+const MUSIC_GAIN = 0.3; // Same music level as the FFmpeg mix
+
+// Major triads the stub arpeggiates; the prompt picks one, so a style always sounds the same
+const ROOT_FREQUENCIES = [220, 246.94, 261.63, 293.66, 329.63, 349.23, 392];
+const TRIAD_RATIOS = [1, 1.26, 1.498];
+
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+  return hash;
+};
+
+/**
+ * 16-bit mono PCM WAV from samples in [-1, 1]
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number = SAMPLE_RATE): Buffer {
+  const buffer = Buffer.alloc(44 + samples.length * 2);
+  buffer.write('RIFF', 0, 'ascii');
+  buffer.writeUInt32LE(36 + samples.length * 2, 4);
+  buffer.write('WAVE', 8, 'ascii');
+  buffer.write('fmt ', 12, 'ascii');
+  buffer.writeUInt32LE(16, 16); // fmt chunk size
+  buffer.writeUInt16LE(1, 20); // PCM
+  buffer.writeUInt16LE(1, 22); // Mono
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * 2, 28); // Byte rate
+  buffer.writeUInt16LE(2, 32); // Block align
+  buffer.writeUInt16LE(16, 34); // Bits per sample
+  buffer.write('data', 36, 'ascii');
+  buffer.writeUInt32LE(samples.length * 2, 40);
+  samples.forEach((sample, i) => {
+    buffer.writeInt16LE(Math.round(Math.max(-1, Math.min(1, sample)) * 32767), 44 + i * 2);
+  });
+  return buffer;
+}
+
+/**
+ * Samples of a WAV written by encodeWav
+ */
+export function decodeWav(buffer: Buffer): Float32Array {
+  const isStubWav = buffer.length >= 44 &&
+    buffer.toString('ascii', 0, 4) === 'RIFF' &&
+    buffer.toString('ascii', 8, 12) === 'WAVE' &&
+    buffer.readUInt16LE(20) === 1 &&
+    buffer.readUInt16LE(22) === 1 &&
+    buffer.readUInt16LE(34) === 16;
+
+  if (!isStubWav) {
+    throw new Error('Stub audio provider can only mix 16-bit mono PCM WAV files');
+  }
+
+  const length = Math.floor(Math.min(buffer.readUInt32LE(40), buffer.length - 44) / 2);
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) samples[i] = buffer.readInt16LE(44 + i * 2) / 32767;
+  return samples;
+}
+
+export const stubAudioProvider: AudioProvider = {
+  name: 'stub',
+
+  // An arpeggiated triad with short fades
+  async generateMusic(prompt, duration) {
+    const root = ROOT_FREQUENCIES[hashString(prompt) % ROOT_FREQUENCIES.length];
+    const samples = new Float32Array(Math.round(duration * SAMPLE_RATE));
+    const noteLength = SAMPLE_RATE / 4;
+    const fadeLength = Math.min(SAMPLE_RATE / 2, samples.length / 2);
+
+    for (let i = 0; i < samples.length; i++) {
+      const frequency = root * TRIAD_RATIOS[Math.floor(i / noteLength) % TRIAD_RATIOS.length];
+      const fade = Math.min(1, i / fadeLength, (samples.length - i) / fadeLength);
+      samples[i] = 0.5 * fade * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+    }
+    return { data: encodeWav(samples), format: 'wav' };
+  },
+
+  // Silence as long as the text would take to read
+  async generateVoiceover(text) {
+    const words = text.split(/\s+/).filter(Boolean).length;
+    const seconds = Math.max(1, words / WORDS_PER_SECOND);
+    return { data: encodeWav(new Float32Array(Math.round(seconds * SAMPLE_RATE))), format: 'wav' };
+  },
+
+  async mix(music, voiceover) {
+    const musicSamples = decodeWav(music);
+    const voiceSamples = decodeWav(voiceover);
+    const mixed = new Float32Array(Math.max(musicSamples.length, voiceSamples.length));
+    for (let i = 0; i < mixed.length; i++) {
+      mixed[i] = (musicSamples[i] || 0) * MUSIC_GAIN + (voiceSamples[i] || 0);
+    }
+    return { data: encodeWav(mixed), format: 'wav' };
+  }
+};
+
+// ============ Selection ============
+
+/**
+ * The provider for this environment: the stub only when AUDIO_PROVIDER=stub is
+ * set, otherwise the live APIs. Null when their keys are missing, so
+ * placeholder tones never stand in for real jingles.
+ */
+export function getAudioProvider(): AudioProvider | null {
+  if (process.env.AUDIO_PROVIDER === 'stub') return stubAudioProvider;
+
+  const falKey = process.env.FAL_KEY || process.env.FAL_API_KEY;
+  const elevenLabsKey = process.env.ELEVENLABS_API_KEY || process.env.ELEVENLABS_KEY;
+  if (!falKey || !elevenLabsKey) {
+    console.error('❌ FAL_KEY or ELEVENLABS_API_KEY not set. Set both, or AUDIO_PROVIDER=stub for placeholder audio.');
+    return null;
+  }
+  return liveAudioProvider;
+}
@@ -5,23 +5,22 @@
 
 import fs from 'fs';
 import path from 'path';
-import { fileURLToPath } from 'url';
+import { MixExportFormat, MixSpec, renderMix } from './audioMixer.js';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-interface FALGenerationResult {
-  audio_url: string;
-  duration: number;
+interface FALQueueSubmission {
+  request_id: string;
+  status_url: string;
+  response_url: string;
 }
 
-interface ElevenLabsGenerationResult {
-  audio_base64?: string;
-  audio_url?: string;
+interface FALAudioResult {
+  audio_file: { url: string; content_type?: string };
 }
 
+const FAL_MUSIC_MODEL = 'fal-ai/stable-audio';
+
 /**
- * Generate music using FAL AI Flux Realism model
+ * Generate music using FAL AI Stable Audio
  */
 export async function generateMusicWithFAL(
   prompt: string,
@@ -39,61 +38,70 @@ export async function generateMusicWithFAL(
 
   try {
     // Submit generation request
-    const queueResponse = await fetch('https://queue.fal.run/fal-ai/flux-realism/queue', {
+    const queueResponse = await fetch(`https://queue.fal.run/${FAL_MUSIC_MODEL}`, {
       method: 'POST',
       headers: {
         'Authorization': `Key ${falKey}`,
         'Content-Type': 'application/json'
       },
       body: JSON.stringify({
-        prompt: `${prompt}, instrumental music, 15 seconds, high quality`,
-        num_inference_steps: 30,
-        num_images: 1
+        prompt: `${prompt}, instrumental music, high quality`,
+        seconds_total: Math.min(47, Math.max(1, Math.round(duration))),
+        steps: 100
       })
     });
 
     if (!queueResponse.ok) {
-      throw new Error(`FAL queue failed: ${queueResponse.statusText}`);
+      throw new Error(`FAL queue failed: ${queueResponse.status} ${queueResponse.statusText}`);
     }
 
-    const queueData = await queueResponse.json();
-    const requestId = queueData.request_id;
+    const queueData: FALQueueSubmission = await queueResponse.json();
 
-    console.log(`   Request ID: ${requestId}`);
+    console.log(`   Request ID: ${queueData.request_id}`);
     console.log(`   Waiting for generation...`);
 
     // Poll for result
     let attempts = 0;
-    const maxAttempts = 60; // 60 seconds max
+    const maxAttempts = 120; // 2 minutes max
 
     while (attempts < maxAttempts) {
       await new Promise(resolve => setTimeout(resolve, 1000));
 
-      const statusResponse = await fetch(
-        `https://queue.fal.run/fal-ai/flux-realism/status/${requestId}`,
-        {
-          headers: {
-            'Authorization': `Key ${falKey}`
-          }
+      const statusResponse = await fetch(queueData.status_url, {
+        headers: {
+          'Authorization': `Key ${falKey}`
         }
-      );
+      });
+
+      if (!statusResponse.ok) {
+        throw new Error(`FAL status failed: ${statusResponse.status} ${statusResponse.statusText}`);
+      }
 
       const statusData = await statusResponse.json();
 
       if (statusData.status === 'COMPLETED') {
         console.log(`   ✅ Generation complete!`);
 
+        const resultResponse = await fetch(queueData.response_url, {
+          headers: {
+            'Authorization': `Key ${falKey}`
+          }
+        });
+        if (!resultResponse.ok) {
+          throw new Error(`FAL generation failed: ${resultResponse.status} ${resultResponse.statusText}`);
+        }
+        const result: FALAudioResult = await resultResponse.json();
+
         // Download the audio
-        const audioResponse = await fetch(statusData.audio_url);
+        const audioResponse = await fetch(result.audio_file.url);
+        if (!audioResponse.ok) {
+          throw new Error(`FAL audio download failed: ${audioResponse.status}`);
+        }
         const audioBuffer = Buffer.from(await audioResponse.arrayBuffer());
 
         return audioBuffer;
       }
 
-      if (statusData.status === 'FAILED') {
-        throw new Error(`FAL generation failed: ${statusData.error || 'Unknown error'}`);
-      }
-
       attempts++;
     }
 
@@ -161,32 +169,34 @@ export async function generateVoiceoverWithElevenLabs(
   }
 }
 
+const VOICE_START = 1; // Seconds of music before the voice comes in
+
 /**
- * Mix music and voiceover using FFmpeg
+ * Mix music and voiceover using FFmpeg: the music is ducked under the voice,
+ * faded and loudness-normalized (see audioMixer.ts). The output format
+ * follows outputPath's extension (mp3, wav or ogg).
  */
 export async function mixAudioWithFFmpeg(
   musicBuffer: Buffer,
   voiceoverBuffer: Buffer,
-  outputPath: string
+  outputPath: string,
+  options: Omit<MixSpec, 'tracks' | 'exports'> = {}
 ): Promise<string> {
   console.log(`🔀 Mixing audio tracks...`);
 
-  const musicPath = path.join(__dirname, 'temp_music.mp3');
-  const voiceoverPath = path.join(__dirname, 'temp_voiceover.mp3');
-
-  // Write temporary files
-  fs.writeFileSync(musicPath, musicBuffer);
-  fs.writeFileSync(voiceoverPath, voiceoverBuffer);
+  const extension = path.extname(outputPath).slice(1).toLowerCase();
+  const format: MixExportFormat = extension === 'wav' || extension === 'ogg' ? extension : 'mp3';
 
   try {
-    // Use FFmpeg to mix
-    const { exec } = await import('child_process');
-    const util = require('util');
-    const execAsync = util.promisify(exec);
-
-    const ffmpegCommand = `ffmpeg -i "${musicPath}" -filter:a "volume=0.3" -i "${voiceoverPath}" -filter_complex "[0:a][1:a]amix=inputs=2:duration=first:dropout_transition=2" -y "${outputPath}"`;
-
-    const { stdout, stderr } = await execAsync(ffmpegCommand);
+    const { outputs } = await renderMix({
+      ...options,
+      tracks: [
+        { role: 'music', source: musicBuffer },
+        { role: 'voice', source: voiceoverBuffer, start: VOICE_START }
+      ],
+      exports: [{ format }]
+    });
+    fs.writeFileSync(outputPath, outputs[0].data);
 
     console.log(`   ✅ Mixing complete!`);
     console.log(`   Output: ${outputPath}`);
@@ -196,10 +206,6 @@ export async function mixAudioWithFFmpeg(
   } catch (error) {
     console.error('FFmpeg error:', error);
     throw error;
-  } finally {
-    // Clean up temp files
-    if (fs.existsSync(musicPath)) fs.unlinkSync(musicPath);
-    if (fs.existsSync(voiceoverPath)) fs.unlinkSync(voiceoverPath);
   }
 }
 
@@ -264,4 +270,9 @@ export const MUSIC_STYLE_PROMPTS = {
   pub: 'Upbeat pub rock music, energetic, friendly, community atmosphere',
   upbeat: 'Upbeat commercial jingle music, energetic, memorable, catchy',
   elegant: 'Elegant fine dining music, sophisticated, classy, refined',
+  jazzy: 'Smooth jazz combo music, warm piano and upright bass, relaxed, classy',
+  bluesy: 'Bluesy slide guitar music, soulful, laid-back, Southern kitchen',
+  traditional: 'Traditional acoustic folk music, warm, homely, timeless',
+  rock: 'Driving rock guitar music, bold, energetic, confident',
+  ambient: 'Ambient lounge music, soft pads, calm, modern, understated',
 };
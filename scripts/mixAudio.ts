@@ -0,0 +1,50 @@
+/**
+ * Mix Audio from a Spec File
+ * Renders a JSON mix spec (see MixSpec in audioMixer.ts) to every export it lists.
+ *
+ * Usage: npm run mix:audio -- path/to/spec.json
+ *
+ * Track sources are file paths relative to the spec. Outputs are written next
+ * to the spec as <name>.<format> and <name>-social.<format>, where <name> is
+ * the spec's "name" (default: the spec file's name).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { MixSpec, renderMix } from './audioMixer.js';
+
+interface MixSpecFile extends MixSpec {
+  name?: string;
+}
+
+async function main() {
+  const specPath = process.argv[2];
+  if (!specPath) {
+    console.error('❌ Usage: npm run mix:audio -- path/to/spec.json');
+    process.exit(1);
+  }
+
+  const specDir = path.dirname(path.resolve(specPath));
+  const spec: MixSpecFile = JSON.parse(fs.readFileSync(specPath, 'utf8'));
+  const name = spec.name || path.basename(specPath, '.json');
+
+  console.log(`🎚️ Mixing ${name} (${spec.tracks.length} tracks)\n`);
+
+  const result = await renderMix({
+    ...spec,
+    tracks: spec.tracks.map(track => ({ ...track, source: path.resolve(specDir, track.source as string) }))
+  });
+
+  for (const output of result.outputs) {
+    const file = path.join(specDir, `${name}${output.cut === 'social' ? '-social' : ''}.${output.format}`);
+    fs.writeFileSync(file, output.data);
+    console.log(`   ✅ ${path.basename(file)} (${(output.data.length / 1024).toFixed(0)} KB)`);
+  }
+
+  console.log(`\n📊 Measured ${result.loudness.integratedLufs} LUFS, true peak ${result.loudness.truePeakDb} dBTP before normalization`);
+}
+
+main().catch(error => {
+  console.error('❌ Mix failed:', error.message);
+  process.exit(1);
+});
@@ -1,19 +1,94 @@
 /**
  * Audio Generation Service
- * Integrates with FAL AI (music) and ElevenLabs (voiceover)
+ * Integrates with FAL AI (music) and ElevenLabs (voiceover) through the
+ * /api/audio route, which keeps the API keys server-side and keeps the
+ * generated audio in its asset store. Functions return asset IDs with signed
+ * links that stream them.
  */
 
+// Detect if we're on Vercel or localhost
+const isProduction = import.meta.env.PROD || window.location.hostname !== 'localhost';
+const AUDIO_API = isProduction ? '/api/audio' : 'http://localhost:3001/api/audio';
+
 export interface AudioGenerationConfig {
   musicStyle: 'upbeat' | 'jazzy' | 'bluesy' | 'traditional' | 'rock' | 'ambient';
   voiceGender: 'male' | 'female' | 'neutral';
   duration: number; // seconds
 }
 
+export type AudioProviderName = 'live' | 'stub'; // 'stub' only when the server sets AUDIO_PROVIDER=stub (tones and silence)
+
+/**
+ * The restaurant audio is generated for, recorded in the asset's metadata
+ */
+export interface AudioAssetContext {
+  placeId?: string;
+  restaurantName?: string;
+}
+
 export interface GeneratedAudio {
-  musicUrl: string;
-  voiceoverUrl: string;
-  mixedUrl: string;
+  musicAssetId: string;
+  voiceoverAssetId: string;
+  mixedAssetId: string;
+  urls: { music: string; voiceover: string; mixed: string }; // Signed links, valid for a day
+  previewUrl: string; // Signed link to the mix for outreach emails, valid for 30 days
   duration: number;
+  provider: AudioProviderName;
+}
+
+export interface GeneratedAsset {
+  assetId: string;
+  url: string; // Signed link, valid for a day
+  provider: AudioProviderName;
+}
+
+export interface StoredAudioAsset {
+  id: string;
+  kind: 'music' | 'voiceover' | 'mix';
+  format: 'mp3' | 'wav';
+  contentType: string;
+  size: number; // bytes
+  placeIds: string[];
+  restaurantName?: string;
+  script?: string;
+  voiceId?: string;
+  musicStyle?: string;
+  duration?: number;
+  provider: AudioProviderName;
+  createdAt: string;
+  updatedAt: string;
+  url: string; // Signed link, valid for a day
+}
+
+async function requestAudio<T>(init: RequestInit, query: string = ''): Promise<T> {
+  // The route only answers the app's own origin, so no credentials are sent from the browser
+  const res = await fetch(`${AUDIO_API}${query}`, init);
+
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(`Audio request failed: ${error.details || error.error || res.statusText}`);
+  }
+  return res.json();
+}
+
+const postAudio = <T>(body: Record<string, unknown>): Promise<T> =>
+  requestAudio<T>({
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+/**
+ * Only the spoken lines of a script: drops [SOUND: ...] style directions and quotes
+ */
+export function spokenText(script: string): string {
+  return script
+    .replace(/\[[^\]]*\]/g, '')
+    .replace(/["“”]/g, '')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join(' ');
 }
 
 /**
@@ -22,16 +97,11 @@ export interface GeneratedAudio {
 export async function generateMusic(
   prompt: string,
   style: AudioGenerationConfig['musicStyle'],
-  duration: number = 15
-): Promise<string> {
-  // TODO: Integrate with FAL AI API
-  // For now, return placeholder URL
+  duration: number = 15,
+  context: AudioAssetContext = {}
+): Promise<GeneratedAsset> {
   console.log(`🎵 Generating ${style} music for: "${prompt}"`);
-
-  // Placeholder - replace with actual FAL API call
-  const placeholderUrl = `https://fal.media/models/flux-realism/output/${Date.now()}.mp3`;
-
-  return placeholderUrl;
+  return postAudio<GeneratedAsset>({ action: 'music', prompt, style, duration, ...context });
 }
 
 /**
@@ -39,67 +109,82 @@ export async function generateMusic(
  */
 export async function generateVoiceover(
   text: string,
-  voiceId: string = 'default'
-): Promise<string> {
-  // TODO: Integrate with ElevenLabs API
-  // For now, return placeholder URL
+  voiceId: string = getVoiceId('female'),
+  context: AudioAssetContext = {}
+): Promise<GeneratedAsset> {
   console.log(`🎙️ Generating voiceover: "${text.substring(0, 50)}..."`);
-
-  // Placeholder - replace with actual ElevenLabs API call
-  const placeholderUrl = `https://elevenlabs.io/outputs/${Date.now()}.mp3`;
-
-  return placeholderUrl;
+  return postAudio<GeneratedAsset>({ action: 'voiceover', text, voiceId, ...context });
 }
 
 /**
  * Mix music and voiceover
  */
 export async function mixAudio(
-  musicUrl: string,
-  voiceoverUrl: string
-): Promise<string> {
-  // TODO: Use audio mixing library or API
+  musicAssetId: string,
+  voiceoverAssetId: string,
+  context: AudioAssetContext = {}
+): Promise<GeneratedAsset> {
   console.log(`🔀 Mixing audio tracks...`);
-
-  const mixedUrl = `https://cdn.ugcaudio.com/mixed/${Date.now()}.mp3`;
-
-  return mixedUrl;
+  return postAudio<GeneratedAsset>({ action: 'mix', musicAssetId, voiceoverAssetId, ...context });
 }
 
 /**
- * Generate complete jingle with music + voiceover
+ * Generate complete jingle with music + voiceover (one request; the server
+ * generates both tracks in parallel and mixes them)
  */
 export async function generateJingle(
   script: string,
-  config: AudioGenerationConfig
+  config: AudioGenerationConfig,
+  context: AudioAssetContext = {}
 ): Promise<GeneratedAudio> {
   console.log(`🎵 Generating jingle...`);
 
-  // Generate music
-  const musicUrl = await generateMusic(script, config.musicStyle, config.duration);
+  return postAudio<GeneratedAudio>({
+    action: 'jingle',
+    text: spokenText(script),
+    style: config.musicStyle,
+    voiceId: getVoiceId(config.voiceGender),
+    duration: config.duration,
+    ...context
+  });
+}
 
-  // Generate voiceover
-  const voiceoverUrl = await generateVoiceover(script, 'default');
+/**
+ * Stored audio assets, newest first (optionally only one restaurant's)
+ */
+export async function listAudioAssets(placeId?: string): Promise<StoredAudioAsset[]> {
+  const query = placeId ? `?placeId=${encodeURIComponent(placeId)}` : '';
+  const { assets } = await requestAudio<{ assets: StoredAudioAsset[] }>({ method: 'GET' }, query);
+  return assets;
+}
 
-  // Mix together
-  const mixedUrl = await mixAudio(musicUrl, voiceoverUrl);
+/**
+ * Delete a stored asset. With a placeId only that restaurant's reference is
+ * removed; audio shared with other restaurants is kept.
+ */
+export async function deleteAudioAsset(assetId: string, placeId?: string): Promise<void> {
+  const query = `?id=${encodeURIComponent(assetId)}${placeId ? `&placeId=${encodeURIComponent(placeId)}` : ''}`;
+  await requestAudio<{ deleted: boolean }>({ method: 'DELETE' }, query);
+}
 
-  return {
-    musicUrl,
-    voiceoverUrl,
-    mixedUrl,
-    duration: config.duration
-  };
+/**
+ * Signed link to an asset that can be shared, e.g. in an outreach email
+ */
+export async function createPreviewLink(
+  assetId: string,
+  expiresInDays: number = 30
+): Promise<{ url: string; expiresAt: string }> {
+  return postAudio({ action: 'share', assetId, expiresInDays });
 }
 
 /**
- * Get voice ID for ElevenLabs
+ * Get voice ID for ElevenLabs (same voices as VOICE_OPTIONS in scripts/generateAudio.ts)
  */
 export function getVoiceId(gender: 'male' | 'female' | 'neutral'): string {
   const voices = {
-    male: 'pNInz6obpgDQGcFma2gBBg', // Example ElevenLabs voice ID
-    female: 'EXAVITQu4vr4xnSDxMaL', // Example ElevenLabs voice ID
-    neutral: 'AZnzlk1XvdvUeBnXmlldg'  // Example ElevenLabs voice ID
+    male: 'TxGEqnHWrfWFTfGW9XjX', // Josh
+    female: '21m00Tcm4TlvDq8ikWAM', // Rachel
+    neutral: 'AZnzlk1XvdvUeBnXmlldg' // Charlie
   };
 
   return voices[gender];
@@ -169,6 +169,12 @@ class IndexedDBCache {
 
   private async _init(): Promise<void> {
     return new Promise((resolve, reject) => {
+      // Outside the browser (e.g. Node scripts) only the memory cache is used
+      if (typeof indexedDB === 'undefined') {
+        resolve();
+        return;
+      }
+
       const request = indexedDB.open(DB_NAME, DB_VERSION);
 
       request.onerror = () => {
@@ -637,5 +643,6 @@ export function hashObject(obj: any): string {
 
 // ============ Exports ============
 
-export { CacheService, CacheConfig, CacheStats };
+export { CacheService };
+export type { CacheConfig, CacheStats };
 export default getCache;
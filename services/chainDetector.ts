@@ -1,14 +1,29 @@
 /**
  * Chain Detection Service
- * Identifies whether a restaurant is part of a chain or independent
+ * Identifies whether a restaurant is part of a chain, a small multi-unit group
+ * or independent
  */
 
-export interface ChainDetectionResult {
-    isChain: boolean;
-    chainName?: string;
-    confidence: number; // 0-100
-    reason: string;
-}
+import type { ChainDetectionResult, LocationGroup, LocationGroupSignal } from '../types';
+import { domainKey } from './locationClusters';
+
+export type { ChainDetectionResult };
+
+// Clusters larger than this are regional chains rather than small groups
+const MAX_SMALL_GROUP_LOCATIONS = 15;
+
+// Confidence that a cluster is one operator, by its strongest signal
+const GROUP_SIGNAL_CONFIDENCE: Record<LocationGroupSignal, number> = {
+    domain: 90,
+    phone: 75,
+    name: 70
+};
+
+const GROUP_SIGNAL_LABELS: Record<LocationGroupSignal, string> = {
+    domain: 'website',
+    phone: 'phone numbers',
+    name: 'name'
+};
 
 // Comprehensive chain database
 const NATIONAL_CHAINS = [
@@ -108,7 +123,7 @@ function normalizeName(name: string): string {
 function findChainMatch(name: string): { chain: string; confidence: number } | null {
     const normalized = normalizeName(name);
 
-    for (const chain of ALL_CHAINS) {
+    for (const chain of activeChains()) {
         const normalizedChain = normalizeName(chain);
 
         // Exact match
@@ -152,6 +167,7 @@ function checkDomain(website?: string): { chain: string; confidence: number } |
             const chainName = ALL_CHAINS.find(chain =>
                 normalizeName(chain).replace(/\s/g, '') === pattern.split('.')[0]
             );
+            if (chainName && !activeChains().includes(chainName)) continue;
 
             return {
                 chain: chainName || 'Unknown Chain',
@@ -163,19 +179,41 @@ function checkDomain(website?: string): { chain: string; confidence: number } |
     return null;
 }
 
+export interface ChainDetectionContext {
+    placeId?: string; // Checked against "never a chain" overrides
+    group?: LocationGroup; // Multi-location cluster from the scanned places (see locationClusters.ts)
+}
+
 /**
  * Detect if a restaurant is part of a chain
  */
-export function detectChain(name: string, website?: string): ChainDetectionResult {
+export function detectChain(name: string, website?: string, context: ChainDetectionContext = {}): ChainDetectionResult {
+    const { placeId, group } = context;
+    const locationCount = group?.locationCount;
+
+    // Manual overrides win over every signal
+    const override = findNeverChainOverride(placeId, website);
+    if (override) {
+        return {
+            isChain: false,
+            classification: 'independent',
+            confidence: 100,
+            reason: `Marked as never a chain (${override.type === 'domain' ? override.value : 'this place'})`,
+            locationCount
+        };
+    }
+
     // First check the name
     const nameMatch = findChainMatch(name);
 
     if (nameMatch) {
         return {
             isChain: true,
+            classification: 'chain',
             chainName: nameMatch.chain,
             confidence: nameMatch.confidence,
-            reason: `Name matches known chain: ${nameMatch.chain}`
+            reason: `Name matches known chain: ${nameMatch.chain}`,
+            locationCount
         };
     }
 
@@ -185,9 +223,35 @@ export function detectChain(name: string, website?: string): ChainDetectionResul
     if (domainMatch) {
         return {
             isChain: true,
+            classification: 'chain',
             chainName: domainMatch.chain,
             confidence: domainMatch.confidence,
-            reason: `Domain matches chain: ${domainMatch.chain}`
+            reason: `Domain matches chain: ${domainMatch.chain}`,
+            locationCount
+        };
+    }
+
+    // Then the locations that cluster with it across scans
+    if (group && group.locationCount >= 2) {
+        const confidence = Math.max(...group.signals.map(s => GROUP_SIGNAL_CONFIDENCE[s]));
+        const shared = group.signals.map(s => GROUP_SIGNAL_LABELS[s]).join(', ');
+
+        if (group.locationCount > MAX_SMALL_GROUP_LOCATIONS) {
+            return {
+                isChain: true,
+                classification: 'chain',
+                confidence,
+                reason: `${group.locationCount} scanned locations share ${shared}`,
+                locationCount
+            };
+        }
+
+        return {
+            isChain: false,
+            classification: 'small-group',
+            confidence,
+            reason: `Multi-unit group: ${group.locationCount} scanned locations share ${shared}`,
+            locationCount
         };
     }
 
@@ -202,6 +266,7 @@ export function detectChain(name: string, website?: string): ChainDetectionResul
         if (indicator.pattern.test(name)) {
             return {
                 isChain: true,
+                classification: 'chain',
                 confidence: 70,
                 reason: indicator.reason
             };
@@ -211,26 +276,211 @@ export function detectChain(name: string, website?: string): ChainDetectionResul
     // Likely independent
     return {
         isChain: false,
+        classification: 'independent',
         confidence: 80,
         reason: 'No chain indicators found'
     };
 }
 
+// ============ Custom Chain Lists ============
+
+export type ChainOverrideType = 'placeId' | 'domain';
+
+export interface NeverChainOverride {
+    type: ChainOverrideType;
+    value: string; // placeId, or domain without "www."
+    label?: string; // Restaurant name, for display
+    addedAt: string; // ISO timestamp
+}
+
+export interface ChainLists {
+    customChains: string[]; // Extra chain names (denylist)
+    removedChains: string[]; // Built-in chain names that no longer count as chains
+    neverChain: NeverChainOverride[]; // Places never treated as chains (allowlist)
+}
+
+export interface ChainListEntry {
+    name: string;
+    builtIn: boolean;
+}
+
+const CHAIN_LISTS_STORAGE_KEY = 'ownerscout:chain-lists';
+
+const EMPTY_CHAIN_LISTS: ChainLists = { customChains: [], removedChains: [], neverChain: [] };
+
+const hasStorage = (): boolean => typeof localStorage !== 'undefined';
+
+const sameName = (a: string, b: string): boolean => normalizeName(a) === normalizeName(b);
+
+// Parsed once and replaced on save, since every chain lookup reads them
+let chainLists: ChainLists | null = null;
+let activeChainNames: string[] | null = null;
+
+export function getChainLists(): ChainLists {
+    if (chainLists === null) {
+        chainLists = loadChainLists();
+    }
+    return chainLists;
+}
+
+function loadChainLists(): ChainLists {
+    if (!hasStorage()) return EMPTY_CHAIN_LISTS;
+    try {
+        const raw = localStorage.getItem(CHAIN_LISTS_STORAGE_KEY);
+        return raw ? { ...EMPTY_CHAIN_LISTS, ...JSON.parse(raw) } : EMPTY_CHAIN_LISTS;
+    } catch (error) {
+        console.warn('Failed to load chain lists:', error);
+        return EMPTY_CHAIN_LISTS;
+    }
+}
+
+function saveChainLists(lists: ChainLists): void {
+    chainLists = lists;
+    activeChainNames = null;
+    if (!hasStorage()) return;
+    localStorage.setItem(CHAIN_LISTS_STORAGE_KEY, JSON.stringify(lists));
+}
+
+/**
+ * Built-in chains minus removed ones, then custom chains, in matching order
+ */
+function activeChains(): string[] {
+    if (activeChainNames === null) {
+        const { customChains, removedChains } = getChainLists();
+        const builtIns = ALL_CHAINS.filter(chain => !removedChains.some(r => sameName(r, chain)));
+        activeChainNames = Array.from(new Set([...builtIns, ...customChains]));
+    }
+    return activeChainNames;
+}
+
+/**
+ * Every chain name detection matches against, with where it came from
+ */
+export function getChainListEntries(): ChainListEntry[] {
+    const { customChains } = getChainLists();
+    return getAllChains().map(name => ({ name, builtIn: !customChains.includes(name) }));
+}
+
 /**
  * Get list of all known chains (for UI/filtering)
  */
 export function getAllChains(): string[] {
-    return [...ALL_CHAINS].sort();
+    return [...activeChains()].sort((a, b) => a.localeCompare(b));
 }
 
 /**
- * Add custom chain to detection (runtime addition)
+ * Add a chain name to detection (restores it if it is a removed built-in)
  */
-const customChains: string[] = [];
-
 export function addCustomChain(chainName: string): void {
-    if (!customChains.includes(chainName)) {
-        customChains.push(chainName);
-        ALL_CHAINS.push(chainName);
+    const name = chainName.trim();
+    if (!name) throw new Error('Chain name is required');
+
+    const lists = getChainLists();
+    const removedChains = lists.removedChains.filter(r => !sameName(r, name));
+    const isBuiltIn = ALL_CHAINS.some(chain => sameName(chain, name));
+    const customChains = isBuiltIn || lists.customChains.some(c => sameName(c, name))
+        ? lists.customChains
+        : [...lists.customChains, name];
+
+    saveChainLists({ ...lists, customChains, removedChains });
+}
+
+/**
+ * Stop treating a name as a chain: custom entries are deleted, built-ins are marked removed
+ */
+export function removeChain(chainName: string): void {
+    const lists = getChainLists();
+    const isBuiltIn = ALL_CHAINS.some(chain => sameName(chain, chainName));
+
+    saveChainLists({
+        ...lists,
+        customChains: lists.customChains.filter(c => !sameName(c, chainName)),
+        removedChains: isBuiltIn && !lists.removedChains.some(r => sameName(r, chainName))
+            ? [...lists.removedChains, chainName]
+            : lists.removedChains
+    });
+}
+
+const normalizeOverrideValue = (type: ChainOverrideType, value: string): string =>
+    type === 'domain' ? (domainKey(value) || value.trim().toLowerCase()) : value.trim();
+
+export function addNeverChainOverride(type: ChainOverrideType, value: string, label?: string): void {
+    const normalized = normalizeOverrideValue(type, value);
+    if (!normalized) throw new Error(`A ${type === 'domain' ? 'domain' : 'place ID'} is required`);
+
+    const lists = getChainLists();
+    const neverChain = lists.neverChain.filter(o => !(o.type === type && o.value === normalized));
+    saveChainLists({
+        ...lists,
+        neverChain: [...neverChain, { type, value: normalized, label, addedAt: new Date().toISOString() }]
+    });
+}
+
+export function removeNeverChainOverride(type: ChainOverrideType, value: string): void {
+    const lists = getChainLists();
+    saveChainLists({ ...lists, neverChain: lists.neverChain.filter(o => !(o.type === type && o.value === value)) });
+}
+
+function findNeverChainOverride(placeId?: string, website?: string): NeverChainOverride | undefined {
+    const domain = domainKey(website);
+    return getChainLists().neverChain.find(o =>
+        (o.type === 'placeId' && o.value === placeId) || (o.type === 'domain' && !!domain && o.value === domain)
+    );
+}
+
+export function exportChainLists(): string {
+    return JSON.stringify(getChainLists(), null, 2);
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(v => typeof v === 'string');
+
+function isNeverChainOverride(value: unknown): value is NeverChainOverride {
+    if (!value || typeof value !== 'object') return false;
+    const o = value as Partial<Record<keyof NeverChainOverride, unknown>>;
+    return (o.type === 'placeId' || o.type === 'domain') && typeof o.value === 'string' && o.value.trim() !== '';
+}
+
+function validateChainLists(lists: unknown): string[] {
+    if (!lists || typeof lists !== 'object') {
+        return ['Expected an object with customChains, removedChains and neverChain'];
+    }
+    const l = lists as Partial<Record<keyof ChainLists, unknown>>;
+
+    const errors: string[] = [];
+    if (l.customChains !== undefined && !isStringArray(l.customChains)) errors.push('customChains must be an array of names');
+    if (l.removedChains !== undefined && !isStringArray(l.removedChains)) errors.push('removedChains must be an array of names');
+    if (l.neverChain !== undefined && !(Array.isArray(l.neverChain) && l.neverChain.every(isNeverChainOverride))) {
+        errors.push('neverChain entries need a type of "placeId" or "domain" and a value');
+    }
+    return errors;
+}
+
+/**
+ * Replace the stored lists with exported JSON
+ */
+export function importChainLists(json: string): ChainLists {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch (e) {
+        throw new Error(`Invalid JSON: ${(e as Error).message}`);
     }
+
+    const errors = validateChainLists(parsed);
+    if (errors.length > 0) throw new Error(errors.join('\n'));
+    const imported = parsed as Partial<ChainLists>;
+
+    const lists: ChainLists = {
+        customChains: imported.customChains || [],
+        removedChains: imported.removedChains || [],
+        neverChain: (imported.neverChain || []).map(o => ({
+            type: o.type,
+            value: normalizeOverrideValue(o.type, o.value),
+            label: typeof o.label === 'string' ? o.label : undefined,
+            addedAt: typeof o.addedAt === 'string' ? o.addedAt : new Date().toISOString()
+        }))
+    };
+    saveChainLists(lists);
+    return lists;
 }
@@ -0,0 +1,190 @@
+/**
+ * Commission Bleed Estimator
+ * Turns review volume, price level, place types and detected marketplaces into
+ * estimated monthly delivery orders, marketplace commission paid and the
+ * savings from moving those orders to first-party ordering
+ */
+
+import { PlaceResult, PriceLevel } from '../types';
+
+// ============ Types ============
+
+export interface CommissionSettings {
+  commissionRates: Record<string, number>; // Marketplace name (as in TechStack.delivery) → fraction of order value
+  defaultCommissionRate: number; // Marketplaces without their own rate
+  firstPartyFeeRate: number; // Processing/platform cost of a first-party order
+  firstPartyShiftRate: number; // Share of marketplace orders that move to first-party ordering
+}
+
+export interface MarketplaceBleed {
+  marketplace: string;
+  monthlyOrders: number;
+  commissionRate: number;
+  monthlyFees: number;
+}
+
+export interface CommissionEstimate {
+  monthlyOrders: number; // All channels
+  monthlyDeliveryOrders: number; // Through marketplaces
+  averageTicket: number;
+  monthlyMarketplaceRevenue: number;
+  monthlyCommissionFees: number;
+  monthlySavings: number;
+  annualSavings: number;
+  byMarketplace: MarketplaceBleed[];
+}
+
+// ============ Constants ============
+
+const SETTINGS_STORAGE_KEY = 'ownerscout:commission-settings';
+
+export const DEFAULT_COMMISSION_SETTINGS: CommissionSettings = {
+  commissionRates: {
+    DoorDash: 0.25,
+    UberEats: 0.3,
+    Grubhub: 0.2,
+    Postmates: 0.3
+  },
+  defaultCommissionRate: 0.25,
+  firstPartyFeeRate: 0.03,
+  firstPartyShiftRate: 0.6
+};
+
+// Reviews are a small, steady fraction of customers: ~0.6 monthly orders per lifetime review
+const ORDERS_PER_REVIEW_PER_MONTH = 0.6;
+
+const AVERAGE_TICKET: Record<PriceLevel, number> = {
+  [PriceLevel.FREE]: 12,
+  [PriceLevel.INEXPENSIVE]: 18,
+  [PriceLevel.MODERATE]: 32,
+  [PriceLevel.EXPENSIVE]: 55,
+  [PriceLevel.VERY_EXPENSIVE]: 90
+};
+const UNKNOWN_PRICE_TICKET = 28;
+
+// Share of orders placed through delivery apps, by place type (first match wins)
+const DELIVERY_SHARE_BY_TYPE: Array<[string, number]> = [
+  ['pizza_restaurant', 0.45],
+  ['meal_delivery', 0.5],
+  ['meal_takeaway', 0.4],
+  ['fast_food_restaurant', 0.35],
+  ['chinese_restaurant', 0.35],
+  ['thai_restaurant', 0.3],
+  ['indian_restaurant', 0.3],
+  ['sandwich_shop', 0.25],
+  ['cafe', 0.15],
+  ['bar', 0.08],
+  ['fine_dining_restaurant', 0.08]
+];
+const DEFAULT_DELIVERY_SHARE = 0.2;
+
+// How orders split between the apps a restaurant is on (approximate US market share)
+const MARKETPLACE_WEIGHTS: Record<string, number> = {
+  DoorDash: 0.65,
+  UberEats: 0.23,
+  Grubhub: 0.09,
+  Postmates: 0.03
+};
+const DEFAULT_MARKETPLACE_WEIGHT = 0.05;
+
+// ============ Settings ============
+
+const hasStorage = (): boolean => typeof localStorage !== 'undefined';
+
+export function getCommissionSettings(): CommissionSettings {
+  if (!hasStorage()) return DEFAULT_COMMISSION_SETTINGS;
+  try {
+    const raw = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!raw) return DEFAULT_COMMISSION_SETTINGS;
+    const stored = JSON.parse(raw) as Partial<CommissionSettings>;
+    return {
+      ...DEFAULT_COMMISSION_SETTINGS,
+      ...stored,
+      commissionRates: { ...DEFAULT_COMMISSION_SETTINGS.commissionRates, ...stored.commissionRates }
+    };
+  } catch (error) {
+    console.warn('Failed to load commission settings:', error);
+    return DEFAULT_COMMISSION_SETTINGS;
+  }
+}
+
+export function saveCommissionSettings(settings: CommissionSettings): void {
+  const rates = [
+    settings.defaultCommissionRate,
+    settings.firstPartyFeeRate,
+    settings.firstPartyShiftRate,
+    ...Object.values(settings.commissionRates)
+  ];
+  if (rates.some(rate => !Number.isFinite(rate) || rate < 0 || rate > 1)) {
+    throw new Error('Rates must be between 0% and 100%');
+  }
+  if (hasStorage()) {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }
+}
+
+export function resetCommissionSettings(): CommissionSettings {
+  if (hasStorage()) localStorage.removeItem(SETTINGS_STORAGE_KEY);
+  return DEFAULT_COMMISSION_SETTINGS;
+}
+
+// ============ Estimation ============
+
+const deliveryShare = (types: string[]): number =>
+  DELIVERY_SHARE_BY_TYPE.find(([type]) => types.includes(type))?.[1] ?? DEFAULT_DELIVERY_SHARE;
+
+/**
+ * Estimate monthly commission paid to marketplaces, or null when the place
+ * is not on any marketplace
+ */
+export function estimateCommissionBleed(
+  place: Pick<PlaceResult, 'userRatingCount' | 'priceLevel' | 'types' | 'techStack'>,
+  settings: CommissionSettings = getCommissionSettings()
+): CommissionEstimate | null {
+  const marketplaces = place.techStack.delivery;
+  if (marketplaces.length === 0) return null;
+
+  const monthlyOrders = place.userRatingCount * ORDERS_PER_REVIEW_PER_MONTH;
+  const monthlyDeliveryOrders = monthlyOrders * deliveryShare(place.types);
+  // priceLevel is the API's raw value, which can be PRICE_LEVEL_UNSPECIFIED
+  const averageTicket = (place.priceLevel !== undefined ? AVERAGE_TICKET[place.priceLevel] : undefined) ?? UNKNOWN_PRICE_TICKET;
+
+  const weights = marketplaces.map(m => MARKETPLACE_WEIGHTS[m] ?? DEFAULT_MARKETPLACE_WEIGHT);
+  const totalWeight = weights.reduce((acc, w) => acc + w, 0);
+
+  // Unrounded per-marketplace orders; only the reported figures are rounded
+  const shares = marketplaces.map((marketplace, i) => ({
+    marketplace,
+    orders: monthlyDeliveryOrders * (weights[i] / totalWeight),
+    commissionRate: settings.commissionRates[marketplace] ?? settings.defaultCommissionRate
+  }));
+
+  const byMarketplace: MarketplaceBleed[] = shares.map(({ marketplace, orders, commissionRate }) => ({
+    marketplace,
+    monthlyOrders: Math.round(orders),
+    commissionRate,
+    monthlyFees: Math.round(orders * averageTicket * commissionRate)
+  }));
+
+  const monthlyCommissionFees = byMarketplace.reduce((acc, m) => acc + m.monthlyFees, 0);
+
+  // Shifted orders stop paying commission but pay the first-party fee instead
+  const monthlySavings = Math.max(0, Math.round(shares.reduce((acc, m) => {
+    const shiftedRevenue = m.orders * averageTicket * settings.firstPartyShiftRate;
+    return acc + shiftedRevenue * (m.commissionRate - settings.firstPartyFeeRate);
+  }, 0)));
+
+  return {
+    monthlyOrders: Math.round(monthlyOrders),
+    monthlyDeliveryOrders: Math.round(monthlyDeliveryOrders),
+    averageTicket,
+    monthlyMarketplaceRevenue: Math.round(monthlyDeliveryOrders * averageTicket),
+    monthlyCommissionFees,
+    monthlySavings,
+    annualSavings: monthlySavings * 12,
+    byMarketplace
+  };
+}
+
+export const formatUsd = (amount: number): string =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
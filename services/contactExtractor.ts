@@ -0,0 +1,401 @@
+/**
+ * Contact Extraction Service
+ * Mines a restaurant's crawled pages for outreach contacts: email addresses
+ * (mailto links, plain and obfuscated), contact forms, Instagram/Facebook/TikTok
+ * profiles and owner/chef names from about and team pages. Every contact keeps
+ * a confidence and the page it was found on.
+ */
+
+import type { ContactDiscovery, ContactPoint, ContactType } from '../types';
+import { getCache, cacheKey } from './cacheService';
+import { extractPageUrls, CrawledPage } from './siteCrawler';
+import { openCrawlSession, siteKey, PageLoader } from './crawlSession';
+
+export type { ContactDiscovery, ContactPoint, ContactType };
+
+// ============ Constants ============
+
+// Bump when the extraction changes so cached results are redone
+const EXTRACTION_VERSION = 1;
+
+const EMAIL_PATTERN = /^[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}$/i;
+const EMAIL_IN_TEXT = /[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}/gi;
+
+// "info [at] joes [dot] com", "info(at)joes.com"
+const BRACKETED_EMAIL = /([a-z0-9._%+-]+)\s*[[({]\s*at\s*[\])}]\s*([a-z0-9-]+(?:\s*(?:[[({]\s*dot\s*[\])}]|\.)\s*[a-z0-9-]+)+)/gi;
+// "info at joes dot com" (spelled-out dots only, so prose like "us at Joe's." is not read as an address)
+const SPELLED_EMAIL = /\b([a-z0-9._%+-]+)\s+at\s+([a-z0-9-]+(?:\s+dot\s+[a-z0-9-]+)+)\b/gi;
+// "Visit us at joes dot com" is a website, not an address
+const SPELLED_EMAIL_STOP_WORDS = new Set(['us', 'me', 'you', 'them', 'him', 'her', 'it', 'online', 'visit', 'find']);
+
+// Template placeholders and addresses of the site builder rather than the restaurant
+const IGNORED_EMAIL_DOMAINS = [
+  'example.com', 'domain.com', 'email.com', 'yourdomain.com', 'yoursite.com', 'mysite.com',
+  'sentry.io', 'wixpress.com', 'wix.com', 'squarespace.com', 'godaddy.com', 'shopify.com'
+];
+
+const EMAIL_CONFIDENCE = {
+  mailto: 90,
+  cloudflare: 85, // Cloudflare email protection (data-cfemail)
+  text: 80,
+  obfuscated: 70
+};
+const OWN_DOMAIN_BONUS = 10;
+
+// Hosted forms restaurants embed or link for inquiries and private events
+const FORM_HOSTS = [
+  'typeform.com', 'jotform.com', 'forms.gle', 'formstack.com', 'wufoo.com',
+  'tripleseat.com', 'cognitoforms.com', 'formsite.com'
+];
+
+// Pages whose forms are almost certainly for contacting the restaurant
+const CONTACT_PAGE_PATH = /contact|inquir|enquir|cater|event|private|reserv/i;
+
+// Pages where the people behind the restaurant are introduced
+const ABOUT_PAGE_PATH = /about|story|team|press|chef|owner|people|staff|history|family/i;
+
+// First path segments on social hosts that are not profiles
+const NON_PROFILE_SEGMENTS = new Set([
+  'p', 'reel', 'reels', 'tv', 'explore', 'stories', 'accounts', 'share', 'sharer', 'sharer.php', 'share.php',
+  'plugins', 'tr', 'dialog', 'login', 'hashtag', 'watch', 'events', 'groups', 'photo', 'photo.php',
+  'photos', 'story.php', 'permalink.php', 'video', 'videos', 'embed', 'intent', 'privacy', 'legal', 'help'
+]);
+
+const SOCIAL_CONFIDENCE = { only: 85, ambiguous: 60 }; // Several profiles on one network may include partners
+
+// Role phrases, most specific first
+const ROLES: Array<[string, string]> = [
+  ['chef[ /-]+(?:and |& )?owner', 'Chef-Owner'],
+  ['owner[ /-]+(?:and |& )?chef', 'Chef-Owner'],
+  ['co-?owner', 'Co-Owner'],
+  ['owner', 'Owner'],
+  ['proprietor', 'Proprietor'],
+  ['co-?founder', 'Co-Founder'],
+  ['founder', 'Founder'],
+  ['executive chef', 'Executive Chef'],
+  ['head chef', 'Head Chef'],
+  ['chef de cuisine', 'Chef de Cuisine'],
+  ['chef', 'Chef'],
+  ['general manager', 'General Manager']
+];
+
+// Capitalized words that follow a role without being a name ("Owner Operated Since 1998")
+const NAME_STOP_WORDS = new Set([
+  'the', 'our', 'your', 'we', 'us', 'and', 'of', 'at', 'in', 'menu', 'restaurant', 'kitchen', 'cafe', 'bar',
+  'grill', 'pizza', 'team', 'story', 'about', 'chef', 'owner', 'owners', 'operated', 'owned', 'since',
+  'established', 'family', 'local', 'welcome', 'meet', 'special', 'specials', 'hours', 'contact', 'order',
+  'online', 'catering', 'events', 'award', 'beard', 'best', 'new', 'york', 'city', 'street', 'avenue',
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday', 'recommends', 'selection',
+  'tasting', 'table', 'dinner', 'lunch', 'brunch', 'breakfast', 'daily', 'weekly', 'season', 'seasonal'
+]);
+
+const PERSON_CONFIDENCE = {
+  role: 70, // "Owner Maria Lopez", "Maria Lopez, owner"
+  card: 65, // Team card: name, then role on its own line
+  foundedBy: 60, // "founded in 1998 by Maria Lopez"
+  aboutPageBonus: 10
+};
+
+// ============ Text ============
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', rsquo: '’', lsquo: '‘', commat: '@', period: '.'
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Visible text with block-level elements on their own lines
+ */
+function visibleText(html: string): string {
+  return decodeEntities(html
+    .replace(/<(script|style|template)\b[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<\/?(p|div|h[1-6]|li|ul|ol|br|tr|td|th|section|article|header|footer|figcaption|blockquote|dt|dd)\b[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, ' '))
+    .replace(/[ \t ]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+}
+
+const siteHost = (website: string): string => {
+  try {
+    return new URL(/^https?:\/\//i.test(website) ? website : `https://${website}`).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+};
+
+const onHost = (url: URL, domain: string): boolean =>
+  url.hostname === domain || url.hostname.endsWith(`.${domain}`);
+
+// Letters match either case; used for role phrases inside otherwise case-sensitive patterns
+const caseless = (source: string): string =>
+  source.replace(/[a-z]/g, c => `[${c}${c.toUpperCase()}]`);
+
+// ============ Collection ============
+
+/**
+ * Keeps the highest-confidence sighting of each contact
+ */
+class ContactCollector {
+  private readonly contacts = new Map<string, ContactPoint>();
+
+  add(contact: ContactPoint): void {
+    const key = `${contact.type}|${contact.value.toLowerCase()}`;
+    const existing = this.contacts.get(key);
+    if (!existing || contact.confidence > existing.confidence) {
+      this.contacts.set(key, { ...contact, role: contact.role ?? existing?.role });
+    }
+  }
+
+  list(): ContactPoint[] {
+    return Array.from(this.contacts.values()).sort((a, b) => b.confidence - a.confidence);
+  }
+}
+
+// ============ Emails ============
+
+function normalizeEmail(raw: string): string | null {
+  const email = raw.trim().replace(/^mailto:/i, '').replace(/[.,;:]+$/, '').toLowerCase();
+  if (!EMAIL_PATTERN.test(email)) return null;
+
+  const [local, domain] = email.split('@');
+  if (/\.(png|jpe?g|gif|webp|svg)$/.test(email)) return null; // Retina image names like logo@2x.png
+  if (IGNORED_EMAIL_DOMAINS.some(d => domain === d || domain.endsWith(`.${d}`))) return null;
+  if (/^[a-f0-9]{16,}$/.test(local)) return null; // Error-tracker keys
+  return email;
+}
+
+/**
+ * Cloudflare email protection: the first byte is the XOR key for the rest
+ */
+function decodeCloudflareEmail(hex: string): string {
+  const key = parseInt(hex.slice(0, 2), 16);
+  let email = '';
+  for (let i = 2; i + 1 < hex.length; i += 2) {
+    email += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16) ^ key);
+  }
+  return email;
+}
+
+function collectEmails(page: CrawledPage, text: string, host: string, collector: ContactCollector): void {
+  const add = (raw: string, confidence: number) => {
+    const email = normalizeEmail(raw);
+    if (!email) return;
+    const domain = email.split('@')[1];
+    const ownDomain = !!host && (domain === host || host.endsWith(`.${domain}`));
+    collector.add({
+      type: 'email',
+      value: email,
+      confidence: Math.min(100, confidence + (ownDomain ? OWN_DOMAIN_BONUS : 0)),
+      sourceUrl: page.url
+    });
+  };
+
+  for (const match of page.html.matchAll(/href\s*=\s*["']\s*mailto:([^"'?]+)/gi)) {
+    let address = decodeEntities(match[1]);
+    try {
+      address = decodeURIComponent(address);
+    } catch {
+      // Keep the raw address
+    }
+    add(address, EMAIL_CONFIDENCE.mailto);
+  }
+
+  for (const match of page.html.matchAll(/data-cfemail\s*=\s*["']([0-9a-f]+)["']/gi)) {
+    add(decodeCloudflareEmail(match[1]), EMAIL_CONFIDENCE.cloudflare);
+  }
+
+  // Entity-encoded addresses are decoded by visibleText and count as plain text
+  for (const match of text.matchAll(EMAIL_IN_TEXT)) {
+    add(match[0], EMAIL_CONFIDENCE.text);
+  }
+
+  for (const pattern of [BRACKETED_EMAIL, SPELLED_EMAIL]) {
+    for (const match of text.matchAll(pattern)) {
+      if (pattern === SPELLED_EMAIL && SPELLED_EMAIL_STOP_WORDS.has(match[1].toLowerCase())) continue;
+      const domain = match[2].replace(/\s*(?:[[({]\s*dot\s*[\])}]|\s+dot\s+|\.)\s*/gi, '.');
+      add(`${match[1]}@${domain}`, EMAIL_CONFIDENCE.obfuscated);
+    }
+  }
+}
+
+// ============ Contact Forms ============
+
+function collectForms(page: CrawledPage, urls: URL[], collector: ContactCollector): void {
+  const contactPage = CONTACT_PAGE_PATH.test(new URL(page.url).pathname);
+
+  for (const match of page.html.matchAll(/<form\b([^>]*)>([\s\S]*?)<\/form>/gi)) {
+    const [, attributes, body] = match;
+    if (/role\s*=\s*["']search["']/i.test(attributes)) continue;
+
+    // A message box (or a message field) separates contact forms from newsletter sign-ups
+    const hasMessage = /<textarea\b/i.test(body) || /name\s*=\s*["'][^"']*(message|comment|inquiry|enquiry)/i.test(body);
+    if (!hasMessage) continue;
+
+    collector.add({ type: 'contactForm', value: page.url, confidence: contactPage ? 85 : 70, sourceUrl: page.url });
+  }
+
+  for (const url of urls) {
+    const googleForm = onHost(url, 'docs.google.com') && url.pathname.startsWith('/forms');
+    if (!googleForm && !FORM_HOSTS.some(host => onHost(url, host))) continue;
+    collector.add({ type: 'contactForm', value: `${url.origin}${url.pathname}`, confidence: 75, sourceUrl: page.url });
+  }
+}
+
+// ============ Social Profiles ============
+
+function socialProfile(url: URL): { type: ContactType; value: string } | null {
+  const segments = url.pathname.split('/').filter(Boolean);
+  const first = segments[0]?.toLowerCase();
+
+  if (onHost(url, 'instagram.com')) {
+    if (!first || NON_PROFILE_SEGMENTS.has(first) || !/^[a-z0-9._]{1,30}$/.test(first)) return null;
+    return { type: 'instagram', value: `@${first}` };
+  }
+
+  if (onHost(url, 'tiktok.com')) {
+    if (!first || !/^@[a-z0-9._]{2,24}$/.test(first)) return null;
+    return { type: 'tiktok', value: first };
+  }
+
+  if (onHost(url, 'facebook.com') || onHost(url, 'fb.com')) {
+    if (first === 'profile.php') {
+      const id = url.searchParams.get('id');
+      return id ? { type: 'facebook', value: `facebook.com/profile.php?id=${id}` } : null;
+    }
+    if (first === 'pages' && segments.length >= 2) {
+      return { type: 'facebook', value: `facebook.com/pages/${segments.slice(1, 3).join('/')}` };
+    }
+    if (!first || NON_PROFILE_SEGMENTS.has(first) || !/^[a-z0-9.-]{3,}$/.test(first)) return null;
+    return { type: 'facebook', value: `facebook.com/${first}` };
+  }
+
+  return null;
+}
+
+function collectSocialProfiles(pages: CrawledPage[], collector: ContactCollector): void {
+  const found = new Map<string, { type: ContactType; value: string; sourceUrl: string }>();
+  for (const page of pages) {
+    for (const url of extractPageUrls(page)) {
+      const profile = socialProfile(url);
+      if (profile && !found.has(`${profile.type}|${profile.value}`)) {
+        found.set(`${profile.type}|${profile.value}`, { ...profile, sourceUrl: page.url });
+      }
+    }
+  }
+
+  const perNetwork = new Map<ContactType, number>();
+  found.forEach(p => perNetwork.set(p.type, (perNetwork.get(p.type) || 0) + 1));
+
+  for (const profile of found.values()) {
+    const confidence = perNetwork.get(profile.type) === 1 ? SOCIAL_CONFIDENCE.only : SOCIAL_CONFIDENCE.ambiguous;
+    collector.add({ ...profile, confidence });
+  }
+}
+
+// ============ People ============
+
+const NAME = "([A-Z][a-zà-ÿ'’-]+(?: (?:[A-Z]\\. )?[A-Z][a-zà-ÿ'’-]+){1,2})";
+const ROLE = `(${ROLES.map(([source]) => caseless(source)).join('|')})`;
+
+const ROLE_BEFORE_NAME = new RegExp(`\\b${ROLE}[,:]? ${NAME}`, 'g');
+const NAME_BEFORE_ROLE = new RegExp(`${NAME}(?:,| \\(| -| –) (?:(?:[Tt]he|[Oo]ur) )?${ROLE}\\b`, 'g');
+const TEAM_CARD = new RegExp(`(?:^|\\n)${NAME}\\n${ROLE}(?=\\n|$)`, 'g');
+const FOUNDED_BY = new RegExp(`\\b([Ff]ounded|[Oo]wned|[Oo]pened|[Ss]tarted)(?: and operated)?(?: in \\d{4})? by ${NAME}`, 'g');
+
+const roleLabel = (phrase: string): string =>
+  ROLES.find(([source]) => new RegExp(`^${source}$`, 'i').test(phrase))?.[1] || 'Owner';
+
+// Restaurants are often named after the owner, so only a name made up entirely of the restaurant's name is rejected
+const isPlausibleName = (name: string, restaurantWords: Set<string>): boolean => {
+  const words = name.split(' ').map(word => word.toLowerCase().replace(/['’]s$/, ''));
+  return !words.some(word => NAME_STOP_WORDS.has(word)) && !words.every(word => restaurantWords.has(word));
+};
+
+function collectPeople(page: CrawledPage, text: string, restaurantWords: Set<string>, collector: ContactCollector): void {
+  const bonus = ABOUT_PAGE_PATH.test(new URL(page.url).pathname) ? PERSON_CONFIDENCE.aboutPageBonus : 0;
+  const add = (name: string, role: string, confidence: number) => {
+    if (!isPlausibleName(name, restaurantWords)) return;
+    collector.add({ type: 'person', value: name, role, confidence: confidence + bonus, sourceUrl: page.url });
+  };
+
+  // Names never span lines, so match line by line (team cards are matched on the whole text)
+  for (const line of text.split('\n')) {
+    for (const match of line.matchAll(ROLE_BEFORE_NAME)) add(match[2], roleLabel(match[1]), PERSON_CONFIDENCE.role);
+    for (const match of line.matchAll(NAME_BEFORE_ROLE)) add(match[1], roleLabel(match[2]), PERSON_CONFIDENCE.role);
+    for (const match of line.matchAll(FOUNDED_BY)) {
+      add(match[2], /founded|started/i.test(match[1]) ? 'Founder' : 'Owner', PERSON_CONFIDENCE.foundedBy);
+    }
+  }
+  for (const match of text.matchAll(TEAM_CARD)) add(match[1], roleLabel(match[2]), PERSON_CONFIDENCE.card);
+}
+
+// ============ Extraction ============
+
+/**
+ * Extract contacts from a site's crawled pages. `restaurantName` keeps words
+ * of the restaurant's own name from being read as a person's name.
+ */
+export function extractContacts(pages: CrawledPage[], website: string, restaurantName: string = ''): ContactDiscovery {
+  const collector = new ContactCollector();
+  const host = siteHost(website);
+  const restaurantWords = new Set(restaurantName.toLowerCase().replace(/['’]s\b/g, '').split(/[^a-z0-9à-ÿ]+/).filter(Boolean));
+
+  for (const page of pages) {
+    const text = visibleText(page.html);
+    collectEmails(page, text, host, collector);
+    collectForms(page, extractPageUrls(page), collector);
+    collectPeople(page, text, restaurantWords, collector);
+  }
+  collectSocialProfiles(pages, collector);
+
+  const contacts = collector.list();
+  return {
+    contacts,
+    primaryEmail: contacts.find(c => c.type === 'email')?.value,
+    pagesScanned: pages.length
+  };
+}
+
+/**
+ * Contacts for a restaurant's website. Pass the loader shared with the other
+ * detectors so the site is only crawled once.
+ */
+export async function discoverContacts(
+  website: string,
+  name: string,
+  forceRefresh = false,
+  loadPages: PageLoader = openCrawlSession(website, { forceRefresh }).load
+): Promise<ContactDiscovery> {
+  // Shared hosts (facebook.com/…, linktr.ee/…) keep their path so restaurants never share contacts
+  const domain = siteKey(website) || website;
+  const cache = getCache();
+  const cacheKeyString = cacheKey('contacts', domain, EXTRACTION_VERSION);
+
+  const cached = forceRefresh ? null : await cache.get<ContactDiscovery>(cacheKeyString);
+  if (cached) {
+    console.log(`✅ Cache hit for contacts: ${domain}`);
+    return cached;
+  }
+
+  const pages = await loadPages();
+  const result = extractContacts(pages, website, name);
+
+  if (result.primaryEmail) {
+    console.log(`📇 ${name}: ${result.primaryEmail}`);
+  }
+
+  // Retry soon when the site could not be fetched; contacts change slowly otherwise
+  await cache.set(cacheKeyString, result, pages.length === 0 ? 1 * 60 * 60 : 7 * 24 * 60 * 60);
+  return result;
+}
@@ -0,0 +1,150 @@
+/**
+ * Crawl Session
+ * Crawls a site once per scan and hands the same pages to every detector.
+ * Raw HTML and headers are cached under their content hash, so pages that
+ * did not change are stored once and identical pages on several URLs share
+ * one entry.
+ */
+
+import { getCache, cacheKey } from './cacheService';
+import { crawlSite, normalizeUrl, CrawledPage, CrawlOptions } from './siteCrawler';
+import { isSharedHost } from './locationClusters';
+
+// ============ Types ============
+
+/** Loads a site's pages; detectors handed the same loader share one crawl */
+export type PageLoader = () => Promise<CrawledPage[]>;
+
+export interface CrawlSessionOptions extends CrawlOptions {
+  forceRefresh?: boolean; // Re-crawl instead of using the cached crawl
+}
+
+interface CachedDocument {
+  html: string;
+  headers: Record<string, string>;
+}
+
+// Which pages a crawl found; the documents themselves are stored by hash
+interface CrawlManifest {
+  crawledAt: string; // ISO timestamp
+  pages: Array<{ url: string; depth: number; contentHash: string }>;
+}
+
+// ============ Constants ============
+
+// Detectors cache their own results for 3-7 days; the raw crawl only needs to outlive one scan
+const CRAWL_TTL_SECONDS = 24 * 60 * 60;
+
+// ============ Hashing ============
+
+/**
+ * SHA-256 of the page body and headers, as hex
+ */
+export async function contentHash(html: string, headers: Record<string, string> = {}): Promise<string> {
+  const sortedHeaders = Object.keys(headers).sort().map(name => `${name}: ${headers[name]}`).join('\n');
+  const bytes = new TextEncoder().encode(`${sortedHeaders}\n\n${html}`);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// ============ Site Keys ============
+
+/**
+ * Cache key for a site: its hostname, or the whole URL on hosts shared by
+ * many restaurants (facebook.com/…, order.toasttab.com/online/…), where the
+ * path tells restaurants apart. Undefined for URLs that do not parse.
+ */
+export function siteKey(website: string): string | undefined {
+  try {
+    const url = new URL(normalizeUrl(website.trim()));
+    if (!isSharedHost(url.hostname)) return url.hostname;
+    return `${url.hostname}${url.pathname.replace(/\/+$/, '').toLowerCase()}${url.search}`;
+  } catch {
+    return undefined;
+  }
+}
+
+// ============ Session ============
+
+export class CrawlSession {
+  readonly website: string;
+  private readonly options: CrawlSessionOptions;
+  private loading: Promise<CrawledPage[]> | null = null;
+
+  constructor(website: string, options: CrawlSessionOptions = {}) {
+    this.website = normalizeUrl(website);
+    this.options = options;
+  }
+
+  /**
+   * The site's pages, crawled (or read from the cache) on first call only
+   */
+  pages(): Promise<CrawledPage[]> {
+    if (!this.loading) this.loading = this.loadPages();
+    return this.loading;
+  }
+
+  /** The session as a PageLoader for detectors */
+  readonly load: PageLoader = () => this.pages();
+
+  private manifestKey(): string | null {
+    const site = siteKey(this.website);
+    const { maxDepth = '', maxPages = '' } = this.options;
+    return site ? cacheKey('crawl', site, maxDepth, maxPages) : null;
+  }
+
+  private async loadPages(): Promise<CrawledPage[]> {
+    const { forceRefresh = false, ...crawlOptions } = this.options;
+    const cache = getCache();
+
+    const key = this.manifestKey();
+    if (!key) return crawlSite(this.website, crawlOptions);
+
+    if (!forceRefresh) {
+      const cached = await this.readCachedCrawl(key);
+      if (cached) {
+        console.log(`✅ Cache hit for crawl: ${this.website}`);
+        return cached;
+      }
+    }
+
+    const pages = await crawlSite(this.website, crawlOptions);
+    // Failed crawls are not stored: each detector caches its own failure briefly
+    if (pages.length === 0) return pages;
+
+    const manifest: CrawlManifest = { crawledAt: new Date().toISOString(), pages: [] };
+    for (const page of pages) {
+      const headers = page.headers || {};
+      const hash = await contentHash(page.html, headers);
+      await cache.set<CachedDocument>(cacheKey('page', hash), { html: page.html, headers }, CRAWL_TTL_SECONDS);
+      manifest.pages.push({ url: page.url, depth: page.depth, contentHash: hash });
+    }
+    await cache.set(key, manifest, CRAWL_TTL_SECONDS);
+
+    return pages;
+  }
+
+  /**
+   * Pages of the cached crawl, or null when it or any of its documents expired
+   */
+  private async readCachedCrawl(key: string): Promise<CrawledPage[] | null> {
+    const cache = getCache();
+    const manifest = await cache.get<CrawlManifest>(key);
+    if (!manifest) return null;
+
+    const pages: CrawledPage[] = [];
+    for (const entry of manifest.pages) {
+      const document = await cache.get<CachedDocument>(cacheKey('page', entry.contentHash));
+      if (!document) return null;
+      pages.push({ url: entry.url, depth: entry.depth, html: document.html, headers: document.headers });
+    }
+    return pages;
+  }
+}
+
+/**
+ * Start a crawl session for a site; nothing is fetched until a detector asks for the pages
+ */
+export function openCrawlSession(website: string, options: CrawlSessionOptions = {}): CrawlSession {
+  return new CrawlSession(website, options);
+}
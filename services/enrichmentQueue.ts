@@ -0,0 +1,217 @@
+/**
+ * Enrichment Queue
+ * Runs enrichment work (place details, site crawls, AI analysis) with a
+ * concurrency limit per stage, retries failed tasks with backoff, supports
+ * cancellation and reports progress to listeners as tasks finish.
+ */
+
+import type { PlaceResult } from '../types';
+
+// ============ Types ============
+
+export type EnrichmentStage = 'details' | 'crawl' | 'ai';
+
+export interface EnrichmentQueueConfig {
+  concurrency: Record<EnrichmentStage, number>; // Tasks running at once per stage
+  retries: number; // Extra attempts after a task throws
+  retryDelayMs: number; // Doubled after every failed attempt
+}
+
+export interface StageProgress {
+  total: number; // Tasks queued so far
+  running: number;
+  completed: number;
+  failed: number; // Gave up after all retries
+}
+
+export type EnrichmentProgress = Record<EnrichmentStage, StageProgress>;
+
+export type EnrichmentEvent =
+  | { type: 'progress'; stage: EnrichmentStage; progress: EnrichmentProgress }
+  | { type: 'place'; place: PlaceResult } // A place finished enrichment and passed the filters
+  | { type: 'cancelled' };
+
+export type EnrichmentListener = (event: EnrichmentEvent) => void;
+
+// ============ Constants ============
+
+export const DEFAULT_QUEUE_CONFIG: EnrichmentQueueConfig = {
+  concurrency: {
+    details: 6,
+    crawl: 4, // Each crawl fetches up to 6 pages through the proxy
+    ai: 2
+  },
+  retries: 2,
+  retryDelayMs: 1000
+};
+
+export const ENRICHMENT_STAGES: EnrichmentStage[] = ['details', 'crawl', 'ai'];
+
+const emptyProgress = (): StageProgress => ({ total: 0, running: 0, completed: 0, failed: 0 });
+
+/**
+ * Whether an error comes from a cancelled job (or an aborted fetch)
+ */
+export const isCancellation = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+/**
+ * Wait `ms`, rejecting with the abort reason as soon as `signal` aborts
+ */
+export const abortableDelay = (ms: number, signal?: AbortSignal | null): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// ============ Job ============
+
+interface QueuedTask {
+  start: () => void;
+}
+
+export class EnrichmentJob {
+  private readonly config: EnrichmentQueueConfig;
+  private readonly controller = new AbortController();
+  private readonly listeners = new Set<EnrichmentListener>();
+  private readonly waiting: Record<EnrichmentStage, QueuedTask[]> = { details: [], crawl: [], ai: [] };
+  private readonly progress: EnrichmentProgress = {
+    details: emptyProgress(),
+    crawl: emptyProgress(),
+    ai: emptyProgress()
+  };
+
+  constructor(config: Partial<EnrichmentQueueConfig> = {}) {
+    this.config = {
+      ...DEFAULT_QUEUE_CONFIG,
+      ...config,
+      concurrency: { ...DEFAULT_QUEUE_CONFIG.concurrency, ...config.concurrency }
+    };
+  }
+
+  /** Aborted when the job is cancelled */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get cancelled(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  /**
+   * Subscribe to progress and place events; returns the unsubscribe function
+   */
+  on(listener: EnrichmentListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getProgress(): EnrichmentProgress {
+    return {
+      details: { ...this.progress.details },
+      crawl: { ...this.progress.crawl },
+      ai: { ...this.progress.ai }
+    };
+  }
+
+  /**
+   * Stop starting new tasks. Queued tasks reject with an AbortError; running
+   * tasks see the aborted signal.
+   */
+  cancel(): void {
+    if (this.cancelled) return;
+    this.controller.abort();
+    for (const stage of ENRICHMENT_STAGES) {
+      this.waiting[stage].splice(0).forEach(task => task.start());
+    }
+    this.emit({ type: 'cancelled' });
+  }
+
+  /**
+   * Throw the cancellation error if the job was cancelled
+   */
+  throwIfCancelled(): void {
+    if (this.cancelled) throw this.cancellationError();
+  }
+
+  /**
+   * Report a finished place to listeners
+   */
+  emitPlace(place: PlaceResult): void {
+    if (!this.cancelled) this.emit({ type: 'place', place });
+  }
+
+  /**
+   * Run a task once a slot in its stage is free, retrying when it throws
+   */
+  run<T>(stage: EnrichmentStage, task: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    this.throwIfCancelled();
+    this.update(stage, p => p.total++);
+
+    return new Promise<T>((resolve, reject) => {
+      const start = () => {
+        if (this.cancelled) {
+          this.update(stage, p => p.failed++);
+          reject(this.cancellationError());
+          return;
+        }
+
+        this.update(stage, p => p.running++);
+        this.attempt(task)
+          .then(
+            result => {
+              this.update(stage, p => { p.running--; p.completed++; });
+              resolve(result);
+            },
+            error => {
+              this.update(stage, p => { p.running--; p.failed++; });
+              reject(error);
+            }
+          )
+          .finally(() => this.waiting[stage].shift()?.start());
+      };
+
+      if (this.progress[stage].running < this.config.concurrency[stage]) {
+        start();
+      } else {
+        this.waiting[stage].push({ start });
+      }
+    });
+  }
+
+  private async attempt<T>(task: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await task(this.signal);
+      } catch (error) {
+        if (this.cancelled || isCancellation(error) || attempt >= this.config.retries) throw error;
+
+        const delayMs = this.config.retryDelayMs * Math.pow(2, attempt);
+        console.log(`⚠️ Enrichment task failed, retrying in ${delayMs}ms... (attempt ${attempt + 1}/${this.config.retries})`);
+        await abortableDelay(delayMs, this.signal);
+      }
+    }
+  }
+
+  private cancellationError(): Error {
+    const reason = this.signal.reason;
+    return reason instanceof Error ? reason : Object.assign(new Error('Enrichment cancelled'), { name: 'AbortError' });
+  }
+
+  private update(stage: EnrichmentStage, change: (progress: StageProgress) => void): void {
+    change(this.progress[stage]);
+    this.emit({ type: 'progress', stage, progress: this.getProgress() });
+  }
+
+  private emit(event: EnrichmentEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
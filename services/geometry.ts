@@ -0,0 +1,158 @@
+/**
+ * Geometry helpers for territory search
+ * Small planar/spherical utilities for circles, polygons and quadtree tiles
+ */
+
+import type { GeoLocation, GeoBounds } from '../types';
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LAT = 110.574;
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points in km
+ */
+export function haversineKm(a: GeoLocation, b: GeoLocation): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Approximate a search circle as a polygon (counter-clockwise)
+ */
+export function circleToPolygon(center: GeoLocation, radiusKm: number, segments: number = 48): GeoLocation[] {
+  const kmPerDegreeLng = 111.32 * Math.cos(toRadians(center.lat));
+  const points: GeoLocation[] = [];
+
+  for (let i = 0; i < segments; i++) {
+    const angle = (2 * Math.PI * i) / segments;
+    points.push({
+      lat: center.lat + (radiusKm * Math.sin(angle)) / KM_PER_DEGREE_LAT,
+      lng: center.lng + (radiusKm * Math.cos(angle)) / kmPerDegreeLng
+    });
+  }
+
+  return points;
+}
+
+export function boundingBox(points: GeoLocation[]): GeoBounds {
+  return {
+    south: Math.min(...points.map(p => p.lat)),
+    west: Math.min(...points.map(p => p.lng)),
+    north: Math.max(...points.map(p => p.lat)),
+    east: Math.max(...points.map(p => p.lng))
+  };
+}
+
+/**
+ * Split a box into four quadrants (SW, SE, NW, NE)
+ */
+export function splitBox(box: GeoBounds): GeoBounds[] {
+  const midLat = (box.south + box.north) / 2;
+  const midLng = (box.west + box.east) / 2;
+  return [
+    { south: box.south, west: box.west, north: midLat, east: midLng },
+    { south: box.south, west: midLng, north: midLat, east: box.east },
+    { south: midLat, west: box.west, north: box.north, east: midLng },
+    { south: midLat, west: midLng, north: box.north, east: box.east }
+  ];
+}
+
+/**
+ * Clip a polygon to an axis-aligned box (Sutherland–Hodgman).
+ * Returns an empty array when they don't overlap.
+ */
+export function clipPolygonToBox(polygon: GeoLocation[], box: GeoBounds): GeoLocation[] {
+  type Edge = {
+    inside: (p: GeoLocation) => boolean;
+    intersect: (a: GeoLocation, b: GeoLocation) => GeoLocation;
+  };
+
+  const atLat = (a: GeoLocation, b: GeoLocation, lat: number): GeoLocation => ({
+    lat,
+    lng: a.lng + ((b.lng - a.lng) * (lat - a.lat)) / (b.lat - a.lat)
+  });
+  const atLng = (a: GeoLocation, b: GeoLocation, lng: number): GeoLocation => ({
+    lat: a.lat + ((b.lat - a.lat) * (lng - a.lng)) / (b.lng - a.lng),
+    lng
+  });
+
+  const edges: Edge[] = [
+    { inside: p => p.lat >= box.south, intersect: (a, b) => atLat(a, b, box.south) },
+    { inside: p => p.lng <= box.east, intersect: (a, b) => atLng(a, b, box.east) },
+    { inside: p => p.lat <= box.north, intersect: (a, b) => atLat(a, b, box.north) },
+    { inside: p => p.lng >= box.west, intersect: (a, b) => atLng(a, b, box.west) }
+  ];
+
+  let output = polygon;
+  for (const edge of edges) {
+    const input = output;
+    output = [];
+    if (input.length === 0) break;
+
+    for (let i = 0; i < input.length; i++) {
+      const current = input[i];
+      const previous = input[(i + input.length - 1) % input.length];
+      const currentInside = edge.inside(current);
+      const previousInside = edge.inside(previous);
+
+      if (currentInside) {
+        if (!previousInside) output.push(edge.intersect(previous, current));
+        output.push(current);
+      } else if (previousInside) {
+        output.push(edge.intersect(previous, current));
+      }
+    }
+  }
+
+  return output.length >= 3 ? output : [];
+}
+
+/**
+ * Ray-casting point-in-polygon test
+ */
+export function pointInPolygon(point: GeoLocation, polygon: GeoLocation[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses =
+      (a.lat > point.lat) !== (b.lat > point.lat) &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Signed area in squared degrees (positive when counter-clockwise)
+ */
+export function signedArea(polygon: GeoLocation[]): number {
+  let area = 0;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    area += (polygon[j].lng * polygon[i].lat) - (polygon[i].lng * polygon[j].lat);
+  }
+  return area / 2;
+}
+
+/**
+ * Area Insights customArea polygons must be wound counter-clockwise
+ */
+export function ensureCounterClockwise(polygon: GeoLocation[]): GeoLocation[] {
+  return signedArea(polygon) < 0 ? [...polygon].reverse() : polygon;
+}
+
+/**
+ * Average of the vertices (good enough to center a map or mock search)
+ */
+export function polygonCenter(polygon: GeoLocation[]): GeoLocation {
+  return {
+    lat: polygon.reduce((acc, p) => acc + p.lat, 0) / polygon.length,
+    lng: polygon.reduce((acc, p) => acc + p.lng, 0) / polygon.length
+  };
+}
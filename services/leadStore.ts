@@ -0,0 +1,164 @@
+/**
+ * Lead Store
+ * Persistent lead pipeline (lightweight CRM) for scanned places
+ */
+
+import type { PlaceResult } from '../types';
+import { getLocalDatabase } from './localDatabase';
+
+export type LeadStage = 'new' | 'contacted' | 'replied' | 'demo' | 'won' | 'lost';
+
+export const LEAD_STAGES: { id: LeadStage; label: string }[] = [
+  { id: 'new', label: 'New' },
+  { id: 'contacted', label: 'Contacted' },
+  { id: 'replied', label: 'Replied' },
+  { id: 'demo', label: 'Demo' },
+  { id: 'won', label: 'Won' },
+  { id: 'lost', label: 'Lost' }
+];
+
+export type LeadActivityType = 'created' | 'stage' | 'note' | 'tags' | 'next-action' | 'enriched';
+
+export interface LeadActivity {
+  at: string; // ISO timestamp
+  type: LeadActivityType;
+  message: string;
+}
+
+export interface Lead {
+  placeId: string;
+  place: PlaceResult; // Snapshot from the last scan or re-enrichment
+  stage: LeadStage;
+  notes: string;
+  tags: string[];
+  nextActionDate?: string; // YYYY-MM-DD
+  activity: LeadActivity[];
+  savedAt: string;
+  updatedAt: string;
+  lastEnrichedAt: string;
+}
+
+export type LeadUpdate = Partial<Pick<Lead, 'stage' | 'notes' | 'tags' | 'nextActionDate'>>;
+
+const STORE = 'leads';
+
+const stageLabel = (stage: LeadStage): string =>
+  LEAD_STAGES.find(s => s.id === stage)?.label ?? stage;
+
+function logActivity(lead: Lead, type: LeadActivityType, message: string): void {
+  const at = new Date().toISOString();
+  lead.activity = [...lead.activity, { at, type, message }];
+  lead.updatedAt = at;
+}
+
+/**
+ * Get all saved leads, most recently updated first
+ */
+export async function getLeads(): Promise<Lead[]> {
+  const leads = await getLocalDatabase().getAll<Lead>(STORE);
+  return leads.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getLead(placeId: string): Promise<Lead | null> {
+  return getLocalDatabase().get<Lead>(STORE, placeId);
+}
+
+/**
+ * Save a place as a lead (refreshes the place snapshot if already saved)
+ */
+export async function saveLead(place: PlaceResult, stage: LeadStage = 'new'): Promise<Lead> {
+  const existing = await getLead(place.placeId);
+  if (existing) {
+    return refreshLeadPlace(place);
+  }
+
+  const now = new Date().toISOString();
+  const lead: Lead = {
+    placeId: place.placeId,
+    place,
+    stage,
+    notes: '',
+    tags: [],
+    activity: [{ at: now, type: 'created', message: `Saved as ${stageLabel(stage)} (fit ${place.fit.score})` }],
+    savedAt: now,
+    updatedAt: now,
+    lastEnrichedAt: now
+  };
+
+  await getLocalDatabase().put(STORE, lead);
+  return lead;
+}
+
+/**
+ * Update stage, notes, tags or next-action date, logging each change
+ */
+export async function updateLead(placeId: string, update: LeadUpdate): Promise<Lead> {
+  const lead = await getLead(placeId);
+  if (!lead) {
+    throw new Error(`Lead not found: ${placeId}`);
+  }
+
+  if (update.stage && update.stage !== lead.stage) {
+    logActivity(lead, 'stage', `${stageLabel(lead.stage)} → ${stageLabel(update.stage)}`);
+    lead.stage = update.stage;
+  }
+
+  if (update.notes !== undefined && update.notes !== lead.notes) {
+    logActivity(lead, 'note', update.notes ? 'Notes updated' : 'Notes cleared');
+    lead.notes = update.notes;
+  }
+
+  if (update.tags) {
+    const tags = Array.from(new Set(update.tags.map(t => t.trim()).filter(Boolean)));
+    const added = tags.filter(t => !lead.tags.includes(t));
+    const removed = lead.tags.filter(t => !tags.includes(t));
+    if (added.length || removed.length) {
+      const parts = [
+        ...added.map(t => `+${t}`),
+        ...removed.map(t => `-${t}`)
+      ];
+      logActivity(lead, 'tags', `Tags ${parts.join(' ')}`);
+      lead.tags = tags;
+    }
+  }
+
+  if ('nextActionDate' in update && update.nextActionDate !== lead.nextActionDate) {
+    logActivity(
+      lead,
+      'next-action',
+      update.nextActionDate ? `Next action set for ${update.nextActionDate}` : 'Next action cleared'
+    );
+    lead.nextActionDate = update.nextActionDate || undefined;
+  }
+
+  await getLocalDatabase().put(STORE, lead);
+  return lead;
+}
+
+/**
+ * Replace the stored place snapshot after a re-enrichment
+ */
+export async function refreshLeadPlace(place: PlaceResult): Promise<Lead> {
+  const lead = await getLead(place.placeId);
+  if (!lead) {
+    throw new Error(`Lead not found: ${place.placeId}`);
+  }
+
+  const previousScore = lead.place.fit.score;
+  lead.place = place;
+  lead.lastEnrichedAt = new Date().toISOString();
+  logActivity(
+    lead,
+    'enriched',
+    previousScore === place.fit.score
+      ? `Re-enriched (fit ${place.fit.score})`
+      : `Re-enriched (fit ${previousScore} → ${place.fit.score})`
+  );
+
+  await getLocalDatabase().put(STORE, lead);
+  return lead;
+}
+
+export async function deleteLead(placeId: string): Promise<void> {
+  await getLocalDatabase().delete(STORE, placeId);
+}
@@ -0,0 +1,192 @@
+/**
+ * Local Database
+ *
+ * Persistent IndexedDB storage for user-owned data (leads, saved work).
+ * Lives next to the OwnerScoutCache DB but is never evicted or cleared
+ * with the cache.
+ */
+
+// ============ Constants ============
+
+const DB_NAME = 'OwnerScoutData';
+const DB_VERSION = 6;
+
+interface StoreSchema {
+  keyPath: string | string[];
+  indexes?: Array<{ name: string; keyPath: string | string[]; unique?: boolean }>;
+}
+
+// Add new stores here and bump DB_VERSION
+const STORES = {
+  leads: {
+    keyPath: 'placeId',
+    indexes: [
+      { name: 'stage', keyPath: 'stage' },
+      { name: 'updatedAt', keyPath: 'updatedAt' }
+    ]
+  },
+  savedSearches: {
+    keyPath: 'id',
+    indexes: [
+      { name: 'nextRunAt', keyPath: 'nextRunAt' }
+    ]
+  },
+  techSnapshots: {
+    keyPath: 'id',
+    indexes: [
+      { name: 'domain', keyPath: 'domain' }
+    ]
+  },
+  locationSightings: {
+    keyPath: 'placeId',
+    indexes: [
+      { name: 'lastSeenAt', keyPath: 'lastSeenAt' }
+    ]
+  },
+  scanCheckpoints: {
+    keyPath: 'id'
+  },
+  scanCheckpointPlaces: {
+    keyPath: ['scanId', 'placeId'],
+    indexes: [
+      { name: 'scanId', keyPath: 'scanId' }
+    ]
+  }
+} satisfies Record<string, StoreSchema>;
+
+export type StoreName = keyof typeof STORES;
+
+// ============ Database ============
+
+class LocalDatabase {
+  private db: IDBDatabase | null = null;
+  private initialized: boolean = false;
+  private initPromise: Promise<void> | null = null;
+
+  async init(): Promise<void> {
+    if (this.initialized) return;
+    if (this.initPromise) return this.initPromise;
+
+    this.initPromise = this._init();
+    await this.initPromise;
+    this.initialized = true;
+  }
+
+  private async _init(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onerror = () => {
+        reject(new Error(`Failed to open IndexedDB: ${request.error}`));
+      };
+
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+        const transaction = (event.target as IDBOpenDBRequest).transaction!;
+
+        for (const [name, schema] of Object.entries(STORES) as Array<[string, StoreSchema]>) {
+          const store = db.objectStoreNames.contains(name)
+            ? transaction.objectStore(name)
+            : db.createObjectStore(name, { keyPath: schema.keyPath });
+
+          for (const index of schema.indexes || []) {
+            if (!store.indexNames.contains(index.name)) {
+              store.createIndex(index.name, index.keyPath, { unique: index.unique ?? false });
+            }
+          }
+        }
+      };
+    });
+  }
+
+  private async request<T>(
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    await this.init();
+
+    if (!this.db) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([storeName], mode);
+      const request = run(transaction.objectStore(storeName));
+
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(new Error(`IndexedDB ${storeName} request failed: ${request.error}`));
+    });
+  }
+
+  async get<T>(storeName: StoreName, key: IDBValidKey): Promise<T | null> {
+    const value = await this.request<T | undefined>(storeName, 'readonly', store => store.get(key));
+    return value ?? null;
+  }
+
+  async getAll<T>(storeName: StoreName): Promise<T[]> {
+    return this.request<T[]>(storeName, 'readonly', store => store.getAll());
+  }
+
+  async getAllByIndex<T>(storeName: StoreName, indexName: string, query: IDBValidKey | IDBKeyRange): Promise<T[]> {
+    return this.request<T[]>(storeName, 'readonly', store => store.index(indexName).getAll(query));
+  }
+
+  async put<T>(storeName: StoreName, value: T): Promise<void> {
+    await this.request(storeName, 'readwrite', store => store.put(value));
+  }
+
+  /**
+   * Read and rewrite one record in a single readwrite transaction, so callers
+   * in other tabs cannot interleave. `apply` returns the new value, or null to
+   * leave the record as it is; resolves with what was written.
+   */
+  async update<T>(storeName: StoreName, key: IDBValidKey, apply: (current: T | null) => T | null): Promise<T | null> {
+    await this.init();
+
+    if (!this.db) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([storeName], 'readwrite');
+      const store = transaction.objectStore(storeName);
+      const read = store.get(key);
+      let written: T | null = null;
+
+      read.onsuccess = () => {
+        try {
+          written = apply((read.result as T | undefined) ?? null);
+          if (written !== null) store.put(written);
+        } catch (error) {
+          transaction.abort();
+          reject(error);
+        }
+      };
+      transaction.oncomplete = () => resolve(written);
+      transaction.onerror = () => reject(new Error(`IndexedDB ${storeName} update failed: ${transaction.error}`));
+    });
+  }
+
+  async delete(storeName: StoreName, key: IDBValidKey | IDBKeyRange): Promise<void> {
+    await this.request(storeName, 'readwrite', store => store.delete(key));
+  }
+}
+
+// ============ Singleton ============
+
+let databaseInstance: LocalDatabase | null = null;
+
+export function getLocalDatabase(): LocalDatabase {
+  if (!databaseInstance) {
+    databaseInstance = new LocalDatabase();
+  }
+  return databaseInstance;
+}
+
+export type { LocalDatabase };
@@ -0,0 +1,232 @@
+/**
+ * Location Clusters
+ * Groups scanned places that share a website domain, phone number block or
+ * normalized name, so local multi-unit operators are caught even though they
+ * are on no chain list. Scanned places are remembered for a year, so a group
+ * can be completed across searches in different territories.
+ */
+
+import type { GeoLocation, LocationGroup, LocationGroupSignal, PlaceResult } from '../types';
+import { getLocalDatabase } from './localDatabase';
+import { haversineKm } from './geometry';
+
+// ============ Types ============
+
+export type ClusterablePlace = Pick<PlaceResult, 'placeId' | 'name' | 'website' | 'phone' | 'location'>;
+
+export interface LocationSighting {
+  placeId: string;
+  name: string;
+  nameKey: string;
+  domainKey?: string;
+  phone?: string; // Digits only
+  location: GeoLocation;
+  lastSeenAt: string; // ISO timestamp
+}
+
+// ============ Constants ============
+
+const STORE = 'locationSightings';
+
+// Sightings not seen again within this long are pruned
+const SIGHTING_TTL_DAYS = 365;
+
+// Same-name places further apart than this are treated as unrelated
+const MAX_NAME_LINK_KM = 80;
+
+// Hosts that serve many restaurants under one domain; the first path segment identifies the restaurant
+const SHARED_HOSTS = [
+  'facebook.com', 'instagram.com', 'linktr.ee', 'yelp.com', 'google.com', 'business.site',
+  'toasttab.com', 'doordash.com', 'ubereats.com', 'grubhub.com', 'order.online',
+  'chownow.com', 'clover.com', 'menufy.com', 'beyondmenu.com', 'sites.google.com'
+];
+
+// "Tony's Pizza - Uptown", "Tony's Pizza (Midtown)", "Tony's Pizza #2" → "tonys pizza"
+const LOCATION_SUFFIX = /\s*(?:\(.*\)|[-–|@:].*|#\s*\d+.*|\b(?:at|on)\s+.*)$/;
+
+// ============ Keys ============
+
+export function nameKey(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(LOCATION_SUFFIX, '')
+    .replace(/&/g, ' and ')
+    .replace(/['’.]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(/^the\s+/, '')
+    .trim();
+}
+
+export function isSharedHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^www\./, '');
+  return SHARED_HOSTS.some(h => host === h || host.endsWith(`.${h}`));
+}
+
+export function domainKey(website?: string): string | undefined {
+  if (!website) return undefined;
+  try {
+    const url = new URL(/^https?:\/\//i.test(website) ? website : `https://${website}`);
+    const host = url.hostname.toLowerCase().replace(/^www\./, '');
+    if (!isSharedHost(host)) return host;
+
+    const segment = url.pathname.split('/').filter(Boolean)[0];
+    return segment ? `${host}/${segment.toLowerCase()}` : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+const phoneDigits = (phone?: string): string | undefined => {
+  const digits = (phone || '').replace(/\D/g, '').replace(/^1(?=\d{10}$)/, '');
+  return digits.length >= 10 ? digits : undefined;
+};
+
+// Area code, exchange and first two line digits: locations of one operator are often numbered in a block
+const phoneBlock = (digits: string): string => digits.slice(0, 8);
+
+const leadingWord = (key: string): string => key.split(' ').find(w => w.length >= 3) || '';
+
+export function toSighting(place: ClusterablePlace, seenAt: string = new Date().toISOString()): LocationSighting {
+  return {
+    placeId: place.placeId,
+    name: place.name,
+    nameKey: nameKey(place.name),
+    domainKey: domainKey(place.website),
+    phone: phoneDigits(place.phone),
+    location: place.location,
+    lastSeenAt: seenAt
+  };
+}
+
+// ============ Clustering ============
+
+/**
+ * Which signals (if any) say two sightings are locations of the same operator
+ */
+function linkSignals(a: LocationSighting, b: LocationSighting): LocationGroupSignal[] {
+  const signals: LocationGroupSignal[] = [];
+
+  if (a.domainKey && a.domainKey === b.domainKey) signals.push('domain');
+
+  // Different own websites mean different owners, whatever the name
+  const conflictingDomains = !!a.domainKey && !!b.domainKey && a.domainKey !== b.domainKey;
+  if (!conflictingDomains && a.nameKey && a.nameKey === b.nameKey && haversineKm(a.location, b.location) <= MAX_NAME_LINK_KM) {
+    signals.push('name');
+  }
+
+  if (a.phone && b.phone) {
+    const samePhone = a.phone === b.phone;
+    const sameBlock = phoneBlock(a.phone) === phoneBlock(b.phone) && leadingWord(a.nameKey) !== '' && leadingWord(a.nameKey) === leadingWord(b.nameKey);
+    if (samePhone || sameBlock) signals.push('phone');
+  }
+
+  return signals;
+}
+
+/**
+ * Cluster sightings (one per placeId) into multi-location groups; groups of one are dropped
+ */
+export function clusterSightings(sightings: LocationSighting[]): LocationGroup[] {
+  const parent = sightings.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const signalsByRoot = new Map<number, Set<LocationGroupSignal>>();
+  const linked: Array<[number, LocationGroupSignal[]]> = [];
+  // Own domains in each component, kept on its root
+  const domainsByRoot = sightings.map(s => new Set(s.domainKey ? [s.domainKey] : []));
+
+  // Only sightings that share a key can be linked, so compare within buckets
+  const buckets = new Map<string, number[]>();
+  sightings.forEach((s, i) => {
+    const keys = [`name:${s.nameKey}`];
+    if (s.domainKey) keys.push(`domain:${s.domainKey}`);
+    if (s.phone) keys.push(`phone:${phoneBlock(s.phone)}`);
+    for (const key of keys) buckets.set(key, [...(buckets.get(key) || []), i]);
+  });
+
+  for (const indices of buckets.values()) {
+    for (let x = 0; x < indices.length; x++) {
+      for (let y = x + 1; y < indices.length; y++) {
+        const [i, j] = [indices[x], indices[y]];
+        const signals = linkSignals(sightings[i], sightings[j]);
+        if (signals.length === 0) continue;
+
+        const [rootI, rootJ] = [find(i), find(j)];
+        if (rootI !== rootJ) {
+          // linkSignals only sees the pair: a name alone must not join two owners' websites through a third place
+          const domains = new Set([...domainsByRoot[rootI], ...domainsByRoot[rootJ]]);
+          if (signals.every(signal => signal === 'name') && domains.size > 1) continue;
+          parent[rootJ] = rootI;
+          domainsByRoot[rootI] = domains;
+        }
+        linked.push([i, signals]);
+      }
+    }
+  }
+
+  for (const [i, signals] of linked) {
+    const root = find(i);
+    const set = signalsByRoot.get(root) || new Set<LocationGroupSignal>();
+    signals.forEach(s => set.add(s));
+    signalsByRoot.set(root, set);
+  }
+
+  const members = new Map<number, string[]>();
+  sightings.forEach((sighting, i) => {
+    const ids = members.get(find(i)) || [];
+    if (!ids.includes(sighting.placeId)) ids.push(sighting.placeId);
+    members.set(find(i), ids);
+  });
+
+  const groups: LocationGroup[] = [];
+  for (const [root, placeIds] of members) {
+    if (placeIds.length < 2) continue;
+    groups.push({
+      // The union-find root depends on the order of the sightings, the lowest placeId does not
+      key: placeIds.reduce((lowest, id) => (id < lowest ? id : lowest)),
+      locationCount: placeIds.length,
+      signals: Array.from(signalsByRoot.get(root) || []),
+      placeIds
+    });
+  }
+  return groups;
+}
+
+/**
+ * Record the places as sightings and return the multi-location group of each
+ * place that belongs to one, keyed by placeId. Sightings older than the TTL are
+ * pruned. Without the local database only the given places are clustered.
+ */
+export async function findLocationGroups(places: ClusterablePlace[]): Promise<Map<string, LocationGroup>> {
+  const current = places.map(place => toSighting(place));
+  const cutoff = new Date(Date.now() - SIGHTING_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  let previous: LocationSighting[] = [];
+  try {
+    const db = getLocalDatabase();
+    const stale = await db.getAllByIndex<LocationSighting>(STORE, 'lastSeenAt', IDBKeyRange.upperBound(cutoff, true));
+    previous = await db.getAllByIndex<LocationSighting>(STORE, 'lastSeenAt', IDBKeyRange.lowerBound(cutoff));
+    await Promise.all([
+      ...stale.map(sighting => db.delete(STORE, sighting.placeId)),
+      ...current.map(sighting => db.put(STORE, sighting))
+    ]);
+  } catch (error) {
+    console.warn('Location history unavailable, clustering this scan only:', error);
+  }
+
+  const currentIds = new Set(current.map(s => s.placeId));
+  const groups = clusterSightings([...current, ...previous.filter(s => !currentIds.has(s.placeId))]);
+
+  const byPlace = new Map<string, LocationGroup>();
+  for (const group of groups) {
+    for (const placeId of group.placeIds) {
+      if (currentIds.has(placeId)) byPlace.set(placeId, group);
+    }
+  }
+
+  if (groups.length > 0) {
+    console.log(`🏘️ Found ${byPlace.size} places in ${new Set(Array.from(byPlace.values()).map(g => g.key)).size} multi-location groups`);
+  }
+  return byPlace;
+}
@@ -0,0 +1,331 @@
+/**
+ * Marketplace Presence Service
+ * Finds a restaurant's DoorDash / Uber Eats / Grubhub / Postmates listings by
+ * name and address, even when the restaurant's website never links to them
+ */
+
+import type { MarketplaceListing } from '../types';
+import { getCache, cacheKey } from './cacheService';
+import { fetchPage } from './siteCrawler';
+
+// ============ Types ============
+
+export interface PlaceQuery {
+  name: string;
+  address: string; // Google formatted address
+}
+
+export interface ListingCandidate {
+  url: string;
+  name: string;
+  addressText?: string; // Text that may contain the listing's address
+}
+
+/** Fetches a page's HTML (null on failure); the default goes through /api/proxy */
+export type HtmlFetcher = (url: string) => Promise<string | null>;
+
+/**
+ * Finds candidate listings for a place on one marketplace.
+ * Implementations only fetch through the given fetcher, so they can run against fixtures.
+ */
+export interface MarketplaceResolver {
+  marketplace: string; // Same names as TechStack.delivery
+  findCandidates(place: PlaceQuery, fetchHtml: HtmlFetcher): Promise<ListingCandidate[]>;
+}
+
+export interface LookupOptions {
+  resolvers?: MarketplaceResolver[];
+  fetchHtml?: HtmlFetcher;
+  forceRefresh?: boolean;
+  signal?: AbortSignal; // Aborts the lookup; nothing is cached then
+}
+
+// ============ Matching ============
+
+const NAME_STOP_WORDS = new Set(['the', 'and', 'restaurant', 'cafe', 'bar', 'grill', 'kitchen', 'co']);
+
+// A listing is a match when the name is close and the address agrees
+const MIN_NAME_SIMILARITY = 0.6;
+const MIN_ADDRESS_SIMILARITY = 0.4;
+// Without any address text only near-identical names count
+const MIN_NAME_SIMILARITY_WITHOUT_ADDRESS = 0.85;
+
+const normalizeText = (text: string): string =>
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const bigrams = (text: string): string[] => {
+  const compact = text.replace(/\s+/g, '');
+  return Array.from({ length: Math.max(0, compact.length - 1) }, (_, i) => compact.slice(i, i + 2));
+};
+
+/**
+ * Name similarity (0-1): Dice coefficient over character bigrams, ignoring
+ * generic words like "restaurant" or "grill"
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const significant = (text: string) => normalizeText(text).split(' ').filter(w => !NAME_STOP_WORDS.has(w)).join(' ');
+  const aGrams = bigrams(significant(a));
+  const bGrams = bigrams(significant(b));
+  if (aGrams.length === 0 || bGrams.length === 0) return 0;
+
+  const remaining = [...bGrams];
+  let shared = 0;
+  for (const gram of aGrams) {
+    const index = remaining.indexOf(gram);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (aGrams.length + bGrams.length);
+}
+
+const STREET_SUFFIXES = new Set(['st', 'street', 'ave', 'avenue', 'rd', 'road', 'blvd', 'boulevard', 'dr', 'drive', 'ln', 'lane', 'way', 'ct', 'pl', 'hwy', 'n', 's', 'e', 'w']);
+
+/**
+ * Address similarity (0-1): how much of the place's street number, street
+ * name, city and ZIP appear in the listing's text
+ */
+export function addressSimilarity(placeAddress: string, listingText: string): number {
+  const [street = '', city = '', stateZip = ''] = placeAddress.split(',').map(part => normalizeText(part));
+  const text = ` ${normalizeText(listingText)} `;
+  const contains = (token: string) => text.includes(` ${token} `);
+
+  const streetTokens = street.split(' ').filter(Boolean);
+  const number = /^\d+[a-z]?$/.test(streetTokens[0] || '') ? streetTokens.shift()! : undefined;
+  const streetName = streetTokens.filter(t => !STREET_SUFFIXES.has(t));
+  const zip = stateZip.match(/\b\d{5}\b/)?.[0];
+
+  const parts: Array<{ weight: number; score: number }> = [];
+  if (number) parts.push({ weight: 0.4, score: contains(number) ? 1 : 0 });
+  if (streetName.length) parts.push({ weight: 0.3, score: streetName.filter(contains).length / streetName.length });
+  if (city) parts.push({ weight: 0.15, score: contains(city) ? 1 : 0 });
+  if (zip) parts.push({ weight: 0.15, score: contains(zip) ? 1 : 0 });
+
+  const totalWeight = parts.reduce((acc, p) => acc + p.weight, 0);
+  return totalWeight === 0 ? 0 : parts.reduce((acc, p) => acc + p.weight * p.score, 0) / totalWeight;
+}
+
+/**
+ * Score a candidate against the place (0-100), or null when it is not a match
+ */
+export function scoreCandidate(place: PlaceQuery, candidate: ListingCandidate): number | null {
+  const name = nameSimilarity(place.name, candidate.name);
+  if (name < MIN_NAME_SIMILARITY) return null;
+
+  const address = candidate.addressText ? addressSimilarity(place.address, candidate.addressText) : undefined;
+  if (address === undefined) {
+    return name >= MIN_NAME_SIMILARITY_WITHOUT_ADDRESS ? Math.round(name * 100) : null;
+  }
+  if (address < MIN_ADDRESS_SIMILARITY) return null;
+
+  return Math.round((name * 0.6 + address * 0.4) * 100);
+}
+
+// Search engines block bursts: live searches go out one at a time, this far apart
+const SEARCH_INTERVAL_MS = 1500;
+
+// ============ Resolvers ============
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&#x27;|&#39;/g, "'")
+    .replace(/&quot;/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Results from a DuckDuckGo HTML search page (links are wrapped in /l/?uddg= redirects)
+ */
+export function parseSearchResults(html: string): Array<{ url: string; title: string; snippet: string }> {
+  const results: Array<{ url: string; title: string; snippet: string }> = [];
+  const resultRegex = /<a[^>]*class="result__a"[^>]*href="([^"]+)"[^>]*>([\s\S]*?)<\/a>([\s\S]*?)(?=<a[^>]*class="result__a"|$)/gi;
+
+  for (const match of html.matchAll(resultRegex)) {
+    let url = match[1].replace(/&amp;/g, '&');
+    const wrapped = /[?&]uddg=([^&]+)/.exec(url);
+    if (wrapped) url = decodeURIComponent(wrapped[1]);
+    if (url.startsWith('//')) url = `https:${url}`;
+
+    const snippet = /class="result__snippet"[^>]*>([\s\S]*?)<\/a>/i.exec(match[3]);
+    results.push({ url, title: decodeEntities(match[2]), snippet: snippet ? decodeEntities(snippet[1]) : '' });
+  }
+
+  return results;
+}
+
+/**
+ * Whether the HTML is a DuckDuckGo results page, with or without results.
+ * Rate-limit and anomaly pages have no results container.
+ */
+export function isSearchResultsPage(html: string): boolean {
+  return /<div[^>]*\bid="links"/i.test(html) || /class="[^"]*\bno-results\b/i.test(html);
+}
+
+// "Order Tony's Pizza Delivery Menu | DoorDash" → "Tony's Pizza"
+const cleanListingTitle = (title: string, suffix: RegExp): string =>
+  title
+    .replace(suffix, '')
+    .replace(/^order\s+(from\s+)?/i, '')
+    .replace(/(\s+(delivery|takeout|pickup|menu|online|near me))+$/i, '')
+    .trim();
+
+interface SiteSearchConfig {
+  marketplace: string;
+  domain: string;
+  listingPath: RegExp; // Store page URLs, e.g. /store/<slug>
+  titleSuffix: RegExp; // Marketplace boilerplate in result titles
+}
+
+/**
+ * Resolver that searches the marketplace's store pages by restaurant name and city
+ */
+export function createSiteSearchResolver({ marketplace, domain, listingPath, titleSuffix }: SiteSearchConfig): MarketplaceResolver {
+  return {
+    marketplace,
+    async findCandidates(place, fetchHtml) {
+      const city = place.address.split(',')[1]?.trim() || '';
+      const query = `site:${domain} "${place.name}" ${city}`.trim();
+      const html = await fetchHtml(`https://html.duckduckgo.com/html/?q=${encodeURIComponent(query)}`);
+      if (!html) throw new Error('Search page unavailable');
+      if (!isSearchResultsPage(html)) throw new Error('Search page has no results container (rate limited?)');
+
+      return parseSearchResults(html)
+        .filter(result => {
+          try {
+            const url = new URL(result.url);
+            return (url.hostname === domain || url.hostname.endsWith(`.${domain}`)) && listingPath.test(url.pathname);
+          } catch {
+            return false;
+          }
+        })
+        .map(result => ({
+          url: result.url,
+          name: cleanListingTitle(result.title, titleSuffix),
+          addressText: result.snippet || undefined
+        }));
+    }
+  };
+}
+
+export const DEFAULT_RESOLVERS: MarketplaceResolver[] = [
+  createSiteSearchResolver({
+    marketplace: 'DoorDash',
+    domain: 'doordash.com',
+    listingPath: /^\/store\/[^/]+/,
+    titleSuffix: /\s*(?:[-|–].*)?(?:DoorDash.*)$/i
+  }),
+  createSiteSearchResolver({
+    marketplace: 'UberEats',
+    domain: 'ubereats.com',
+    listingPath: /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?store\/[^/]+/,
+    titleSuffix: /\s*(?:[-|–].*)?(?:Uber\s?Eats.*)$/i
+  }),
+  createSiteSearchResolver({
+    marketplace: 'Grubhub',
+    domain: 'grubhub.com',
+    listingPath: /^\/restaurant\/[^/]+/,
+    titleSuffix: /\s*(?:[-|–].*)?(?:Grubhub.*)$/i
+  }),
+  createSiteSearchResolver({
+    marketplace: 'Postmates',
+    domain: 'postmates.com',
+    listingPath: /^\/store\/[^/]+/,
+    titleSuffix: /\s*(?:[-|–].*)?(?:Postmates.*)$/i
+  })
+];
+
+// ============ Lookup ============
+
+let nextSearchAt = 0;
+
+/**
+ * fetchPage, spaced SEARCH_INTERVAL_MS apart across all lookups
+ */
+function throttledFetcher(signal?: AbortSignal): HtmlFetcher {
+  return async url => {
+    const now = Date.now();
+    const wait = Math.max(0, nextSearchAt - now);
+    nextSearchAt = Math.max(now, nextSearchAt) + SEARCH_INTERVAL_MS;
+
+    if (wait > 0) {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, wait);
+        signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(signal.reason);
+        }, { once: true });
+      });
+    }
+    return fetchPage(url, undefined, signal);
+  };
+}
+
+/**
+ * Best matching listing per marketplace, highest match score first
+ */
+export async function lookupMarketplacePresence(place: PlaceQuery, options: LookupOptions = {}): Promise<MarketplaceListing[]> {
+  const { resolvers = DEFAULT_RESOLVERS, forceRefresh = false, signal } = options;
+  const fetchHtml = options.fetchHtml || throttledFetcher(signal);
+
+  const cache = getCache();
+  const key = cacheKey('marketplaces', place.name, place.address, resolvers.map(r => r.marketplace).join('+'));
+  const cached = forceRefresh ? null : await cache.get<MarketplaceListing[]>(key);
+  if (cached) {
+    console.log(`✅ Cache hit for marketplace presence: ${place.name}`);
+    return cached;
+  }
+
+  let failures = 0;
+  const results = await Promise.all(resolvers.map(async resolver => {
+    try {
+      const candidates = await resolver.findCandidates(place, fetchHtml);
+      const scored = candidates
+        .map(candidate => ({ candidate, score: scoreCandidate(place, candidate) }))
+        .filter((s): s is { candidate: ListingCandidate; score: number } => s.score !== null)
+        .sort((a, b) => b.score - a.score);
+
+      if (scored.length === 0) return null;
+      const { candidate, score } = scored[0];
+      const listing: MarketplaceListing = {
+        marketplace: resolver.marketplace,
+        url: candidate.url,
+        name: candidate.name,
+        matchScore: score
+      };
+      return listing;
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      failures++;
+      console.warn(`Marketplace lookup failed on ${resolver.marketplace} for ${place.name}:`, error);
+      return null;
+    }
+  }));
+
+  const listings = results
+    .filter((l): l is MarketplaceListing => l !== null)
+    .sort((a, b) => b.matchScore - a.matchScore);
+
+  if (listings.length > 0) {
+    console.log(`🛵 ${place.name} listed on ${listings.map(l => l.marketplace).join(', ')}`);
+  }
+
+  // Retry soon when a marketplace could not be searched
+  if (failures > 0) {
+    await cache.set(key, listings, 1 * 60 * 60); // 1 hour
+    return listings;
+  }
+
+  // Listings change slowly; cache for a week
+  await cache.set(key, listings, 7 * 24 * 60 * 60);
+  return listings;
+}
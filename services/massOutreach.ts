@@ -3,7 +3,7 @@
  * Generate packages for multiple restaurants at once
  */
 
-import type { PlaceResult } from '../types';
+import type { ContactPoint, PlaceResult } from '../types';
 import { generateBatchPipelines, SonicBrandOutput } from './sonicBrandPipeline';
 
 export interface MassOutreachConfig {
@@ -27,11 +27,14 @@ export interface MassOutreachResult {
 
 export interface EmailOutreachPackage {
   restaurantName: string;
-  email: string;
+  email: string; // Empty when no address was found on the website
+  emailConfidence?: number; // 0-100
+  emailSource?: string; // Page the address was found on
   subject: string;
   body: string;
   audioPreviewUrl: string;
   status: 'ready' | 'sent' | 'failed';
+  error?: string; // Why the package could not be generated
 }
 
 /**
@@ -52,19 +55,30 @@ export async function massOutreachSonicBrands(
 
   console.log(`🎵 Generating SonicBrand packages for ${targetRestaurants.length} restaurants...`);
 
-  // Generate pipelines for all restaurants
-  const pipelines = await generateBatchPipelines(targetRestaurants);
+  // Generate pipelines for all restaurants; failed ones come back with their error
+  const results = await generateBatchPipelines(targetRestaurants);
+  const pipelines = results.flatMap(r => r.pipeline ? [r.pipeline] : []);
+
+  // Create email packages for each, marking the restaurants whose package failed
+  const emails: EmailOutreachPackage[] = results.map(({ restaurant, pipeline, error }) => {
+    const contact = findOutreachEmail(restaurant);
+    const base = {
+      restaurantName: restaurant.name,
+      email: contact?.value ?? '',
+      emailConfidence: contact?.confidence,
+      emailSource: contact?.sourceUrl
+    };
 
-  // Create email packages for each
-  const emails: EmailOutreachPackage[] = pipelines.map(pipeline => {
-    const email = createEmailOutreach(pipeline, config.includeOwnerCTA);
+    if (!pipeline) {
+      return { ...base, subject: '', body: '', audioPreviewUrl: '', status: 'failed', error };
+    }
 
+    const email = createEmailOutreach(pipeline, config.includeOwnerCTA);
     return {
-      restaurantName: pipeline.restaurant.name,
-      email: '', // Would need to be scraped/looked up
+      ...base,
       subject: email.subject,
       body: email.body,
-      audioPreviewUrl: pipeline.audio.jingleUrl,
+      audioPreviewUrl: pipeline.outreach.audioPreviewUrl,
       status: 'ready'
     };
   });
@@ -76,15 +90,23 @@ export async function massOutreachSonicBrands(
   };
 
   return {
-    totalProcessed: pipelines.length,
+    totalProcessed: results.length,
     successful: pipelines.length,
-    failed: 0,
+    failed: results.length - pipelines.length,
     pipelines,
     emails,
     summary
   };
 }
 
+/**
+ * The restaurant's best email contact, as found by contact discovery
+ */
+function findOutreachEmail(restaurant: PlaceResult): ContactPoint | undefined {
+  const contacts = restaurant.contacts;
+  return contacts?.contacts.find(c => c.type === 'email' && c.value === contacts.primaryEmail);
+}
+
 /**
  * Create email outreach package
  */
@@ -123,15 +145,18 @@ Want to see if you'd benefit? Just reply and let me know!
  * Export emails as CSV for bulk email tools
  */
 export function exportEmailsAsCSV(emails: EmailOutreachPackage[]): string {
-  const headers = ['Restaurant', 'Email', 'Subject', 'Body', 'Audio URL', 'Status'];
+  const headers = ['Restaurant', 'Email', 'Email Confidence', 'Email Source', 'Subject', 'Body', 'Audio URL', 'Status', 'Error'];
 
   const rows = emails.map(e => [
     e.restaurantName,
     e.email,
+    e.emailConfidence ?? '',
+    e.emailSource ?? '',
     e.subject,
     e.body.replace(/\n/g, '\\n'),
     e.audioPreviewUrl,
-    e.status
+    e.status,
+    e.error ?? ''
   ]);
 
   const csv = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
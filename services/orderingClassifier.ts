@@ -0,0 +1,239 @@
+/**
+ * Ordering Classifier
+ * Resolves where a restaurant's "Order" links and buttons actually land:
+ * its own domain, a white-label vendor subdomain, or a marketplace
+ */
+
+import type { OrderingClassification, OrderingDestination, OrderingLink, OrderingVerdict } from '../types';
+import type { CrawledPage } from './siteCrawler';
+import { normalizeUrl } from './siteCrawler';
+
+interface OrderingHost {
+  domain: string; // Matches the host and its subdomains
+  path?: string; // Optional path prefix
+  vendor: string;
+  destination: 'white-label' | 'marketplace';
+  widget?: boolean; // A <script src> from this host embeds an ordering widget
+}
+
+// More specific entries first: the first match wins
+const ORDERING_HOSTS: OrderingHost[] = [
+  { domain: 'grubhub.com', path: '/direct', vendor: 'Grubhub Direct', destination: 'white-label', widget: true },
+  { domain: 'chownow.com', vendor: 'ChowNow', destination: 'white-label', widget: true },
+  { domain: 'toasttab.com', vendor: 'Toast', destination: 'white-label' },
+  { domain: 'olo.com', vendor: 'Olo', destination: 'white-label' },
+  { domain: 'square.site', vendor: 'Square Online', destination: 'white-label' },
+  { domain: 'squareup.com', vendor: 'Square Online', destination: 'white-label' },
+  { domain: 'getbento.com', vendor: 'BentoBox', destination: 'white-label' },
+  { domain: 'bentoboxapp.com', vendor: 'BentoBox', destination: 'white-label' },
+  { domain: 'popmenu.com', vendor: 'Popmenu', destination: 'white-label' },
+  { domain: 'spothopperapp.com', vendor: 'SpotHopper', destination: 'white-label' },
+  { domain: 'owner.com', vendor: 'Owner.com', destination: 'white-label' },
+  { domain: 'tryowner.com', vendor: 'Owner.com', destination: 'white-label' },
+  { domain: 'clover.com', vendor: 'Clover', destination: 'white-label' },
+  { domain: 'menufy.com', vendor: 'Menufy', destination: 'white-label' },
+  { domain: 'beyondmenu.com', vendor: 'BeyondMenu', destination: 'white-label' },
+  { domain: 'gloriafood.com', vendor: 'GloriaFood', destination: 'white-label' },
+  { domain: 'order.online', vendor: 'DoorDash Storefront', destination: 'white-label' },
+  { domain: 'doordash.com', vendor: 'DoorDash', destination: 'marketplace' },
+  { domain: 'ubereats.com', vendor: 'UberEats', destination: 'marketplace' },
+  { domain: 'grubhub.com', vendor: 'Grubhub', destination: 'marketplace' },
+  { domain: 'seamless.com', vendor: 'Seamless', destination: 'marketplace' },
+  { domain: 'postmates.com', vendor: 'Postmates', destination: 'marketplace' },
+  { domain: 'trycaviar.com', vendor: 'Caviar', destination: 'marketplace' },
+  { domain: 'slicelife.com', vendor: 'Slice', destination: 'marketplace' },
+  { domain: 'ezcater.com', vendor: 'ezCater', destination: 'marketplace' }
+];
+
+// Vendor hosts that are not ordering (e.g. Toast's reservation product)
+const NON_ORDERING_HOSTS = ['tables.toasttab.com'];
+
+const ORDERING_KEYWORDS = /\b(order(ing)?|pick[\s-]?up|take[\s-]?out|carry[\s-]?out|to[\s-]go|deliver(y)?)\b/i;
+
+// Own-domain links that mention ordering but do not sell meals online ("Order gift cards", "Catering orders")
+const NON_MEAL_KEYWORDS = /\b(gift[\s-]?cards?|catering|merch(andise)?)\b/i;
+
+const MAX_LABEL_LENGTH = 60;
+
+const matchesDomain = (host: string, domain: string): boolean => host === domain || host.endsWith('.' + domain);
+
+const baseHost = (host: string): string => host.toLowerCase().replace(/^www\./, '');
+
+const canonical = (url: URL): string => `${url.origin}${url.pathname.replace(/\/+$/, '') || '/'}`;
+
+const cleanLabel = (html: string): string => {
+  const text = html.replace(/<[^>]+>/g, ' ').replace(/&amp;/g, '&').replace(/\s+/g, ' ').trim();
+  return text.length > MAX_LABEL_LENGTH ? `${text.slice(0, MAX_LABEL_LENGTH - 1)}…` : text;
+};
+
+function findOrderingHost(url: URL): OrderingHost | undefined {
+  const host = url.hostname.toLowerCase();
+  if (NON_ORDERING_HOSTS.some(d => matchesDomain(host, d))) return undefined;
+  return ORDERING_HOSTS.find(h =>
+    matchesDomain(host, h.domain) && (!h.path || url.pathname.toLowerCase().startsWith(h.path))
+  );
+}
+
+interface Candidate {
+  url: URL;
+  label: string;
+  kind: 'link' | 'button' | 'iframe' | 'script';
+}
+
+/**
+ * Link, button, iframe and widget-script targets on a page, resolved against the page URL
+ */
+function extractCandidates(html: string, pageUrl: string): Candidate[] {
+  const candidates: Candidate[] = [];
+  const add = (href: string, label: string, kind: Candidate['kind']) => {
+    const trimmed = href.trim();
+    if (!trimmed || trimmed.startsWith('#') || /^(mailto|tel|javascript):/i.test(trimmed)) return;
+    try {
+      candidates.push({ url: new URL(trimmed.replace(/&amp;/g, '&'), pageUrl), label: cleanLabel(label), kind });
+    } catch {
+      // Not a URL
+    }
+  };
+
+  const anchorRegex = /<a\s[^>]*href\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi;
+  for (const match of html.matchAll(anchorRegex)) add(match[1], match[2], 'link');
+
+  // Buttons navigate through onclick handlers or data attributes
+  const buttonRegex = /<button\b([^>]*)>([\s\S]*?)<\/button>/gi;
+  const targetRegex = /(?:data-(?:href|url)|formaction)\s*=\s*["']([^"']+)["']|(?:location(?:\.href)?\s*=|window\.open\()\s*\\?["']([^"'\\]+)/i;
+  for (const match of html.matchAll(buttonRegex)) {
+    const target = targetRegex.exec(match[1]);
+    if (target) add(target[1] || target[2], match[2], 'button');
+  }
+
+  const iframeRegex = /<iframe\b[^>]*src\s*=\s*["']([^"']+)["'][^>]*>/gi;
+  for (const match of html.matchAll(iframeRegex)) add(match[1], 'Embedded ordering', 'iframe');
+
+  const scriptRegex = /<script\b[^>]*src\s*=\s*["']([^"']+)["'][^>]*>/gi;
+  for (const match of html.matchAll(scriptRegex)) add(match[1], 'Ordering widget', 'script');
+
+  return candidates;
+}
+
+/**
+ * Keep the candidates that are ordering targets and say where each one lands
+ */
+function classifyCandidates(candidates: Candidate[], pageUrl: string, siteHost: string): OrderingLink[] {
+  const links: OrderingLink[] = [];
+
+  for (const { url, label, kind } of candidates) {
+    if (!/^https?:$/.test(url.protocol)) continue;
+
+    const vendorHost = findOrderingHost(url);
+    const host = baseHost(url.hostname);
+    const ownDomain = matchesDomain(host, siteHost) || matchesDomain(siteHost, host);
+    const mentionsOrdering = ORDERING_KEYWORDS.test(label) || ORDERING_KEYWORDS.test(url.pathname.replace(/[/_]/g, ' '));
+
+    let destination: OrderingDestination;
+    if (vendorHost) {
+      // Scripts only count for hosts that serve ordering widgets
+      if (kind === 'script' && !vendorHost.widget) continue;
+      // Site builders link home ("Powered by Popmenu"), so plain links need ordering wording
+      if (vendorHost.destination === 'white-label' && kind === 'link' && !mentionsOrdering) continue;
+      destination = vendorHost.destination;
+    } else if (kind === 'iframe' || kind === 'script' || !mentionsOrdering) {
+      continue;
+    } else if (ownDomain && (NON_MEAL_KEYWORDS.test(label) || NON_MEAL_KEYWORDS.test(url.pathname.replace(/[/_-]/g, ' ')))) {
+      continue;
+    } else {
+      destination = ownDomain ? 'own-domain' : 'external';
+    }
+
+    links.push({ url: url.toString(), label, page: pageUrl, destination, vendor: vendorHost?.vendor });
+  }
+
+  return links;
+}
+
+const dedupe = (links: OrderingLink[]): OrderingLink[] => {
+  const seen = new Set<string>();
+  return links.filter(link => {
+    const key = `${link.destination}|${link.url}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+function decideVerdict(links: OrderingLink[]): OrderingVerdict {
+  const has = (...destinations: OrderingDestination[]) =>
+    links.some(l => destinations.includes(l.destination) && !l.unverified);
+  if (has('own-domain')) return 'first-party';
+  // Unknown external ordering sites are almost always a vendor's hosted storefront
+  if (has('white-label', 'external')) return 'white-label';
+  if (has('marketplace')) return 'marketplace-only';
+  // Uncrawled "/delivery" or "Order" pages may be info pages, so they only count without other evidence
+  if (links.some(l => l.unverified)) return 'first-party';
+  return 'none';
+}
+
+/**
+ * Classify a site's online ordering from its crawled pages.
+ *
+ * Own-domain "Order" links that point at a crawled page are resolved through
+ * it: an /order page that only embeds ChowNow is white-label, one that only
+ * links to DoorDash is marketplace-only. Links to pages that were not crawled
+ * are marked unverified and rank below any vendor or marketplace link.
+ */
+export function classifyOrdering(pages: CrawledPage[], website: string): OrderingClassification {
+  let siteHost: string;
+  try {
+    siteHost = baseHost(new URL(normalizeUrl(website)).hostname);
+  } catch {
+    return { verdict: 'none', links: [] };
+  }
+
+  const linksByPage = new Map<string, OrderingLink[]>();
+  for (const page of pages) {
+    const links = classifyCandidates(extractCandidates(page.html, page.url), page.url, siteHost);
+    linksByPage.set(canonical(new URL(page.url)), links);
+  }
+
+  const resolved: OrderingLink[] = [];
+  for (const links of linksByPage.values()) {
+    for (const link of links) {
+      if (link.destination !== 'own-domain') {
+        resolved.push(link);
+        continue;
+      }
+
+      const target = canonical(new URL(link.url));
+      const samePage = target === canonical(new URL(link.page));
+      const targetLinks = samePage ? undefined : linksByPage.get(target);
+      const offsite = (targetLinks || []).filter(l => l.destination !== 'own-domain');
+
+      // The ordering page hands off to a vendor, so the vendor is the real destination
+      if (offsite.length > 0) {
+        resolved.push(...offsite.map(l => ({ ...l, via: link.url })));
+      } else {
+        resolved.push(samePage || targetLinks ? link : { ...link, unverified: true });
+      }
+    }
+  }
+
+  // An own-domain ordering page that hands off is not itself a first-party destination
+  const handedOff = new Set(resolved.filter(l => l.via).map(l => canonical(new URL(l.page))));
+  const links = dedupe(resolved.filter(l =>
+    l.destination !== 'own-domain' || !handedOff.has(canonical(new URL(l.url)))
+  ));
+
+  return { verdict: decideVerdict(links), links };
+}
+
+/**
+ * Restaurants with first-party or white-label ordering take orders directly
+ */
+export const hasDirectOrdering = (classification: OrderingClassification): boolean =>
+  classification.verdict === 'first-party' || classification.verdict === 'white-label';
+
+export const ORDERING_VERDICT_LABELS: Record<OrderingVerdict, string> = {
+  'first-party': '1P Ordering',
+  'white-label': 'White-label Ordering',
+  'marketplace-only': 'Marketplace Only',
+  none: 'No Online Ordering'
+};
@@ -0,0 +1,264 @@
+/**
+ * Detection Pattern Packs
+ *
+ * The vendor signature catalogue used by techDetector, loaded from versioned
+ * JSON packs. Built-in packs ship in data/patternPacks; custom packs (and
+ * edited copies of built-ins) are stored in localStorage.
+ */
+
+import type { TechCategory } from '../types';
+import { TECH_CATEGORIES } from './techHistory';
+import { hashObject } from './cacheService';
+import corePack from '../data/patternPacks/core.json';
+import restaurantVendorsPack from '../data/patternPacks/restaurant-vendors.json';
+
+// ============ Types ============
+
+export interface PatternMatchers {
+  domain?: string[]; // Substrings of the page URL
+  scriptSrc?: string[]; // Substrings, strongest inside <script src>
+  htmlContent?: string[]; // Case-insensitive substrings of the HTML
+  metaTags?: string[]; // Regex fragments inside a <meta> tag
+  linkTags?: string[]; // Substrings inside a <link> tag
+  regex?: string[]; // Case-insensitive regular expressions over the HTML
+}
+
+export interface DetectionPattern {
+  name: string;
+  category: TechCategory;
+  match: PatternMatchers;
+  implies?: string[]; // Vendor refs ("pos:Toast") added whenever this vendor is detected
+  excludes?: string[]; // Vendor refs removed whenever this vendor is detected
+}
+
+export interface PatternPack {
+  id: string;
+  name: string;
+  version: number;
+  description?: string;
+  patterns: DetectionPattern[];
+  builtIn?: boolean;
+}
+
+// ============ Constants ============
+
+const PACKS_STORAGE_KEY = 'ownerscout:pattern-packs';
+const DISABLED_STORAGE_KEY = 'ownerscout:disabled-pattern-packs';
+
+const MATCHER_KEYS: (keyof PatternMatchers)[] = ['domain', 'scriptSrc', 'htmlContent', 'metaTags', 'linkTags', 'regex'];
+const CATEGORY_IDS = TECH_CATEGORIES.map(c => c.id);
+
+export const vendorRef = (category: TechCategory, name: string): string => `${category}:${name}`;
+
+// ============ Validation ============
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string' && v.length > 0);
+
+function validateVendorRefs(refs: unknown, label: string, errors: string[]): void {
+  if (refs === undefined) return;
+  if (!isStringArray(refs)) {
+    errors.push(`${label} must be an array of "category:Vendor" strings`);
+    return;
+  }
+  for (const ref of refs) {
+    const [category, ...name] = ref.split(':');
+    if (!CATEGORY_IDS.includes(category as TechCategory) || name.join(':').length === 0) {
+      errors.push(`${label} has invalid vendor ref "${ref}" (expected "category:Vendor")`);
+    }
+  }
+}
+
+/**
+ * Validate a pattern pack, returning a list of human-readable errors (empty when valid)
+ */
+export function validatePatternPack(pack: unknown): string[] {
+  const errors: string[] = [];
+  const p = pack as Partial<PatternPack>;
+
+  if (!p || typeof p !== 'object') return ['Pattern pack must be an object'];
+  if (typeof p.id !== 'string' || !/^[a-z0-9-]+$/.test(p.id)) errors.push('id must be lowercase letters, digits or dashes');
+  if (typeof p.name !== 'string' || !p.name.trim()) errors.push('name is required');
+  if (!Number.isInteger(p.version) || p.version! < 1) errors.push('version must be a positive integer');
+  if (!Array.isArray(p.patterns)) return [...errors, 'patterns must be an array'];
+
+  const seen = new Set<string>();
+  p.patterns.forEach((pattern, i) => {
+    const label = `patterns[${i}]${pattern?.name ? ` (${pattern.name})` : ''}`;
+
+    if (typeof pattern?.name !== 'string' || !pattern.name.trim()) errors.push(`${label}.name is required`);
+    if (!CATEGORY_IDS.includes(pattern?.category)) {
+      errors.push(`${label}.category must be one of ${CATEGORY_IDS.join(', ')}`);
+    }
+
+    const ref = vendorRef(pattern?.category, pattern?.name);
+    if (seen.has(ref)) errors.push(`${label} duplicates ${ref}`);
+    seen.add(ref);
+
+    const match = pattern?.match;
+    if (!match || typeof match !== 'object') {
+      errors.push(`${label}.match is required`);
+    } else {
+      const keys = Object.keys(match);
+      keys.filter(k => !MATCHER_KEYS.includes(k as keyof PatternMatchers))
+        .forEach(k => errors.push(`${label}.match.${k} is not a matcher (use ${MATCHER_KEYS.join(', ')})`));
+      keys.filter(k => MATCHER_KEYS.includes(k as keyof PatternMatchers) && !isStringArray(match[k as keyof PatternMatchers]))
+        .forEach(k => errors.push(`${label}.match.${k} must be an array of non-empty strings`));
+      if (keys.length === 0) errors.push(`${label}.match needs at least one matcher`);
+
+      for (const source of [...(match.regex || []), ...(match.metaTags || [])]) {
+        try {
+          new RegExp(source, 'i');
+        } catch {
+          errors.push(`${label} has an invalid regular expression: ${source}`);
+        }
+      }
+    }
+
+    validateVendorRefs(pattern?.implies, `${label}.implies`, errors);
+    validateVendorRefs(pattern?.excludes, `${label}.excludes`, errors);
+  });
+
+  return errors;
+}
+
+/**
+ * Parse and validate a pattern pack from JSON (throws with all errors)
+ */
+export function parsePatternPack(json: string): PatternPack {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    throw new Error(`Invalid JSON: ${(e as Error).message}`);
+  }
+
+  const errors = validatePatternPack(parsed);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+
+  const { builtIn, ...pack } = parsed as PatternPack;
+  return pack;
+}
+
+// ============ Built-in packs ============
+
+const loadBuiltInPack = (json: unknown): PatternPack => {
+  const errors = validatePatternPack(json);
+  if (errors.length > 0) {
+    // Shipped packs are part of the build, so a broken one is a bug
+    throw new Error(`Invalid built-in pattern pack: ${errors.join('; ')}`);
+  }
+  return { ...(json as PatternPack), builtIn: true };
+};
+
+const BUILT_IN_PACKS: PatternPack[] = [corePack, restaurantVendorsPack].map(loadBuiltInPack);
+
+// ============ Storage ============
+
+const hasStorage = (): boolean => typeof localStorage !== 'undefined';
+
+function loadStoredPacks(): PatternPack[] {
+  if (!hasStorage()) return [];
+  try {
+    const raw = localStorage.getItem(PACKS_STORAGE_KEY);
+    const stored: unknown[] = raw ? JSON.parse(raw) : [];
+    return stored.filter((pack): pack is PatternPack => {
+      const errors = validatePatternPack(pack);
+      if (errors.length > 0) {
+        console.warn(`Skipping invalid pattern pack: ${errors.join('; ')}`);
+        return false;
+      }
+      return true;
+    });
+  } catch (error) {
+    console.warn('Failed to load pattern packs:', error);
+    return [];
+  }
+}
+
+function saveStoredPacks(packs: PatternPack[]): void {
+  if (!hasStorage()) return;
+  localStorage.setItem(PACKS_STORAGE_KEY, JSON.stringify(packs));
+}
+
+function loadDisabledIds(): string[] {
+  if (!hasStorage()) return [];
+  try {
+    return JSON.parse(localStorage.getItem(DISABLED_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+// ============ Public API ============
+
+export const isBuiltInPatternPack = (id: string): boolean => BUILT_IN_PACKS.some(p => p.id === id);
+
+/**
+ * All packs: built-ins (replaced by a stored copy when edited) followed by custom packs
+ */
+export function getPatternPacks(): PatternPack[] {
+  const stored = loadStoredPacks();
+  const builtIns = BUILT_IN_PACKS.map(pack => {
+    const override = stored.find(s => s.id === pack.id);
+    return override ? { ...override, builtIn: true } : pack;
+  });
+  return [...builtIns, ...stored.filter(s => !isBuiltInPatternPack(s.id))];
+}
+
+export function isPatternPackEnabled(id: string): boolean {
+  return !loadDisabledIds().includes(id);
+}
+
+export function setPatternPackEnabled(id: string, enabled: boolean): void {
+  if (!hasStorage()) return;
+  const disabled = loadDisabledIds().filter(d => d !== id);
+  localStorage.setItem(DISABLED_STORAGE_KEY, JSON.stringify(enabled ? disabled : [...disabled, id]));
+}
+
+export function savePatternPack(pack: PatternPack): void {
+  const errors = validatePatternPack(pack);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+  const { builtIn, ...rest } = pack;
+  saveStoredPacks([...loadStoredPacks().filter(p => p.id !== pack.id), rest]);
+}
+
+/**
+ * Delete a custom pack, or reset an edited built-in pack to the shipped version
+ */
+export function deletePatternPack(id: string): void {
+  saveStoredPacks(loadStoredPacks().filter(p => p.id !== id));
+  if (!isBuiltInPatternPack(id)) {
+    setPatternPackEnabled(id, true);
+  }
+}
+
+/**
+ * Patterns from every enabled pack. A later pack's definition of the same
+ * category + vendor replaces an earlier one.
+ */
+export function getActivePatterns(): DetectionPattern[] {
+  const byRef = new Map<string, DetectionPattern>();
+  for (const pack of getPatternPacks().filter(p => isPatternPackEnabled(p.id))) {
+    for (const pattern of pack.patterns) {
+      byRef.set(vendorRef(pattern.category, pattern.name), pattern);
+    }
+  }
+  return Array.from(byRef.values());
+}
+
+/**
+ * Identifies the active catalogue by a hash of the enabled packs' content,
+ * so cached detections are redone after any pattern edit, bumped version or not
+ */
+export function getPatternCatalogVersion(): string {
+  return hashObject(
+    getPatternPacks()
+      .filter(p => isPatternPackEnabled(p.id))
+      .map(p => [p.id, p.version, p.patterns])
+  );
+}
@@ -7,13 +7,38 @@ import {
   PriceLevel,
   OperationalStatus,
   TechStack,
-  FitAnalysis
+  GeoLocation,
+  GeoBounds,
+  TileCoverage,
+  LocationGroup
 } from '../types';
 import { MOCK_ZIP_COORDS } from '../constants';
-import { detectTechStack } from './techDetector';
 import { detectChain } from './chainDetector';
-import { detectSonicBrand } from './sonicBrandDetector';
+import { findLocationGroups } from './locationClusters';
+import { openCrawlSession } from './crawlSession';
+import {
+  runDetectors,
+  getDetection,
+  DetectionResults,
+  TECH_STACK_DETECTOR,
+  SONIC_BRAND_DETECTOR,
+  CONTACT_DETECTOR,
+  BUILT_IN_DETECTOR_IDS
+} from './siteDetectors';
+import { lookupMarketplacePresence } from './marketplacePresence';
+import { estimateCommissionBleed, getCommissionSettings, CommissionSettings } from './commissionEstimator';
 import { getCache, cacheKey } from './cacheService';
+import { EnrichmentJob, isCancellation, abortableDelay } from './enrichmentQueue';
+import { ActiveScanCheckpoint, recordCheckpointPlace } from './scanCheckpoints';
+import { scorePlaceAllProfiles, getScoringProfiles } from './scoringEngine';
+import {
+  circleToPolygon,
+  boundingBox,
+  clipPolygonToBox,
+  splitBox,
+  ensureCounterClockwise,
+  polygonCenter
+} from './geometry';
 
 // Detect if we're on Vercel or localhost
 const isProduction = import.meta.env.PROD || window.location.hostname !== 'localhost';
@@ -22,84 +47,79 @@ const GOOGLE_MAPS_API_KEY = import.meta.env.VITE_GOOGLE_MAPS_API_KEY;
 
 const AGENT_CONFIG = {
   maxPlacesForScan: 80,
-  excludedPrimaryTypes: ['fast_food_restaurant'],
-  minRatingForFit: 3.8,
-  maxRatingForFit: 4.9,
-  scoring: {
-    independent: 20,
-    idealPrice: 15,
-    healthyRating: 10,
-    strongReviews: 10,
-    commissionBleed: 35,
-    noOrdering: 15,
-    legacySite: 10,
-    lowConfidencePenalty: -5
-  }
+  maxTileDepth: 5, // Quadtree depth for tiled searches (4^5 leaf tiles at most)
+  excludedPrimaryTypes: ['fast_food_restaurant']
 };
 
-const calculateFitScore = (
-  place: Omit<PlaceResult, 'fit' | 'techStack'>,
-  tech: TechStack,
-  isIndie: boolean
-): FitAnalysis => {
-  let score = 0;
-  const reasons: string[] = [];
-
-  if (isIndie) {
-    score += AGENT_CONFIG.scoring.independent;
-    reasons.push("Independent");
-  } else {
-    return { score: 0, reason: "Chain Restaurant", isIndependent: false };
-  }
-
-  if (tech.onlineOrdering.some(o => o.toLowerCase().includes('owner.com'))) {
-    return { score: 0, reason: "Already on Owner.com", isIndependent: isIndie };
-  }
-
-  if (place.priceLevel === PriceLevel.MODERATE || place.priceLevel === PriceLevel.EXPENSIVE) {
-    score += AGENT_CONFIG.scoring.idealPrice;
-    reasons.push("Ideal Price ($$-$$$)");
-  }
-
-  if (place.rating >= AGENT_CONFIG.minRatingForFit && place.rating <= AGENT_CONFIG.maxRatingForFit) {
-    score += AGENT_CONFIG.scoring.healthyRating;
-    reasons.push("Strong Rating");
-  }
+const calculateFitStats = (places: PlaceResult[]): { highFitCount: number; avgScore: number } => {
+  const highFitCount = places.filter(p => p.fit.score >= 80).length;
+  const avgScore = Math.floor(places.reduce((acc, p) => acc + p.fit.score, 0) / (places.length || 1));
+  return { highFitCount, avgScore };
+};
 
-  if (place.userRatingCount >= 100) {
-    score += AGENT_CONFIG.scoring.strongReviews;
-    reasons.push("Strong Review Volume");
-  }
+const rescorePlace = ({ fit, fitByProfile, techStack, ...place }: PlaceResult): PlaceResult => ({
+  ...place,
+  techStack,
+  ...scorePlaceAllProfiles(place, techStack, fit.isIndependent)
+});
 
-  const hasDelivery = tech.delivery.length > 0;
-  const hasFirstPartyOrdering = tech.hasFirstPartyOrdering;
+/**
+ * Re-score already enriched places with the active scoring profile
+ * (no re-crawl needed when the profile is switched or edited)
+ */
+export const applyScoringProfile = (response: AggregateResponse): AggregateResponse => {
+  if (!response.places) return response;
 
-  if (hasDelivery && !hasFirstPartyOrdering) {
-    score += AGENT_CONFIG.scoring.commissionBleed;
-    reasons.push("High Commission Bleed (3P Only)");
-  } else if (!hasFirstPartyOrdering && tech.onlineOrdering.length === 0) {
-    score += AGENT_CONFIG.scoring.noOrdering;
-    reasons.push("No Online Ordering");
-  }
+  const places = response.places
+    .map(rescorePlace)
+    .sort((a, b) => b.fit.score - a.fit.score);
 
-  if (['WordPress', 'Wix', 'GoDaddy', 'Custom', 'Unknown'].includes(tech.websitePlatform)) {
-    score += AGENT_CONFIG.scoring.legacySite;
-    reasons.push("Legacy Website");
-  }
+  return { ...response, places, fitStats: calculateFitStats(places) };
+};
 
-  if (tech.confidence < 50) {
-    score += AGENT_CONFIG.scoring.lowConfidencePenalty;
-  }
+/**
+ * Re-run chain detection on already enriched places (after the custom chain
+ * lists change) and re-score them
+ */
+export const reclassifyChains = async (response: AggregateResponse): Promise<AggregateResponse> => {
+  if (!response.places) return response;
+
+  const groups = await findLocationGroups(response.places);
+  const places = response.places
+    .map(({ fit, fitByProfile, techStack, ...place }) => {
+      const chain = detectChain(place.name, place.website, { placeId: place.placeId, group: groups.get(place.placeId) });
+      return {
+        ...place,
+        chain,
+        techStack,
+        ...scorePlaceAllProfiles({ ...place, chain }, techStack, chain.classification === 'independent')
+      };
+    })
+    .sort((a, b) => b.fit.score - a.fit.score);
 
-  score = Math.max(0, Math.min(score, 100));
+  return { ...response, places, fitStats: calculateFitStats(places) };
+};
 
-  let reasonString = reasons.slice(0, 3).join(", ");
-  if (reasons.length > 3) reasonString += ` +${reasons.length - 3} more`;
+/**
+ * Add a place that finished enrichment to a (partial) lead list, keeping it
+ * sorted by fit. Used to render places while the rest are still being scanned;
+ * without a list yet (e.g. a resumed scan) one is started.
+ */
+export const appendPlace = (response: AggregateResponse | null, place: PlaceResult): AggregateResponse => {
+  const base = response || { insightType: InsightType.PLACES, totalCount: 0, breakdownByType: {} };
+  const places = [...(base.places || []).filter(p => p.placeId !== place.placeId), place]
+    .sort((a, b) => b.fit.score - a.fit.score);
 
-  return { score, reason: reasonString, isIndependent: isIndie };
+  return {
+    ...base,
+    insightType: InsightType.PLACES,
+    totalCount: Math.max(base.totalCount, places.length),
+    places,
+    fitStats: calculateFitStats(places)
+  };
 };
 
-const getCoordinates = async (zipCode: string): Promise<{ lat: number; lng: number }> => {
+const getCoordinates = async (zipCode: string, signal?: AbortSignal): Promise<{ lat: number; lng: number }> => {
   if (MOCK_ZIP_COORDS[zipCode]) return MOCK_ZIP_COORDS[zipCode];
   if (!GOOGLE_MAPS_API_KEY) return MOCK_ZIP_COORDS['28202'];
 
@@ -114,7 +134,7 @@ const getCoordinates = async (zipCode: string): Promise<{ lat: number; lng: numb
   }
 
   try {
-    const res = await fetch(`${PROXY_BASE}/geocode?address=${encodeURIComponent(zipCode)}`);
+    const res = await fetch(`${PROXY_BASE}/geocode?address=${encodeURIComponent(zipCode)}`, { signal });
     if (!res.ok) throw new Error(`Geocoding status: ${res.status}`);
     const data = await res.json();
     if (data.results?.[0]?.geometry?.location) {
@@ -124,6 +144,7 @@ const getCoordinates = async (zipCode: string): Promise<{ lat: number; lng: numb
       return coords;
     }
   } catch (e) {
+    if (signal?.aborted) throw e;
     console.warn("Geocoding error, using default center.", e);
   }
   return MOCK_ZIP_COORDS['28202'];
@@ -177,27 +198,32 @@ export const getZipFromCoordinates = async (lat: number, lng: number): Promise<s
   return '28202'; // Fallback to Charlotte ZIP
 };
 
-const fetchPlaceDetails = async (placeId: string): Promise<Omit<PlaceResult, 'techStack' | 'fit'> | null> => {
+const fetchPlaceDetails = async (
+  placeId: string,
+  forceRefresh = false,
+  signal?: AbortSignal
+): Promise<Omit<PlaceResult, 'techStack' | 'fit'> | null> => {
   if (!GOOGLE_MAPS_API_KEY) return null;
 
   const cache = getCache();
   const cacheKeyString = cacheKey('place', placeId);
 
   // Try cache first
-  const cached = await cache.get<Omit<PlaceResult, 'techStack' | 'fit'>>(cacheKeyString);
+  const cached = forceRefresh ? null : await cache.get<Omit<PlaceResult, 'techStack' | 'fit'>>(cacheKeyString);
   if (cached) {
     console.log(`✅ Cache hit for place: ${placeId}`);
     return cached;
   }
 
   try {
-    const fieldMask = 'id,displayName,types,rating,userRatingCount,priceLevel,formattedAddress,location,websiteUri,nationalPhoneNumber,currentOpeningHours';
+    const fieldMask = 'id,displayName,types,rating,userRatingCount,priceLevel,formattedAddress,location,websiteUri,nationalPhoneNumber,currentOpeningHours,businessStatus';
 
     const res = await fetchWithRetry(`${PROXY_BASE}/places/${placeId}`, {
       headers: {
         'Content-Type': 'application/json',
         'X-Goog-FieldMask': fieldMask
-      }
+      },
+      signal
     }, 2, 500); // 2 retries, 500ms base delay for individual place details
 
     if (!res.ok) return null;
@@ -212,7 +238,7 @@ const fetchPlaceDetails = async (placeId: string): Promise<Omit<PlaceResult, 'te
       priceLevel: data.priceLevel as PriceLevel,
       address: data.formattedAddress || '',
       location: { lat: data.location?.latitude || 0, lng: data.location?.longitude || 0 },
-      operationalStatus: OperationalStatus.OPERATIONAL,
+      operationalStatus: (data.businessStatus as OperationalStatus) || OperationalStatus.OPERATIONAL,
       website: data.websiteUri,
       phone: data.nationalPhoneNumber
     };
@@ -222,11 +248,20 @@ const fetchPlaceDetails = async (placeId: string): Promise<Omit<PlaceResult, 'te
 
     return place;
   } catch (e) {
+    if (signal?.aborted) throw e;
     console.error("Details fetch error", e);
     return null;
   }
 };
 
+/**
+ * Fresh operational status for a place (null when unknown, e.g. simulation mode)
+ */
+export const fetchOperationalStatus = async (placeId: string): Promise<OperationalStatus | null> => {
+  const details = await fetchPlaceDetails(placeId, true);
+  return details?.operationalStatus ?? null;
+};
+
 const runMockSearch = async (area: SearchArea, filters: SearchFilters, insightType: InsightType): Promise<AggregateResponse> => {
   await new Promise(resolve => setTimeout(resolve, 1000));
 
@@ -239,8 +274,10 @@ const runMockSearch = async (area: SearchArea, filters: SearchFilters, insightTy
   types.forEach(t => { breakdown[t] = Math.floor(baseCount / types.length); });
 
   const places: PlaceResult[] = [];
-  const baseLat = area.center?.lat || 35.2271;
-  const baseLng = area.center?.lng || -80.8431;
+  const center = area.center
+    ?? (area.territoryType === 'polygon' && area.polygon?.length ? polygonCenter(area.polygon) : undefined);
+  const baseLat = center?.lat || 35.2271;
+  const baseLng = center?.lng || -80.8431;
 
   const generateCount = insightType === InsightType.PLACES ? Math.min(baseCount, AGENT_CONFIG.maxPlacesForScan) : 0;
 
@@ -250,11 +287,12 @@ const runMockSearch = async (area: SearchArea, filters: SearchFilters, insightTy
     const name = `Mock Restaurant ${i + 1}`;
 
     const chainResult = detectChain(name);
-    const isIndie = !chainResult.isChain;
+    const isIndie = chainResult.classification === 'independent';
 
     if (filters.independentOnly && !isIndie) continue;
 
     const placeBase = {
+      chain: chainResult,
       placeId: `mock-${i}`,
       name,
       types: [type],
@@ -279,25 +317,25 @@ const runMockSearch = async (area: SearchArea, filters: SearchFilters, insightTy
       hasFirstPartyOrdering: Math.random() > 0.8
     };
 
-    const fit = calculateFitScore(placeBase, tech, isIndie);
+    const { fit, fitByProfile } = scorePlaceAllProfiles(placeBase, tech, isIndie);
 
     if (filters.requireNoFirstPartyOrdering && tech.hasFirstPartyOrdering) continue;
     if (filters.requireThirdPartyDelivery && tech.delivery.length === 0) continue;
 
-    places.push({ ...placeBase, techStack: tech, fit });
+    places.push({ ...placeBase, techStack: tech, fit, fitByProfile });
   }
 
   const count = Math.max(baseCount, places.length);
   const sortedPlaces = places.sort((a, b) => b.fit.score - a.fit.score);
-  const highFitCount = sortedPlaces.filter(p => p.fit.score >= 80).length;
-  const avgScore = Math.floor(sortedPlaces.reduce((acc, p) => acc + p.fit.score, 0) / (sortedPlaces.length || 1));
+  const { highFitCount, avgScore } = calculateFitStats(sortedPlaces);
 
   return {
     insightType,
     totalCount: count,
     breakdownByType: breakdown,
     places: insightType === InsightType.PLACES ? sortedPlaces : undefined,
-    fitStats: { highFitCount, avgScore: avgScore || 65 }
+    fitStats: { highFitCount, avgScore: avgScore || 65 },
+    simulated: true
   };
 };
 
@@ -318,83 +356,446 @@ const mergeAggregateResponses = (r1: AggregateResponse, r2: AggregateResponse, i
     breakdown[k] = (breakdown[k] || 0) + v;
   });
 
-  // Recalculate stats
-  const highFitCount = uniquePlaces.filter(p => p.fit.score >= 80).length;
-  const avgScore = Math.floor(uniquePlaces.reduce((acc, p) => acc + p.fit.score, 0) / (uniquePlaces.length || 1));
-
   return {
     insightType,
     totalCount,
     breakdownByType: breakdown,
     places: uniquePlaces.slice(0, AGENT_CONFIG.maxPlacesForScan), // Respect global limit
-    fitStats: { highFitCount, avgScore }
+    fitStats: calculateFitStats(uniquePlaces)
   };
 };
 
-// Main function now just delegates to the recursive helper
+const UNKNOWN_TECH_STACK: TechStack = {
+  websitePlatform: 'Unknown',
+  onlineOrdering: [],
+  reservations: [],
+  delivery: [],
+  loyaltyOrCRM: [],
+  pos: [],
+  otherScripts: [],
+  confidence: 10,
+  hasFirstPartyOrdering: false
+};
+
+const emptySonicBrand = (opportunity: string) => ({
+  hasAudio: false,
+  hasJingle: false,
+  hasPodcast: false,
+  socialMediaAudio: false,
+  youTubeChannel: false,
+  tiktokSound: false,
+  sonicBrandScore: 0,
+  opportunity,
+  detectedElements: []
+});
+
+/**
+ * Run chain, tech stack, marketplace, sonic brand and contact detection for a place, then score it.
+ * `group` is the place's multi-location cluster, if any (see findLocationGroups).
+ * Aborting `signal` stops the crawl and lookups and rejects with an AbortError.
+ */
+const enrichPlace = async (
+  p: Omit<PlaceResult, 'techStack' | 'fit'>,
+  forceRefresh = false,
+  group?: LocationGroup,
+  signal?: AbortSignal
+): Promise<PlaceResult & Required<Pick<PlaceResult, 'fitByProfile'>>> => {
+  const chain = detectChain(p.name, p.website, { placeId: p.placeId, group });
+  const isIndie = chain.classification === 'independent';
+
+  // Every site detector works on one crawl of the site
+  let detections: DetectionResults = {};
+  if (p.website) {
+    const session = openCrawlSession(p.website, { forceRefresh, signal });
+    detections = await runDetectors({ place: p, website: p.website, session, forceRefresh, signal });
+  }
+
+  let tech: TechStack = getDetection(detections, TECH_STACK_DETECTOR) || { ...UNKNOWN_TECH_STACK };
+
+  // Marketplace listings the website does not link to still count as delivery.
+  // Chains are disqualified anyway, so they are not searched.
+  if (!chain.isChain) {
+    try {
+      const listings = await lookupMarketplacePresence({ name: p.name, address: p.address }, { forceRefresh, signal });
+      tech = {
+        ...tech,
+        delivery: Array.from(new Set([...tech.delivery, ...listings.map(l => l.marketplace)])),
+        marketplaceListings: listings
+      };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn(`Marketplace lookup failed for ${p.name}:`, error);
+    }
+  }
+
+  const sonicBrand = getDetection(detections, SONIC_BRAND_DETECTOR)
+    || emptySonicBrand(p.website ? "Unable to analyze" : "No website to analyze");
+  const contacts = getDetection(detections, CONTACT_DETECTOR);
+
+  // Results of any further registered detectors
+  const extraDetections = Object.fromEntries(
+    Object.entries(detections).filter(([id]) => !BUILT_IN_DETECTOR_IDS.includes(id))
+  );
+
+  // Score after sonic detection so every profile sees the full picture
+  const { fit, fitByProfile } = scorePlaceAllProfiles({ ...p, sonicBrand, chain }, tech, isIndie);
+
+  return { ...p, techStack: tech, fit, fitByProfile, sonicBrand, chain, contacts, detections: extraDetections };
+};
+
+/**
+ * Re-fetch details and re-run every detector for a single place, bypassing caches
+ */
+export const reenrichPlace = async (place: PlaceResult): Promise<PlaceResult> => {
+  const { techStack, fit, fitByProfile, sonicBrand, chain, contacts, detections, ...base } = place;
+
+  const details = await fetchPlaceDetails(place.placeId, true);
+  const refreshed = details ? { ...base, ...details } : base;
+  const groups = await findLocationGroups([refreshed]);
+  return enrichPlace(refreshed, true, groups.get(place.placeId));
+};
+
+interface TerritoryPart {
+  label: string; // ZIP code, or 'polygon' for a drawn territory
+  polygon: GeoLocation[]; // Counter-clockwise boundary (circles approximated)
+  locationFilter: object; // Exact Area Insights filter for the part
+}
+
+/**
+ * Resolve a SearchArea into the parts that are searched independently
+ */
+const resolveTerritory = async (area: SearchArea, signal?: AbortSignal): Promise<TerritoryPart[]> => {
+  if (area.territoryType === 'polygon') {
+    const polygon = ensureCounterClockwise(area.polygon || []);
+    return [{ label: 'polygon', polygon, locationFilter: polygonLocationFilter(polygon) }];
+  }
+
+  const zipCodes = area.territoryType === 'zipList'
+    ? Array.from(new Set((area.zipCodes || []).map(z => z.trim()).filter(Boolean)))
+    : [area.zipCode];
+
+  const parts: TerritoryPart[] = [];
+  for (const zipCode of zipCodes) {
+    const center = await getCoordinates(zipCode, signal);
+    parts.push({
+      label: zipCode,
+      polygon: circleToPolygon(center, area.radiusKm),
+      locationFilter: circleLocationFilter(center, area.radiusKm)
+    });
+  }
+  return parts;
+};
+
+/**
+ * Merge the responses of a multi-part territory, deduping places by placeId.
+ * Places found in more than one part are only counted once in totalCount.
+ */
+const mergeTerritoryResponses = (
+  parts: TerritoryPart[],
+  responses: AggregateResponse[],
+  insightType: InsightType
+): AggregateResponse => {
+  const allPlaces = responses.flatMap(r => r.places || []);
+  const uniquePlaces = Array.from(new Map(allPlaces.map(p => [p.placeId, p])).values())
+    .sort((a, b) => b.fit.score - a.fit.score);
+  const duplicateCount = allPlaces.length - uniquePlaces.length;
+
+  const breakdown: Record<string, number> = {};
+  responses.forEach(r => Object.entries(r.breakdownByType || {}).forEach(([k, v]) => {
+    breakdown[k] = (breakdown[k] || 0) + v;
+  }));
+
+  const totalCount = responses.reduce((acc, r) => acc + (r.totalCount || 0), 0) - duplicateCount;
+
+  // Prefix tile ids with the part label so they stay unique across parts
+  const tiled = responses
+    .map((r, i) => ({ coverage: r.coverage, label: parts[i].label }))
+    .filter(r => r.coverage);
+  const coverage = tiled.length > 0 ? {
+    strategy: 'tiles' as const,
+    tiles: tiled.flatMap(r => r.coverage!.tiles.map(t => ({ ...t, id: `${r.label}:${t.id}` }))),
+    truncatedTileIds: tiled.flatMap(r => r.coverage!.truncatedTileIds.map(id => `${r.label}:${id}`)),
+    fetched: tiled.reduce((acc, r) => acc + r.coverage!.fetched, 0),
+    enriched: tiled.reduce((acc, r) => acc + r.coverage!.enriched, 0),
+    complete: tiled.every(r => r.coverage!.complete)
+  } : undefined;
+
+  if (insightType === InsightType.COUNT) {
+    return {
+      insightType,
+      totalCount,
+      breakdownByType: breakdown,
+      fitStats: { highFitCount: Math.floor(totalCount * 0.25), avgScore: 0 },
+      coverage
+    };
+  }
+
+  // Every part already respected maxPlacesForScan, so keep all enriched places
+  return {
+    insightType,
+    totalCount,
+    breakdownByType: breakdown,
+    places: uniquePlaces,
+    fitStats: calculateFitStats(uniquePlaces),
+    coverage
+  };
+};
+
+/**
+ * Main function: resolves the territory, searches each part and merges the results.
+ * Enrichment runs on `job`; pass one to follow progress, receive places as they
+ * finish, or cancel the search (which then rejects with an AbortError).
+ * With a checkpoint, finished places are recorded and reused when resuming.
+ */
 export const searchPlacesAggregate = async (
   area: SearchArea,
   filters: SearchFilters,
-  insightType: InsightType
+  insightType: InsightType,
+  job: EnrichmentJob = new EnrichmentJob(),
+  checkpoint?: ActiveScanCheckpoint
 ): Promise<AggregateResponse> => {
 
+  if (area.territoryType === 'polygon' && (area.polygon?.length ?? 0) < 3) {
+    throw new Error('Draw at least 3 points on the map to define a territory polygon');
+  }
+  if (area.territoryType === 'zipList' && !area.zipCodes?.some(z => z.trim())) {
+    throw new Error('Enter at least one ZIP code for the territory');
+  }
+
   if (!GOOGLE_MAPS_API_KEY) {
     console.warn("No GOOGLE_MAPS_API_KEY found. Agent switching to Simulation Mode.");
     return runMockSearch(area, filters, insightType);
   }
 
   try {
-    const center = await getCoordinates(area.zipCode);
-    return await executeAreaInsightsSearch(area, filters, insightType, center);
+    const parts = await resolveTerritory(area, job.signal);
+    const responses: AggregateResponse[] = [];
+
+    // Parts run one after another to stay under the Places API rate limit
+    for (const part of parts) {
+      job.throwIfCancelled();
+      if (parts.length > 1) console.log(`🗺️ Searching territory part ${part.label}...`);
+      responses.push(area.splitStrategy === 'tiles'
+        ? await executeTiledSearch(part.polygon, part.locationFilter, filters, insightType, job, checkpoint)
+        : await executeAreaInsightsSearch(part.locationFilter, filters, insightType, job, checkpoint));
+    }
+
+    const response = responses.length === 1
+      ? responses[0]
+      : mergeTerritoryResponses(parts, responses, insightType);
+
+    return { ...response, boundary: parts.map(p => p.polygon) };
 
   } catch (err: any) {
+    if (job.cancelled) {
+      console.log('🛑 Search cancelled');
+      throw err;
+    }
     console.error("API Call Failed - Switching to Simulation Mode", err);
     return runMockSearch(area, filters, insightType);
   }
 };
 
-// Recursive helper function
-const executeAreaInsightsSearch = async (
-  area: SearchArea,
+const resolveIncludedTypes = (filters: SearchFilters): string[] =>
+  filters.includedTypes.length > 0 ? filters.includedTypes : ['restaurant'];
+
+const circleLocationFilter = (center: GeoLocation, radiusKm: number) => ({
+  circle: {
+    latLng: { latitude: center.lat, longitude: center.lng },
+    radius: radiusKm * 1000
+  }
+});
+
+const polygonLocationFilter = (polygon: GeoLocation[]) => {
+  // Area Insights expects a closed ring
+  const ring = [...polygon, polygon[0]];
+  return {
+    customArea: {
+      polygon: {
+        coordinates: ring.map(p => ({ latitude: p.lat, longitude: p.lng }))
+      }
+    }
+  };
+};
+
+// Area Insights refuses PLACES requests that would return more than 100 places
+const isResultCapExceeded = (text: string): boolean =>
+  text.includes('RESOURCE_EXHAUSTED') || text.includes('100 places');
+
+const computeInsights = (
+  locationFilter: object,
   filters: SearchFilters,
   insightType: InsightType,
-  center: { lat: number, lng: number },
-  recurseDepth: number = 0
-): Promise<AggregateResponse> => {
-
-  const body: any = {
+  signal?: AbortSignal
+): Promise<Response> => {
+  const body = {
     insights: [insightType],
     filter: {
-      locationFilter: {
-        circle: {
-          latLng: {
-            latitude: center.lat,
-            longitude: center.lng
-          },
-          radius: area.radiusKm * 1000
-        }
-      },
+      locationFilter,
       typeFilter: {
-        includedTypes: filters.includedTypes.length > 0 ? filters.includedTypes : ['restaurant'],
+        includedTypes: resolveIncludedTypes(filters),
         excludedPrimaryTypes: AGENT_CONFIG.excludedPrimaryTypes
       },
       ratingFilter: { minRating: filters.minRating, maxRating: filters.maxRating }
     }
   };
 
-  const response = await fetchWithRetry(`${PROXY_BASE}/places-compute-insights`, {
+  return fetchWithRetry(`${PROXY_BASE}/places-compute-insights`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
       'X-Goog-FieldMask': 'count,placeInsights'
     },
-    body: JSON.stringify(body)
+    body: JSON.stringify(body),
+    signal
   }, 3, 1000); // 3 retries, 1s base delay
+};
+
+const throwApiError = async (response: Response): Promise<never> => {
+  const errorText = await response.text();
+  const err: any = new Error(`Places API Error: ${response.status} ${errorText}`);
+  err.status = response.status;
+  err.message = errorText;
+  throw err;
+};
+
+const parseInsights = (data: any): { count: number; resourceNames: string[] } => {
+  const placeInsights = data.placeInsights || data.place_insights || [];
+  return {
+    count: parseInt(data.count) || 0,
+    resourceNames: placeInsights.map((p: any) => p.place || p.name || p.id).filter(Boolean)
+  };
+};
+
+const buildBreakdown = (count: number, filters: SearchFilters): Record<string, number> => {
+  const breakdown: Record<string, number> = {};
+  if (count > 0) {
+    const types = resolveIncludedTypes(filters);
+    types.forEach((t: string) => breakdown[t] = Math.floor(count / types.length));
+  }
+  return breakdown;
+};
+
+const countResponse = (count: number, filters: SearchFilters): AggregateResponse => ({
+  insightType: InsightType.COUNT,
+  totalCount: count,
+  breakdownByType: buildBreakdown(count, filters),
+  fitStats: { highFitCount: Math.floor(count * 0.25), avgScore: 0 }
+});
+
+/**
+ * Filters that can only be applied once a place is enriched
+ */
+const passesPostFilters = (p: PlaceResult, filters: SearchFilters): boolean => {
+  // Small multi-unit groups stay in: they are not chains
+  if (filters.independentOnly && p.chain?.isChain) return false;
+  // Keep places that at least one profile considers a prospect
+  if (p.fitByProfile && Object.values(p.fitByProfile).every(f => f.score === 0)) return false;
+  if (filters.requireNoFirstPartyOrdering && p.techStack.hasFirstPartyOrdering) return false;
+  if (filters.requireThirdPartyDelivery && p.techStack.delivery.length === 0) return false;
+  return true;
+};
+
+/**
+ * Fetch details for place resource names, enrich and apply the post-filters.
+ * Places the checkpoint already finished are reused instead of re-enriched.
+ */
+const buildPlacesResponse = async (
+  resourceNames: string[],
+  count: number,
+  filters: SearchFilters,
+  job: EnrichmentJob,
+  checkpoint?: ActiveScanCheckpoint
+): Promise<AggregateResponse> => {
+  const breakdown = buildBreakdown(count, filters);
+
+  // Process details only if we have names
+  if (resourceNames.length === 0) {
+    return { insightType: InsightType.PLACES, totalCount: count, breakdownByType: breakdown, places: [], fitStats: { highFitCount: 0, avgScore: 0 } };
+  }
+
+  if (resourceNames.length > AGENT_CONFIG.maxPlacesForScan) {
+    resourceNames = resourceNames.slice(0, AGENT_CONFIG.maxPlacesForScan);
+  }
+
+  // Finished before the scan was interrupted; re-scored in case the profiles changed since
+  const resumedPlaces = checkpoint
+    ? resourceNames.flatMap(name => checkpoint.finished.get(name.split('/')[1]) || []).map(rescorePlace)
+    : [];
+  resumedPlaces.filter(p => passesPostFilters(p, filters)).forEach(p => job.emitPlace(p));
+  if (resumedPlaces.length > 0) {
+    const resumedIds = new Set(resumedPlaces.map(p => p.placeId));
+    resourceNames = resourceNames.filter(name => !resumedIds.has(name.split('/')[1]));
+    console.log(`⏯️ Resuming scan: ${resumedPlaces.length} places already finished`);
+  }
+
+  console.log(`🔍 Fetching details for ${resourceNames.length} restaurants (Rating: ${filters.minRating.toFixed(1)}-${filters.maxRating.toFixed(1)})...`);
+
+  const details = await Promise.all(resourceNames.map(name => job
+    .run('details', async signal => {
+      const place = await fetchPlaceDetails(name.split('/')[1], false, signal);
+      if (!place) throw new Error(`No details for ${name}`);
+      return place;
+    })
+    .catch(error => {
+      if (isCancellation(error)) throw error;
+      console.warn(`Skipping ${name}:`, error);
+      return null;
+    })
+  ));
+  const validDetails = details.filter(p => p !== null) as Omit<PlaceResult, 'techStack' | 'fit'>[];
+
+  // Cluster before enrichment so scoring can tell small groups from independents
+  const groups = await findLocationGroups([...validDetails, ...resumedPlaces]);
+  job.throwIfCancelled();
+
+  // Places are reported as they finish so the lead list can fill in incrementally
+  const enrichedPlaces = await Promise.all(validDetails.map(p => job
+    .run('crawl', signal => enrichPlace(p, false, groups.get(p.placeId), signal))
+    .then(async place => {
+      if (passesPostFilters(place, filters)) job.emitPlace(place);
+      if (checkpoint && !job.cancelled) {
+        await recordCheckpointPlace(checkpoint, place)
+          .catch(error => console.warn(`Failed to checkpoint ${place.name}:`, error));
+      }
+      return place;
+    })
+    .catch(error => {
+      if (isCancellation(error)) throw error;
+      console.warn(`Enrichment failed for ${p.name}:`, error);
+      return null;
+    })
+  ));
+
+  const places = [...resumedPlaces, ...(enrichedPlaces.filter(p => p !== null) as PlaceResult[])]
+    .filter(p => passesPostFilters(p, filters))
+    .sort((a, b) => b.fit.score - a.fit.score);
+
+  return {
+    insightType: InsightType.PLACES,
+    totalCount: count,
+    breakdownByType: breakdown,
+    places: places,
+    fitStats: calculateFitStats(places)
+  };
+};
+
+// Recursive helper function (splits the rating range when the cap is hit)
+const executeAreaInsightsSearch = async (
+  locationFilter: object,
+  filters: SearchFilters,
+  insightType: InsightType,
+  job: EnrichmentJob,
+  checkpoint?: ActiveScanCheckpoint,
+  recurseDepth: number = 0
+): Promise<AggregateResponse> => {
+
+  const response = await computeInsights(locationFilter, filters, insightType, job.signal);
 
   // Handle 429 RESOURCE_EXHAUSTED specifically
   if (response.status === 429) {
     const text = await response.text();
-    if ((text.includes('RESOURCE_EXHAUSTED') || text.includes('100 places')) && recurseDepth < 6) {
+    if (isResultCapExceeded(text) && recurseDepth < 6) {
       console.log(`⚠️ Result count > 100, splitting rating range (${filters.minRating}-${filters.maxRating}) to fetch all results... (Depth: ${recurseDepth})`);
 
       const midRating = (filters.minRating + filters.maxRating) / 2;
@@ -407,152 +808,126 @@ const executeAreaInsightsSearch = async (
         const lowerFilters = { ...filters, maxRating: midRating };
         const upperFilters = { ...filters, minRating: midRating };
 
-        const [lowerRes, upperRes] = await Promise.all([
-          executeAreaInsightsSearch(area, lowerFilters, insightType, center, recurseDepth + 1)
-            .catch(e => ({ places: [], totalCount: 0, breakdownByType: {}, fitStats: { highFitCount: 0, avgScore: 0 } } as AggregateResponse)),
-          executeAreaInsightsSearch(area, upperFilters, insightType, center, recurseDepth + 1)
-            .catch(e => ({ places: [], totalCount: 0, breakdownByType: {}, fitStats: { highFitCount: 0, avgScore: 0 } } as AggregateResponse))
-        ]);
+        // A failed half is dropped, unless the whole job was cancelled
+        const searchHalf = (halfFilters: SearchFilters) =>
+          executeAreaInsightsSearch(locationFilter, halfFilters, insightType, job, checkpoint, recurseDepth + 1)
+            .catch(e => {
+              if (isCancellation(e)) throw e;
+              return { places: [], totalCount: 0, breakdownByType: {}, fitStats: { highFitCount: 0, avgScore: 0 } } as AggregateResponse;
+            });
+
+        const [lowerRes, upperRes] = await Promise.all([searchHalf(lowerFilters), searchHalf(upperFilters)]);
 
         return mergeAggregateResponses(lowerRes, upperRes, insightType);
       }
     }
+
+    throw Object.assign(new Error(text), { status: response.status });
   }
 
   if (!response.ok) {
-    const errorText = await response.text();
-    const err: any = new Error(`Places API Error: ${response.status} ${errorText}`);
-    err.status = response.status;
-    err.message = errorText;
-    throw err;
+    return throwApiError(response);
   }
 
-  const data = await response.json() as any;
-
-  const count = parseInt(data.count) || 0;
-  const placeInsights = data.placeInsights || data.place_insights || [];
-
-  const breakdown: Record<string, number> = {};
-  if (count > 0) {
-    const types = filters.includedTypes.length > 0 ? filters.includedTypes : ['restaurant'];
-    types.forEach((t: string) => breakdown[t] = Math.floor(count / types.length));
-  }
+  const { count, resourceNames } = parseInsights(await response.json());
 
   if (insightType === InsightType.COUNT) {
-    return {
-      insightType,
-      totalCount: count,
-      breakdownByType: breakdown,
-      fitStats: { highFitCount: Math.floor(count * 0.25), avgScore: 0 }
-    };
+    return countResponse(count, filters);
   }
 
-  let resourceNames = placeInsights.map((p: any) => p.place || p.name || p.id).filter(Boolean);
+  return buildPlacesResponse(resourceNames, count, filters, job, checkpoint);
+};
 
-  // Process details only if we have names
-  if (resourceNames.length === 0) {
-    return { insightType, totalCount: count, breakdownByType: breakdown, places: [], fitStats: { highFitCount: 0, avgScore: 0 } };
-  }
+/**
+ * Tiled territory search
+ *
+ * Splits the territory into quadtree tiles (each tile is the territory
+ * clipped to the tile box, sent as a customArea polygon). Tiles that hit
+ * the 100-place cap are split again until AGENT_CONFIG.maxTileDepth; tiles
+ * still over the cap at that depth are reported as truncated and counted
+ * with a COUNT request so totalCount stays accurate. Coverage also reports
+ * places found beyond the maxPlacesForScan enrichment cap.
+ */
+const executeTiledSearch = async (
+  territory: GeoLocation[],
+  locationFilter: object,
+  filters: SearchFilters,
+  insightType: InsightType,
+  job: EnrichmentJob,
+  checkpoint?: ActiveScanCheckpoint
+): Promise<AggregateResponse> => {
 
-  if (resourceNames.length > AGENT_CONFIG.maxPlacesForScan) {
-    resourceNames = resourceNames.slice(0, AGENT_CONFIG.maxPlacesForScan);
+  // COUNT has no 100-place cap, so one request over the whole territory is enough
+  if (insightType === InsightType.COUNT) {
+    return executeAreaInsightsSearch(locationFilter, filters, insightType, job);
   }
-
-  console.log(`🔍 Fetching details for ${resourceNames.length} restaurants (Rating: ${filters.minRating.toFixed(1)}-${filters.maxRating.toFixed(1)})...`);
-
-  const detailPromises = resourceNames.map((name: string) => fetchPlaceDetails(name.split('/')[1]));
-  const details = await Promise.all(detailPromises);
-  const validDetails = details.filter(p => p !== null) as Omit<PlaceResult, 'techStack' | 'fit'>[];
-
-  const enrichedPlaces = await Promise.all(validDetails.map(async (p) => {
-    const chainResult = detectChain(p.name, p.website);
-    const isIndie = !chainResult.isChain;
-
-    let tech: TechStack;
-    if (p.website) {
-      try {
-        tech = await detectTechStack(p.website);
-      } catch (error) {
-        tech = {
-          websitePlatform: 'Unknown',
-          onlineOrdering: [],
-          reservations: [],
-          delivery: [],
-          loyaltyOrCRM: [],
-          pos: [],
-          otherScripts: [],
-          confidence: 10,
-          hasFirstPartyOrdering: false
-        };
+  const tiles: TileCoverage[] = [];
+  const resourceNames = new Set<string>();
+  let truncatedCount = 0;
+
+  const searchTile = async (bounds: GeoBounds, id: string, depth: number): Promise<void> => {
+    const polygon = clipPolygonToBox(territory, bounds);
+    if (polygon.length === 0) return; // Tile lies outside the circle
+
+    const locationFilter = polygonLocationFilter(polygon);
+    const response = await computeInsights(locationFilter, filters, InsightType.PLACES, job.signal);
+
+    if (response.status === 429 && isResultCapExceeded(await response.clone().text())) {
+      if (depth < AGENT_CONFIG.maxTileDepth) {
+        console.log(`⚠️ Tile ${id} has > 100 places, splitting into quadrants... (Depth: ${depth})`);
+        // Quadrants run one after another, like territory parts, to stay under the Places API rate limit
+        for (const [i, child] of splitBox(bounds).entries()) {
+          job.throwIfCancelled();
+          await searchTile(child, `${id}${i}`, depth + 1);
+        }
+        return;
       }
-    } else {
-      tech = {
-        websitePlatform: 'Unknown',
-        onlineOrdering: [],
-        reservations: [],
-        delivery: [],
-        loyaltyOrCRM: [],
-        pos: [],
-        otherScripts: [],
-        confidence: 10,
-        hasFirstPartyOrdering: false
-      };
+
+      // Still over the cap at max depth: record how many places we are missing
+      const countRes = await computeInsights(locationFilter, filters, InsightType.COUNT, job.signal);
+      const count = countRes.ok ? parseInsights(await countRes.json()).count : 0;
+      console.warn(`⚠️ Tile ${id} truncated at max depth (${count} places not fetched)`);
+      truncatedCount += count;
+      tiles.push({ id, depth, bounds, count, fetched: 0, status: 'truncated' });
+      return;
     }
 
-    const fit = calculateFitScore(p, tech, isIndie);
-
-    // Detect sonic brand presence
-    let sonicBrand;
-    if (p.website) {
-      try {
-        sonicBrand = await detectSonicBrand(p.website, p.name);
-      } catch (error) {
-        sonicBrand = {
-          hasAudio: false,
-          hasJingle: false,
-          hasPodcast: false,
-          socialMediaAudio: false,
-          youTubeChannel: false,
-          tiktokSound: false,
-          sonicBrandScore: 0,
-          opportunity: "Unable to analyze",
-          detectedElements: []
-        };
-      }
-    } else {
-      sonicBrand = {
-        hasAudio: false,
-        hasJingle: false,
-        hasPodcast: false,
-        socialMediaAudio: false,
-        youTubeChannel: false,
-        tiktokSound: false,
-        sonicBrandScore: 0,
-        opportunity: "No website to analyze",
-        detectedElements: []
-      };
+    if (!response.ok) {
+      console.error(`❌ Tile ${id} failed: ${response.status}`);
+      tiles.push({ id, depth, bounds, count: 0, fetched: 0, status: 'error' });
+      return;
     }
 
-    return { ...p, techStack: tech, fit, sonicBrand };
-  }));
+    const tile = parseInsights(await response.json());
+    tile.resourceNames.forEach(name => resourceNames.add(name));
+    tiles.push({ id, depth, bounds, count: tile.count, fetched: tile.resourceNames.length, status: 'complete' });
+  };
 
-  const places = enrichedPlaces.filter(p => {
-    if (filters.independentOnly && !p.fit.isIndependent) return false;
-    if (p.fit.score === 0) return false;
-    if (filters.requireNoFirstPartyOrdering && p.techStack.hasFirstPartyOrdering) return false;
-    if (filters.requireThirdPartyDelivery && p.techStack.delivery.length === 0) return false;
-    return true;
-  }).sort((a, b) => b.fit.score - a.fit.score);
+  await searchTile(boundingBox(territory), 'r', 0);
 
-  const highFitCount = places.filter(p => p.fit.score >= 80).length;
-  const avgScore = Math.floor(places.reduce((acc, p) => acc + p.fit.score, 0) / (places.length || 1));
+  const truncatedTileIds = tiles.filter(t => t.status !== 'complete').map(t => t.id);
+  console.log(`🧩 Tiled search: ${tiles.length} tiles, ${resourceNames.size} unique places, ${truncatedTileIds.length} incomplete tiles`);
+
+  // Tiles share edges, so count unique places from complete tiles rather than summing tile counts
+  const totalCount = resourceNames.size + truncatedCount;
+  const response = await buildPlacesResponse(Array.from(resourceNames), totalCount, filters, job, checkpoint);
+
+  // buildPlacesResponse only enriches the first maxPlacesForScan places
+  const enriched = Math.min(resourceNames.size, AGENT_CONFIG.maxPlacesForScan);
+  if (enriched < resourceNames.size) {
+    console.warn(`⚠️ Tiled search found ${resourceNames.size} places; only the first ${enriched} are enriched`);
+  }
 
   return {
-    insightType,
-    totalCount: count,
-    breakdownByType: breakdown,
-    places: places,
-    fitStats: { highFitCount, avgScore }
+    ...response,
+    coverage: {
+      strategy: 'tiles',
+      tiles: tiles.sort((a, b) => a.id.localeCompare(b.id)),
+      truncatedTileIds,
+      fetched: resourceNames.size,
+      enriched,
+      complete: truncatedTileIds.length === 0 && enriched === resourceNames.size
+    }
   };
 };
 
@@ -565,6 +940,49 @@ const escapeField = (value: any): string => {
   return stringValue;
 };
 
+const formatContributions = (fit: PlaceResult['fit']): string =>
+  fit.contributions
+    .map(c => c.disqualified ? `${c.label} (disqualified)` : `${c.label} (${c.points > 0 ? '+' : ''}${c.points})`)
+    .join('; ');
+
+// e.g. "Olo 90% (scriptSrc cdn.olo.com on /order)"
+const formatEvidence = (tech: TechStack): string =>
+  (tech.evidence || [])
+    .filter(e => e.category !== 'otherScripts')
+    .map(e => {
+      const first = e.matches?.[0]; // Missing on results cached before evidence was recorded
+      const page = first ? new URL(first.page).pathname : '';
+      return `${e.vendor} ${e.confidence}%${first ? ` (${first.patternType} ${first.pattern} on ${page})` : ''}`;
+    })
+    .join('; ');
+
+// e.g. "white-label: https://order.toasttab.com/...; marketplace: https://www.doordash.com/..."
+const formatOrderingLinks = (tech: TechStack): string =>
+  (tech.ordering?.links || []).map(l => `${l.destination}: ${l.url}`).join('; ');
+
+// Marketplace orders, commission fees, monthly and annual 1P savings (blank when not on a marketplace)
+const formatCommissionEstimate = (p: PlaceResult, settings: CommissionSettings): string[] => {
+  const estimate = estimateCommissionBleed(p, settings);
+  return estimate
+    ? [estimate.monthlyDeliveryOrders, estimate.monthlyCommissionFees, estimate.monthlySavings, estimate.annualSavings].map(escapeField)
+    : ['', '', '', ''];
+};
+
+// Primary email with its confidence, contact form, social profiles and owner/chef names
+const formatContacts = (p: PlaceResult): string[] => {
+  const contacts = p.contacts?.contacts || [];
+  const email = contacts.find(c => c.type === 'email' && c.value === p.contacts?.primaryEmail);
+  const social = contacts.filter(c => c.type === 'instagram' || c.type === 'facebook' || c.type === 'tiktok');
+  const people = contacts.filter(c => c.type === 'person');
+  return [
+    email?.value ?? '',
+    email?.confidence ?? '',
+    contacts.find(c => c.type === 'contactForm')?.value ?? '',
+    social.map(c => `${c.type}: ${c.value}`).join('; '),
+    people.map(c => `${c.value}${c.role ? ` (${c.role})` : ''}`).join('; ')
+  ].map(escapeField);
+};
+
 // Exponential backoff fetch wrapper
 const fetchWithRetry = async (
   url: string,
@@ -590,15 +1008,15 @@ const fetchWithRetry = async (
       // Exponential backoff: 1s, 2s, 4s
       const backoffMs = baseDelay * Math.pow(2, i);
       console.log(`⚠️ Got 429 error, retrying in ${backoffMs}ms... (attempt ${i + 1}/${retries})`);
-      await new Promise(resolve => setTimeout(resolve, backoffMs));
+      await abortableDelay(backoffMs, options.signal);
 
     } catch (error) {
-      // Network error, retry with backoff
-      if (i === retries - 1) throw error;
+      // Network error, retry with backoff (an aborted request is not retried)
+      if (i === retries - 1 || options.signal?.aborted) throw error;
 
       const backoffMs = baseDelay * Math.pow(2, i);
       console.log(`⚠️ Network error, retrying in ${backoffMs}ms... (attempt ${i + 1}/${retries})`);
-      await new Promise(resolve => setTimeout(resolve, backoffMs));
+      await abortableDelay(backoffMs, options.signal);
     }
   }
 
@@ -610,46 +1028,79 @@ export const exportToCSV = (places: PlaceResult[]) => {
     'Name',
     'Fit Score',
     'Fit Reason',
+    'Fit Rules',
+    'Scoring Profile',
     'Independent',
+    'Chain Classification',
+    'Group Locations',
     'Type',
     'Rating',
     'Reviews',
     'Price',
     'Address',
     'Website',
+    'Email',
+    'Email Confidence',
+    'Contact Form',
+    'Social Profiles',
+    'Owner/Chef',
     'Website Platform',
     'POS',
     'Ordering (1P)',
     'Has 1P Ordering',
+    'Ordering Verdict',
+    'Ordering Links',
     'Delivery (3P)',
+    'Marketplace Listings',
     'Reservations',
     'Loyalty/CRM',
     'Tech Confidence',
+    'Tech Evidence',
+    'Est. Marketplace Orders/mo',
+    'Est. Commission Fees/mo',
+    'Est. 1P Savings/mo',
+    'Est. 1P Savings/yr',
     'Sonic Brand Score',
     'Sonic Brand Opportunity'
   ];
 
+  // One score column per scoring profile
+  const profiles = getScoringProfiles();
+  headers.push(...profiles.map(profile => `Fit: ${profile.name}`));
+
+  const commissionSettings = getCommissionSettings();
   const rows = places.map(p => [
     escapeField(p.name),
     escapeField(p.fit.score),
     escapeField(p.fit.reason),
+    escapeField(formatContributions(p.fit)),
+    escapeField(p.fit.profileId),
     p.fit.isIndependent ? 'Yes' : 'No',
+    escapeField(p.chain?.classification || ''),
+    escapeField(p.chain?.locationCount ?? ''),
     escapeField(p.types[0]),
     escapeField(p.rating),
     escapeField(p.userRatingCount),
     escapeField(p.priceLevel),
     escapeField(p.address),
     escapeField(p.website),
+    ...formatContacts(p),
     escapeField(p.techStack.websitePlatform),
     escapeField(p.techStack.pos.join('; ')),
     escapeField(p.techStack.onlineOrdering.join('; ')),
     p.techStack.hasFirstPartyOrdering ? 'Yes' : 'No',
+    escapeField(p.techStack.ordering?.verdict ?? ''),
+    escapeField(formatOrderingLinks(p.techStack)),
     escapeField(p.techStack.delivery.join('; ')),
+    escapeField((p.techStack.marketplaceListings || []).map(l => `${l.marketplace} ${l.matchScore}%: ${l.url}`).join('; ')),
     escapeField(p.techStack.reservations.join('; ')),
     escapeField(p.techStack.loyaltyOrCRM.join('; ')),
     escapeField(p.techStack.confidence),
+    escapeField(formatEvidence(p.techStack)),
+    ...formatCommissionEstimate(p, commissionSettings),
     escapeField(p.sonicBrand?.sonicBrandScore ?? 0),
-    escapeField(p.sonicBrand?.opportunity ?? 'Not analyzed')
+    escapeField(p.sonicBrand?.opportunity ?? 'Not analyzed'),
+    ...profiles.map(profile => escapeField(p.fitByProfile?.[profile.id]?.score ?? ''))
   ]);
 
   const csv = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
@@ -0,0 +1,331 @@
+/**
+ * Saved Search Store
+ * Named SearchArea/SearchFilters combos with scheduled re-runs and run-to-run diffs
+ */
+
+import {
+  AggregateResponse,
+  InsightType,
+  OperationalStatus,
+  PlaceResult,
+  SearchArea,
+  SearchFilters,
+  TechStack
+} from '../types';
+import { getLocalDatabase } from './localDatabase';
+import { searchPlacesAggregate, fetchOperationalStatus } from './placesService';
+import type { EnrichmentJob } from './enrichmentQueue';
+
+export type SearchSchedule = 'manual' | 'daily' | 'weekly';
+
+export const SEARCH_SCHEDULES: { id: SearchSchedule; label: string; intervalMs: number | null }[] = [
+  { id: 'manual', label: 'Manual', intervalMs: null },
+  { id: 'daily', label: 'Daily', intervalMs: 24 * 60 * 60 * 1000 },
+  { id: 'weekly', label: 'Weekly', intervalMs: 7 * 24 * 60 * 60 * 1000 }
+];
+
+// Minimum fit-score change (points) to count as a mover
+const FIT_MOVER_THRESHOLD = 10;
+
+/**
+ * Compact per-place record kept from each run
+ */
+export interface PlaceSnapshot {
+  placeId: string;
+  name: string;
+  operationalStatus: OperationalStatus;
+  fitScore: number;
+  vendors: string[]; // "<category>:<vendor>", e.g. "delivery:DoorDash"
+}
+
+export interface SearchSnapshot {
+  runAt: string; // ISO timestamp
+  totalCount: number;
+  profileId: string; // Scoring profile behind fitScore
+  places: PlaceSnapshot[];
+}
+
+export interface TechChange {
+  placeId: string;
+  name: string;
+  added: string[];
+  removed: string[];
+}
+
+export interface FitMover {
+  placeId: string;
+  name: string;
+  from: number;
+  to: number;
+}
+
+export interface SearchDiff {
+  fromRunAt: string;
+  toRunAt: string;
+  newPlaces: PlaceSnapshot[];
+  closedPlaces: PlaceSnapshot[]; // operationalStatus moved away from OPERATIONAL
+  droppedPlaces: PlaceSnapshot[]; // No longer in the results but not known to be closed
+  techChanges: TechChange[];
+  fitMovers: FitMover[];
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  area: SearchArea;
+  filters: SearchFilters;
+  schedule: SearchSchedule;
+  createdAt: string;
+  updatedAt: string;
+  lastRunAt?: string;
+  nextRunAt?: string; // Only set for scheduled searches
+  lastSnapshot?: SearchSnapshot;
+  lastDiff?: SearchDiff;
+}
+
+export interface SavedSearchRun {
+  search: SavedSearch;
+  response: AggregateResponse;
+  diff: SearchDiff | null; // Null on the first run
+}
+
+const STORE = 'savedSearches';
+
+const generateId = (): string =>
+  `search-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const computeNextRunAt = (schedule: SearchSchedule, from: Date = new Date()): string | undefined => {
+  const intervalMs = SEARCH_SCHEDULES.find(s => s.id === schedule)?.intervalMs;
+  return intervalMs ? new Date(from.getTime() + intervalMs).toISOString() : undefined;
+};
+
+const techStackVendors = (tech: TechStack): string[] => [
+  ...tech.onlineOrdering.map(v => `ordering:${v}`),
+  ...tech.delivery.map(v => `delivery:${v}`),
+  ...tech.reservations.map(v => `reservations:${v}`),
+  ...tech.loyaltyOrCRM.map(v => `loyalty:${v}`),
+  ...tech.pos.map(v => `pos:${v}`),
+  `platform:${tech.websitePlatform}`
+];
+
+const toPlaceSnapshot = (place: PlaceResult): PlaceSnapshot => ({
+  placeId: place.placeId,
+  name: place.name,
+  operationalStatus: place.operationalStatus,
+  fitScore: place.fit.score,
+  vendors: techStackVendors(place.techStack)
+});
+
+export const createSearchSnapshot = (response: AggregateResponse): SearchSnapshot => {
+  const places = response.places || [];
+  return {
+    runAt: new Date().toISOString(),
+    totalCount: response.totalCount,
+    profileId: places[0]?.fit.profileId ?? '',
+    places: places.map(toPlaceSnapshot)
+  };
+};
+
+/**
+ * Compare two runs of the same search
+ */
+export function diffSearchSnapshots(previous: SearchSnapshot, current: SearchSnapshot): SearchDiff {
+  const previousById = new Map(previous.places.map(p => [p.placeId, p]));
+  const currentById = new Map(current.places.map(p => [p.placeId, p]));
+
+  const isClosed = (p: PlaceSnapshot) => p.operationalStatus !== OperationalStatus.OPERATIONAL;
+
+  const diff: SearchDiff = {
+    fromRunAt: previous.runAt,
+    toRunAt: current.runAt,
+    newPlaces: current.places.filter(p => !previousById.has(p.placeId)),
+    closedPlaces: [],
+    droppedPlaces: [],
+    techChanges: [],
+    fitMovers: []
+  };
+
+  for (const before of previous.places) {
+    const after = currentById.get(before.placeId);
+
+    if (!after) {
+      diff.droppedPlaces.push(before);
+      continue;
+    }
+
+    if (isClosed(after) && !isClosed(before)) {
+      diff.closedPlaces.push(after);
+    }
+
+    const added = after.vendors.filter(v => !before.vendors.includes(v));
+    const removed = before.vendors.filter(v => !after.vendors.includes(v));
+    if (added.length || removed.length) {
+      diff.techChanges.push({ placeId: after.placeId, name: after.name, added, removed });
+    }
+
+    // Scores from different profiles aren't comparable
+    if (previous.profileId === current.profileId && Math.abs(after.fitScore - before.fitScore) >= FIT_MOVER_THRESHOLD) {
+      diff.fitMovers.push({ placeId: after.placeId, name: after.name, from: before.fitScore, to: after.fitScore });
+    }
+  }
+
+  diff.fitMovers.sort((a, b) => Math.abs(b.to - b.from) - Math.abs(a.to - a.from));
+  return diff;
+}
+
+/**
+ * Places that dropped out of the results may have closed (Area Insights only
+ * returns operational places), so look their status up before reporting them.
+ */
+async function resolveDroppedPlaces(diff: SearchDiff): Promise<SearchDiff> {
+  const dropped: PlaceSnapshot[] = [];
+  const closed: PlaceSnapshot[] = [...diff.closedPlaces];
+
+  for (const place of diff.droppedPlaces) {
+    const status = await fetchOperationalStatus(place.placeId);
+    if (status && status !== OperationalStatus.OPERATIONAL) {
+      closed.push({ ...place, operationalStatus: status });
+    } else {
+      dropped.push(place);
+    }
+  }
+
+  return { ...diff, closedPlaces: closed, droppedPlaces: dropped };
+}
+
+export const countSearchChanges = (diff: SearchDiff): number =>
+  diff.newPlaces.length + diff.closedPlaces.length + diff.techChanges.length + diff.fitMovers.length;
+
+// ============ CRUD ============
+
+export async function getSavedSearches(): Promise<SavedSearch[]> {
+  const searches = await getLocalDatabase().getAll<SavedSearch>(STORE);
+  return searches.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getSavedSearch(id: string): Promise<SavedSearch | null> {
+  return getLocalDatabase().get<SavedSearch>(STORE, id);
+}
+
+export async function createSavedSearch(
+  name: string,
+  area: SearchArea,
+  filters: SearchFilters,
+  schedule: SearchSchedule = 'manual'
+): Promise<SavedSearch> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Saved search name is required');
+  }
+
+  const now = new Date().toISOString();
+  const search: SavedSearch = {
+    id: generateId(),
+    name: trimmed,
+    area,
+    filters,
+    schedule,
+    createdAt: now,
+    updatedAt: now,
+    nextRunAt: computeNextRunAt(schedule)
+  };
+
+  await getLocalDatabase().put(STORE, search);
+  return search;
+}
+
+export async function updateSavedSearch(
+  id: string,
+  update: Partial<Pick<SavedSearch, 'name' | 'area' | 'filters' | 'schedule'>>
+): Promise<SavedSearch> {
+  const search = await getSavedSearch(id);
+  if (!search) {
+    throw new Error(`Saved search not found: ${id}`);
+  }
+
+  const updated: SavedSearch = { ...search, ...update, updatedAt: new Date().toISOString() };
+  if (update.schedule && update.schedule !== search.schedule) {
+    updated.nextRunAt = computeNextRunAt(update.schedule, search.lastRunAt ? new Date(search.lastRunAt) : new Date());
+  }
+
+  await getLocalDatabase().put(STORE, updated);
+  return updated;
+}
+
+export async function deleteSavedSearch(id: string): Promise<void> {
+  await getLocalDatabase().delete(STORE, id);
+}
+
+// ============ Runs ============
+
+/**
+ * Re-run a saved search and diff the results against its last snapshot.
+ * Pass the app's search job when the run is shown, so it can be cancelled.
+ */
+export async function rerunSavedSearch(id: string, job?: EnrichmentJob): Promise<SavedSearchRun> {
+  const search = await getSavedSearch(id);
+  if (!search) {
+    throw new Error(`Saved search not found: ${id}`);
+  }
+
+  console.log(`🔁 Re-running saved search "${search.name}"...`);
+  const response = await searchPlacesAggregate(search.area, search.filters, InsightType.PLACES, job);
+
+  // Mock places would show up as new and every real place as dropped
+  if (response.simulated) {
+    console.warn(`Saved search "${search.name}" ran in Simulation Mode; keeping the last snapshot`);
+    return { search, response, diff: null };
+  }
+
+  const snapshot = createSearchSnapshot(response);
+
+  const diff = search.lastSnapshot
+    ? await resolveDroppedPlaces(diffSearchSnapshots(search.lastSnapshot, snapshot))
+    : null;
+
+  const updated: SavedSearch = {
+    ...search,
+    lastRunAt: snapshot.runAt,
+    nextRunAt: computeNextRunAt(search.schedule),
+    lastSnapshot: snapshot,
+    lastDiff: diff ?? undefined,
+    updatedAt: snapshot.runAt
+  };
+
+  await getLocalDatabase().put(STORE, updated);
+  return { search: updated, response, diff };
+}
+
+const isDue = (search: SavedSearch | null, now: Date): search is SavedSearch =>
+  !!search?.nextRunAt && search.nextRunAt <= now.toISOString();
+
+/**
+ * Claim a due run by moving nextRunAt to the next interval before scanning,
+ * so another tab or an overlapping check skips it. False when the search is
+ * no longer due (already claimed, rescheduled or deleted).
+ */
+async function claimDueRun(id: string, now: Date): Promise<boolean> {
+  const claimed = await getLocalDatabase().update<SavedSearch>(STORE, id, search =>
+    isDue(search, now) ? { ...search, nextRunAt: computeNextRunAt(search.schedule, now) } : null
+  );
+  return claimed !== null;
+}
+
+/**
+ * Re-run every scheduled search whose next run is due (one at a time)
+ */
+export async function runDueSavedSearches(now: Date = new Date()): Promise<SavedSearchRun[]> {
+  const due = (await getSavedSearches()).filter(s => isDue(s, now));
+  const runs: SavedSearchRun[] = [];
+
+  for (const search of due) {
+    if (!(await claimDueRun(search.id, now))) continue;
+    try {
+      runs.push(await rerunSavedSearch(search.id));
+    } catch (error) {
+      console.error(`Scheduled run failed for "${search.name}":`, error);
+    }
+  }
+
+  return runs;
+}
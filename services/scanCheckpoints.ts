@@ -0,0 +1,120 @@
+/**
+ * Scan Checkpoints
+ * Persists the places a lead list scan has finished, so a scan interrupted by
+ * a tab reload can be resumed and only enrich the places that were left.
+ * One scan is checkpointed at a time; it is cleared when the scan completes
+ * or is cancelled.
+ */
+
+import { PlaceResult, SearchArea, SearchFilters } from '../types';
+import { getLocalDatabase } from './localDatabase';
+
+// ============ Types ============
+
+export interface ScanCheckpoint {
+  id: string;
+  area: SearchArea;
+  filters: SearchFilters;
+  startedAt: string; // ISO timestamp
+  updatedAt: string;
+  finishedCount: number; // Places enriched so far
+}
+
+interface CheckpointPlace {
+  scanId: string;
+  placeId: string;
+  place: PlaceResult; // Enriched, before the post-filters
+}
+
+/**
+ * A checkpoint in use by a running scan
+ */
+export interface ActiveScanCheckpoint {
+  checkpoint: ScanCheckpoint;
+  finished: Map<string, PlaceResult>; // By placeId
+  closed: boolean; // Set once the scan completed or was cancelled
+}
+
+// ============ Constants ============
+
+const STORE = 'scanCheckpoints';
+const PLACES_STORE = 'scanCheckpointPlaces';
+
+const generateId = (): string =>
+  `scan-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Every [scanId, placeId] key of one scan
+const scanKeyRange = (scanId: string): IDBKeyRange => IDBKeyRange.bound([scanId], [scanId, []]);
+
+// ============ Checkpoints ============
+
+/**
+ * The checkpoint of a scan that never finished, if any
+ */
+export async function getInterruptedScan(): Promise<ScanCheckpoint | null> {
+  const checkpoints = await getLocalDatabase().getAll<ScanCheckpoint>(STORE);
+  return checkpoints.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0] || null;
+}
+
+/**
+ * Start checkpointing a new scan (discards any interrupted one)
+ */
+export async function startScanCheckpoint(area: SearchArea, filters: SearchFilters): Promise<ActiveScanCheckpoint> {
+  const db = getLocalDatabase();
+  for (const previous of await db.getAll<ScanCheckpoint>(STORE)) {
+    await clearScanCheckpoint(previous.id);
+  }
+
+  const now = new Date().toISOString();
+  const checkpoint: ScanCheckpoint = {
+    id: generateId(),
+    area,
+    filters,
+    startedAt: now,
+    updatedAt: now,
+    finishedCount: 0
+  };
+
+  await db.put(STORE, checkpoint);
+  return { checkpoint, finished: new Map(), closed: false };
+}
+
+/**
+ * Load the places an interrupted scan already finished
+ */
+export async function resumeScanCheckpoint(checkpoint: ScanCheckpoint): Promise<ActiveScanCheckpoint> {
+  const places = await getLocalDatabase().getAllByIndex<CheckpointPlace>(PLACES_STORE, 'scanId', checkpoint.id);
+  return {
+    checkpoint: { ...checkpoint, finishedCount: places.length },
+    finished: new Map(places.map(p => [p.placeId, p.place])),
+    closed: false
+  };
+}
+
+/**
+ * Record a place the scan finished enriching
+ */
+export async function recordCheckpointPlace(active: ActiveScanCheckpoint, place: PlaceResult): Promise<void> {
+  if (active.closed) return;
+  active.finished.set(place.placeId, place);
+  active.checkpoint = { ...active.checkpoint, finishedCount: active.finished.size, updatedAt: new Date().toISOString() };
+
+  const db = getLocalDatabase();
+  await db.put<CheckpointPlace>(PLACES_STORE, { scanId: active.checkpoint.id, placeId: place.placeId, place });
+  // Writes queued after closeScanCheckpoint would bring the checkpoint back
+  if (!active.closed) await db.put(STORE, active.checkpoint);
+}
+
+/**
+ * Drop the checkpoint of a scan that completed or was cancelled
+ */
+export async function closeScanCheckpoint(active: ActiveScanCheckpoint): Promise<void> {
+  active.closed = true;
+  await clearScanCheckpoint(active.checkpoint.id);
+}
+
+export async function clearScanCheckpoint(id: string): Promise<void> {
+  const db = getLocalDatabase();
+  await db.delete(PLACES_STORE, scanKeyRange(id));
+  await db.delete(STORE, id);
+}
@@ -0,0 +1,664 @@
+/**
+ * Fit Scoring Engine
+ * Evaluates declarative scoring profiles (named rules with conditions, weights
+ * and disqualifiers) against enriched places
+ */
+
+import { PlaceResult, TechStack, FitAnalysis, RuleContribution, PriceLevel } from '../types';
+
+// ============ Types ============
+
+export type ConditionOperator =
+  | 'eq'
+  | 'neq'
+  | 'in'
+  | 'notIn'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'between'
+  | 'includes'     // array field contains value
+  | 'matchesText'  // string or array-of-strings field contains substring (case-insensitive)
+  | 'isEmpty'
+  | 'notEmpty'
+  | 'isTrue'
+  | 'isFalse';
+
+export interface FieldCondition {
+  field: string; // dot path into ScoringContext, e.g. 'place.rating', 'tech.delivery'
+  op: ConditionOperator;
+  value?: unknown;
+}
+
+export type RuleCondition =
+  | FieldCondition
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition };
+
+export interface ScoringRule {
+  id: string;
+  label: string;
+  when: RuleCondition;
+  points?: number;      // Added to the score when the rule fires
+  disqualify?: boolean; // Forces score to 0 and stops evaluation when the rule fires
+}
+
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  description?: string;
+  version: number;
+  rules: ScoringRule[];
+  builtIn?: boolean;
+}
+
+export interface ScoringContext {
+  place: Omit<PlaceResult, 'fit' | 'fitByProfile' | 'techStack'>;
+  tech: TechStack;
+  isIndependent: boolean;
+}
+
+// ============ Constants ============
+
+const PROFILES_STORAGE_KEY = 'ownerscout:scoring-profiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'ownerscout:active-scoring-profile';
+
+const OPERATORS: ConditionOperator[] = [
+  'eq', 'neq', 'in', 'notIn', 'gt', 'gte', 'lt', 'lte', 'between',
+  'includes', 'matchesText', 'isEmpty', 'notEmpty', 'isTrue', 'isFalse'
+];
+
+export const DEFAULT_PROFILE_ID = 'owner-ordering';
+
+// Small multi-unit groups are not independent but are still prospects
+const CHAIN_CONDITION: RuleCondition = {
+  all: [
+    { field: 'isIndependent', op: 'isFalse' },
+    { field: 'place.chain.classification', op: 'neq', value: 'small-group' }
+  ]
+};
+
+// What chain disqualifiers checked before small groups were told apart; migrated on load
+const LEGACY_CHAIN_CONDITION: FieldCondition = { field: 'isIndependent', op: 'isFalse' };
+
+const SMALL_GROUP_CONDITION: FieldCondition = { field: 'place.chain.classification', op: 'eq', value: 'small-group' };
+
+// Mirrors the weights that used to live in AGENT_CONFIG.scoring
+const OWNER_ORDERING_PROFILE: ScoringProfile = {
+  id: DEFAULT_PROFILE_ID,
+  name: 'Owner.com ordering',
+  description: 'Independent restaurants bleeding commission to 3P delivery apps',
+  version: 2,
+  builtIn: true,
+  rules: [
+    {
+      id: 'chain',
+      label: 'Chain Restaurant',
+      when: CHAIN_CONDITION,
+      disqualify: true
+    },
+    {
+      id: 'already-owner',
+      label: 'Already on Owner.com',
+      when: { field: 'tech.onlineOrdering', op: 'matchesText', value: 'owner.com' },
+      disqualify: true
+    },
+    {
+      id: 'independent',
+      label: 'Independent',
+      when: { field: 'isIndependent', op: 'isTrue' },
+      points: 20
+    },
+    {
+      id: 'small-group',
+      label: 'Small Multi-Unit Group',
+      when: SMALL_GROUP_CONDITION,
+      points: 10
+    },
+    {
+      id: 'ideal-price',
+      label: 'Ideal Price ($$-$$$)',
+      when: { field: 'place.priceLevel', op: 'in', value: [PriceLevel.MODERATE, PriceLevel.EXPENSIVE] },
+      points: 15
+    },
+    {
+      id: 'healthy-rating',
+      label: 'Strong Rating',
+      when: { field: 'place.rating', op: 'between', value: [3.8, 4.9] },
+      points: 10
+    },
+    {
+      id: 'strong-reviews',
+      label: 'Strong Review Volume',
+      when: { field: 'place.userRatingCount', op: 'gte', value: 100 },
+      points: 10
+    },
+    {
+      id: 'commission-bleed',
+      label: 'High Commission Bleed (3P Only)',
+      when: {
+        all: [
+          { field: 'tech.delivery', op: 'notEmpty' },
+          { field: 'tech.hasFirstPartyOrdering', op: 'isFalse' }
+        ]
+      },
+      points: 35
+    },
+    {
+      id: 'no-ordering',
+      label: 'No Online Ordering',
+      when: {
+        all: [
+          { field: 'tech.hasFirstPartyOrdering', op: 'isFalse' },
+          { field: 'tech.onlineOrdering', op: 'isEmpty' },
+          { field: 'tech.delivery', op: 'isEmpty' }
+        ]
+      },
+      points: 15
+    },
+    {
+      id: 'legacy-site',
+      label: 'Legacy Website',
+      when: { field: 'tech.websitePlatform', op: 'in', value: ['WordPress', 'Wix', 'GoDaddy', 'Custom', 'Unknown'] },
+      points: 10
+    },
+    {
+      id: 'low-confidence',
+      label: 'Low Tech Confidence',
+      when: { field: 'tech.confidence', op: 'lt', value: 50 },
+      points: -5
+    }
+  ]
+};
+
+const SONIC_BRAND_PROFILE: ScoringProfile = {
+  id: 'sonic-brand',
+  name: 'Sonic brand',
+  description: 'Well-reviewed independents with no audio branding yet (UGCAudio jingles)',
+  version: 2,
+  builtIn: true,
+  rules: [
+    {
+      id: 'chain',
+      label: 'Chain Restaurant',
+      when: CHAIN_CONDITION,
+      disqualify: true
+    },
+    {
+      id: 'independent',
+      label: 'Independent',
+      when: { field: 'isIndependent', op: 'isTrue' },
+      points: 20
+    },
+    {
+      id: 'small-group',
+      label: 'Small Multi-Unit Group',
+      when: SMALL_GROUP_CONDITION,
+      points: 10
+    },
+    {
+      id: 'no-sonic-brand',
+      label: 'No Audio Branding',
+      when: { field: 'place.sonicBrand.sonicBrandScore', op: 'lt', value: 20 },
+      points: 35
+    },
+    {
+      id: 'weak-sonic-brand',
+      label: 'Weak Audio Branding',
+      when: { field: 'place.sonicBrand.sonicBrandScore', op: 'between', value: [20, 40] },
+      points: 15
+    },
+    {
+      id: 'has-website',
+      label: 'Has Website',
+      when: { field: 'place.website', op: 'notEmpty' },
+      points: 15
+    },
+    {
+      id: 'strong-reviews',
+      label: 'Strong Review Volume',
+      when: { field: 'place.userRatingCount', op: 'gte', value: 100 },
+      points: 15
+    },
+    {
+      id: 'loved-locally',
+      label: 'Loved Locally (4.2+)',
+      when: { field: 'place.rating', op: 'gte', value: 4.2 },
+      points: 15
+    }
+  ]
+};
+
+const RESERVATIONS_UPSELL_PROFILE: ScoringProfile = {
+  id: 'reservations-upsell',
+  name: 'Reservations upsell',
+  description: 'Sit-down independents taking no online reservations',
+  version: 2,
+  builtIn: true,
+  rules: [
+    {
+      id: 'chain',
+      label: 'Chain Restaurant',
+      when: CHAIN_CONDITION,
+      disqualify: true
+    },
+    {
+      id: 'takeout-only',
+      label: 'Takeout Only',
+      when: {
+        all: [
+          { field: 'place.types', op: 'includes', value: 'meal_takeaway' },
+          { not: { field: 'place.types', op: 'includes', value: 'restaurant' } }
+        ]
+      },
+      disqualify: true
+    },
+    {
+      id: 'no-reservations',
+      label: 'No Online Reservations',
+      when: { field: 'tech.reservations', op: 'isEmpty' },
+      points: 35
+    },
+    {
+      id: 'upscale',
+      label: 'Upscale ($$$+)',
+      when: { field: 'place.priceLevel', op: 'in', value: [PriceLevel.EXPENSIVE, PriceLevel.VERY_EXPENSIVE] },
+      points: 25
+    },
+    {
+      id: 'mid-price',
+      label: 'Mid Price ($$)',
+      when: { field: 'place.priceLevel', op: 'eq', value: PriceLevel.MODERATE },
+      points: 10
+    },
+    {
+      id: 'sit-down',
+      label: 'Sit-down Venue',
+      when: {
+        any: [
+          { field: 'place.types', op: 'includes', value: 'restaurant' },
+          { field: 'place.types', op: 'includes', value: 'bar' }
+        ]
+      },
+      points: 10
+    },
+    {
+      id: 'busy',
+      label: 'High Demand (200+ reviews)',
+      when: { field: 'place.userRatingCount', op: 'gte', value: 200 },
+      points: 15
+    },
+    {
+      id: 'healthy-rating',
+      label: 'Strong Rating',
+      when: { field: 'place.rating', op: 'between', value: [4.0, 4.9] },
+      points: 15
+    }
+  ]
+};
+
+const BUILT_IN_PROFILES: ScoringProfile[] = [
+  OWNER_ORDERING_PROFILE,
+  SONIC_BRAND_PROFILE,
+  RESERVATIONS_UPSELL_PROFILE
+];
+
+// ============ Condition Evaluation ============
+
+function resolveField(context: ScoringContext, path: string): unknown {
+  return path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), context);
+}
+
+function evaluateFieldCondition(context: ScoringContext, condition: FieldCondition): boolean {
+  const actual = resolveField(context, condition.field);
+  const expected = condition.value;
+
+  switch (condition.op) {
+    case 'eq':
+      return actual === expected;
+    case 'neq':
+      return actual !== expected;
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual);
+    case 'notIn':
+      return Array.isArray(expected) && !expected.includes(actual);
+    case 'gt':
+      return typeof actual === 'number' && actual > Number(expected);
+    case 'gte':
+      return typeof actual === 'number' && actual >= Number(expected);
+    case 'lt':
+      return typeof actual === 'number' && actual < Number(expected);
+    case 'lte':
+      return typeof actual === 'number' && actual <= Number(expected);
+    case 'between': {
+      if (typeof actual !== 'number' || !Array.isArray(expected)) return false;
+      const [min, max] = expected as number[];
+      return actual >= min && actual <= max;
+    }
+    case 'includes':
+      return Array.isArray(actual) && actual.includes(expected);
+    case 'matchesText': {
+      const needle = String(expected ?? '').toLowerCase();
+      const haystack = Array.isArray(actual) ? actual : [actual];
+      return haystack.some(v => typeof v === 'string' && v.toLowerCase().includes(needle));
+    }
+    case 'isEmpty':
+      return actual == null || actual === '' || (Array.isArray(actual) && actual.length === 0);
+    case 'notEmpty':
+      return !(actual == null || actual === '' || (Array.isArray(actual) && actual.length === 0));
+    case 'isTrue':
+      return actual === true;
+    case 'isFalse':
+      return actual !== true;
+    default:
+      return false;
+  }
+}
+
+export function evaluateCondition(context: ScoringContext, condition: RuleCondition): boolean {
+  if ('all' in condition) return condition.all.every(c => evaluateCondition(context, c));
+  if ('any' in condition) return condition.any.some(c => evaluateCondition(context, c));
+  if ('not' in condition) return !evaluateCondition(context, condition.not);
+  return evaluateFieldCondition(context, condition);
+}
+
+// ============ Scoring ============
+
+/**
+ * Score a place against a profile, recording every rule that fired
+ */
+export function evaluateProfile(profile: ScoringProfile, context: ScoringContext): FitAnalysis {
+  const contributions: RuleContribution[] = [];
+  let score = 0;
+
+  for (const rule of profile.rules) {
+    if (!evaluateCondition(context, rule.when)) continue;
+
+    if (rule.disqualify) {
+      return {
+        score: 0,
+        reason: rule.label,
+        isIndependent: context.isIndependent,
+        profileId: profile.id,
+        contributions: [{ ruleId: rule.id, label: rule.label, points: 0, disqualified: true }],
+        disqualifiedBy: rule.id
+      };
+    }
+
+    const points = rule.points ?? 0;
+    score += points;
+    contributions.push({ ruleId: rule.id, label: rule.label, points });
+  }
+
+  return {
+    score: Math.max(0, Math.min(score, 100)),
+    reason: contributions.filter(c => c.points > 0).map(c => c.label).join(', '),
+    isIndependent: context.isIndependent,
+    profileId: profile.id,
+    contributions
+  };
+}
+
+/**
+ * Score a place with the currently active profile
+ */
+export function scorePlace(
+  place: Omit<PlaceResult, 'fit' | 'fitByProfile' | 'techStack'>,
+  tech: TechStack,
+  isIndependent: boolean
+): FitAnalysis {
+  return evaluateProfile(getActiveScoringProfile(), { place, tech, isIndependent });
+}
+
+/**
+ * Score a place with every profile; `fit` is the active profile's result
+ */
+export function scorePlaceAllProfiles(
+  place: Omit<PlaceResult, 'fit' | 'fitByProfile' | 'techStack'>,
+  tech: TechStack,
+  isIndependent: boolean
+): { fit: FitAnalysis; fitByProfile: Record<string, FitAnalysis> } {
+  const context: ScoringContext = { place, tech, isIndependent };
+  const fitByProfile: Record<string, FitAnalysis> = {};
+
+  for (const profile of getScoringProfiles()) {
+    fitByProfile[profile.id] = evaluateProfile(profile, context);
+  }
+
+  return { fit: fitByProfile[getActiveScoringProfile().id], fitByProfile };
+}
+
+// ============ Validation ============
+
+function validateCondition(condition: any, path: string, errors: string[]): void {
+  if (!condition || typeof condition !== 'object') {
+    errors.push(`${path}: condition must be an object`);
+    return;
+  }
+
+  if ('all' in condition || 'any' in condition) {
+    const list = condition.all ?? condition.any;
+    if (!Array.isArray(list) || list.length === 0) {
+      errors.push(`${path}: "all"/"any" must be a non-empty array`);
+      return;
+    }
+    list.forEach((c: any, i: number) => validateCondition(c, `${path}[${i}]`, errors));
+    return;
+  }
+
+  if ('not' in condition) {
+    validateCondition(condition.not, `${path}.not`, errors);
+    return;
+  }
+
+  if (typeof condition.field !== 'string' || !/^(place|tech)\.[\w.]+$|^isIndependent$/.test(condition.field)) {
+    errors.push(`${path}: field must be "isIndependent" or a "place."/"tech." path`);
+  }
+  if (!OPERATORS.includes(condition.op)) {
+    errors.push(`${path}: unknown operator "${condition.op}"`);
+  }
+  if ((condition.op === 'in' || condition.op === 'notIn') && !Array.isArray(condition.value)) {
+    errors.push(`${path}: "${condition.op}" requires an array value`);
+  }
+  if (condition.op === 'between' && (!Array.isArray(condition.value) || condition.value.length !== 2)) {
+    errors.push(`${path}: "between" requires a [min, max] value`);
+  }
+}
+
+/**
+ * Validate a scoring profile, returning a list of problems (empty when valid)
+ */
+export function validateScoringProfile(profile: any): string[] {
+  const errors: string[] = [];
+
+  if (!profile || typeof profile !== 'object') {
+    return ['Profile must be a JSON object'];
+  }
+  if (typeof profile.id !== 'string' || !/^[a-z0-9-]+$/.test(profile.id)) {
+    errors.push('id must be a lowercase slug (a-z, 0-9, -)');
+  }
+  if (typeof profile.name !== 'string' || !profile.name.trim()) {
+    errors.push('name is required');
+  }
+  if (typeof profile.version !== 'number') {
+    errors.push('version must be a number');
+  }
+  if (!Array.isArray(profile.rules) || profile.rules.length === 0) {
+    errors.push('rules must be a non-empty array');
+    return errors;
+  }
+
+  const seenIds = new Set<string>();
+  profile.rules.forEach((rule: any, i: number) => {
+    const path = `rules[${i}]`;
+    if (typeof rule?.id !== 'string' || !rule.id) {
+      errors.push(`${path}: id is required`);
+    } else if (seenIds.has(rule.id)) {
+      errors.push(`${path}: duplicate rule id "${rule.id}"`);
+    } else {
+      seenIds.add(rule.id);
+    }
+    if (typeof rule?.label !== 'string' || !rule.label) {
+      errors.push(`${path}: label is required`);
+    }
+    if (!rule?.disqualify && typeof rule?.points !== 'number') {
+      errors.push(`${path}: points must be a number unless the rule disqualifies`);
+    }
+    validateCondition(rule?.when, `${path}.when`, errors);
+  });
+
+  return errors;
+}
+
+/**
+ * Parse and validate a profile from JSON text
+ */
+export function parseScoringProfile(json: string): ScoringProfile {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${(error as Error).message}`);
+  }
+
+  const errors = validateScoringProfile(parsed);
+  if (errors.length > 0) {
+    throw new Error(`Invalid scoring profile:\n${errors.join('\n')}`);
+  }
+
+  const { builtIn, ...profile } = parsed;
+  return profile as ScoringProfile;
+}
+
+// ============ Profile Registry ============
+
+let customProfiles: ScoringProfile[] | null = null;
+let activeProfileId: string | null = null;
+const listeners = new Set<(profile: ScoringProfile) => void>();
+
+function readStorage<T>(key: string): T | null {
+  if (typeof localStorage === 'undefined') return null;
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeStorage(key: string, value: unknown): void {
+  if (typeof localStorage === 'undefined') return;
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Failed to persist ${key}:`, error);
+  }
+}
+
+const isLegacyChainCondition = (condition: RuleCondition): boolean =>
+  'field' in condition && condition.field === LEGACY_CHAIN_CONDITION.field && condition.op === LEGACY_CHAIN_CONDITION.op;
+
+/**
+ * Point disqualifiers on the legacy chain condition at CHAIN_CONDITION, so
+ * profiles saved before small groups existed don't disqualify them
+ */
+function migrateChainRules(profile: ScoringProfile): ScoringProfile {
+  if (!profile.rules.some(rule => rule.disqualify && isLegacyChainCondition(rule.when))) return profile;
+  return {
+    ...profile,
+    rules: profile.rules.map(rule =>
+      rule.disqualify && isLegacyChainCondition(rule.when) ? { ...rule, when: CHAIN_CONDITION } : rule
+    )
+  };
+}
+
+function loadCustomProfiles(): ScoringProfile[] {
+  if (customProfiles === null) {
+    const stored = readStorage<ScoringProfile[]>(PROFILES_STORAGE_KEY) || [];
+    const valid = stored.filter(p => validateScoringProfile(p).length === 0);
+    customProfiles = valid.map(migrateChainRules);
+    if (customProfiles.some((p, i) => p !== valid[i])) {
+      writeStorage(PROFILES_STORAGE_KEY, customProfiles);
+    }
+  }
+  return customProfiles;
+}
+
+/**
+ * All available profiles (custom profiles override built-ins with the same id)
+ */
+export function getScoringProfiles(): ScoringProfile[] {
+  const custom = loadCustomProfiles();
+  const builtIns = BUILT_IN_PROFILES.filter(b => !custom.some(c => c.id === b.id));
+  return [...builtIns, ...custom];
+}
+
+export function isBuiltInScoringProfile(id: string): boolean {
+  return BUILT_IN_PROFILES.some(p => p.id === id);
+}
+
+export function getScoringProfile(id: string): ScoringProfile | undefined {
+  return getScoringProfiles().find(p => p.id === id);
+}
+
+export function getActiveScoringProfile(): ScoringProfile {
+  if (activeProfileId === null) {
+    activeProfileId = readStorage<string>(ACTIVE_PROFILE_STORAGE_KEY) || DEFAULT_PROFILE_ID;
+  }
+  return getScoringProfile(activeProfileId) || OWNER_ORDERING_PROFILE;
+}
+
+export function setActiveScoringProfile(id: string): void {
+  const profile = getScoringProfile(id);
+  if (!profile) {
+    throw new Error(`Unknown scoring profile: ${id}`);
+  }
+  activeProfileId = id;
+  writeStorage(ACTIVE_PROFILE_STORAGE_KEY, id);
+  listeners.forEach(listener => listener(profile));
+}
+
+/**
+ * Create or replace a custom profile (validated before saving)
+ */
+export function saveScoringProfile(profile: ScoringProfile): void {
+  const errors = validateScoringProfile(profile);
+  if (errors.length > 0) {
+    throw new Error(`Invalid scoring profile:\n${errors.join('\n')}`);
+  }
+
+  const { builtIn, ...toSave } = profile;
+  const custom = loadCustomProfiles().filter(p => p.id !== profile.id);
+  customProfiles = [...custom, toSave];
+  writeStorage(PROFILES_STORAGE_KEY, customProfiles);
+
+  if (getActiveScoringProfile().id === profile.id) {
+    listeners.forEach(listener => listener(toSave));
+  }
+}
+
+/**
+ * Remove a custom profile; built-ins revert to their shipped definition
+ */
+export function deleteScoringProfile(id: string): void {
+  const wasActive = getActiveScoringProfile().id === id;
+  customProfiles = loadCustomProfiles().filter(p => p.id !== id);
+  writeStorage(PROFILES_STORAGE_KEY, customProfiles);
+
+  if (!wasActive) return;
+  if (getScoringProfile(id)) {
+    listeners.forEach(listener => listener(getActiveScoringProfile()));
+  } else {
+    setActiveScoringProfile(DEFAULT_PROFILE_ID);
+  }
+}
+
+/**
+ * Subscribe to active profile changes (returns an unsubscribe function)
+ */
+export function onActiveScoringProfileChange(listener: (profile: ScoringProfile) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
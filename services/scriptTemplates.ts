@@ -0,0 +1,398 @@
+/**
+ * Script Templates
+ *
+ * Named templates for the SonicBrand scripts (jingle, lead magnet, podcast
+ * intro) and the brand lines they use (tagline, USP). Built-in templates ship
+ * in data/scriptTemplates.json; custom templates (and edited copies of
+ * built-ins) are stored in localStorage.
+ *
+ * Template syntax:
+ *   {{name}}                         variable (dot paths; lists read "A, B and C")
+ *   {{address|our location}}         variable with a fallback for empty values
+ *   {{#if tech.delivery}}…{{else}}…{{/if}}, {{#unless …}}…{{/unless}}
+ *   {{#pick}}a{{or}}b{{or}}c{{/pick}} one option, chosen by a seed so the same
+ *                                    lead, template and variant always render the same
+ *
+ * A line holding nothing but block tags is dropped, and runs of blank lines
+ * collapse to one.
+ */
+
+import type { PlaceResult } from '../types';
+import type { AIAnalysisResult } from './aiService';
+import { PRICE_LEVEL_LABELS } from '../constants';
+import builtInTemplates from '../data/scriptTemplates.json';
+
+// ============ Types ============
+
+export type ScriptType = 'tagline' | 'usp' | 'jingle' | 'leadMagnet' | 'podcastIntro';
+
+export interface ScriptTemplate {
+  id: string;
+  name: string;
+  type: ScriptType;
+  description?: string;
+  body: string;
+  builtIn?: boolean;
+}
+
+export interface ScriptTemplateVariables {
+  placeId: string;
+  name: string;
+  type: string; // Primary place type without "restaurant", e.g. "italian" or "pizza" ("dining" for a plain restaurant)
+  rating?: number;
+  reviews: number;
+  price: string; // "$" to "$$$$", empty when unknown
+  address: string;
+  website: string; // Host only, e.g. "lunabistro.com"
+  phone: string;
+  tagline: string;
+  usp: string;
+  ai: Partial<AIAnalysisResult>; // Empty until the lead has been through the AI Vibe Check
+  tech: {
+    websitePlatform: string;
+    onlineOrdering: string[];
+    delivery: string[];
+    reservations: string[];
+    pos: string[];
+    loyalty: string[];
+    hasFirstPartyOrdering: boolean;
+  };
+}
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'var'; path: string; fallback?: string }
+  | { kind: 'if'; path: string; negate: boolean; then: TemplateNode[]; else: TemplateNode[] }
+  | { kind: 'pick'; ordinal: number; options: TemplateNode[][] };
+
+// ============ Constants ============
+
+export const SCRIPT_TYPES: { id: ScriptType; label: string }[] = [
+  { id: 'jingle', label: 'Jingle' },
+  { id: 'leadMagnet', label: 'Lead Magnet' },
+  { id: 'podcastIntro', label: 'Podcast Intro' },
+  { id: 'tagline', label: 'Tagline' },
+  { id: 'usp', label: 'USP' }
+];
+
+const TEMPLATES_STORAGE_KEY = 'ownerscout:script-templates';
+const ACTIVE_STORAGE_KEY = 'ownerscout:active-script-templates';
+
+const TAG_PATTERN = /\{\{\s*([^}]*?)\s*\}\}/g;
+const STANDALONE_TAG_LINE = /^[ \t]*((?:\{\{\s*(?:[#/][^}]*|else|or)\s*\}\})+)[ \t]*\r?\n/gm;
+
+// ============ Parsing ============
+
+interface OpenBlock {
+  tag: 'if' | 'unless' | 'pick';
+  node: TemplateNode;
+  target: TemplateNode[];
+}
+
+function parseTemplate(body: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  let target = root;
+  let picks = 0;
+  let cursor = 0;
+
+  const source = body.replace(STANDALONE_TAG_LINE, '$1');
+  const closeBlock = (tag: string) => {
+    const open = stack.pop();
+    if (!open || open.tag !== tag) {
+      throw new Error(`Unexpected {{/${tag}}}${open ? ` inside {{#${open.tag}}}` : ''}`);
+    }
+    target = stack.length > 0 ? stack[stack.length - 1].target : root;
+  };
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    if (match.index! > cursor) {
+      target.push({ kind: 'text', text: source.slice(cursor, match.index) });
+    }
+    cursor = match.index! + match[0].length;
+
+    const tag = match[1];
+    const block = /^#(if|unless)\s+([\w.]+)$/.exec(tag);
+
+    if (block) {
+      const node: TemplateNode = { kind: 'if', path: block[2], negate: block[1] === 'unless', then: [], else: [] };
+      target.push(node);
+      stack.push({ tag: block[1] as 'if' | 'unless', node, target: node.then });
+      target = node.then;
+    } else if (tag === '#pick') {
+      const node: TemplateNode = { kind: 'pick', ordinal: picks++, options: [[]] };
+      target.push(node);
+      stack.push({ tag: 'pick', node, target: node.options[0] });
+      target = node.options[0];
+    } else if (tag === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.node.kind !== 'if' || target === open.node.else) {
+        throw new Error('{{else}} outside {{#if}} or {{#unless}}');
+      }
+      open.target = target = open.node.else;
+    } else if (tag === 'or') {
+      const open = stack[stack.length - 1];
+      if (!open || open.node.kind !== 'pick') {
+        throw new Error('{{or}} outside {{#pick}}');
+      }
+      open.node.options.push([]);
+      open.target = target = open.node.options[open.node.options.length - 1];
+    } else if (tag === '/if' || tag === '/unless' || tag === '/pick') {
+      closeBlock(tag.slice(1));
+    } else {
+      const variable = /^([\w.]+)(?:\s*\|\s*(.*))?$/.exec(tag);
+      if (!variable) {
+        throw new Error(`Unknown tag {{${tag}}}`);
+      }
+      target.push({ kind: 'var', path: variable[1], fallback: variable[2] });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Unclosed {{#${stack[stack.length - 1].tag}}}`);
+  }
+  if (cursor < source.length) {
+    target.push({ kind: 'text', text: source.slice(cursor) });
+  }
+  return root;
+}
+
+// ============ Rendering ============
+
+// FNV-1a, so picks are stable across sessions and machines
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+const lookup = (variables: object, path: string): unknown =>
+  path.split('.').reduce<unknown>((value, key) => (value == null ? undefined : (value as Record<string, unknown>)[key]), variables);
+
+const isPresent = (value: unknown): boolean => {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim() !== '';
+  return Boolean(value);
+};
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    const items = value.map(String).filter(Boolean);
+    return items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items.join('');
+  }
+  return typeof value === 'boolean' || value == null ? '' : String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], variables: object, seed: string): string {
+  return nodes.map(node => {
+    switch (node.kind) {
+      case 'text':
+        return node.text;
+      case 'var': {
+        const value = lookup(variables, node.path);
+        return isPresent(value) ? formatValue(value) : node.fallback ?? '';
+      }
+      case 'if':
+        return renderNodes(isPresent(lookup(variables, node.path)) !== node.negate ? node.then : node.else, variables, seed);
+      case 'pick': {
+        const option = node.options[hashString(`${seed}#${node.ordinal}`) % node.options.length];
+        return renderNodes(option, variables, seed).trim(); // Options may sit on their own lines
+      }
+    }
+  }).join('');
+}
+
+/**
+ * Render a template body. The seed decides every {{#pick}}; throws on syntax errors.
+ */
+export function renderTemplate(body: string, variables: object, seed: string): string {
+  return renderNodes(parseTemplate(body), variables, seed)
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Render a template for a lead. Picks are seeded by template, lead and variant:
+ * the same three always give the same script, and a new variant gives another take.
+ */
+export function renderScriptTemplate(template: ScriptTemplate, variables: ScriptTemplateVariables, variant: number = 0): string {
+  return renderTemplate(template.body, variables, `${template.id}:${variables.placeId}:${variant}`);
+}
+
+const websiteHost = (website?: string): string => {
+  if (!website) return '';
+  try {
+    return new URL(website).hostname.replace(/^www\./, '');
+  } catch {
+    return website;
+  }
+};
+
+/**
+ * Template variables for a lead, from its place details, tech stack and (when
+ * it has been analysed) the AI Vibe Check
+ */
+export function buildTemplateVariables(
+  place: PlaceResult,
+  analysis?: AIAnalysisResult,
+  brand: { tagline?: string; usp?: string } = {}
+): ScriptTemplateVariables {
+  const tech = place.techStack;
+  return {
+    placeId: place.placeId,
+    name: place.name,
+    type: (place.types[0] || '').replace(/_?restaurant$/, '').replace(/_/g, ' ') || 'dining',
+    rating: place.rating || undefined,
+    reviews: place.userRatingCount || 0,
+    price: place.priceLevel ? PRICE_LEVEL_LABELS[place.priceLevel] : '',
+    address: place.address || '',
+    website: websiteHost(place.website),
+    phone: place.phone || '',
+    tagline: brand.tagline || '',
+    usp: brand.usp || '',
+    ai: analysis ? { ...analysis } : {},
+    tech: {
+      websitePlatform: tech?.websitePlatform || '',
+      onlineOrdering: tech?.onlineOrdering || [],
+      delivery: tech?.delivery || [],
+      reservations: tech?.reservations || [],
+      pos: tech?.pos || [],
+      loyalty: tech?.loyaltyOrCRM || [],
+      hasFirstPartyOrdering: Boolean(tech?.hasFirstPartyOrdering)
+    }
+  };
+}
+
+// ============ Validation ============
+
+export function validateScriptTemplate(template: unknown): string[] {
+  const errors: string[] = [];
+  if (!template || typeof template !== 'object') {
+    return ['Template must be an object'];
+  }
+  const t = template as Partial<ScriptTemplate>;
+
+  if (typeof t.id !== 'string' || !/^[a-z0-9-]+$/.test(t.id)) {
+    errors.push('id must be lowercase letters, digits and dashes');
+  }
+  if (typeof t.name !== 'string' || !t.name.trim()) {
+    errors.push('name is required');
+  }
+  if (!SCRIPT_TYPES.some(s => s.id === t.type)) {
+    errors.push(`type must be one of ${SCRIPT_TYPES.map(s => s.id).join(', ')}`);
+  }
+  if (typeof t.body !== 'string' || !t.body.trim()) {
+    errors.push('body is required');
+  } else {
+    try {
+      parseTemplate(t.body);
+    } catch (e) {
+      errors.push(`body: ${(e as Error).message}`);
+    }
+  }
+  return errors;
+}
+
+// ============ Built-in templates ============
+
+const loadBuiltInTemplate = (json: Omit<ScriptTemplate, 'body'> & { lines: string[] }): ScriptTemplate => {
+  const { lines, ...rest } = json;
+  const template = { ...rest, body: lines.join('\n') };
+  const errors = validateScriptTemplate(template);
+  if (errors.length > 0) {
+    // Shipped templates are part of the build, so a broken one is a bug
+    throw new Error(`Invalid built-in script template ${json.id}: ${errors.join('; ')}`);
+  }
+  return { ...template, builtIn: true };
+};
+
+const BUILT_IN_TEMPLATES: ScriptTemplate[] = (builtInTemplates.templates as Array<Omit<ScriptTemplate, 'body'> & { lines: string[] }>)
+  .map(loadBuiltInTemplate);
+
+// ============ Storage ============
+
+const hasStorage = (): boolean => typeof localStorage !== 'undefined';
+
+function loadStoredTemplates(): ScriptTemplate[] {
+  if (!hasStorage()) return [];
+  try {
+    const raw = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+    const stored: unknown[] = raw ? JSON.parse(raw) : [];
+    return stored.filter((template): template is ScriptTemplate => {
+      const errors = validateScriptTemplate(template);
+      if (errors.length > 0) {
+        console.warn(`Skipping invalid script template: ${errors.join('; ')}`);
+        return false;
+      }
+      return true;
+    });
+  } catch (error) {
+    console.warn('Failed to load script templates:', error);
+    return [];
+  }
+}
+
+function saveStoredTemplates(templates: ScriptTemplate[]): void {
+  if (!hasStorage()) return;
+  localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+}
+
+function loadActiveIds(): Partial<Record<ScriptType, string>> {
+  if (!hasStorage()) return {};
+  try {
+    return JSON.parse(localStorage.getItem(ACTIVE_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+// ============ Public API ============
+
+export const isBuiltInScriptTemplate = (id: string): boolean => BUILT_IN_TEMPLATES.some(t => t.id === id);
+
+/**
+ * Templates (optionally of one type): built-ins (replaced by a stored copy when
+ * edited) followed by custom templates
+ */
+export function getScriptTemplates(type?: ScriptType): ScriptTemplate[] {
+  const stored = loadStoredTemplates();
+  const builtIns = BUILT_IN_TEMPLATES.map(template => {
+    const override = stored.find(s => s.id === template.id);
+    return override ? { ...override, type: template.type, builtIn: true } : template;
+  });
+  const all = [...builtIns, ...stored.filter(s => !isBuiltInScriptTemplate(s.id))];
+  return type ? all.filter(t => t.type === type) : all;
+}
+
+export function saveScriptTemplate(template: ScriptTemplate): void {
+  const errors = validateScriptTemplate(template);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+  const { builtIn, ...rest } = template;
+  saveStoredTemplates([...loadStoredTemplates().filter(t => t.id !== template.id), rest]);
+}
+
+/**
+ * Delete a custom template, or reset an edited built-in to the shipped version
+ */
+export function deleteScriptTemplate(id: string): void {
+  saveStoredTemplates(loadStoredTemplates().filter(t => t.id !== id));
+}
+
+/**
+ * The template the pipeline uses for a script type: the chosen one, else the first
+ */
+export function getActiveScriptTemplate(type: ScriptType): ScriptTemplate {
+  const templates = getScriptTemplates(type);
+  return templates.find(t => t.id === loadActiveIds()[type]) || templates[0];
+}
+
+export function setActiveScriptTemplate(type: ScriptType, id: string): void {
+  if (!hasStorage()) return;
+  localStorage.setItem(ACTIVE_STORAGE_KEY, JSON.stringify({ ...loadActiveIds(), [type]: id }));
+}
@@ -0,0 +1,239 @@
+/**
+ * Site Crawler
+ * Bounded same-site crawler: fetches the homepage, then follows links that
+ * look like ordering, menu, reservation or contact pages
+ */
+
+export interface CrawledPage {
+  url: string;
+  depth: number; // 0 for the homepage
+  html: string;
+  headers?: Record<string, string>; // Upstream response headers forwarded by the proxy (lower-case names)
+}
+
+export interface FetchedDocument {
+  html: string;
+  headers: Record<string, string>;
+  finalUrl?: string; // After redirects
+}
+
+export interface CrawlOptions {
+  maxDepth?: number; // Link hops from the homepage
+  maxPages?: number; // Total pages fetched, homepage included
+  keywords?: string[]; // Matched against link path and anchor text
+  timeoutMs?: number; // Per page
+  signal?: AbortSignal; // Aborts the whole crawl (e.g. when the scan is cancelled)
+}
+
+export const DEFAULT_CRAWL_KEYWORDS = [
+  'order',
+  'menu',
+  'reserv',
+  'book',
+  'table',
+  'contact',
+  'delivery',
+  'takeout',
+  'pickup',
+  'catering',
+  'location',
+  'about',
+  'press'
+];
+
+const DEFAULT_OPTIONS: Required<Omit<CrawlOptions, 'signal'>> = {
+  maxDepth: 1,
+  maxPages: 6,
+  keywords: DEFAULT_CRAWL_KEYWORDS,
+  timeoutMs: 10000
+};
+
+// Links to these are never HTML pages
+const SKIPPED_EXTENSIONS = /\.(pdf|jpe?g|png|gif|webp|svg|ico|css|js|json|xml|zip|mp3|mp4|mov)(\?|$)/i;
+
+/**
+ * Normalize a website URL (adds https:// when the protocol is missing)
+ */
+export function normalizeUrl(url: string): string {
+  return url.startsWith('http://') || url.startsWith('https://') ? url : 'https://' + url;
+}
+
+// http/https and "www." variants of one site count as the same site
+const siteHost = (url: URL): string => url.hostname.toLowerCase().replace(/^www\./, '');
+
+const sameSite = (a: URL, b: URL): boolean =>
+  /^https?:$/.test(a.protocol) && /^https?:$/.test(b.protocol) && siteHost(a) === siteHost(b);
+
+/**
+ * Canonical form used to avoid fetching the same page twice
+ */
+function canonicalUrl(url: URL): string {
+  const path = url.pathname.replace(/\/+$/, '') || '/';
+  return `${url.origin}${path}${url.search}`;
+}
+
+/**
+ * Fetch a single page and its upstream headers through the CORS proxy.
+ * Failures return null; aborting `signal` rejects instead.
+ */
+export async function fetchDocument(
+  url: string,
+  timeoutMs: number = DEFAULT_OPTIONS.timeoutMs,
+  signal?: AbortSignal
+): Promise<FetchedDocument | null> {
+  try {
+    // Detect if we're on Vercel or localhost (outside a browser, e.g. the fixture runner, use the local proxy)
+    const isProduction = import.meta.env?.PROD || (typeof window !== 'undefined' && window.location.hostname !== 'localhost');
+    const PROXY_BASE = isProduction ? '/api' : 'http://localhost:3001/api';
+    const proxyUrl = `${PROXY_BASE}/proxy?url=${encodeURIComponent(url)}`;
+
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const response = await fetch(proxyUrl, {
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout
+    });
+
+    if (!response.ok) {
+      console.warn(`Failed to crawl ${url} via proxy: ${response.status}`);
+      return null;
+    }
+
+    let headers: Record<string, string> = {};
+    try {
+      headers = JSON.parse(response.headers.get('X-Upstream-Headers') || '{}');
+    } catch {
+      // Older proxy without forwarded headers
+    }
+
+    return {
+      html: await response.text(),
+      headers,
+      finalUrl: response.headers.get('X-Final-Url') || undefined
+    };
+  } catch (error) {
+    if (signal?.aborted) throw signal.reason;
+    console.warn(`Error crawling ${url}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Fetch a single page through the CORS proxy
+ */
+export async function fetchPage(
+  url: string,
+  timeoutMs: number = DEFAULT_OPTIONS.timeoutMs,
+  signal?: AbortSignal
+): Promise<string | null> {
+  const document = await fetchDocument(url, timeoutMs, signal);
+  return document ? document.html : null;
+}
+
+/**
+ * Every href/src URL on a page, resolved against the page URL
+ */
+export function extractPageUrls(page: Pick<CrawledPage, 'url' | 'html'>): URL[] {
+  const urls: URL[] = [];
+  const attrRegex = /\b(?:href|src|data-src)\s*=\s*["']([^"']+)["']/gi;
+  for (const match of page.html.matchAll(attrRegex)) {
+    try {
+      urls.push(new URL(match[1].replace(/&amp;/g, '&'), page.url));
+    } catch {
+      // Not a URL
+    }
+  }
+  return urls;
+}
+
+/**
+ * Same-site links whose path or anchor text matches a keyword,
+ * ordered by how early the first matching keyword appears in the list
+ */
+export function extractKeywordLinks(html: string, pageUrl: string, keywords: string[]): string[] {
+  const base = new URL(pageUrl);
+  const anchorRegex = /<a\s[^>]*href\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi;
+  const ranked = new Map<string, number>();
+
+  let match: RegExpExecArray | null;
+  while ((match = anchorRegex.exec(html)) !== null) {
+    const href = match[1].trim();
+    if (!href || href.startsWith('#') || /^(mailto|tel|javascript):/i.test(href)) continue;
+
+    let target: URL;
+    try {
+      target = new URL(href, base);
+    } catch {
+      continue;
+    }
+
+    if (!sameSite(target, base) || SKIPPED_EXTENSIONS.test(target.pathname)) continue;
+
+    const text = match[2].replace(/<[^>]+>/g, ' ').toLowerCase();
+    const haystack = `${target.pathname.toLowerCase()} ${text}`;
+    const rank = keywords.findIndex(keyword => haystack.includes(keyword));
+    if (rank === -1) continue;
+
+    const url = canonicalUrl(target);
+    if (!ranked.has(url) || rank < ranked.get(url)!) {
+      ranked.set(url, rank);
+    }
+  }
+
+  return Array.from(ranked.entries())
+    .sort((a, b) => a[1] - b[1])
+    .map(([url]) => url);
+}
+
+/**
+ * Crawl a site breadth-first within the depth and page limits.
+ * Returns the pages that were fetched successfully (homepage first);
+ * an empty array means the homepage itself could not be fetched.
+ */
+export async function crawlSite(website: string, options: CrawlOptions = {}): Promise<CrawledPage[]> {
+  const { maxDepth, maxPages, keywords, timeoutMs, signal } = { ...DEFAULT_OPTIONS, ...options };
+
+  let homepage: URL;
+  try {
+    homepage = new URL(normalizeUrl(website));
+  } catch {
+    console.warn(`Invalid website URL: ${website}`);
+    return [];
+  }
+
+  const pages: CrawledPage[] = [];
+  const seen = new Set<string>([canonicalUrl(homepage)]);
+  let frontier = [homepage.toString()];
+
+  for (let depth = 0; depth <= maxDepth && frontier.length > 0; depth++) {
+    signal?.throwIfAborted();
+    const batch = frontier.slice(0, maxPages - pages.length);
+    const results = await Promise.all(batch.map(url => fetchDocument(url, timeoutMs, signal)));
+
+    // Pages are recorded under their URL after redirects (http → https, bare domain → www)
+    const fetched: CrawledPage[] = batch.flatMap((url, i) => {
+      const result = results[i];
+      return result ? [{ url: result.finalUrl || url, depth, html: result.html, headers: result.headers }] : [];
+    });
+    pages.push(...fetched);
+    fetched.forEach(page => seen.add(canonicalUrl(new URL(page.url))));
+
+    // Without the homepage there is nothing to follow
+    if (depth === 0 && fetched.length === 0) return [];
+
+    frontier = [];
+    if (depth === maxDepth || pages.length >= maxPages) break;
+
+    for (const page of fetched) {
+      for (const link of extractKeywordLinks(page.html, page.url, keywords)) {
+        if (seen.has(link)) continue;
+        seen.add(link);
+        frontier.push(link);
+      }
+    }
+  }
+
+  if (pages.length > 1) {
+    console.log(`🕸️ Crawled ${pages.length} pages on ${homepage.hostname}`);
+  }
+
+  return pages;
+}
@@ -0,0 +1,102 @@
+/**
+ * Site Detectors
+ * Plugin registry for analyzers that work on a restaurant's crawled website.
+ * Every registered detector gets the same crawl session, so adding one does
+ * not add a fetch per place and needs no change to the search pipeline.
+ */
+
+import type { PlaceResult } from '../types';
+import type { CrawlSession } from './crawlSession';
+import { detectTechStack, TechDetectionResult } from './techDetector';
+import { detectSonicBrand, SonicBrandAnalysis } from './sonicBrandDetector';
+import { discoverContacts, ContactDiscovery } from './contactExtractor';
+
+// ============ Types ============
+
+export interface DetectorContext {
+  place: Omit<PlaceResult, 'techStack' | 'fit'>;
+  website: string;
+  session: CrawlSession;
+  forceRefresh: boolean;
+  signal?: AbortSignal; // Aborted when the scan is cancelled; the session's crawl already honours it
+}
+
+export interface SiteDetector<T = unknown> {
+  id: string; // Key of the result in DetectionResults (and PlaceResult.detections)
+  label: string;
+  detect(context: DetectorContext): Promise<T>;
+}
+
+export type DetectionResults = Record<string, unknown>;
+
+// ============ Built-in Detectors ============
+
+export const TECH_STACK_DETECTOR: SiteDetector<TechDetectionResult> = {
+  id: 'techStack',
+  label: 'Tech stack',
+  detect: ({ website, session, forceRefresh }) => detectTechStack(website, forceRefresh, session.load)
+};
+
+export const SONIC_BRAND_DETECTOR: SiteDetector<SonicBrandAnalysis> = {
+  id: 'sonicBrand',
+  label: 'Sonic brand',
+  detect: ({ website, place, session, forceRefresh }) => detectSonicBrand(website, place.name, forceRefresh, session.load)
+};
+
+export const CONTACT_DETECTOR: SiteDetector<ContactDiscovery> = {
+  id: 'contacts',
+  label: 'Contacts',
+  detect: ({ website, place, session, forceRefresh }) => discoverContacts(website, place.name, forceRefresh, session.load)
+};
+
+// Their results have their own PlaceResult fields
+export const BUILT_IN_DETECTOR_IDS = [TECH_STACK_DETECTOR.id, SONIC_BRAND_DETECTOR.id, CONTACT_DETECTOR.id];
+
+// ============ Registry ============
+
+const detectors = new Map<string, SiteDetector>([
+  [TECH_STACK_DETECTOR.id, TECH_STACK_DETECTOR],
+  [SONIC_BRAND_DETECTOR.id, SONIC_BRAND_DETECTOR],
+  [CONTACT_DETECTOR.id, CONTACT_DETECTOR]
+]);
+
+/**
+ * Add a detector (replaces one with the same id)
+ */
+export function registerDetector<T>(detector: SiteDetector<T>): void {
+  detectors.set(detector.id, detector);
+}
+
+export function unregisterDetector(id: string): void {
+  detectors.delete(id);
+}
+
+export function getDetectors(): SiteDetector[] {
+  return Array.from(detectors.values());
+}
+
+/**
+ * Run every registered detector on one crawl session. A detector that throws
+ * is logged and left out of the results, unless the scan was cancelled.
+ */
+export async function runDetectors(context: DetectorContext): Promise<DetectionResults> {
+  const results: DetectionResults = {};
+
+  await Promise.all(getDetectors().map(async detector => {
+    try {
+      results[detector.id] = await detector.detect(context);
+    } catch (error) {
+      if (context.signal?.aborted) throw error;
+      console.warn(`${detector.label} detection failed for ${context.website}:`, error);
+    }
+  }));
+
+  return results;
+}
+
+/**
+ * A detector's result, typed by the detector
+ */
+export function getDetection<T>(results: DetectionResults, detector: SiteDetector<T>): T | undefined {
+  return results[detector.id] as T | undefined;
+}
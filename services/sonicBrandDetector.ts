@@ -1,9 +1,13 @@
 /**
  * Sonic Brand Detection Service
- * Detects audio branding presence for restaurants
+ * Detects audio branding presence for restaurants from their website: audio
+ * and video players, jingle mentions and links to YouTube, TikTok, Instagram
+ * and podcast profiles
  */
 
 import { getCache, cacheKey } from './cacheService';
+import { extractPageUrls, CrawledPage } from './siteCrawler';
+import { openCrawlSession, siteKey, PageLoader } from './crawlSession';
 
 export interface SonicBrandAnalysis {
   hasAudio: boolean;
@@ -17,179 +21,237 @@ export interface SonicBrandAnalysis {
   detectedElements: string[];
 }
 
+// Bump when the checks change so cached analyses are redone
+const DETECTION_VERSION = 3;
+
+const JINGLE_KEYWORDS = [
+  'jingle', 'sonic brand', 'sonic logo', 'audio brand', 'sound logo', 'audio logo',
+  'audio identity', 'theme song', 'our song', 'original song'
+];
+
+const PODCAST_HOSTS = [
+  'podcasts.apple.com', 'podcasts.google.com', 'anchor.fm', 'podbean.com',
+  'buzzsprout.com', 'libsyn.com', 'spreaker.com', 'simplecast.com', 'transistor.fm'
+];
+
+// Profile links that are not profiles (share buttons, single posts)
+const NON_PROFILE_PATHS = /^\/(player|share|sharer|intent|watch|embed|p|reel|reels|tv|explore|hashtag|video)(\/|$)/i;
+
 /**
- * Analyze a restaurant's sonic brand presence
+ * Analyze a restaurant's sonic brand presence from its homepage and linked
+ * pages. Pass the loader shared with tech detection so the site is only
+ * crawled once.
  */
 export async function detectSonicBrand(
   website: string,
-  name: string
+  name: string,
+  forceRefresh = false,
+  loadPages: PageLoader = openCrawlSession(website, { forceRefresh }).load
 ): Promise<SonicBrandAnalysis> {
 
   // Extract domain for cache key
   const domain = extractDomain(website);
   const cache = getCache();
-  const cacheKeyString = cacheKey('sonic', domain);
+  const cacheKeyString = cacheKey('sonic', domain, DETECTION_VERSION);
 
   // Try cache first
-  const cached = await cache.get<SonicBrandAnalysis>(cacheKeyString);
+  const cached = forceRefresh ? null : await cache.get<SonicBrandAnalysis>(cacheKeyString);
   if (cached) {
     console.log(`✅ Cache hit for sonic brand: ${domain}`);
     return cached;
   }
 
+  const pages = await loadPages();
+  if (pages.length === 0) {
+    const result = { ...analyzeSonicPages([]), opportunity: 'Unable to analyze' };
+    // Retry soon when the site could not be fetched
+    await cache.set(cacheKeyString, result, 1 * 60 * 60); // 1 hour
+    return result;
+  }
+
+  const result = analyzeSonicPages(pages);
+  if (result.sonicBrandScore > 0) {
+    console.log(`🎵 ${name}: ${result.detectedElements.join(', ')}`);
+  }
+
+  // Cache for 7 days
+  await cache.set(cacheKeyString, result, 7 * 24 * 60 * 60);
+
+  return result;
+}
+
+/**
+ * Score the crawled pages of a site
+ */
+export function analyzeSonicPages(pages: CrawledPage[]): SonicBrandAnalysis {
   const detectedElements: string[] = [];
   let score = 0;
 
-  // Normalize URL
-  if (!website.startsWith('http://') && !website.startsWith('https://')) {
-    website = 'https://' + website;
+  const websiteAudio = checkWebsiteForAudio(pages);
+  if (websiteAudio.length > 0) {
+    detectedElements.push(`Website audio (${websiteAudio.join(', ')})`);
+    score += 15;
   }
 
-  try {
-    // Crawl website for audio elements
-    const hasWebsiteAudio = await checkWebsiteForAudio(website);
-    if (hasWebsiteAudio) {
-      detectedElements.push('Website audio');
-      score += 15;
-    }
-
-    // Check for common audio branding indicators
-    const hasJingleIndicators = await checkJingleIndicators(website);
-    if (hasJingleIndicators) {
-      detectedElements.push('Jingle mentions');
-      score += 20;
-    }
-
-    // Check social media presence (simulated for now)
-    const hasSocialAudio = await checkSocialMediaAudio(name);
-    if (hasSocialAudio) {
-      detectedElements.push('Social audio content');
-      score += 15;
-    }
-
-    // Check YouTube presence (simulated)
-    const hasYouTube = await checkYouTubePresence(name);
-    if (hasYouTube) {
-      detectedElements.push('YouTube channel');
-      score += 10;
-    }
-
-    // Check podcast presence (simulated)
-    const hasPodcast = await checkPodcastPresence(name);
-    if (hasPodcast) {
-      detectedElements.push('Podcast appearances');
-      score += 25;
-    }
-
-    // Check TikTok sounds (simulated)
-    const hasTikTok = await checkTikTokPresence(name);
-    if (hasTikTok) {
-      detectedElements.push('TikTok sounds');
-      score += 15;
-    }
-
-  } catch (error) {
-    console.warn('Sonic brand detection error:', error);
+  const jingleMentions = checkJingleIndicators(pages);
+  if (jingleMentions.length > 0) {
+    detectedElements.push(`Jingle mentions ("${jingleMentions.join('", "')}")`);
+    score += 20;
   }
 
-  // Calculate opportunity message
-  const opportunity = calculateOpportunity(score, detectedElements);
+  const socialAudio = checkSocialMediaAudio(pages);
+  if (socialAudio.length > 0) {
+    detectedElements.push(`Social audio content (${socialAudio.join(', ')})`);
+    score += 15;
+  }
 
-  const result = {
+  // Nearly every restaurant links its Instagram, so a profile alone is weak evidence
+  const instagram = checkInstagramPresence(pages);
+  if (instagram.length > 0) {
+    detectedElements.push(`Instagram profile (${instagram.join(', ')})`);
+    score += 5;
+  }
+
+  const youTube = checkYouTubePresence(pages);
+  if (youTube.length > 0) {
+    detectedElements.push(`YouTube channel (${youTube.join(', ')})`);
+    score += 10;
+  }
+
+  const podcasts = checkPodcastPresence(pages);
+  if (podcasts.length > 0) {
+    detectedElements.push(`Podcast appearances (${podcasts.join(', ')})`);
+    score += 25;
+  }
+
+  const tikTok = checkTikTokPresence(pages);
+  if (tikTok.length > 0) {
+    detectedElements.push(`TikTok presence (${tikTok.join(', ')})`);
+    score += 15;
+  }
+
+  return {
     hasAudio: score > 0,
-    hasJingle: detectedElements.some(e => e.includes('Jingle')),
-    hasPodcast: detectedElements.some(e => e.includes('Podcast')),
-    socialMediaAudio: detectedElements.some(e => e.includes('Social')),
-    youTubeChannel: detectedElements.some(e => e.includes('YouTube')),
-    tiktokSound: detectedElements.some(e => e.includes('TikTok')),
+    hasJingle: jingleMentions.length > 0,
+    hasPodcast: podcasts.length > 0,
+    socialMediaAudio: socialAudio.length > 0,
+    youTubeChannel: youTube.length > 0,
+    tiktokSound: tikTok.length > 0,
     sonicBrandScore: score,
-    opportunity: opportunity,
-    detectedElements: detectedElements
+    opportunity: calculateOpportunity(score, detectedElements),
+    detectedElements
   };
+}
 
-  // Cache for 7 days
-  await cache.set(cacheKeyString, result, 7 * 24 * 60 * 60);
+/**
+ * Extract domain from URL for cache key (the whole URL on shared hosts, see siteKey)
+ */
+function extractDomain(url: string): string {
+  return siteKey(url) || url.toLowerCase().replace(/[^a-z0-9.-]/g, '');
+}
 
-  return result;
+/**
+ * Every href/src URL on the pages
+ */
+const extractUrls = (pages: CrawledPage[]): URL[] => pages.flatMap(extractPageUrls);
+
+const onHost = (url: URL, domain: string): boolean =>
+  url.hostname === domain || url.hostname.endsWith(`.${domain}`);
+
+const unique = (values: string[]): string[] => Array.from(new Set(values));
+
+// "instagram.com/joespizza" for display
+const shortUrl = (url: URL): string => `${url.hostname.replace(/^www\./, '')}${url.pathname.replace(/\/+$/, '')}`;
+
+/**
+ * Profile links on a social host (the first path segment is the handle)
+ */
+function profileLinks(pages: CrawledPage[], domain: string, handlePattern: RegExp = /^\/[^/]+/): string[] {
+  return unique(extractUrls(pages)
+    .filter(url => onHost(url, domain) && handlePattern.test(url.pathname) && !NON_PROFILE_PATHS.test(url.pathname))
+    .map(url => `${url.hostname.replace(/^www\./, '')}${handlePattern.exec(url.pathname)![0]}`));
 }
 
 /**
- * Extract domain from URL for cache key
+ * <video> tags that play with sound; muted or autoplaying ones are background loops
  */
-function extractDomain(url: string): string {
-  try {
-    // Add protocol if missing
-    if (!url.startsWith('http://') && !url.startsWith('https://')) {
-      url = 'https://' + url;
-    }
-    const urlObj = new URL(url);
-    return urlObj.hostname;
-  } catch {
-    return url.toLowerCase().replace(/[^a-z0-9.-]/g, '');
-  }
+function hasAudibleVideo(html: string): boolean {
+  return Array.from(html.matchAll(/<video\b[^>]*>/gi))
+    .some(([tag]) => !/\s(muted|autoplay)\b/i.test(tag));
 }
 
 /**
- * Check website for audio elements
+ * <audio> tags, audible <video> tags, audio files and embedded SoundCloud/Spotify/video players
  */
-async function checkWebsiteForAudio(website: string): Promise<boolean> {
-  try {
-    // In production, this would crawl the actual website
-    // For now, simulate based on common patterns
-    return false; // Most restaurants don't have website audio
-  } catch {
-    return false;
+function checkWebsiteForAudio(pages: CrawledPage[]): string[] {
+  const found: string[] = [];
+  const html = pages.map(p => p.html).join('\n');
+
+  if (/<audio\b/i.test(html)) found.push('<audio>');
+  if (hasAudibleVideo(html)) found.push('<video>');
+
+  const urls = extractUrls(pages);
+  if (urls.some(url => /\.(mp3|wav|m4a|ogg|aac)$/i.test(url.pathname))) found.push('audio file');
+  if (urls.some(url => onHost(url, 'soundcloud.com') && /player/.test(url.hostname + url.pathname))) found.push('SoundCloud player');
+  if (urls.some(url => onHost(url, 'open.spotify.com') && url.pathname.startsWith('/embed'))) found.push('Spotify player');
+  if (urls.some(url => (onHost(url, 'youtube.com') || onHost(url, 'youtube-nocookie.com')) && url.pathname.startsWith('/embed'))) {
+    found.push('YouTube player');
   }
+  if (urls.some(url => onHost(url, 'player.vimeo.com'))) found.push('Vimeo player');
+
+  return found;
 }
 
 /**
- * Check for jingle/audio branding mentions
+ * Jingle and audio branding keywords in the visible page text
  */
-async function checkJingleIndicators(website: string): Promise<boolean> {
-  try {
-    // Look for keywords like "jingle", "audio", "sound branding"
-    const keywords = ['jingle', 'audio brand', 'sonic branding', 'sound logo', 'audio identity'];
-    // In production, crawl and check content
-    return false;
-  } catch {
-    return false;
-  }
+function checkJingleIndicators(pages: CrawledPage[]): string[] {
+  const text = pages
+    .map(p => p.html.replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, ' ').replace(/<[^>]+>/g, ' '))
+    .join(' ')
+    .toLowerCase()
+    .replace(/\s+/g, ' ');
+  return JINGLE_KEYWORDS.filter(keyword => new RegExp(`\\b${keyword}s?\\b`).test(text));
+}
+
+/**
+ * SoundCloud accounts, where restaurants post their own audio
+ */
+function checkSocialMediaAudio(pages: CrawledPage[]): string[] {
+  return profileLinks(pages, 'soundcloud.com');
 }
 
 /**
- * Check social media for audio content
+ * Instagram profiles, where restaurants may post audio-led reels
  */
-async function checkSocialMediaAudio(name: string): Promise<boolean> {
-  // Check Instagram, TikTok, Facebook for audio posts
-  // In production, use APIs or web scraping
-  return false;
+function checkInstagramPresence(pages: CrawledPage[]): string[] {
+  return profileLinks(pages, 'instagram.com');
 }
 
 /**
- * Check YouTube channel presence
+ * YouTube channel links (/@handle, /channel/…, /c/…, /user/…)
  */
-async function checkYouTubePresence(name: string): Promise<boolean> {
-  // Search YouTube for restaurant name
-  // In production, use YouTube API
-  return false;
+function checkYouTubePresence(pages: CrawledPage[]): string[] {
+  return profileLinks(pages, 'youtube.com', /^\/(@[^/]+|(channel|c|user)\/[^/]+)/);
 }
 
 /**
- * Check podcast appearances
+ * Podcast host links, Spotify shows/episodes and podcast RSS feeds
  */
-async function checkPodcastPresence(name: string): Promise<boolean> {
-  // Search podcasts for restaurant name
-  // In production, use podcast search APIs
-  return false;
+function checkPodcastPresence(pages: CrawledPage[]): string[] {
+  return unique(extractUrls(pages)
+    .filter(url =>
+      PODCAST_HOSTS.some(host => onHost(url, host)) ||
+      (onHost(url, 'open.spotify.com') && /^\/(embed\/)?(show|episode)\//.test(url.pathname))
+    )
+    .map(shortUrl));
 }
 
 /**
- * Check TikTok sounds using restaurant name
+ * TikTok profiles (/@handle) and sounds (/music/…)
  */
-async function checkTikTokPresence(name: string): Promise<boolean> {
-  // Search TikTok for restaurant sounds
-  // In production, use TikTok API
-  return false;
+function checkTikTokPresence(pages: CrawledPage[]): string[] {
+  return profileLinks(pages, 'tiktok.com', /^\/(@[^/]+|music\/[^/]+)/);
 }
 
 /**
@@ -4,6 +4,9 @@
  */
 
 import type { PlaceResult } from '../types';
+import type { AIAnalysisResult } from './aiService';
+import { buildTemplateVariables, getActiveScriptTemplate, renderScriptTemplate, ScriptType } from './scriptTemplates';
+import { AudioGenerationConfig, AudioProviderName, generateJingle, generateVoiceover, getVoiceId, spokenText } from './audioGeneration';
 
 export interface SonicBrandPipelineConfig {
   voiceGender: 'male' | 'female' | 'neutral';
@@ -11,6 +14,7 @@ export interface SonicBrandPipelineConfig {
   musicStyle: 'upbeat' | 'jazz' | 'acoustic' | 'electronic' | 'corporate';
   jingleLength: number; // seconds
   includeCallToAction: boolean;
+  variant?: number; // Seeds template picks: the same lead and variant always get the same scripts
 }
 
 export interface SonicBrandOutput {
@@ -25,9 +29,12 @@ export interface SonicBrandOutput {
     podcastIntroScript: string;
   };
   audio: {
-    jingleUrl: string;
+    jingleAssetId: string;
+    jingleUrl: string; // Signed links, valid for a day
     voiceoverUrl: string;
     leadMagnetUrl: string;
+    previewUrl: string; // Signed link to the jingle for outreach emails, valid for 30 days
+    provider: AudioProviderName;
   };
   outreach: {
     emailSubject: string;
@@ -37,6 +44,7 @@ export interface SonicBrandOutput {
   metadata: {
     generatedAt: string;
     config: SonicBrandPipelineConfig;
+    templates: Record<ScriptType, string>; // Template id used for each script
     productionTime: number; // seconds
   };
 }
@@ -46,19 +54,21 @@ export interface SonicBrandOutput {
  */
 export async function generateSonicBrandPipeline(
   restaurant: PlaceResult,
-  config: SonicBrandPipelineConfig = getDefaultConfig()
+  config: SonicBrandPipelineConfig = getDefaultConfig(),
+  analysis?: AIAnalysisResult
 ): Promise<SonicBrandOutput> {
 
   const startTime = Date.now();
+  const variant = config.variant ?? 0;
 
   // Step 1: Analyze restaurant & generate brand assets
-  const brandAssets = await generateBrandAssets(restaurant);
+  const brandAssets = await generateBrandAssets(restaurant, analysis, variant);
 
   // Step 2: Generate scripts
-  const scripts = await generateAllScripts(restaurant, brandAssets, config);
+  const { scripts, templates } = await generateAllScripts(restaurant, brandAssets, analysis, variant);
 
-  // Step 3: Generate audio (placeholder for AI integration)
-  const audio = await generateAudioContent(scripts, config);
+  // Step 3: Generate audio
+  const audio = await generateAudioContent(restaurant, scripts, config);
 
   // Step 4: Generate outreach email
   const outreach = await generateOutreachPackage(restaurant, scripts, audio);
@@ -77,145 +87,87 @@ export async function generateSonicBrandPipeline(
     metadata: {
       generatedAt: new Date().toISOString(),
       config,
+      templates: { ...brandAssets.templates, ...templates },
       productionTime
     }
   };
 }
 
 /**
- * Generate brand assets from restaurant analysis
+ * Generate brand assets (tagline and USP) from the active templates
  */
-async function generateBrandAssets(restaurant: PlaceResult) {
-  // Extract unique selling points from restaurant data
-  const type = restaurant.types[0] || 'restaurant';
-  const priceLevel = restaurant.priceLevel || 'PRICE_LEVEL_MODERATE';
-  const rating = restaurant.rating;
-
-  // Generate tagline based on characteristics
-  const taglines = [
-    `Taste the difference at ${restaurant.name}`,
-    `${restaurant.name} - Where ${type} becomes an experience`,
-    `Your table is waiting at ${restaurant.name}`,
-    `${restaurant.name} - ${rating} stars of excellence`,
-    `Experience ${type} reimagined at ${restaurant.name}`
-  ];
-
-  const tagline = taglines[Math.floor(Math.random() * taglines.length)];
-
-  // Generate USP (Unique Selling Proposition)
-  const usps = [
-    `Locally sourced ingredients, prepared with passion`,
-    `A culinary journey you won't forget`,
-    `Where every meal tells a story`,
-    `Farm-fresh ingredients, time-honored recipes`,
-    `The best ${type} in town, backed by ${rating} stars`
-  ];
-
-  const usp = usps[Math.floor(Math.random() * usps.length)];
+async function generateBrandAssets(restaurant: PlaceResult, analysis: AIAnalysisResult | undefined, variant: number) {
+  const variables = buildTemplateVariables(restaurant, analysis);
+  const taglineTemplate = getActiveScriptTemplate('tagline');
+  const uspTemplate = getActiveScriptTemplate('usp');
 
   return {
-    tagline,
-    usp
+    tagline: renderScriptTemplate(taglineTemplate, variables, variant),
+    usp: renderScriptTemplate(uspTemplate, variables, variant),
+    templates: { tagline: taglineTemplate.id, usp: uspTemplate.id }
   };
 }
 
 /**
- * Generate all audio scripts
+ * Generate all audio scripts from the active templates
  */
 async function generateAllScripts(
   restaurant: PlaceResult,
-  brandAssets: any,
-  config: SonicBrandPipelineConfig
+  brandAssets: { tagline: string; usp: string },
+  analysis: AIAnalysisResult | undefined,
+  variant: number
 ) {
-  // Jingle Script (15-30 seconds)
-  const jingleScript = generateJingleScript(restaurant, brandAssets);
-
-  // Lead Magnet Script (60 seconds - podcast intro)
-  const leadMagnetScript = generateLeadMagnetScript(restaurant, brandAssets);
-
-  // Podcast Intro Script (30 seconds)
-  const podcastIntroScript = generatePodcastIntroScript(restaurant, brandAssets);
+  const variables = buildTemplateVariables(restaurant, analysis, brandAssets);
+  const jingleTemplate = getActiveScriptTemplate('jingle'); // 15-30 seconds
+  const leadMagnetTemplate = getActiveScriptTemplate('leadMagnet'); // 30-60 seconds
+  const podcastIntroTemplate = getActiveScriptTemplate('podcastIntro'); // 20-30 seconds
 
   return {
-    jingleScript,
-    leadMagnetScript,
-    podcastIntroScript
+    scripts: {
+      jingleScript: renderScriptTemplate(jingleTemplate, variables, variant),
+      leadMagnetScript: renderScriptTemplate(leadMagnetTemplate, variables, variant),
+      podcastIntroScript: renderScriptTemplate(podcastIntroTemplate, variables, variant)
+    },
+    templates: { jingle: jingleTemplate.id, leadMagnet: leadMagnetTemplate.id, podcastIntro: podcastIntroTemplate.id }
   };
 }
 
-/**
- * Generate jingle script
- */
-function generateJingleScript(restaurant: PlaceResult, brandAssets: any): string {
-  return `[SOUND: Upbeat, inviting music - 3 second intro]
-
-"${brandAssets.tagline}"
-
-"${brandAssets.usp}"
-
-${restaurant.name}
-
-[SOUND: Memorable 3-note musical tag to end]
-
-[DURATION: 15-20 seconds]`;
-}
-
-/**
- * Generate lead magnet script
- */
-function generateLeadMagnetScript(restaurant: PlaceResult, brandAssets: any): string {
-  return `[INTRO: Warm, engaging music - fades under voiceover]
-
-"Hi there! Are you ready to experience the best dining in town?"
-
-"At ${restaurant.name}, we believe every meal should be memorable."
-
-"${brandAssets.usp}"
-
-"Visit us at ${restaurant.address || 'our convenient location'}"
-
-"Or order online for pickup or delivery."
-
-"${restaurant.name} - ${brandAssets.tagline}"
-
-[MUSIC: Swells to finish]
-
-[DURATION: 30-45 seconds]`;
-}
-
-/**
- * Generate podcast intro script
- */
-function generatePodcastIntroScript(restaurant: PlaceResult, brandAssets: any): string {
-  return `"Welcome to ${restaurant.name} - The Podcast!"
-
-"I'm your host, and today we're exploring what makes ${restaurant.name} special."
-
-"${brandAssets.usp}"
-
-"From our kitchen to your table, every dish tells a story."
-
-"Let's dive in."
-
-[DURATION: 20-30 seconds]`;
-}
+// Pipeline music styles in the audio service's vocabulary
+const MUSIC_STYLES: Record<SonicBrandPipelineConfig['musicStyle'], AudioGenerationConfig['musicStyle']> = {
+  upbeat: 'upbeat',
+  jazz: 'jazzy',
+  acoustic: 'traditional',
+  electronic: 'ambient',
+  corporate: 'upbeat'
+};
 
 /**
- * Generate audio content (placeholder for AI integration)
- * In production, this would call:
- * - FAL AI for music generation
- * - ElevenLabs for voiceover
- * - Web Audio API for mixing
+ * Generate audio content through the audio route: the jingle (music +
+ * voiceover mix) and the lead magnet voiceover, stored for this restaurant
  */
 async function generateAudioContent(
+  restaurant: PlaceResult,
   scripts: any,
   config: SonicBrandPipelineConfig
-) {
-  // Placeholder URLs - in production, these would be actual generated audio
+): Promise<SonicBrandOutput['audio']> {
+  const context = { placeId: restaurant.placeId, restaurantName: restaurant.name };
+
+  const [jingle, leadMagnet] = await Promise.all([
+    generateJingle(scripts.jingleScript, {
+      musicStyle: MUSIC_STYLES[config.musicStyle],
+      voiceGender: config.voiceGender,
+      duration: config.jingleLength
+    }, context),
+    generateVoiceover(spokenText(scripts.leadMagnetScript), getVoiceId(config.voiceGender), context)
+  ]);
+
   return {
-    jingleUrl: `https://api.ugcaudio.com/jingles/${Date.now()}.mp3`,
-    voiceoverUrl: `https://api.ugcaudio.com/voiceovers/${Date.now()}.mp3`,
-    leadMagnetUrl: `https://api.ugcaudio.com/lead-magnets/${Date.now()}.mp3`
+    jingleAssetId: jingle.mixedAssetId,
+    jingleUrl: jingle.urls.mixed,
+    voiceoverUrl: jingle.urls.voiceover,
+    leadMagnetUrl: leadMagnet.url,
+    previewUrl: jingle.previewUrl,
+    provider: jingle.provider
   };
 }
 
@@ -225,7 +177,7 @@ async function generateAudioContent(
 async function generateOutreachPackage(
   restaurant: PlaceResult,
   scripts: any,
-  audio: any
+  audio: SonicBrandOutput['audio']
 ) {
   const subject = `Your custom sonic brand for ${restaurant.name} 🎵`;
 
@@ -240,8 +192,7 @@ I created a custom sonic brand for ${restaurant.name} - completely free.
 ✅ Social media audio content
 
 **Listen to Your Custom Audio:**
-🎵 [Play Jingle] - ${audio.jingleUrl}
-🎙️ [Play Voiceover] - ${audio.voiceoverUrl}
+🎵 [Play Jingle] - ${audio.previewUrl}
 
 **Why Audio Branding?**
 Restaurants with sonic branding see:
@@ -268,57 +219,77 @@ P.S. I also help restaurants with better online ordering systems. If you're look
   return {
     emailSubject: subject,
     emailBody: body,
-    audioPreviewUrl: audio.jingleUrl
+    audioPreviewUrl: audio.previewUrl
   };
 }
 
+export interface BatchPipelineResult {
+  restaurant: PlaceResult;
+  pipeline?: SonicBrandOutput; // Missing when generation failed
+  error?: string;
+}
+
 /**
- * Generate pipeline for multiple restaurants (batch processing)
+ * Generate pipeline for multiple restaurants (batch processing). A failed
+ * restaurant is reported with its error instead of failing the batch; results
+ * are in the order of `restaurants`.
  */
 export async function generateBatchPipelines(
   restaurants: PlaceResult[],
   config: SonicBrandPipelineConfig = getDefaultConfig()
-): Promise<SonicBrandOutput[]> {
+): Promise<BatchPipelineResult[]> {
 
-  const pipelines: SonicBrandOutput[] = [];
+  const results: BatchPipelineResult[] = [];
 
   // Process in batches of 5 to avoid overwhelming APIs
   for (let i = 0; i < restaurants.length; i += 5) {
     const batch = restaurants.slice(i, i + 5);
-    const batchResults = await Promise.all(
+    const settled = await Promise.allSettled(
       batch.map(r => generateSonicBrandPipeline(r, config))
     );
-    pipelines.push(...batchResults);
+    settled.forEach((outcome, j) => {
+      const restaurant = batch[j];
+      if (outcome.status === 'fulfilled') {
+        results.push({ restaurant, pipeline: outcome.value });
+      } else {
+        const error = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+        console.error(`SonicBrand pipeline failed for ${restaurant.name}:`, error);
+        results.push({ restaurant, error });
+      }
+    });
 
     // Small delay between batches
     await new Promise(resolve => setTimeout(resolve, 1000));
   }
 
-  return pipelines;
+  return results;
 }
 
 /**
  * Get default pipeline config
  */
-function getDefaultConfig(): SonicBrandPipelineConfig {
+export function getDefaultConfig(): SonicBrandPipelineConfig {
   return {
     voiceGender: 'neutral',
     voiceStyle: 'energetic',
     musicStyle: 'upbeat',
     jingleLength: 20,
-    includeCallToAction: true
+    includeCallToAction: true,
+    variant: 0
   };
 }
 
 /**
- * Quick preview - generate just the scripts (no audio)
+ * Quick preview - generate just the jingle script (no audio)
  */
 export async function generatePreviewScript(
-  restaurant: PlaceResult
+  restaurant: PlaceResult,
+  analysis?: AIAnalysisResult,
+  variant: number = 0
 ): Promise<string> {
 
-  const brandAssets = await generateBrandAssets(restaurant);
-  const script = generateJingleScript(restaurant, brandAssets);
+  const brandAssets = await generateBrandAssets(restaurant, analysis, variant);
+  const { scripts } = await generateAllScripts(restaurant, brandAssets, analysis, variant);
 
-  return script;
+  return scripts.jingleScript;
 }
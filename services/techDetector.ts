@@ -3,7 +3,13 @@
  * Crawls restaurant websites to detect platforms, ordering systems, POS, delivery, and more
  */
 
+import type { TechCategory, VendorEvidence, PatternMatch, PatternType, OrderingClassification } from '../types';
 import { getCache, cacheKey } from './cacheService';
+import { recordTechSnapshot } from './techHistory';
+import type { CrawledPage } from './siteCrawler';
+import { openCrawlSession, siteKey, PageLoader } from './crawlSession';
+import { classifyOrdering, hasDirectOrdering } from './orderingClassifier';
+import { getActivePatterns, getPatternCatalogVersion, vendorRef, DetectionPattern } from './patternPacks';
 
 export interface TechDetectionResult {
   websitePlatform: string;
@@ -15,463 +21,223 @@ export interface TechDetectionResult {
   otherScripts: string[];
   confidence: number; // 0-100
   hasFirstPartyOrdering: boolean;
+  ordering: OrderingClassification;
+  pagesCrawled: string[];
+  evidence: VendorEvidence[];
 }
 
-interface DetectionPattern {
-  name: string;
-  patterns: {
-    domain?: string[];
-    scriptSrc?: string[];
-    htmlContent?: string[];
-    metaTags?: string[];
-    linkTags?: string[];
-  };
+// How much a single match of each pattern type says about a vendor (0-1)
+const PATTERN_WEIGHTS: Record<PatternType | 'scriptTag', number> = {
+  domain: 0.95, // The site itself is hosted on the vendor
+  scriptTag: 0.9, // Signature inside a <script src=...>
+  metaTags: 0.8,
+  linkTags: 0.75,
+  regex: 0.8, // Pack-authored expression, usually a specific URL shape
+  scriptSrc: 0.7, // Signature found in the page, but not in a script tag
+  htmlContent: 0.5, // Plain text/markup mention
+  implied: 0.9 // Scaled by the implying vendor's confidence
+};
+
+const SNIPPET_RADIUS = 60;
+
+const collapse = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+function snippetAround(content: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(content.length, index + length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${collapse(content.slice(start, end))}${end < content.length ? '…' : ''}`;
 }
 
-// Detection patterns for various platforms
-const WEBSITE_PLATFORMS: DetectionPattern[] = [
-  {
-    name: 'WordPress',
-    patterns: {
-      scriptSrc: ['/wp-content/', '/wp-includes/'],
-      htmlContent: ['wp-content', 'WordPress'],
-      metaTags: ['WordPress']
-    }
-  },
-  {
-    name: 'Wix',
-    patterns: {
-      domain: ['.wixsite.com', '.wix.com'],
-      scriptSrc: ['static.parastorage.com', 'wix.com'],
-      htmlContent: ['wix.com', 'X-Wix-']
-    }
-  },
-  {
-    name: 'Squarespace',
-    patterns: {
-      domain: ['.squarespace.com'],
-      scriptSrc: ['squarespace.com', 'sqsp.com'],
-      htmlContent: ['Squarespace']
-    }
-  },
-  {
-    name: 'BentoBox',
-    patterns: {
-      domain: ['.bentoboxapp.com', '.getbento.com'],
-      scriptSrc: ['bentobox', 'getbento'],
-      htmlContent: ['BentoBox']
-    }
-  },
-  {
-    name: 'Shopify',
-    patterns: {
-      domain: ['.myshopify.com'],
-      scriptSrc: ['cdn.shopify.com'],
-      htmlContent: ['Shopify']
-    }
-  },
-  {
-    name: 'GoDaddy',
-    patterns: {
-      scriptSrc: ['godaddy.com', 'secureserver.net'],
-      htmlContent: ['GoDaddy']
-    }
-  }
-];
-
-const ORDERING_SYSTEMS: DetectionPattern[] = [
-  {
-    name: 'Owner.com',
-    patterns: {
-      domain: ['.owner.com', '.tryowner.com'],
-      scriptSrc: ['owner.com'],
-      htmlContent: ['owner.com', 'Owner.com']
-    }
-  },
-  {
-    name: 'ChowNow',
-    patterns: {
-      domain: ['.chownow.com'],
-      scriptSrc: ['chownow.com'],
-      htmlContent: ['ChowNow', 'chownow']
-    }
-  },
-  {
-    name: 'Toast',
-    patterns: {
-      scriptSrc: ['toasttab.com', 'toast.com'],
-      htmlContent: ['Toast Online Ordering', 'toasttab']
-    }
-  },
-  {
-    name: 'Olo',
-    patterns: {
-      scriptSrc: ['olo.com'],
-      htmlContent: ['olo.com', 'Olo']
-    }
-  },
-  {
-    name: 'Slice',
-    patterns: {
-      scriptSrc: ['slicelife.com'],
-      htmlContent: ['Slice', 'slicelife']
-    }
-  },
-  {
-    name: 'Square Online',
-    patterns: {
-      scriptSrc: ['square.site', 'squareup.com'],
-      htmlContent: ['Square', 'squareup']
-    }
-  },
-  {
-    name: 'Grubhub Direct',
-    patterns: {
-      scriptSrc: ['grubhub.com/direct'],
-      htmlContent: ['Grubhub Direct']
-    }
-  }
-];
-
-const RESERVATION_SYSTEMS: DetectionPattern[] = [
-  {
-    name: 'OpenTable',
-    patterns: {
-      scriptSrc: ['opentable.com'],
-      htmlContent: ['OpenTable', 'opentable']
-    }
-  },
-  {
-    name: 'Resy',
-    patterns: {
-      scriptSrc: ['resy.com'],
-      htmlContent: ['Resy', 'resy.com']
-    }
-  },
-  {
-    name: 'SevenRooms',
-    patterns: {
-      scriptSrc: ['sevenrooms.com'],
-      htmlContent: ['SevenRooms', 'sevenrooms']
-    }
-  },
-  {
-    name: 'Yelp Reservations',
-    patterns: {
-      scriptSrc: ['yelp.com/reservations'],
-      htmlContent: ['Yelp Reservations']
-    }
-  },
-  {
-    name: 'Tock',
-    patterns: {
-      scriptSrc: ['exploretock.com'],
-      htmlContent: ['Tock', 'exploretock']
-    }
-  }
-];
-
-const DELIVERY_PLATFORMS: DetectionPattern[] = [
-  {
-    name: 'DoorDash',
-    patterns: {
-      scriptSrc: ['doordash.com'],
-      htmlContent: ['DoorDash', 'doordash']
-    }
-  },
-  {
-    name: 'UberEats',
-    patterns: {
-      scriptSrc: ['ubereats.com'],
-      htmlContent: ['Uber Eats', 'UberEats', 'ubereats']
-    }
-  },
-  {
-    name: 'Grubhub',
-    patterns: {
-      scriptSrc: ['grubhub.com'],
-      htmlContent: ['Grubhub', 'grubhub']
-    }
-  },
-  {
-    name: 'Postmates',
-    patterns: {
-      scriptSrc: ['postmates.com'],
-      htmlContent: ['Postmates', 'postmates']
-    }
-  }
-];
-
-const POS_SYSTEMS: DetectionPattern[] = [
-  {
-    name: 'Toast',
-    patterns: {
-      scriptSrc: ['toasttab.com'],
-      htmlContent: ['Toast POS', 'toasttab']
-    }
-  },
-  {
-    name: 'Square',
-    patterns: {
-      scriptSrc: ['squareup.com', 'square.site'],
-      htmlContent: ['Square', 'squareup']
-    }
-  },
-  {
-    name: 'Clover',
-    patterns: {
-      scriptSrc: ['clover.com'],
-      htmlContent: ['Clover', 'clover.com']
-    }
-  },
-  {
-    name: 'Lightspeed',
-    patterns: {
-      scriptSrc: ['lightspeedhq.com'],
-      htmlContent: ['Lightspeed']
-    }
-  },
-  {
-    name: 'Aloha',
-    patterns: {
-      htmlContent: ['Aloha POS', 'NCR Aloha']
-    }
-  }
-];
-
-const LOYALTY_CRM: DetectionPattern[] = [
-  {
-    name: 'Thanx',
-    patterns: {
-      scriptSrc: ['thanx.com'],
-      htmlContent: ['Thanx', 'thanx.com']
-    }
-  },
-  {
-    name: 'Punchh',
-    patterns: {
-      scriptSrc: ['punchh.com'],
-      htmlContent: ['Punchh']
-    }
-  },
-  {
-    name: 'Paytronix',
-    patterns: {
-      scriptSrc: ['paytronix.com'],
-      htmlContent: ['Paytronix']
-    }
-  }
-];
-
-const OTHER_SCRIPTS: DetectionPattern[] = [
-  {
-    name: 'Google Analytics 4',
-    patterns: {
-      scriptSrc: ['googletagmanager.com/gtag', 'google-analytics.com/analytics.js']
-    }
-  },
-  {
-    name: 'Meta Pixel',
-    patterns: {
-      scriptSrc: ['connect.facebook.net']
-    }
-  },
-  {
-    name: 'Hotjar',
-    patterns: {
-      scriptSrc: ['hotjar.com']
-    }
-  }
-];
-
-/**
- * Crawl a website and extract HTML content
- */
-async function crawlWebsite(url: string): Promise<string | null> {
-  try {
-    // Normalize URL
-    if (!url.startsWith('http://') && !url.startsWith('https://')) {
-      url = 'https://' + url;
-    }
-
-    // Detect if we're on Vercel or localhost
-    const isProduction = import.meta.env.PROD || window.location.hostname !== 'localhost';
-    const PROXY_BASE = isProduction ? '/api' : 'http://localhost:3001/api';
-    const proxyUrl = `${PROXY_BASE}/proxy?url=${encodeURIComponent(url)}`;
-
-    const response = await fetch(proxyUrl, {
-      signal: AbortSignal.timeout(10000) // 10 second timeout
-    });
-
-    if (!response.ok) {
-      console.warn(`Failed to crawl ${url} via proxy: ${response.status}`);
-      return null;
-    }
-
-    const html = await response.text();
-    return html;
-  } catch (error) {
-    console.warn(`Error crawling ${url}:`, error);
-    return null;
-  }
-}
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
 /**
- * Check if any pattern matches the content
+ * Find every signature of a pattern that matches the page (one match per signature)
  */
-function matchesPattern(content: string, url: string, pattern: DetectionPattern): boolean {
+function findPatternMatches(content: string, url: string, pattern: DetectionPattern): PatternMatch[] {
   const lowerContent = content.toLowerCase();
   const lowerUrl = url.toLowerCase();
+  const matches: PatternMatch[] = [];
 
   // Check domain patterns
-  if (pattern.patterns.domain) {
-    for (const domain of pattern.patterns.domain) {
-      if (lowerUrl.includes(domain.toLowerCase())) {
-        return true;
-      }
+  for (const domain of pattern.match.domain || []) {
+    if (lowerUrl.includes(domain.toLowerCase())) {
+      matches.push({ patternType: 'domain', pattern: domain, snippet: url, page: url });
     }
   }
 
-  // Check script src patterns
-  if (pattern.patterns.scriptSrc) {
-    for (const scriptPattern of pattern.patterns.scriptSrc) {
-      if (lowerContent.includes(scriptPattern.toLowerCase())) {
-        return true;
-      }
+  // Check script src patterns (prefer the script tag itself as the snippet)
+  for (const scriptPattern of pattern.match.scriptSrc || []) {
+    const scriptTag = new RegExp(`<script[^>]*src=["'][^"']*${escapeRegex(scriptPattern)}[^"']*["'][^>]*>`, 'i').exec(content);
+    if (scriptTag) {
+      matches.push({ patternType: 'scriptSrc', pattern: scriptPattern, snippet: collapse(scriptTag[0]), page: url });
+      continue;
+    }
+    const index = lowerContent.indexOf(scriptPattern.toLowerCase());
+    if (index !== -1) {
+      matches.push({ patternType: 'scriptSrc', pattern: scriptPattern, snippet: snippetAround(content, index, scriptPattern.length), page: url });
     }
   }
 
   // Check HTML content patterns
-  if (pattern.patterns.htmlContent) {
-    for (const htmlPattern of pattern.patterns.htmlContent) {
-      if (lowerContent.includes(htmlPattern.toLowerCase())) {
-        return true;
-      }
+  for (const htmlPattern of pattern.match.htmlContent || []) {
+    const index = lowerContent.indexOf(htmlPattern.toLowerCase());
+    if (index !== -1) {
+      matches.push({ patternType: 'htmlContent', pattern: htmlPattern, snippet: snippetAround(content, index, htmlPattern.length), page: url });
     }
   }
 
   // Check meta tags
-  if (pattern.patterns.metaTags) {
-    for (const metaPattern of pattern.patterns.metaTags) {
-      const metaRegex = new RegExp(`<meta[^>]*${metaPattern}[^>]*>`, 'i');
-      if (metaRegex.test(content)) {
-        return true;
-      }
+  for (const metaPattern of pattern.match.metaTags || []) {
+    const tag = new RegExp(`<meta[^>]*${metaPattern}[^>]*>`, 'i').exec(content);
+    if (tag) {
+      matches.push({ patternType: 'metaTags', pattern: metaPattern, snippet: collapse(tag[0]), page: url });
+    }
+  }
+
+  // Check link tags
+  for (const linkPattern of pattern.match.linkTags || []) {
+    const tag = new RegExp(`<link[^>]*${escapeRegex(linkPattern)}[^>]*>`, 'i').exec(content);
+    if (tag) {
+      matches.push({ patternType: 'linkTags', pattern: linkPattern, snippet: collapse(tag[0]), page: url });
     }
   }
 
-  return false;
+  // Check regular expressions
+  for (const source of pattern.match.regex || []) {
+    const match = new RegExp(source, 'i').exec(content);
+    if (match) {
+      matches.push({ patternType: 'regex', pattern: source, snippet: snippetAround(content, match.index, match[0].length), page: url });
+    }
+  }
+
+  return matches;
 }
 
 /**
- * Detect platforms from a list of patterns
+ * Per-vendor confidence: independent matches reinforce each other,
+ * so confidence = 1 - Π(1 - weight) over all matches, capped at 99
  */
-function detectFromPatterns(html: string, url: string, patterns: DetectionPattern[]): string[] {
-  const detected: string[] = [];
+function calculateVendorConfidence(matches: PatternMatch[]): number {
+  const miss = matches.reduce((acc, match) => {
+    const inScriptTag = match.patternType === 'scriptSrc' && match.snippet.toLowerCase().startsWith('<script');
+    return acc * (1 - PATTERN_WEIGHTS[inScriptTag ? 'scriptTag' : match.patternType]);
+  }, 1);
+  return Math.min(99, Math.round((1 - miss) * 100));
+}
 
-  for (const pattern of patterns) {
-    if (matchesPattern(html, url, pattern)) {
-      detected.push(pattern.name);
+/**
+ * Run detection on each crawled page and merge the results,
+ * recording the matches (and pages) behind every vendor
+ */
+function mergePageDetections(
+  pages: CrawledPage[],
+  patterns: DetectionPattern[],
+  evidence: VendorEvidence[]
+): void {
+  const matchesByVendor = new Map<string, { category: TechCategory; matches: PatternMatch[] }>();
+
+  for (const page of pages) {
+    for (const pattern of patterns) {
+      const matches = findPatternMatches(page.html, page.url, pattern);
+      if (matches.length === 0) continue;
+      const ref = vendorRef(pattern.category, pattern.name);
+      const existing = matchesByVendor.get(ref)?.matches || [];
+      matchesByVendor.set(ref, { category: pattern.category, matches: [...existing, ...matches] });
     }
   }
 
-  return detected;
+  for (const [ref, { category, matches }] of matchesByVendor) {
+    evidence.push({
+      category,
+      vendor: ref.slice(category.length + 1),
+      pages: Array.from(new Set(matches.map(m => m.page))),
+      matches,
+      confidence: calculateVendorConfidence(matches)
+    });
+  }
 }
 
 /**
- * Determine if the restaurant has first-party ordering
- * (ordering system on their own domain, not a third-party widget)
+ * Apply the packs' implies/excludes rules: implied vendors are added with a
+ * confidence derived from the vendor implying them, then anything excluded by
+ * a detected vendor is dropped (e.g. Grubhub Direct is not Grubhub delivery)
  */
-function hasFirstPartyOrdering(html: string, url: string, orderingSystems: string[]): boolean {
-  // If no ordering systems detected, no first-party ordering
-  if (orderingSystems.length === 0) return false;
-
-  // Check if ordering is integrated into their own domain
-  const domain = new URL(url.startsWith('http') ? url : 'https://' + url).hostname;
-
-  // Look for common first-party ordering indicators
-  const firstPartyIndicators = [
-    'order online',
-    'order now',
-    'place order',
-    'add to cart',
-    'checkout',
-    'menu',
-    '/order',
-    '/menu'
-  ];
-
-  const lowerHtml = html.toLowerCase();
-  const hasOrderingUI = firstPartyIndicators.some(indicator =>
-    lowerHtml.includes(indicator)
-  );
+function applyVendorRules(evidence: VendorEvidence[], patterns: DetectionPattern[]): VendorEvidence[] {
+  const patternsByRef = new Map(patterns.map(p => [vendorRef(p.category, p.name), p]));
+  const detected = new Map(evidence.map(e => [vendorRef(e.category, e.vendor), e]));
+
+  for (const source of [...detected.values()]) {
+    const sourceRef = vendorRef(source.category, source.vendor);
+    for (const ref of patternsByRef.get(sourceRef)?.implies || []) {
+      if (detected.has(ref)) continue;
+      const [category, ...name] = ref.split(':');
+      detected.set(ref, {
+        category: category as TechCategory,
+        vendor: name.join(':'),
+        pages: source.pages,
+        matches: [{ patternType: 'implied', pattern: sourceRef, snippet: `Implied by ${source.vendor}`, page: source.pages[0] }],
+        confidence: Math.round(source.confidence * PATTERN_WEIGHTS.implied)
+      });
+    }
+  }
 
-  // If they have ordering systems AND ordering UI on their domain, it's likely first-party
-  // Exception: if it's clearly a third-party widget (iframe, external domain)
-  const hasThirdPartyWidget = lowerHtml.includes('<iframe') && (
-    lowerHtml.includes('chownow') ||
-    lowerHtml.includes('doordash') ||
-    lowerHtml.includes('ubereats') ||
-    lowerHtml.includes('grubhub')
+  const excluded = new Set(
+    [...detected.keys()].flatMap(ref => patternsByRef.get(ref)?.excludes || [])
   );
+  return [...detected.entries()].filter(([ref]) => !excluded.has(ref)).map(([, e]) => e);
+}
 
-  return hasOrderingUI && !hasThirdPartyWidget;
+/**
+ * Detected vendors of one category, in catalogue order so "first match"
+ * semantics stay stable
+ */
+function vendorsInCategory(evidence: VendorEvidence[], patterns: DetectionPattern[], category: TechCategory): string[] {
+  const order = patterns.filter(p => p.category === category).map(p => p.name);
+  const rank = (vendor: string) => (order.includes(vendor) ? order.indexOf(vendor) : order.length);
+  return evidence
+    .filter(e => e.category === category)
+    .map(e => e.vendor)
+    .sort((a, b) => rank(a) - rank(b));
 }
 
 /**
- * Calculate confidence score based on number of detections
+ * Overall confidence: mean confidence of the detected vendors (analytics
+ * scripts excluded), or 20 when nothing was found (we at least tried)
  */
-function calculateConfidence(detections: {
-  platform: string[];
-  ordering: string[];
-  reservations: string[];
-  delivery: string[];
-  pos: string[];
-  loyalty: string[];
-  other: string[];
-}): number {
-  const totalDetections =
-    (detections.platform.length > 0 ? 1 : 0) +
-    detections.ordering.length +
-    detections.reservations.length +
-    detections.delivery.length +
-    detections.pos.length +
-    detections.loyalty.length;
-
-  // Base confidence on number of successful detections
-  // 0 detections = 20% (we at least tried)
-  // 1-2 detections = 40-60%
-  // 3+ detections = 70-90%
-
-  if (totalDetections === 0) return 20;
-  if (totalDetections === 1) return 40;
-  if (totalDetections === 2) return 60;
-  if (totalDetections === 3) return 75;
-  return Math.min(90, 75 + (totalDetections - 3) * 5);
+function calculateOverallConfidence(evidence: VendorEvidence[]): number {
+  const relevant = evidence.filter(e => e.category !== 'otherScripts');
+  if (relevant.length === 0) return 20;
+  return Math.round(relevant.reduce((acc, e) => acc + e.confidence, 0) / relevant.length);
 }
 
 /**
- * Main tech detection function
+ * Main tech detection function. Pass the crawl session's loader shared with
+ * the other detectors so the site is only crawled once.
  */
-export async function detectTechStack(website: string): Promise<TechDetectionResult> {
+export async function detectTechStack(
+  website: string,
+  forceRefresh = false,
+  loadPages: PageLoader = openCrawlSession(website, { forceRefresh }).load
+): Promise<TechDetectionResult> {
   // Extract domain for cache key
   const domain = extractDomain(website);
   const cache = getCache();
-  const cacheKeyString = cacheKey('tech', domain);
+  // The packs' content hash is part of the key so edited packs trigger a fresh detection
+  const cacheKeyString = cacheKey('tech', domain, getPatternCatalogVersion());
 
   // Try cache first
-  const cached = await cache.get<TechDetectionResult>(cacheKeyString);
+  const cached = forceRefresh ? null : await cache.get<TechDetectionResult>(cacheKeyString);
   if (cached) {
     console.log(`✅ Cache hit for tech stack: ${domain}`);
     return cached;
   }
 
-  // Crawl the website
-  const html = await crawlWebsite(website);
+  // Crawl the homepage plus linked ordering/menu/reservation pages
+  const pages = await loadPages();
 
-  if (!html) {
+  if (pages.length === 0) {
     // Return unknown/low confidence result
-    const result = {
+    const result: TechDetectionResult = {
       websitePlatform: 'Unknown',
       onlineOrdering: [],
       reservations: [],
@@ -480,71 +246,70 @@ export async function detectTechStack(website: string): Promise<TechDetectionRes
       pos: [],
       otherScripts: [],
       confidence: 10,
-      hasFirstPartyOrdering: false
+      hasFirstPartyOrdering: false,
+      ordering: { verdict: 'none', links: [] },
+      pagesCrawled: [],
+      evidence: []
     };
     // Still cache failures for a short time to avoid repeated failed crawls
     await cache.set(cacheKeyString, result, 1 * 60 * 60); // 1 hour
     return result;
   }
 
-  // Detect all platforms
-  const platformDetections = detectFromPatterns(html, website, WEBSITE_PLATFORMS);
-  const orderingDetections = detectFromPatterns(html, website, ORDERING_SYSTEMS);
-  const reservationDetections = detectFromPatterns(html, website, RESERVATION_SYSTEMS);
-  const deliveryDetections = detectFromPatterns(html, website, DELIVERY_PLATFORMS);
-  const posDetections = detectFromPatterns(html, website, POS_SYSTEMS);
-  const loyaltyDetections = detectFromPatterns(html, website, LOYALTY_CRM);
-  const otherDetections = detectFromPatterns(html, website, OTHER_SCRIPTS);
+  // Detect all platforms on every page, keeping the pages each vendor was seen on
+  const patterns = getActivePatterns();
+  const detected: VendorEvidence[] = [];
+
+  // The website platform is a property of the site, so only the homepage counts
+  mergePageDetections(pages.slice(0, 1), patterns.filter(p => p.category === 'websitePlatform'), detected);
+  mergePageDetections(pages, patterns.filter(p => p.category !== 'websitePlatform'), detected);
+
+  const evidence = applyVendorRules(detected, patterns);
+  const platformDetections = vendorsInCategory(evidence, patterns, 'websitePlatform');
+  const orderingDetections = vendorsInCategory(evidence, patterns, 'onlineOrdering');
 
   // Determine website platform (take first match, or "Custom" if none)
   const websitePlatform = platformDetections.length > 0
     ? platformDetections[0]
     : 'Custom';
 
-  // Check for first-party ordering
-  const hasFirstParty = hasFirstPartyOrdering(html, website, orderingDetections);
-
-  // Calculate confidence
-  const confidence = calculateConfidence({
-    platform: platformDetections,
-    ordering: orderingDetections,
-    reservations: reservationDetections,
-    delivery: deliveryDetections,
-    pos: posDetections,
-    loyalty: loyaltyDetections,
-    other: otherDetections
-  });
-
-  const result = {
+  // Follow the "Order" links to see whether ordering is first-party, white-label or marketplace-only
+  const ordering = classifyOrdering(pages, website);
+
+  // Calculate confidence from the per-vendor evidence
+  const confidence = calculateOverallConfidence(evidence);
+
+  const result: TechDetectionResult = {
     websitePlatform,
     onlineOrdering: orderingDetections,
-    reservations: reservationDetections,
-    delivery: deliveryDetections,
-    loyaltyOrCRM: loyaltyDetections,
-    pos: posDetections,
-    otherScripts: otherDetections,
+    reservations: vendorsInCategory(evidence, patterns, 'reservations'),
+    delivery: vendorsInCategory(evidence, patterns, 'delivery'),
+    loyaltyOrCRM: vendorsInCategory(evidence, patterns, 'loyaltyOrCRM'),
+    pos: vendorsInCategory(evidence, patterns, 'pos'),
+    otherScripts: vendorsInCategory(evidence, patterns, 'otherScripts'),
     confidence,
-    hasFirstPartyOrdering: hasFirstParty
+    hasFirstPartyOrdering: hasDirectOrdering(ordering),
+    ordering,
+    pagesCrawled: pages.map(p => p.url),
+    evidence
   };
 
   // Cache for 3 days
   await cache.set(cacheKeyString, result, 3 * 24 * 60 * 60);
 
+  // Keep every fresh scan so vendor switches stay visible after the cache expires
+  try {
+    await recordTechSnapshot(domain, result);
+  } catch (error) {
+    console.warn(`Failed to record tech snapshot for ${domain}:`, error);
+  }
+
   return result;
 }
 
 /**
- * Extract domain from URL for cache key
+ * Extract domain from URL for cache key (the whole URL on shared hosts, see siteKey)
  */
-function extractDomain(url: string): string {
-  try {
-    // Add protocol if missing
-    if (!url.startsWith('http://') && !url.startsWith('https://')) {
-      url = 'https://' + url;
-    }
-    const urlObj = new URL(url);
-    return urlObj.hostname;
-  } catch {
-    return url.toLowerCase().replace(/[^a-z0-9.-]/g, '');
-  }
+export function extractDomain(url: string): string {
+  return siteKey(url) || url.toLowerCase().replace(/[^a-z0-9.-]/g, '');
 }
@@ -0,0 +1,108 @@
+/**
+ * Tech Stack History
+ * Timestamped tech stack snapshots per domain, so vendor switches show up
+ * after the 3-day detection cache has been overwritten
+ */
+
+import type { TechCategory } from '../types';
+import type { TechDetectionResult } from './techDetector';
+import { getLocalDatabase } from './localDatabase';
+
+export const TECH_CATEGORIES: { id: TechCategory; label: string }[] = [
+  { id: 'websitePlatform', label: 'Website' },
+  { id: 'onlineOrdering', label: 'Ordering' },
+  { id: 'delivery', label: 'Delivery' },
+  { id: 'reservations', label: 'Reservations' },
+  { id: 'loyaltyOrCRM', label: 'Loyalty/CRM' },
+  { id: 'pos', label: 'POS' },
+  { id: 'otherScripts', label: 'Other' }
+];
+
+export interface TechSnapshot {
+  id: string; // `${domain}|${scannedAt}`
+  domain: string;
+  scannedAt: string; // ISO timestamp
+  stack: TechDetectionResult;
+}
+
+export interface VendorChange {
+  added: string[];
+  removed: string[];
+}
+
+export interface TechStackDiff {
+  changes: Partial<Record<TechCategory, VendorChange>>; // Only categories that changed
+  firstPartyOrdering?: { from: boolean; to: boolean };
+  hasChanges: boolean;
+}
+
+export interface TechHistoryEntry {
+  snapshot: TechSnapshot;
+  diff: TechStackDiff | null; // Against the previous snapshot (null for the first one)
+}
+
+const STORE = 'techSnapshots';
+
+const categoryVendors = (stack: TechDetectionResult, category: TechCategory): string[] => {
+  if (category === 'websitePlatform') {
+    return stack.websitePlatform ? [stack.websitePlatform] : [];
+  }
+  return stack[category] || [];
+};
+
+/**
+ * Added/removed vendors by category between two tech stacks
+ */
+export function diffTechStacks(before: TechDetectionResult, after: TechDetectionResult): TechStackDiff {
+  const diff: TechStackDiff = { changes: {}, hasChanges: false };
+
+  for (const { id } of TECH_CATEGORIES) {
+    const previous = categoryVendors(before, id);
+    const current = categoryVendors(after, id);
+    const added = current.filter(v => !previous.includes(v));
+    const removed = previous.filter(v => !current.includes(v));
+
+    if (added.length || removed.length) {
+      diff.changes[id] = { added, removed };
+      diff.hasChanges = true;
+    }
+  }
+
+  if (before.hasFirstPartyOrdering !== after.hasFirstPartyOrdering) {
+    diff.firstPartyOrdering = { from: before.hasFirstPartyOrdering, to: after.hasFirstPartyOrdering };
+    diff.hasChanges = true;
+  }
+
+  return diff;
+}
+
+/**
+ * Store a scan result (called by detectTechStack after every fresh crawl)
+ */
+export async function recordTechSnapshot(domain: string, stack: TechDetectionResult): Promise<TechSnapshot> {
+  const scannedAt = new Date().toISOString();
+  const snapshot: TechSnapshot = { id: `${domain}|${scannedAt}`, domain, scannedAt, stack };
+  await getLocalDatabase().put(STORE, snapshot);
+  return snapshot;
+}
+
+/**
+ * All snapshots for a domain, oldest first
+ */
+export async function getTechSnapshots(domain: string): Promise<TechSnapshot[]> {
+  const snapshots = await getLocalDatabase().getAllByIndex<TechSnapshot>(STORE, 'domain', domain);
+  return snapshots.sort((a, b) => a.scannedAt.localeCompare(b.scannedAt));
+}
+
+/**
+ * Snapshot history for a domain with the diff of each scan against the one before, newest first
+ */
+export async function getTechHistory(domain: string): Promise<TechHistoryEntry[]> {
+  const snapshots = await getTechSnapshots(domain);
+  return snapshots
+    .map((snapshot, i) => ({
+      snapshot,
+      diff: i > 0 ? diffTechStacks(snapshots[i - 1].stack, snapshot.stack) : null
+    }))
+    .reverse();
+}
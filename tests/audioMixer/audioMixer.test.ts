@@ -0,0 +1,113 @@
+/**
+ * Audio Mixer
+ *
+ * Checks the FFmpeg filter graph built from mix specs, then renders stub
+ * audio (tones and silence) with the bundled FFmpeg and checks the exports:
+ * formats, lengths and loudness.
+ */
+
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import { join } from 'path';
+import { buildMixFilter, probeDuration, renderMix, MixOutput, MixSpec } from '../../scripts/audioMixer';
+import { stubAudioProvider } from '../../scripts/audioProviders';
+
+const WORK_DIR = mkdtempSync(join(os.tmpdir(), 'audio-mixer-'));
+
+const tone = async (seconds: number, prompt = 'tone'): Promise<Buffer> =>
+  (await stubAudioProvider.generateMusic(prompt, seconds)).data;
+
+// Integrated loudness of an export, measured by a normalizing pass
+async function lengthAndLoudness(output: MixOutput): Promise<{ seconds: number; lufs: number }> {
+  const file = join(WORK_DIR, `${Math.random().toString(36).slice(2)}.${output.format}`);
+  writeFileSync(file, output.data);
+  const { loudness } = await renderMix({ tracks: [{ role: 'music', source: file }], fadeIn: 0, fadeOut: 0, exports: [{ format: 'wav' }] });
+  return { seconds: await probeDuration(file), lufs: loudness.integratedLufs };
+}
+
+const MAGIC: Record<string, (data: Buffer) => boolean> = {
+  wav: data => data.toString('ascii', 0, 4) === 'RIFF',
+  ogg: data => data.toString('ascii', 0, 4) === 'OggS',
+  mp3: data => data.toString('ascii', 0, 3) === 'ID3' || (data[0] === 0xff && (data[1] & 0xe0) === 0xe0)
+};
+
+// The mixer logs every FFmpeg run; keep the test output readable
+const { log } = console;
+before(() => { console.log = () => {}; });
+after(() => {
+  console.log = log;
+  rmSync(WORK_DIR, { recursive: true, force: true });
+});
+
+test('ducks music under the voice', () => {
+  const spec: MixSpec = { tracks: [{ role: 'music', source: '' }, { role: 'voice', source: '', start: 1.5 }] };
+  const filter = buildMixFilter(spec, 10);
+  assert.ok(filter.includes('[music][sidechain]sidechaincompress='), 'no sidechain compression');
+  assert.ok(filter.includes('adelay=1500|1500'), 'voice not delayed to its start');
+  assert.ok(filter.includes('afade=t=out:st=8.500:d=1.500'), 'no fade-out ending at the program length');
+  assert.ok(!buildMixFilter({ ...spec, ducking: false }, 10).includes('sidechaincompress'), 'ducked with ducking off');
+});
+
+test('places stingers before and after the program', () => {
+  const filter = buildMixFilter({
+    tracks: [
+      { role: 'stinger', source: '', position: 'end' },
+      { role: 'music', source: '' },
+      { role: 'stinger', source: '', position: 'start' }
+    ]
+  }, 5);
+  assert.equal(filter.split(';').pop(), '[stinger2][faded][stinger0]concat=n=3:v=0:a=1[mix]');
+});
+
+test('rejects a spec without music or voice', () => {
+  assert.throws(() => buildMixFilter({ tracks: [{ role: 'stinger', source: '' }] }, 5));
+});
+
+test('renders every export format and the social cut', async () => {
+  const result = await renderMix({
+    tracks: [
+      { role: 'music', source: await tone(8, 'bed') },
+      { role: 'voice', source: await tone(3, 'voice'), start: 1 },
+      { role: 'stinger', source: await tone(1, 'logo'), position: 'end' }
+    ],
+    exports: [{ format: 'mp3' }, { format: 'wav' }, { format: 'ogg' }, { format: 'mp3', cut: 'social' }]
+  });
+
+  for (const output of result.outputs) {
+    assert.ok(MAGIC[output.format](output.data), `${output.format} export is not ${output.format}`);
+    const { seconds } = await lengthAndLoudness(output);
+    const expected = output.cut === 'social' ? 6 : 9; // 8s program + 1s stinger
+    assert.ok(Math.abs(seconds - expected) <= 0.1, `${output.format} ${output.cut} is ${seconds}s, expected ${expected}s`);
+  }
+});
+
+test('normalizes loudness to the target', async () => {
+  for (const targetLufs of [-16, -23]) {
+    const result = await renderMix({
+      tracks: [{ role: 'music', source: await tone(6) }, { role: 'voice', source: await tone(2, 'voice'), start: 1 }],
+      loudness: { targetLufs },
+      exports: [{ format: 'wav' }]
+    });
+    const { lufs } = await lengthAndLoudness(result.outputs[0]);
+    assert.ok(Math.abs(lufs - targetLufs) <= 1, `${lufs} LUFS, expected ${targetLufs}`);
+  }
+});
+
+test('renders a silent mix without normalizing', async () => {
+  const silence = (await stubAudioProvider.generateVoiceover('one two three four five', 'voice')).data;
+  const result = await renderMix({ tracks: [{ role: 'voice', source: silence }], exports: [{ format: 'wav' }] });
+
+  assert.equal(result.loudness.integratedLufs, -Infinity);
+  assert.equal(result.outputs.length, 1);
+  assert.ok(MAGIC.wav(result.outputs[0].data), 'wav export is not wav');
+});
+
+test('defaults the length to the voice plus a tail', async () => {
+  const result = await renderMix({
+    tracks: [{ role: 'music', source: await tone(2) }, { role: 'voice', source: await tone(3, 'voice'), start: 1 }],
+    exports: [{ format: 'wav' }]
+  });
+  assert.equal(result.duration, 5);
+});
@@ -0,0 +1,205 @@
+/**
+ * Audio Route
+ *
+ * Calls the /api/audio handler with the stub provider (tones and silence, no
+ * API keys or FFmpeg) and checks the returned asset IDs, the asset store
+ * (signed streaming, listing, deduplication, deletion), access control and
+ * input validation. Assets go to a temporary directory.
+ */
+
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import { join } from 'path';
+
+const TOKEN = 'test-audio-token';
+
+process.env.AUDIO_PROVIDER = 'stub';
+process.env.AUDIO_API_TOKEN = TOKEN;
+process.env.AUDIO_ASSET_DIR = mkdtempSync(join(os.tmpdir(), 'audio-route-'));
+
+const { default: handler } = await import('../../api/audio');
+const { decodeWav } = await import('../../scripts/audioProviders');
+
+const SAMPLE_RATE = 22050;
+
+interface RouteResponse {
+  status: number;
+  headers: Record<string, unknown>;
+  body: any;
+}
+
+/**
+ * Minimal stand-in for the Vercel/Express request and response
+ */
+async function call(
+  method: string,
+  { query = {}, body, headers = {} }: { query?: Record<string, string>; body?: unknown; headers?: Record<string, string> } = {}
+): Promise<RouteResponse> {
+  const response: RouteResponse = { status: 200, headers: {}, body: undefined };
+  const res = {
+    setHeader: (name: string, value: unknown) => { response.headers[name.toLowerCase()] = value; },
+    status: (code: number) => { response.status = code; return res; },
+    json: (value: unknown) => { response.body = value; return res; },
+    send: (value: unknown) => { response.body = value; return res; },
+    end: () => res
+  };
+  await handler({ method, query, body, headers: { host: 'localhost:3001', authorization: `Bearer ${TOKEN}`, ...headers } }, res);
+  return response;
+}
+
+const seconds = (wav: Buffer): number => decodeWav(wav).length / SAMPLE_RATE;
+
+// Stream an asset through a signed link returned by the route, as a browser without the token would
+const fetchLink = (url: string, headers: Record<string, string> = {}): Promise<RouteResponse> =>
+  call('GET', { query: Object.fromEntries(new URL(url).searchParams), headers: { authorization: '', ...headers } });
+
+// The route and asset store log every request; keep the test output readable
+const { log, warn } = console;
+before(() => { console.log = console.warn = () => {}; });
+after(() => {
+  Object.assign(console, { log, warn });
+  rmSync(process.env.AUDIO_ASSET_DIR!, { recursive: true, force: true });
+});
+
+test('jingle returns stored asset IDs and signed links', async () => {
+  const res = await call('POST', {
+    body: { action: 'jingle', text: 'Taste it at Luna Bistro', style: 'jazzy', duration: 4, placeId: 'luna', restaurantName: 'Luna Bistro' }
+  });
+  assert.equal(res.status, 200, JSON.stringify(res.body));
+  const { urls, previewUrl, provider } = res.body;
+  assert.equal(provider, 'stub');
+
+  const music = await fetchLink(urls.music);
+  const voiceover = await fetchLink(urls.voiceover);
+  const mixed = await fetchLink(urls.mixed);
+  const preview = await fetchLink(previewUrl);
+  assert.equal(music.headers['content-type'], 'audio/wav');
+  assert.equal(seconds(music.body), 4);
+  assert.equal(seconds(voiceover.body), 2, 'voiceover length follows the 5 words');
+  assert.equal(seconds(mixed.body), 4);
+  assert.equal(preview.status, 200);
+});
+
+test('records metadata and lists assets per restaurant', async () => {
+  const { body } = await call('GET', { query: { placeId: 'luna' } });
+  assert.equal(body.assets.length, 3);
+  const mix = body.assets.find((a: any) => a.kind === 'mix');
+  assert.ok(mix, 'no mix asset');
+  assert.equal(mix.script, 'Taste it at Luna Bistro');
+  assert.equal(mix.musicStyle, 'jazzy');
+  assert.equal(mix.duration, 4);
+  assert.equal(mix.provider, 'stub');
+  assert.match(mix.id, /^[0-9a-f]{64}\.wav$/, 'asset ID is not content-addressed');
+});
+
+test('stores identical audio once for every restaurant', async () => {
+  const first = await call('POST', { body: { action: 'voiceover', text: 'Welcome in friends', placeId: 'first' } });
+  const second = await call('POST', { body: { action: 'voiceover', text: 'Open late tonight', placeId: 'second' } });
+  assert.equal(first.body.assetId, second.body.assetId, 'same silence stored twice');
+  const { body } = await call('GET', { query: { placeId: 'second' } });
+  assert.deepEqual([...(body.assets[0]?.placeIds || [])].sort(), ['first', 'second']);
+});
+
+test('deletes a restaurant reference, then the asset', async () => {
+  const { body } = await call('POST', { body: { action: 'voiceover', text: 'Welcome in friends', placeId: 'first' } });
+  await call('DELETE', { query: { id: body.assetId, placeId: 'first' } });
+  assert.equal((await fetchLink(body.url)).status, 200, 'asset deleted while still used by another restaurant');
+  await call('DELETE', { query: { id: body.assetId, placeId: 'second' } });
+  assert.equal((await fetchLink(body.url)).status, 404);
+});
+
+test('mix combines stored assets', async () => {
+  const music = await call('POST', { body: { action: 'music', style: 'rock', duration: 1 } });
+  const voiceover = await call('POST', { body: { action: 'voiceover', text: 'one two three four five six seven eight nine ten' } });
+  const mix = await call('POST', { body: { action: 'mix', musicAssetId: music.body.assetId, voiceoverAssetId: voiceover.body.assetId } });
+  assert.equal(mix.status, 200, JSON.stringify(mix.body));
+  const mixed = await fetchLink(mix.body.url);
+  assert.equal(seconds(mixed.body), 4, 'mix should last as long as the 4s voiceover');
+});
+
+test('serves byte ranges', async () => {
+  const music = await call('POST', { body: { action: 'music', style: 'ambient', duration: 1 } });
+  const res = await fetchLink(music.body.url, { range: 'bytes=0-43' });
+  assert.equal(res.status, 206);
+  assert.equal(res.body.length, 44);
+  assert.equal(res.headers['content-range'], `bytes 0-43/${44 + SAMPLE_RATE * 2}`);
+});
+
+test('share links expire and cannot be forged', async () => {
+  const music = await call('POST', { body: { action: 'music', style: 'upbeat', duration: 1 } });
+  const share = await call('POST', { body: { action: 'share', assetId: music.body.assetId, expiresInDays: 7 } });
+  const days = (Date.parse(share.body.expiresAt) - Date.now()) / (24 * 60 * 60 * 1000);
+  assert.equal(Math.round(days), 7);
+
+  const query = Object.fromEntries(new URL(share.body.url).searchParams);
+  const unsigned = await call('GET', { query: { id: query.id } });
+  const forged = await call('GET', { query: { ...query, expires: String(Number(query.expires) + 1) } });
+  const expired = await call('GET', { query: { ...query, expires: '1000' } });
+  assert.deepEqual([unsigned.status, forged.status, expired.status], [403, 403, 403]);
+});
+
+test('rejects generation from outside the app without the API token', async () => {
+  const music = (headers: Record<string, string>) =>
+    call('POST', { body: { action: 'music', style: 'rock', duration: 1 }, headers: { authorization: '', ...headers } });
+
+  const missing = await music({});
+  const otherSite = await music({ origin: 'https://example.com', 'sec-fetch-site': 'cross-site' });
+  const wrong = await music({ authorization: 'Bearer guess', 'sec-fetch-site': 'same-origin' });
+  assert.deepEqual([missing.status, otherSite.status, wrong.status], [403, 403, 401]);
+});
+
+test('answers the app\'s own pages without a token', async () => {
+  const music = (headers: Record<string, string>) =>
+    call('POST', { body: { action: 'music', style: 'rock', duration: 1 }, headers: { authorization: '', ...headers } });
+
+  const sameOrigin = await music({ 'sec-fetch-site': 'same-origin' });
+  const ownHost = await music({ origin: 'http://localhost:3001' });
+  const devServer = await music({ origin: 'http://localhost:3000', 'sec-fetch-site': 'same-site' });
+  assert.deepEqual([sameOrigin.status, ownHost.status, devServer.status], [200, 200, 200]);
+});
+
+test('lists and deletes only for the app or with the API token', async () => {
+  const music = await call('POST', { body: { action: 'music', style: 'jazzy', duration: 1, placeId: 'luna' } });
+  const list = await call('GET', { query: {}, headers: { authorization: '' } });
+  const remove = await call('DELETE', { query: { id: music.body.assetId }, headers: { authorization: '', origin: 'https://example.com' } });
+  assert.deepEqual([list.status, remove.status], [403, 403]);
+  assert.equal((await fetchLink(music.body.url)).status, 200, 'asset deleted from outside the app');
+
+  const appList = await call('GET', { query: { placeId: 'luna' }, headers: { authorization: '', 'sec-fetch-site': 'same-origin' } });
+  assert.equal(appList.status, 200);
+});
+
+test('only allows browsers on the configured origins', async () => {
+  const app = await call('OPTIONS', { headers: { origin: 'http://localhost:3000' } });
+  const other = await call('OPTIONS', { headers: { origin: 'https://example.com' } });
+  assert.equal(app.headers['access-control-allow-origin'], 'http://localhost:3000');
+  assert.equal(other.headers['access-control-allow-origin'], undefined);
+});
+
+test('answers 503 instead of falling back to the stub without provider keys', async () => {
+  const env = { ...process.env };
+  for (const name of ['AUDIO_PROVIDER', 'FAL_KEY', 'FAL_API_KEY']) delete process.env[name];
+  try {
+    const res = await call('POST', { body: { action: 'music', style: 'rock', duration: 1 } });
+    assert.equal(res.status, 503);
+  } finally {
+    Object.assign(process.env, env);
+  }
+});
+
+test('rejects a voiceover without text', async () => {
+  const res = await call('POST', { body: { action: 'voiceover', text: '  ' } });
+  assert.equal(res.status, 400);
+});
+
+test('rejects unknown actions', async () => {
+  const res = await call('POST', { body: { action: 'podcast' } });
+  assert.equal(res.status, 400);
+});
+
+test('does not serve paths outside the asset store', async () => {
+  const res = await call('GET', { query: { id: '../package.json', expires: '9999999999', signature: 'x' } });
+  assert.equal(res.status, 403);
+});
@@ -0,0 +1,72 @@
+/**
+ * Commission Estimator
+ *
+ * Checks estimateCommissionBleed against hand-computed estimates with the
+ * default settings.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PriceLevel, PlaceResult, TechStack } from '../../types';
+import { estimateCommissionBleed, DEFAULT_COMMISSION_SETTINGS } from '../../services/commissionEstimator';
+
+type EstimatorInput = Pick<PlaceResult, 'userRatingCount' | 'priceLevel' | 'types' | 'techStack'>;
+
+const place = (userRatingCount: number, types: string[], delivery: string[], priceLevel?: PriceLevel): EstimatorInput => ({
+  userRatingCount,
+  priceLevel,
+  types,
+  techStack: { delivery } as TechStack
+});
+
+test('is null without any marketplace', () => {
+  assert.equal(estimateCommissionBleed(place(200, ['restaurant'], []), DEFAULT_COMMISSION_SETTINGS), null);
+});
+
+test('estimates a pizza place on DoorDash', () => {
+  // 200 reviews × 0.6 = 120 orders, 45% through apps = 54 at $32
+  const estimate = estimateCommissionBleed(
+    place(200, ['pizza_restaurant', 'restaurant'], ['DoorDash'], PriceLevel.MODERATE),
+    DEFAULT_COMMISSION_SETTINGS
+  );
+
+  assert.deepEqual(estimate, {
+    monthlyOrders: 120,
+    monthlyDeliveryOrders: 54,
+    averageTicket: 32,
+    monthlyMarketplaceRevenue: 1728,
+    monthlyCommissionFees: 432, // 1728 × 25%
+    monthlySavings: 228, // 1728 × 60% shifted × (25% - 3%)
+    annualSavings: 2736,
+    byMarketplace: [{ marketplace: 'DoorDash', monthlyOrders: 54, commissionRate: 0.25, monthlyFees: 432 }]
+  });
+});
+
+test('uses the unknown-price ticket for an unspecified price level', () => {
+  // 100 reviews × 0.6 × 20% = 12 orders at $28
+  const estimate = estimateCommissionBleed(
+    place(100, ['restaurant'], ['DoorDash'], 'PRICE_LEVEL_UNSPECIFIED' as PriceLevel),
+    DEFAULT_COMMISSION_SETTINGS
+  );
+
+  assert.ok(estimate);
+  assert.equal(estimate.averageTicket, 28);
+  assert.equal(estimate.monthlyCommissionFees, 84); // 336 × 25%
+  assert.equal(estimate.monthlySavings, 44); // 336 × 60% × 22% = $44.35
+  assert.equal(estimate.annualSavings, 528);
+});
+
+test('computes savings from unrounded orders when apps split a few orders', () => {
+  // 10 reviews × 0.6 × 20% = 1.2 orders at $28, split 0.80 / 0.28 / 0.11 by market share.
+  // Rounded per-app orders (1 / 0 / 0) would give 28 × 60% × 22% = $3.70 → $4.
+  const estimate = estimateCommissionBleed(
+    place(10, ['restaurant'], ['DoorDash', 'UberEats', 'Grubhub']),
+    DEFAULT_COMMISSION_SETTINGS
+  );
+
+  assert.ok(estimate);
+  assert.deepEqual(estimate.byMarketplace.map(m => m.monthlyOrders), [1, 0, 0]);
+  assert.deepEqual(estimate.byMarketplace.map(m => m.monthlyFees), [6, 2, 1]);
+  assert.equal(estimate.monthlySavings, 5); // 28 × 60% × (0.80 × 22% + 0.28 × 27% + 0.11 × 17%) = $4.58
+  assert.equal(estimate.annualSavings, 60);
+});
@@ -0,0 +1,59 @@
+/**
+ * Contact Extractor Fixtures
+ *
+ * Runs extractContacts against saved restaurant site pages and checks the
+ * contacts found and the email picked for outreach.
+ *
+ * Fixtures live in fixtures/<name>/: a fixture.json with the restaurant, the
+ * saved pages (URL → HTML file) and the expected contacts.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, readdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { extractContacts, ContactPoint } from '../../services/contactExtractor';
+import { CrawledPage } from '../../services/siteCrawler';
+
+interface Fixture {
+  name: string;
+  description: string;
+  restaurant: { name: string; website: string };
+  pages: Array<{ url: string; file: string }>; // Homepage first
+  expected: Array<Pick<ContactPoint, 'type' | 'value'>>;
+  primaryEmail?: string;
+}
+
+const ROOT = dirname(fileURLToPath(import.meta.url));
+const FIXTURES_DIR = join(ROOT, 'fixtures');
+
+function loadFixtures(): Fixture[] {
+  return readdirSync(FIXTURES_DIR, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name)
+    .sort()
+    .map(name => {
+      const json = JSON.parse(readFileSync(join(FIXTURES_DIR, name, 'fixture.json'), 'utf8'));
+      return { name, ...json } as Fixture;
+    });
+}
+
+function loadPages(fixture: Fixture): CrawledPage[] {
+  return fixture.pages.map((page, index) => ({
+    url: page.url,
+    depth: index === 0 ? 0 : 1,
+    html: readFileSync(join(FIXTURES_DIR, fixture.name, page.file), 'utf8')
+  }));
+}
+
+const key = (c: Pick<ContactPoint, 'type' | 'value'>) => `${c.type} ${c.value}`;
+
+for (const fixture of loadFixtures()) {
+  test(`${fixture.name}: ${fixture.description}`, () => {
+    const result = extractContacts(loadPages(fixture), fixture.restaurant.website, fixture.restaurant.name);
+
+    assert.deepEqual(result.contacts.map(key).sort(), fixture.expected.map(key).sort());
+    assert.equal(result.primaryEmail, fixture.primaryEmail);
+  });
+}
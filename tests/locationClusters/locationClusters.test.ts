@@ -0,0 +1,101 @@
+/**
+ * Location Clusters
+ *
+ * Clusters sample sightings into multi-location groups: links by domain,
+ * name and phone block, the cases that must stay apart and the group key.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { clusterSightings, toSighting, ClusterablePlace } from '../../services/locationClusters';
+
+// Charlotte, NC and places ~5 km and ~230 km away
+const UPTOWN = { lat: 35.2271, lng: -80.8431 };
+const SOUTH_END = { lat: 35.2087, lng: -80.8590 };
+const RALEIGH = { lat: 35.7796, lng: -78.6382 };
+
+const sighting = (placeId: string, name: string, place: Partial<ClusterablePlace> = {}) =>
+  toSighting({ placeId, name, location: UPTOWN, ...place }, '2026-01-01T00:00:00.000Z');
+
+const grouped = (groups: ReturnType<typeof clusterSightings>) =>
+  groups.map(g => ({ key: g.key, placeIds: [...g.placeIds].sort(), signals: [...g.signals].sort() }));
+
+test('links locations on the same website domain', () => {
+  const groups = clusterSightings([
+    sighting('b-uptown', 'Tony\'s Pizza - Uptown', { website: 'https://www.tonyspizza.com/uptown' }),
+    sighting('a-raleigh', 'Tonys Pizzeria', { website: 'tonyspizza.com', location: RALEIGH })
+  ]);
+
+  assert.deepEqual(grouped(groups), [{ key: 'a-raleigh', placeIds: ['a-raleigh', 'b-uptown'], signals: ['domain'] }]);
+});
+
+test('links the same name nearby but not across the state', () => {
+  const near = clusterSightings([
+    sighting('p1', 'Luna Bistro (Uptown)'),
+    sighting('p2', 'The Luna Bistro #2', { location: SOUTH_END })
+  ]);
+  assert.deepEqual(grouped(near), [{ key: 'p1', placeIds: ['p1', 'p2'], signals: ['name'] }]);
+
+  const far = clusterSightings([
+    sighting('p1', 'Luna Bistro'),
+    sighting('p2', 'Luna Bistro', { location: RALEIGH })
+  ]);
+  assert.deepEqual(far, []);
+});
+
+test('keeps same-name places with their own different websites apart', () => {
+  const groups = clusterSightings([
+    sighting('p1', 'Golden Dragon', { website: 'goldendragonclt.com' }),
+    sighting('p2', 'Golden Dragon', { website: 'goldendragon-southend.com', location: SOUTH_END })
+  ]);
+
+  assert.deepEqual(groups, []);
+});
+
+test('does not join two websites through a same-name place without one', () => {
+  const sightings = [
+    sighting('p1', 'China Wok', { website: 'chinawokbrooklyn.com' }),
+    sighting('p2', 'China Wok', { website: 'chinawokqueens.com', location: SOUTH_END }),
+    sighting('p3', 'China Wok', { location: SOUTH_END })
+  ];
+
+  for (const order of [sightings, [...sightings].reverse(), [sightings[2], sightings[0], sightings[1]]]) {
+    const groups = clusterSightings(order);
+    assert.equal(groups.length, 1);
+    assert.ok(groups.every(g => g.locationCount === 2), `merged into ${JSON.stringify(grouped(groups))}`);
+    assert.ok(groups.every(g => !(g.placeIds.includes('p1') && g.placeIds.includes('p2'))), 'linked both websites');
+  }
+});
+
+test('tells restaurants on a shared host apart by their page', () => {
+  const groups = clusterSightings([
+    sighting('p1', 'Harbor Grill', { website: 'https://www.facebook.com/harborgrill' }),
+    sighting('p2', 'Maple Street Cafe', { website: 'https://facebook.com/maplestreetcafe' }),
+    sighting('p3', 'Harbor Grill Express', { website: 'https://facebook.com/HarborGrill/menu' })
+  ]);
+
+  assert.deepEqual(grouped(groups), [{ key: 'p1', placeIds: ['p1', 'p3'], signals: ['domain'] }]);
+});
+
+test('links a phone number block only when the names share a word', () => {
+  const groups = clusterSightings([
+    sighting('p1', 'Mama Rosa Trattoria', { phone: '(704) 555-1201' }),
+    sighting('p2', 'Mama Rosa Kitchen', { phone: '+1 704-555-1207', location: SOUTH_END }),
+    sighting('p3', 'Blue Fin Sushi', { phone: '704-555-1209' })
+  ]);
+
+  assert.deepEqual(grouped(groups), [{ key: 'p1', placeIds: ['p1', 'p2'], signals: ['phone'] }]);
+});
+
+test('keys a group by its lowest placeId whatever the scan order', () => {
+  const sightings = [
+    sighting('place-c', 'Queen City Tacos', { website: 'queencitytacos.com' }),
+    sighting('place-a', 'Queen City Tacos', { website: 'queencitytacos.com/southend', location: SOUTH_END }),
+    sighting('place-b', 'Queen City Tacos', { website: 'queencitytacos.com/noda' })
+  ];
+
+  const keys = [sightings, [...sightings].reverse(), [sightings[1], sightings[2], sightings[0]]]
+    .map(order => clusterSightings(order).map(g => g.key));
+  assert.deepEqual(keys, [['place-a'], ['place-a'], ['place-a']]);
+  assert.equal(clusterSightings(sightings)[0].locationCount, 3);
+});
@@ -0,0 +1,80 @@
+/**
+ * Marketplace Presence Fixtures
+ *
+ * Runs lookupMarketplacePresence with the default resolvers against saved
+ * search result pages and checks the matched listing URLs.
+ *
+ * Fixtures live in fixtures/<name>/: a fixture.json with the place, the saved
+ * search page per marketplace domain and the expected listings. Marketplaces
+ * without a saved page get an empty result page.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, readdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { lookupMarketplacePresence, DEFAULT_RESOLVERS, HtmlFetcher, PlaceQuery } from '../../services/marketplacePresence';
+
+interface Fixture {
+  name: string;
+  description: string;
+  place: PlaceQuery;
+  searchResults: Record<string, string>; // Marketplace domain → saved search page
+  expected: Array<{ marketplace: string; url: string }>;
+}
+
+const ROOT = dirname(fileURLToPath(import.meta.url));
+const FIXTURES_DIR = join(ROOT, 'fixtures');
+const VERBOSE = Boolean(process.env.VERBOSE);
+
+const EMPTY_RESULTS = '<html><body><div id="links" class="results"><div class="no-results">No results.</div></div></body></html>';
+
+// What DuckDuckGo serves instead of results when it suspects a bot
+const ANOMALY_PAGE = '<html><body><div class="anomaly-modal__title">Unfortunately, bots use DuckDuckGo too.</div></body></html>';
+
+function loadFixtures(): Fixture[] {
+  return readdirSync(FIXTURES_DIR, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name)
+    .sort()
+    .map(name => {
+      const json = JSON.parse(readFileSync(join(FIXTURES_DIR, name, 'fixture.json'), 'utf8'));
+      return { name, ...json } as Fixture;
+    });
+}
+
+/**
+ * Answer each search with the fixture's page for the "site:" domain in the query
+ */
+function fixtureFetcher(fixture: Fixture): HtmlFetcher {
+  return async (url: string) => {
+    const query = new URL(url).searchParams.get('q') || '';
+    const domain = /site:(\S+)/.exec(query)?.[1];
+    const file = domain ? fixture.searchResults[domain] : undefined;
+    return file ? readFileSync(join(FIXTURES_DIR, fixture.name, file), 'utf8') : EMPTY_RESULTS;
+  };
+}
+
+const key = (l: { marketplace: string; url: string }) => `${l.marketplace} ${l.url}`;
+
+for (const fixture of loadFixtures()) {
+  test(`${fixture.name}: ${fixture.description}`, async () => {
+    const { log, warn } = console;
+    if (!VERBOSE) console.log = console.warn = () => {};
+    const listings = await lookupMarketplacePresence(fixture.place, {
+      fetchHtml: fixtureFetcher(fixture),
+      forceRefresh: true
+    }).finally(() => Object.assign(console, { log, warn }));
+
+    assert.deepEqual(listings.map(key).sort(), fixture.expected.map(key).sort());
+  });
+}
+
+test('treats a page without the results container as a failed search', async () => {
+  const place = { name: 'Bay Leaf Curry House', address: '123 Main St, San Jose, CA 95112, USA' };
+  for (const resolver of DEFAULT_RESOLVERS) {
+    await assert.rejects(resolver.findCandidates(place, async () => ANOMALY_PAGE), /no results container/);
+    assert.deepEqual(await resolver.findCandidates(place, async () => EMPTY_RESULTS), []);
+  }
+});
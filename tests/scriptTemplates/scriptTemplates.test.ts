@@ -0,0 +1,120 @@
+/**
+ * Script Templates
+ *
+ * Checks the template syntax (variables, conditionals, seeded picks) and
+ * renders the built-in SonicBrand templates against sample leads.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PlaceResult, TechStack } from '../../types';
+import {
+  buildTemplateVariables,
+  getScriptTemplates,
+  renderScriptTemplate,
+  renderTemplate,
+  validateScriptTemplate
+} from '../../services/scriptTemplates';
+
+const techStack = (overrides: Partial<TechStack> = {}): TechStack => ({
+  websitePlatform: 'Squarespace',
+  onlineOrdering: [],
+  reservations: [],
+  delivery: [],
+  loyaltyOrCRM: [],
+  pos: [],
+  otherScripts: [],
+  confidence: 80,
+  hasFirstPartyOrdering: false,
+  ...overrides
+});
+
+const lead = (placeId: string, name: string, tech: Partial<TechStack> = {}): PlaceResult => ({
+  placeId,
+  name,
+  types: ['italian_restaurant'],
+  rating: 4.6,
+  userRatingCount: 312,
+  address: '101 Main St, Charlotte, NC',
+  website: 'https://www.lunabistro.com/menu',
+  techStack: techStack(tech)
+} as PlaceResult);
+
+const MARKETPLACE_ONLY = lead('place-1', 'Luna Bistro', { delivery: ['DoorDash', 'Uber Eats', 'Grubhub'] });
+const NO_DELIVERY = lead('place-2', 'Casa Verde');
+const FIRST_PARTY = lead('place-3', 'Noodle Bar', { hasFirstPartyOrdering: true, onlineOrdering: ['Owner.com'], delivery: ['DoorDash'] });
+
+const template = (id: string) => getScriptTemplates().find(t => t.id === id)!;
+
+test('renders variables, lists and fallbacks', () => {
+  const variables = buildTemplateVariables(MARKETPLACE_ONLY);
+  assert.equal(
+    renderTemplate('{{name}} ({{website}}) is on {{tech.delivery}}; POS: {{tech.pos|unknown}}', variables, 'seed'),
+    'Luna Bistro (lunabistro.com) is on DoorDash, Uber Eats and Grubhub; POS: unknown'
+  );
+});
+
+test('mentions delivery only when the lead has delivery', () => {
+  const body = '{{#if tech.delivery}}Delivered by {{tech.delivery}}{{else}}Dine in{{/if}}{{#unless tech.delivery}} only{{/unless}}';
+  assert.match(renderTemplate(body, buildTemplateVariables(MARKETPLACE_ONLY), 'seed'), /^Delivered by DoorDash/);
+  assert.equal(renderTemplate(body, buildTemplateVariables(NO_DELIVERY), 'seed'), 'Dine in only');
+});
+
+test('picks the same option for the same seed and varies across seeds', () => {
+  const body = '{{#pick}}a{{or}}b{{or}}c{{or}}d{{/pick}}';
+  const variables = buildTemplateVariables(MARKETPLACE_ONLY);
+  assert.equal(renderTemplate(body, variables, 'x:1'), renderTemplate(body, variables, 'x:1'));
+  const seen = new Set(Array.from({ length: 40 }, (_, i) => renderTemplate(body, variables, `x:${i}`)));
+  assert.equal(seen.size, 4, `only ${seen.size} of 4 options picked over 40 seeds`);
+});
+
+test('drops lines holding only block tags', () => {
+  const body = 'One\n\n{{#if tech.delivery}}\nTwo\n\n{{/if}}\nThree';
+  assert.equal(renderTemplate(body, buildTemplateVariables(NO_DELIVERY), 'seed'), 'One\n\nThree');
+});
+
+test('rejects unbalanced templates', () => {
+  for (const body of ['{{#if name}}open', '{{/pick}}', '{{else}}', '{{#pick}}a{{/if}}', '{{#each x}}{{/each}}']) {
+    const errors = validateScriptTemplate({ id: 'broken', name: 'Broken', type: 'jingle', body });
+    assert.notEqual(errors.length, 0, `accepted "${body}"`);
+  }
+});
+
+test('renders every built-in template without leftover tags', () => {
+  for (const place of [MARKETPLACE_ONLY, NO_DELIVERY, FIRST_PARTY]) {
+    const variables = buildTemplateVariables(place, undefined, { tagline: 'Tagline', usp: 'USP' });
+    for (const t of getScriptTemplates()) {
+      const output = renderScriptTemplate(t, variables);
+      assert.ok(output && !/\{\{|\}\}/.test(output), `${t.id} for ${place.name}: ${JSON.stringify(output)}`);
+    }
+  }
+});
+
+test('names the ordering channel the lead actually has', () => {
+  const orderNow = template('jingle-order-now');
+  const script = (place: PlaceResult) =>
+    renderScriptTemplate(orderNow, buildTemplateVariables(place, undefined, { tagline: 'Tagline', usp: 'USP' }));
+  assert.ok(script(FIRST_PARTY).includes('Order direct from Noodle Bar'), 'first-party lead not sent to direct ordering');
+  assert.ok(script(MARKETPLACE_ONLY).includes('Find Luna Bistro on DoorDash, Uber Eats and Grubhub'), 'marketplace lead not sent to its apps');
+  assert.doesNotMatch(script(NO_DELIVERY), /DoorDash|delivery/i, 'delivery mentioned for a lead without delivery');
+});
+
+test('uses the AI analysis when the lead has one', () => {
+  const analysis = {
+    vibe: 'Cozy Neighborhood Gem',
+    targetAudience: 'Local Families & Couples',
+    usp: 'Authentic family recipes since 1995',
+    ownerFitScore: 85,
+    fitReason: '',
+    suggestedPitch: ''
+  };
+  assert.equal(renderScriptTemplate(template('usp-classic'), buildTemplateVariables(NO_DELIVERY, analysis)), analysis.usp);
+});
+
+test('renders the same script per lead and variant, and another take per variant', () => {
+  const tagline = template('tagline-classic');
+  const variables = buildTemplateVariables(MARKETPLACE_ONLY);
+  assert.equal(renderScriptTemplate(tagline, variables, 3), renderScriptTemplate(tagline, variables, 3));
+  const variants = new Set([0, 1, 2, 3, 4, 5].map(v => renderScriptTemplate(tagline, variables, v)));
+  assert.ok(variants.size > 1, 'every variant gave the same tagline');
+});
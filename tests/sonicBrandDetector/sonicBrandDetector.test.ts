@@ -0,0 +1,61 @@
+/**
+ * Sonic Brand Fixtures
+ *
+ * Runs analyzeSonicPages against saved restaurant site pages and checks the
+ * score and the detected elements.
+ *
+ * Fixtures live in fixtures/<name>/: a fixture.json with the saved pages
+ * (URL → HTML file) and the expected score and element labels.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, readdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { analyzeSonicPages } from '../../services/sonicBrandDetector';
+import { CrawledPage } from '../../services/siteCrawler';
+
+interface Fixture {
+  name: string;
+  description: string;
+  pages: Array<{ url: string; file: string }>; // Homepage first
+  expected: {
+    sonicBrandScore: number;
+    elements: string[]; // Detected element labels, without the matched links
+  };
+}
+
+const ROOT = dirname(fileURLToPath(import.meta.url));
+const FIXTURES_DIR = join(ROOT, 'fixtures');
+
+function loadFixtures(): Fixture[] {
+  return readdirSync(FIXTURES_DIR, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name)
+    .sort()
+    .map(name => {
+      const json = JSON.parse(readFileSync(join(FIXTURES_DIR, name, 'fixture.json'), 'utf8'));
+      return { name, ...json } as Fixture;
+    });
+}
+
+function loadPages(fixture: Fixture): CrawledPage[] {
+  return fixture.pages.map((page, index) => ({
+    url: page.url,
+    depth: index === 0 ? 0 : 1,
+    html: readFileSync(join(FIXTURES_DIR, fixture.name, page.file), 'utf8')
+  }));
+}
+
+// "Website audio (<video>)" → "Website audio"
+const label = (element: string) => element.replace(/\s*\(.*$/, '');
+
+for (const fixture of loadFixtures()) {
+  test(`${fixture.name}: ${fixture.description}`, () => {
+    const result = analyzeSonicPages(loadPages(fixture));
+
+    assert.deepEqual(result.detectedElements.map(label), fixture.expected.elements);
+    assert.equal(result.sonicBrandScore, fixture.expected.sonicBrandScore);
+  });
+}
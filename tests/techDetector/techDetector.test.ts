@@ -0,0 +1,247 @@
+/**
+ * Tech Detector Fixtures
+ *
+ * Runs detectTechStack against saved restaurant sites with the proxy fetch
+ * stubbed, compares each result with the fixture's expected output and reports
+ * per-vendor precision/recall against the committed baseline.
+ *
+ * Usage:
+ *   npm test                                   # fails if any vendor regressed
+ *   UPDATE_BASELINE=1 npx tsx --test tests/techDetector/techDetector.test.ts
+ *                                              # accept the current scores
+ *   VERBOSE=1 npm test                         # keep detector logging
+ *
+ * Fixtures live in fixtures/<name>/: a fixture.json with the website, the
+ * crawlable pages (URL → HTML file), optional redirects (URL → final URL) and the
+ * expected TechDetectionResult fields.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, readdirSync, writeFileSync, existsSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { detectTechStack, TechDetectionResult } from '../../services/techDetector';
+import { TECH_CATEGORIES } from '../../services/techHistory';
+import type { TechCategory, OrderingVerdict } from '../../types';
+
+// ============ Types ============
+
+type ExpectedResult = Pick<TechDetectionResult, 'websitePlatform'> &
+  Partial<Record<Exclude<TechCategory, 'websitePlatform'>, string[]>> & {
+    orderingVerdict: OrderingVerdict;
+  };
+
+interface Fixture {
+  name: string;
+  description: string;
+  website: string;
+  pages: Record<string, string>; // Page URL → HTML file in the fixture directory
+  redirects?: Record<string, string>; // Requested URL → URL after redirects (sent as X-Final-Url)
+  expected: ExpectedResult;
+}
+
+interface VendorScore {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+}
+
+interface Baseline {
+  vendors: Record<string, { precision: number; recall: number }>;
+  orderingVerdictAccuracy: number;
+}
+
+// ============ Setup ============
+
+const ROOT = dirname(fileURLToPath(import.meta.url));
+const FIXTURES_DIR = join(ROOT, 'fixtures');
+const BASELINE_PATH = join(ROOT, 'baseline.json');
+
+const UPDATE_BASELINE = Boolean(process.env.UPDATE_BASELINE);
+const VERBOSE = Boolean(process.env.VERBOSE);
+
+const canonical = (url: string): string => url.replace(/\/+$/, '');
+
+function loadFixtures(): Fixture[] {
+  return readdirSync(FIXTURES_DIR, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name)
+    .sort()
+    .map(name => {
+      const json = JSON.parse(readFileSync(join(FIXTURES_DIR, name, 'fixture.json'), 'utf8'));
+      return { name, ...json } as Fixture;
+    });
+}
+
+/**
+ * Replace fetch so the crawler's proxy requests are answered from the fixture's pages
+ */
+function stubProxyFetch(fixture: Fixture): void {
+  const pages = new Map(
+    Object.entries(fixture.pages).map(([url, file]) => [canonical(url), join(FIXTURES_DIR, fixture.name, file)])
+  );
+  const redirects = new Map(
+    Object.entries(fixture.redirects || {}).map(([from, to]) => [canonical(from), to])
+  );
+
+  globalThis.fetch = async (input: string | URL | Request): Promise<Response> => {
+    const requestUrl = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+    const target = requestUrl.searchParams.get('url');
+    const finalUrl = target ? redirects.get(canonical(target)) || target : undefined;
+    const file = finalUrl ? pages.get(canonical(finalUrl)) : undefined;
+
+    if (!requestUrl.pathname.endsWith('/proxy') || !file) {
+      return new Response('Not found', { status: 404 });
+    }
+    return new Response(readFileSync(file, 'utf8'), {
+      status: 200,
+      headers: { 'Content-Type': 'text/html', 'X-Final-Url': finalUrl! }
+    });
+  };
+}
+
+/**
+ * Run a detection with the detector's own logging muted (unless --verbose)
+ */
+async function detect(fixture: Fixture): Promise<TechDetectionResult> {
+  const { log, warn, error } = console;
+  if (!VERBOSE) {
+    console.log = console.warn = console.error = () => {};
+  }
+  try {
+    stubProxyFetch(fixture);
+    return await detectTechStack(fixture.website, true);
+  } finally {
+    Object.assign(console, { log, warn, error });
+  }
+}
+
+// ============ Scoring ============
+
+/**
+ * Vendor refs ("category:Vendor") in a result; "Custom"/"Unknown" platforms are not vendors
+ */
+function vendorRefs(result: ExpectedResult | TechDetectionResult): Set<string> {
+  const refs = new Set<string>();
+  if (!['Custom', 'Unknown'].includes(result.websitePlatform)) {
+    refs.add(`websitePlatform:${result.websitePlatform}`);
+  }
+  for (const { id } of TECH_CATEGORIES) {
+    if (id === 'websitePlatform') continue;
+    for (const vendor of result[id] || []) refs.add(`${id}:${vendor}`);
+  }
+  return refs;
+}
+
+const ratio = (numerator: number, denominator: number): number =>
+  denominator === 0 ? 1 : Math.round((numerator / denominator) * 1000) / 1000;
+
+const precisionOf = (s: VendorScore) => ratio(s.truePositives, s.truePositives + s.falsePositives);
+const recallOf = (s: VendorScore) => ratio(s.truePositives, s.truePositives + s.falseNegatives);
+
+function formatDelta(current: number, previous: number | undefined): string {
+  if (previous === undefined || current === previous) return '';
+  const delta = current - previous;
+  return ` (${delta > 0 ? '+' : ''}${delta.toFixed(3)})`;
+}
+
+// ============ Test ============
+
+test('no vendor regressed against the baseline', async () => {
+  const fixtures = loadFixtures();
+  const scores = new Map<string, VendorScore>();
+  const score = (ref: string) => {
+    if (!scores.has(ref)) scores.set(ref, { truePositives: 0, falsePositives: 0, falseNegatives: 0 });
+    return scores.get(ref)!;
+  };
+
+  let exactMatches = 0;
+  let verdictsCorrect = 0;
+
+  for (const fixture of fixtures) {
+    const result = await detect(fixture);
+    const expected = vendorRefs(fixture.expected);
+    const detected = vendorRefs(result);
+
+    const missed = [...expected].filter(ref => !detected.has(ref));
+    const extra = [...detected].filter(ref => !expected.has(ref));
+    expected.forEach(ref => (detected.has(ref) ? score(ref).truePositives++ : score(ref).falseNegatives++));
+    extra.forEach(ref => score(ref).falsePositives++);
+
+    const verdictOk = result.ordering.verdict === fixture.expected.orderingVerdict;
+    const platformOk = result.websitePlatform === fixture.expected.websitePlatform;
+    if (verdictOk) verdictsCorrect++;
+
+    if (missed.length === 0 && extra.length === 0 && verdictOk && platformOk) {
+      exactMatches++;
+      console.log(`✅ ${fixture.name}`);
+      continue;
+    }
+
+    console.log(`❌ ${fixture.name} — ${fixture.description}`);
+    if (!platformOk) console.log(`   platform: expected ${fixture.expected.websitePlatform}, got ${result.websitePlatform}`);
+    if (missed.length) console.log(`   missed:   ${missed.join(', ')}`);
+    if (extra.length) console.log(`   extra:    ${extra.join(', ')}`);
+    if (!verdictOk) {
+      console.log(`   ordering: expected ${fixture.expected.orderingVerdict}, got ${result.ordering.verdict}`);
+      result.ordering.links.forEach(l => console.log(`     ${l.destination.padEnd(11)} ${l.url}${l.via ? ` (via ${l.via})` : ''}`));
+    }
+  }
+
+  const baseline: Baseline | null = existsSync(BASELINE_PATH)
+    ? JSON.parse(readFileSync(BASELINE_PATH, 'utf8'))
+    : null;
+
+  const current: Baseline = {
+    vendors: Object.fromEntries(
+      [...scores.keys()].sort().map(ref => [ref, { precision: precisionOf(score(ref)), recall: recallOf(score(ref)) }])
+    ),
+    orderingVerdictAccuracy: ratio(verdictsCorrect, fixtures.length)
+  };
+
+  console.log('\n📊 Per-vendor precision / recall\n');
+  console.log(`${'Vendor'.padEnd(40)} ${'TP'.padStart(3)} ${'FP'.padStart(3)} ${'FN'.padStart(3)}  Precision        Recall`);
+  for (const [ref, { precision, recall }] of Object.entries(current.vendors)) {
+    const s = score(ref);
+    const previous = baseline?.vendors[ref];
+    console.log(
+      `${ref.padEnd(40)} ${String(s.truePositives).padStart(3)} ${String(s.falsePositives).padStart(3)} ${String(s.falseNegatives).padStart(3)}  ` +
+      `${(precision.toFixed(3) + formatDelta(precision, previous?.precision)).padEnd(17)}${recall.toFixed(3)}${formatDelta(recall, previous?.recall)}`
+    );
+  }
+
+  const totals = [...scores.values()].reduce(
+    (acc, s) => ({
+      truePositives: acc.truePositives + s.truePositives,
+      falsePositives: acc.falsePositives + s.falsePositives,
+      falseNegatives: acc.falseNegatives + s.falseNegatives
+    }),
+    { truePositives: 0, falsePositives: 0, falseNegatives: 0 }
+  );
+
+  console.log(`\nOverall precision ${precisionOf(totals).toFixed(3)}, recall ${recallOf(totals).toFixed(3)}`);
+  console.log(`Ordering verdict accuracy ${current.orderingVerdictAccuracy.toFixed(3)}${formatDelta(current.orderingVerdictAccuracy, baseline?.orderingVerdictAccuracy)}`);
+  console.log(`${exactMatches}/${fixtures.length} fixtures matched exactly`);
+
+  if (UPDATE_BASELINE || !baseline) {
+    writeFileSync(BASELINE_PATH, JSON.stringify(current, null, 2) + '\n');
+    console.log(`\n💾 Baseline written to ${BASELINE_PATH}`);
+    return;
+  }
+
+  // A vendor missing from the baseline only counts if it scores below 1
+  const regressions = Object.entries(current.vendors).filter(([ref, { precision, recall }]) => {
+    const previous = baseline.vendors[ref] || { precision: 1, recall: 1 };
+    return precision < previous.precision || recall < previous.recall;
+  });
+  if (current.orderingVerdictAccuracy < baseline.orderingVerdictAccuracy) {
+    regressions.push(['orderingVerdict', { precision: current.orderingVerdictAccuracy, recall: current.orderingVerdictAccuracy }]);
+  }
+
+  assert.deepEqual(
+    regressions.map(([ref]) => ref),
+    [],
+    'Accuracy regressed. Fix the patterns, or rerun with UPDATE_BASELINE=1 if the new scores are intended.'
+  );
+});
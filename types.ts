@@ -28,10 +28,81 @@ export interface GeoLocation {
   lng: number;
 }
 
+export interface GeoBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+// How a search that hits the 100-place Area Insights cap gets split up
+export type SplitStrategy = 'rating' | 'tiles';
+
+// radius: circle around zipCode; zipList: a circle around each of zipCodes; polygon: hand-drawn boundary
+export type TerritoryType = 'radius' | 'zipList' | 'polygon';
+
 export interface SearchArea {
   zipCode: string;
   radiusKm: number;
   center?: GeoLocation;
+  splitStrategy?: SplitStrategy; // Defaults to 'rating'
+  territoryType?: TerritoryType; // Defaults to 'radius'
+  zipCodes?: string[]; // Used when territoryType is 'zipList' (each searched with radiusKm)
+  polygon?: GeoLocation[]; // Used when territoryType is 'polygon' (open ring, 3+ vertices)
+}
+
+export type TechCategory =
+  | 'websitePlatform'
+  | 'onlineOrdering'
+  | 'reservations'
+  | 'delivery'
+  | 'loyaltyOrCRM'
+  | 'pos'
+  | 'otherScripts';
+
+// Which part of a DetectionPattern matched
+export type PatternType = 'domain' | 'scriptSrc' | 'htmlContent' | 'metaTags' | 'linkTags' | 'regex' | 'implied';
+
+export interface PatternMatch {
+  patternType: PatternType;
+  pattern: string; // The signature that matched, e.g. "cdn.olo.com"
+  snippet: string; // Matched markup (trimmed) or URL for domain matches
+  page: string; // Crawled page URL
+}
+
+export interface VendorEvidence {
+  category: TechCategory;
+  vendor: string;
+  pages: string[]; // Crawled page URLs the vendor was detected on
+  matches: PatternMatch[];
+  confidence: number; // 0-100, from the strength of the matches
+}
+
+// Where a site's online ordering lands (see orderingClassifier)
+export type OrderingVerdict = 'first-party' | 'white-label' | 'marketplace-only' | 'none';
+export type OrderingDestination = 'own-domain' | 'white-label' | 'marketplace' | 'external';
+
+export interface OrderingLink {
+  url: string; // Resolved target
+  label: string; // Link/button text
+  page: string; // Crawled page the link was found on
+  destination: OrderingDestination;
+  vendor?: string; // Known white-label vendor or marketplace
+  via?: string; // Own-domain ordering page that handed off to this target
+  unverified?: boolean; // Own-domain link to a page that was not crawled, so its wording is all we know
+}
+
+export interface OrderingClassification {
+  verdict: OrderingVerdict;
+  links: OrderingLink[];
+}
+
+// A restaurant's store page on a delivery marketplace (see marketplacePresence)
+export interface MarketplaceListing {
+  marketplace: string; // Same names as TechStack.delivery, e.g. 'DoorDash'
+  url: string;
+  name: string; // Listing title
+  matchScore: number; // 0-100 name/address similarity
 }
 
 export interface TechStack {
@@ -43,13 +114,47 @@ export interface TechStack {
   pos: string[]; // e.g., ['Toast', 'Square', 'Clover']
   otherScripts: string[]; // e.g., ['Google Analytics 4', 'Meta Pixel']
   confidence: number; // 0-100
-  hasFirstPartyOrdering: boolean; // True if ordering is on their own domain
+  hasFirstPartyOrdering: boolean; // True for first-party or white-label ordering (not marketplace-only)
+  ordering?: OrderingClassification;
+  marketplaceListings?: MarketplaceListing[]; // Found by name/address, whether or not the site links to them
+  pagesCrawled?: string[]; // Homepage first, then followed links
+  evidence?: VendorEvidence[];
+}
+
+export type ChainClassification = 'chain' | 'small-group' | 'independent';
+
+export type LocationGroupSignal = 'domain' | 'name' | 'phone';
+
+export interface LocationGroup {
+  key: string; // Id of the cluster (its lowest placeId), the same in every scan until locations join or drop out
+  locationCount: number; // Distinct places in the cluster, across every scan so far
+  signals: LocationGroupSignal[]; // What linked the locations
+  placeIds: string[];
+}
+
+export interface ChainDetectionResult {
+  isChain: boolean; // Only true for 'chain'; small groups are not chains
+  classification: ChainClassification;
+  chainName?: string;
+  confidence: number; // 0-100
+  reason: string;
+  locationCount?: number; // Set when scanned places cluster into a multi-unit group
+}
+
+export interface RuleContribution {
+  ruleId: string;
+  label: string;
+  points: number;
+  disqualified?: boolean;
 }
 
 export interface FitAnalysis {
   score: number; // 0-100
-  reason: string;
+  reason: string; // Labels of the positive rules that fired
   isIndependent: boolean;
+  profileId: string; // Scoring profile used
+  contributions: RuleContribution[]; // Every rule that fired, with its points
+  disqualifiedBy?: string; // Rule id that zeroed the score
 }
 
 export interface SonicBrandAnalysis {
@@ -64,6 +169,22 @@ export interface SonicBrandAnalysis {
   detectedElements: string[];
 }
 
+export type ContactType = 'email' | 'contactForm' | 'instagram' | 'facebook' | 'tiktok' | 'person';
+
+export interface ContactPoint {
+  type: ContactType;
+  value: string; // Email address, form URL, social handle/page or person's name
+  role?: string; // For people: "Owner", "Executive Chef", ...
+  confidence: number; // 0-100
+  sourceUrl: string; // Crawled page it was found on
+}
+
+export interface ContactDiscovery {
+  contacts: ContactPoint[]; // Highest confidence first
+  primaryEmail?: string; // Best email to send outreach to
+  pagesScanned: number;
+}
+
 export interface SearchFilters {
   includedTypes: string[];
   minRating: number;
@@ -90,8 +211,12 @@ export interface PlaceResult {
   operationalStatus: OperationalStatus;
   // Enrichment fields
   techStack: TechStack;
-  fit: FitAnalysis;
+  fit: FitAnalysis; // Result for the active scoring profile
+  fitByProfile?: Record<string, FitAnalysis>; // Results for every scoring profile, keyed by profile id
   sonicBrand?: SonicBrandAnalysis; // NEW: Sonic brand analysis
+  chain?: ChainDetectionResult;
+  contacts?: ContactDiscovery; // Emails, contact forms, social profiles and owner/chef names from the website
+  detections?: Record<string, unknown>; // Results of registered site detectors beyond tech stack, sonic brand and contacts, by detector id
 }
 
 export interface AggregateResponse {
@@ -103,4 +228,27 @@ export interface AggregateResponse {
     highFitCount: number; // Score > 80
     avgScore: number;
   };
+  coverage?: SearchCoverage; // Only set for tiled searches
+  boundary?: GeoLocation[][]; // Searched territory as polygons (one per ZIP circle or drawn polygon)
+  simulated?: boolean; // Mock places from Simulation Mode (no API key, or the Places API failed)
+}
+
+export type TileStatus = 'complete' | 'truncated' | 'error';
+
+export interface TileCoverage {
+  id: string; // Quadtree path, e.g. "r", "r2", "r21"
+  depth: number;
+  bounds: GeoBounds;
+  count: number; // Places Google reports inside the tile
+  fetched: number; // Place IDs actually returned for the tile
+  status: TileStatus;
+}
+
+export interface SearchCoverage {
+  strategy: SplitStrategy;
+  tiles: TileCoverage[]; // Leaf tiles only
+  truncatedTileIds: string[];
+  fetched: number; // Unique place IDs the tiles returned
+  enriched: number; // Places enriched and scored (capped at maxPlacesForScan)
+  complete: boolean; // True when every leaf tile returned all its places and all of them were enriched
 }
\ No newline at end of file
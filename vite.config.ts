@@ -4,6 +4,10 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, '.', '');
+  // VITE_* variables are compiled into the public bundle; the audio token must stay on the server
+  if (env.VITE_AUDIO_API_TOKEN) {
+    throw new Error('VITE_AUDIO_API_TOKEN would ship the audio API token to browsers. Set AUDIO_API_TOKEN (server-side) instead.');
+  }
   return {
     server: {
       port: 3000,